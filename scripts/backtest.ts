@@ -0,0 +1,83 @@
+import fs from 'fs';
+import { Backtester } from '../server/trading/Backtester.js';
+import { loadCandles } from '../server/trading/HistoricalData.js';
+import { ModelRegistry } from '../server/trading/ModelRegistry.js';
+import type { StrategyConfig } from '../server/trading/strategies/Strategy.js';
+
+// Usage: npm run backtest -- <file.csv|file.json>... [--balance 100000] [--spread 0.001]
+//        [--exchange kraken] [--margin] [--leverage 3] [--enable momentum] [--disable ml-sentiment]
+//        [--models data/models] [--out result.json]
+// --models replays ml-sentiment with the model promoted in that registry instead of the indicator blend
+// Exits non-zero when rebalancing keeps buying back what the risk exits sell.
+const MAX_EXIT_REBUYS = 3;
+
+async function main() {
+  const args = process.argv.slice(2);
+  const files: string[] = [];
+  let initialBalance: number | undefined;
+  let spread: number | undefined;
+  let outFile: string | undefined;
+  let exchange: string | undefined;
+  let margin = false;
+  let leverage: number | undefined;
+  let modelDir: string | undefined;
+  const strategies: Record<string, StrategyConfig> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--balance') initialBalance = Number(args[++i]);
+    else if (args[i] === '--spread') spread = Number(args[++i]);
+    else if (args[i] === '--out') outFile = args[++i];
+    else if (args[i] === '--exchange') exchange = args[++i];
+    else if (args[i] === '--margin') margin = true;
+    else if (args[i] === '--leverage') leverage = Number(args[++i]);
+    else if (args[i] === '--enable') strategies[args[++i]] = { enabled: true };
+    else if (args[i] === '--disable') strategies[args[++i]] = { enabled: false };
+    else if (args[i] === '--models') modelDir = args[++i];
+    else files.push(args[i]);
+  }
+
+  if (files.length === 0) {
+    console.error('Usage: npm run backtest -- <file.csv|file.json>... [--balance N] [--spread N] [--exchange name] [--margin] [--leverage N] [--enable name] [--disable name] [--models dir] [--out result.json]');
+    process.exit(1);
+  }
+
+  const candles = files.flatMap(file => loadCandles(file));
+  console.log(`Replaying ${candles.length} candles from ${files.length} file(s)...`);
+
+  const result = await new Backtester({
+    initialBalance,
+    spread,
+    strategies,
+    execution: { exchange },
+    margin: { enabled: margin, defaultLeverage: leverage },
+    models: modelDir ? new ModelRegistry({ dir: modelDir }) : null,
+  }).run(candles);
+  const { stats } = result;
+
+  console.log(`Period:        ${new Date(stats.startTime).toISOString()} -> ${new Date(stats.endTime).toISOString()} (${stats.bars} bars)`);
+  console.log(`Final equity:  $${stats.finalEquity.toFixed(2)} (${(stats.totalReturn * 100).toFixed(2)}%)`);
+  console.log(`Max drawdown:  ${(stats.maxDrawdown * 100).toFixed(2)}%`);
+  console.log(`Sharpe ratio:  ${stats.sharpeRatio.toFixed(2)} (Sortino ${stats.performance.sortinoRatio.toFixed(2)})`);
+  console.log(`Profit factor: ${stats.performance.profitFactor === null ? 'n/a' : stats.performance.profitFactor.toFixed(2)}`);
+  console.log(`Trades:        ${stats.totalTrades} executed, ${stats.failedTrades} failed`);
+  console.log(`Fees paid:     $${stats.totalFees.toFixed(2)}`);
+  console.log(`Win rate:      ${stats.winRate.toFixed(1)}% over ${stats.closedTrades} closed trades`);
+  if (stats.halted) {
+    console.log('Fail-safe tripped: max drawdown reached, replay halted early.');
+  }
+  // Stops selling what rebalancing buys back is a loop that only pays fees
+  if (stats.exitRebuys > MAX_EXIT_REBUYS) {
+    console.log(`Churn: rebalancing bought back ${stats.exitRebuys} risk exits (max ${MAX_EXIT_REBUYS}).`);
+    process.exitCode = 1;
+  }
+
+  if (outFile) {
+    fs.writeFileSync(outFile, JSON.stringify(result, null, 2));
+    console.log(`Full result written to ${outFile}`);
+  }
+}
+
+main().catch(error => {
+  console.error('Backtest failed:', error);
+  process.exit(1);
+});
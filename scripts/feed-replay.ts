@@ -0,0 +1,108 @@
+import fs from 'fs';
+import http from 'http';
+import readline from 'readline';
+import WebSocket, { WebSocketServer } from 'ws';
+import { BinanceFeedAdapter } from '../server/trading/MarketDataFeed.js';
+import { DEFAULT_CONFIG } from '../server/trading/ConfigManager.js';
+
+// Records Binance depth/trade/ticker streams to JSONL, or replays a recording as a local
+// stand-in for the exchange (WebSocket streams plus the REST depth snapshot endpoint).
+//
+// Usage: npm run feed -- record <out.jsonl> [--pairs BTC/USDT,ETH/USDT] [--seconds 60]
+//        npm run feed -- replay <in.jsonl> [--port 9001] [--speed 1]
+// Then start the server with BINANCE_WS_URL=ws://localhost:9001 BINANCE_REST_URL=http://localhost:9001
+
+interface RecordedLine {
+  t: number; // Milliseconds since the recording started
+  kind: 'message' | 'snapshot';
+  symbol?: string; // Snapshots only
+  body: any;
+}
+
+async function record(file: string, pairs: string[], seconds: number) {
+  const adapter = new BinanceFeedAdapter();
+  const out = fs.createWriteStream(file);
+  const started = Date.now();
+  const write = (line: Omit<RecordedLine, 't'>) => out.write(JSON.stringify({ t: Date.now() - started, ...line }) + '\n');
+
+  const socket = new WebSocket(adapter.url(pairs));
+  socket.on('message', (raw) => write({ kind: 'message', body: JSON.parse(raw.toString()) }));
+  await new Promise<void>((resolve, reject) => {
+    socket.once('open', () => resolve());
+    socket.once('error', reject);
+  });
+  console.log(`Recording ${pairs.join(', ')} for ${seconds}s...`);
+
+  // Snapshots are taken after the stream has started, as a live client would
+  await new Promise(resolve => setTimeout(resolve, 1000));
+  for (const pair of pairs) {
+    const response = await fetch(`https://api.binance.com/api/v3/depth?symbol=${pair.replace('/', '')}&limit=1000`);
+    write({ kind: 'snapshot', symbol: pair.replace('/', ''), body: await response.json() });
+  }
+
+  await new Promise(resolve => setTimeout(resolve, seconds * 1000));
+  socket.close();
+  out.end();
+  console.log(`Wrote ${file}`);
+}
+
+async function replay(file: string, port: number, speed: number) {
+  const lines: RecordedLine[] = [];
+  for await (const line of readline.createInterface({ input: fs.createReadStream(file) })) {
+    if (line.trim()) lines.push(JSON.parse(line));
+  }
+  const snapshots = new Map<string, any>();
+  for (const line of lines) {
+    if (line.kind === 'snapshot' && line.symbol && !snapshots.has(line.symbol)) snapshots.set(line.symbol, line.body);
+  }
+  const messages = lines.filter(line => line.kind === 'message');
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+    const snapshot = url.pathname === '/api/v3/depth' ? snapshots.get(url.searchParams.get('symbol') ?? '') : undefined;
+    res.writeHead(snapshot ? 200 : 404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(snapshot ?? { msg: 'Not recorded' }));
+  });
+
+  // Each connection gets the recording from the start, paced by the original timestamps
+  const wss = new WebSocketServer({ server });
+  wss.on('connection', (ws) => {
+    const timers = messages.map(line => setTimeout(() => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(line.body));
+    }, line.t / speed));
+    ws.on('close', () => timers.forEach(clearTimeout));
+  });
+
+  server.listen(port, () => {
+    console.log(`Replaying ${messages.length} messages and ${snapshots.size} snapshots on ws://localhost:${port} (speed ${speed}x)`);
+  });
+}
+
+async function main() {
+  const [command, file, ...rest] = process.argv.slice(2);
+  let pairs = DEFAULT_CONFIG.pairs;
+  let seconds = 60;
+  let port = 9001;
+  let speed = 1;
+
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '--pairs') pairs = rest[++i].split(',');
+    else if (rest[i] === '--seconds') seconds = Number(rest[++i]);
+    else if (rest[i] === '--port') port = Number(rest[++i]);
+    else if (rest[i] === '--speed') speed = Number(rest[++i]);
+  }
+
+  if (command === 'record' && file) {
+    await record(file, pairs, seconds);
+  } else if (command === 'replay' && file) {
+    await replay(file, port, speed);
+  } else {
+    console.error('Usage: npm run feed -- record <out.jsonl> [--pairs A/B,C/D] [--seconds N] | replay <in.jsonl> [--port N] [--speed N]');
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,231 @@
+import { AlertManager } from '../server/trading/AlertManager.js';
+import { RiskManager } from '../server/trading/RiskManager.js';
+import { OrderManager } from '../server/trading/OrderManager.js';
+import { LiveBroker, ExchangeClient } from '../server/trading/LiveBroker.js';
+
+// Local stand-in for a live exchange: an in-memory ExchangeClient that rounds amounts down to a lot
+// size as ccxt does, fills market orders over one or two polls, rests limit orders until the price
+// crosses and keeps balances. Run on its own, it walks orders through the live path (place, poll,
+// fill, reconcile) with the real LiveBroker, OrderManager and RiskManager, and exits non-zero when
+// the local book and the exchange disagree.
+//
+// Usage: npm run mock-exchange -- [--lot 0.00001] [--partial 0.5] [--fee 0.001] [--balance 100000] [--no-precision]
+// --partial F fills market orders in two polls, F of the amount on the first.
+// --no-precision hides the lot size from the broker, so the venue closes orders short of their amount.
+
+const PAIR = 'BTC/USDT';
+
+interface MockOrder {
+  id: string;
+  symbol: string;
+  type: string;
+  side: string;
+  amount: number;
+  price?: number;
+  filled: number;
+  cost: number;
+  fee: number;
+  status: 'open' | 'closed' | 'canceled';
+  polls: number;
+}
+
+interface MockOptions {
+  lot: number;
+  partial: number; // Share of a market order filled on its first poll; 1 fills it at once
+  feeRate: number;
+  balance: number;
+  precision: boolean; // Whether amountToPrecision is offered
+}
+
+class MockExchange implements ExchangeClient {
+  private lot: number;
+  private decimals: number;
+  private partial: number;
+  private feeRate: number;
+  private marketsLoaded = false;
+  private nextId = 1;
+  private orders: Map<string, MockOrder> = new Map();
+  private balances: Record<string, number>;
+  public price: number;
+
+  constructor(options: MockOptions, price: number) {
+    this.lot = options.lot;
+    this.decimals = Math.max(0, Math.ceil(-Math.log10(options.lot)));
+    this.partial = options.partial;
+    this.feeRate = options.feeRate;
+    this.balances = { USDT: options.balance, BTC: 0 };
+    this.price = price;
+  }
+
+  public async loadMarkets() {
+    this.marketsLoaded = true;
+    return { [PAIR]: { precision: { amount: this.lot } } };
+  }
+
+  // ccxt truncates to the lot size and needs the markets for it
+  public amountToPrecision(symbol: string, amount: number): string {
+    if (!this.marketsLoaded) throw new Error('markets not loaded');
+    return this.truncate(amount).toFixed(this.decimals);
+  }
+
+  public async createOrder(symbol: string, type: string, side: string, amount: number, price?: number) {
+    // The venue works whatever fits its lot size, as ccxt would round it before sending
+    const rounded = this.truncate(amount);
+    if (rounded <= 0) throw new Error(`amount ${amount} is below the lot size ${this.lot}`);
+    const order: MockOrder = { id: String(this.nextId++), symbol, type, side, amount: rounded, price, filled: 0, cost: 0, fee: 0, status: 'open', polls: 0 };
+    this.orders.set(order.id, order);
+    console.log(`[exchange] createOrder #${order.id} ${side} ${type} ${amount} -> working ${rounded}${price ? ` @ ${price}` : ''}`);
+    return { id: order.id };
+  }
+
+  public async cancelOrder(id: string) {
+    const order = this.get(id);
+    if (order.status === 'open') order.status = 'canceled';
+    console.log(`[exchange] cancelOrder #${id} -> ${order.status}`);
+    return { id };
+  }
+
+  // Executions happen as orders are polled, so every poll is a step of the venue's matching
+  public async fetchOrder(id: string) {
+    const order = this.get(id);
+    if (order.status === 'open') {
+      order.polls++;
+      if (order.type === 'market') {
+        this.execute(order, order.polls === 1 ? this.truncate(order.amount * this.partial) : order.amount - order.filled, this.price);
+      } else if (order.side === 'buy' ? this.price <= (order.price as number) : this.price >= (order.price as number)) {
+        this.execute(order, order.amount - order.filled, order.price as number);
+      }
+    }
+    return {
+      id,
+      status: order.status,
+      filled: order.filled,
+      cost: order.cost,
+      average: order.filled > 0 ? order.cost / order.filled : undefined,
+      fee: { cost: order.fee, currency: 'USDT' },
+    };
+  }
+
+  public async fetchBalance() {
+    return { total: { ...this.balances } };
+  }
+
+  private execute(order: MockOrder, amount: number, price: number) {
+    if (amount > 0) {
+      const cost = amount * price;
+      const fee = cost * this.feeRate;
+      order.filled += amount;
+      order.cost += cost;
+      order.fee += fee;
+      this.balances.BTC += order.side === 'buy' ? amount : -amount;
+      this.balances.USDT += (order.side === 'buy' ? -cost : cost) - fee;
+    }
+    if (order.amount - order.filled <= 1e-12) order.status = 'closed';
+  }
+
+  private truncate(amount: number): number {
+    return Number((Math.floor(amount / this.lot + 1e-9) * this.lot).toFixed(this.decimals));
+  }
+
+  private get(id: string): MockOrder {
+    const order = this.orders.get(id);
+    if (!order) throw new Error(`order ${id} not found`);
+    return order;
+  }
+}
+
+let failures = 0;
+function check(condition: boolean, message: string) {
+  console.log(`${condition ? 'ok  ' : 'FAIL'} ${message}`);
+  if (!condition) failures++;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const options: MockOptions = { lot: 0.00001, partial: 0.5, feeRate: 0.001, balance: 100000, precision: true };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--lot') options.lot = Number(args[++i]);
+    else if (args[i] === '--partial') options.partial = Number(args[++i]);
+    else if (args[i] === '--fee') options.feeRate = Number(args[++i]);
+    else if (args[i] === '--balance') options.balance = Number(args[++i]);
+    else if (args[i] === '--no-precision') options.precision = false;
+    else {
+      console.error('Usage: npm run mock-exchange -- [--lot N] [--partial F] [--fee F] [--balance N] [--no-precision]');
+      process.exit(1);
+    }
+  }
+
+  const exchange = new MockExchange(options, 50000);
+  const client: ExchangeClient = options.precision ? exchange : {
+    createOrder: (symbol, type, side, amount, price) => exchange.createOrder(symbol, type, side, amount, price),
+    cancelOrder: (id) => exchange.cancelOrder(id),
+    fetchOrder: (id) => exchange.fetchOrder(id),
+    fetchBalance: () => exchange.fetchBalance(),
+  };
+  const quote = () => ({ [PAIR]: { last: exchange.price, bid: exchange.price - 1, ask: exchange.price + 1, volume: 1000, exchange: 'mock' } });
+  const alerts = new AlertManager({ notifications: false });
+  const risk = new RiskManager(alerts, options.balance);
+  const orders = new OrderManager(risk, alerts);
+  const broker = new LiveBroker({
+    mode: 'live',
+    clients: { mock: client },
+    pairs: [PAIR],
+    reconcileIntervalMs: Number.MAX_SAFE_INTEGER, // Reconciled explicitly below, so drift isn't papered over
+    onFill: (orderId, fill) => orders.applyFill(orderId, fill.price, fill.amount, fill.fee, fill.venue),
+    onStatus: (orderId, status, reason) => orders.applyExchangeStatus(orderId, status, reason),
+    onBalances: (snapshot) => risk.reconcile(snapshot.balance, snapshot.amounts, quote()),
+    log: (message) => console.log(`[broker] ${message}`),
+  });
+  orders.setExecutor(broker);
+
+  const poll = async (times: number) => {
+    for (let i = 0; i < times; i++) await broker.sync();
+  };
+
+  console.log('\nMarket buy of an amount finer than the lot size');
+  const buy = orders.submit({ pair: PAIR, side: 'BUY', type: 'MARKET', amount: 0.123456789 }, quote());
+  await poll(3);
+  check(buy.status === 'FILLED', `status is ${buy.status}`);
+  if (options.precision) {
+    check(Math.abs(buy.filledAmount - buy.amount) <= 1e-9, `booked ${buy.amount}, filled ${buy.filledAmount}`);
+  }
+  check(buy.reserved === 0, `hold released (${buy.reserved} left)`);
+  check(broker.getTrackedCount() === 0, `broker tracks ${broker.getTrackedCount()} orders`);
+
+  console.log('\nResting limit sell, filled once the price crosses');
+  const sell = orders.submit({ pair: PAIR, side: 'SELL', type: 'LIMIT', amount: 0.05, price: 51000 }, quote());
+  await poll(1);
+  check(sell.status === 'NEW', `status is ${sell.status} below the limit`);
+  exchange.price = 51500;
+  await poll(1);
+  check(sell.status === 'FILLED', `status is ${sell.status} after the cross`);
+
+  console.log('\nResting limit buy, canceled locally');
+  const bid = orders.submit({ pair: PAIR, side: 'BUY', type: 'LIMIT', amount: 0.02, price: 45000 }, quote());
+  await poll(1);
+  orders.cancel(bid.id);
+  await poll(1);
+  check(bid.status === 'CANCELED' && bid.reserved === 0, `status is ${bid.status}, ${bid.reserved} held`);
+
+  console.log('\nBooked fills against the exchange balances');
+  const { total } = await exchange.fetchBalance();
+  const portfolio = risk.getPortfolio();
+  check(Math.abs(portfolio.balance - total.USDT) <= 1e-6, `cash ${portfolio.balance.toFixed(2)} vs exchange ${total.USDT.toFixed(2)}`);
+  const position = portfolio.positions[PAIR]?.amount ?? 0;
+  check(Math.abs(position - total.BTC) <= 1e-9, `position ${position} vs exchange ${total.BTC}`);
+  const snapshot = await broker.reconcile();
+  check(snapshot !== null && risk.getPortfolio().balance === snapshot.balance, 'reconcile leaves the book on the exchange balances');
+
+  console.log('\nExchange fill the local book has no room for');
+  const exit = orders.submit({ pair: PAIR, side: 'SELL', type: 'MARKET', amount: 0.06 }, quote());
+  (risk.getPortfolio().positions[PAIR] as { amount: number }).amount = 0.03; // As after a fill missed locally
+  await poll(3);
+  const after = (await exchange.fetchBalance()).total;
+  check(exit.status === 'FILLED', `status is ${exit.status}`);
+  check(Math.abs((risk.getPortfolio().positions[PAIR]?.amount ?? 0) - after.BTC) <= 1e-9, `position ${risk.getPortfolio().positions[PAIR]?.amount ?? 0} reconciled to exchange ${after.BTC}`);
+
+  console.log(failures === 0 ? '\nLocal book matches the exchange' : `\n${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,118 @@
+import http from 'http';
+import net from 'net';
+
+// Local stand-in for notification endpoints: one HTTP server that accepts webhook, Slack and
+// Telegram Bot API posts, and one SMTP server that accepts mail. Everything received is printed.
+//
+// Usage: npm run notify-standin -- [--http-port 9002] [--smtp-port 2525] [--fail 2]
+// --fail N refuses the first N HTTP requests (500) and the first N messages (451) to exercise retries.
+// Then start the server with, for example:
+//   NOTIFY_WEBHOOK_URL=http://localhost:9002/webhook NOTIFY_SLACK_URL=http://localhost:9002/slack
+//   NOTIFY_TELEGRAM_TOKEN=test NOTIFY_TELEGRAM_CHAT_ID=1 NOTIFY_TELEGRAM_API_URL=http://localhost:9002
+//   NOTIFY_EMAIL_HOST=localhost NOTIFY_EMAIL_PORT=2525 NOTIFY_EMAIL_FROM=bot@localhost NOTIFY_EMAIL_TO=me@localhost
+
+function startHttp(port: number, failures: { remaining: number }) {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      if (failures.remaining > 0) {
+        failures.remaining--;
+        console.log(`[http] ${req.method} ${req.url} -> 500 (simulated failure)`);
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: false, description: 'Simulated failure' }));
+        return;
+      }
+      const signature = req.headers['x-signature'] ? ` signature=${req.headers['x-signature']}` : '';
+      console.log(`[http] ${req.method} ${req.url}${signature}\n${body}`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true })); // Telegram checks "ok"; the others only check the status
+    });
+  });
+  server.listen(port, () => console.log(`HTTP stand-in on http://localhost:${port}`));
+}
+
+// Enough of SMTP for a client: greeting, EHLO, AUTH, MAIL, RCPT, DATA, QUIT. No STARTTLS is offered.
+function startSmtp(port: number, failures: { remaining: number }) {
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let message: string[] = [];
+    let envelope = { from: '', to: [] as string[] };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply('220 localhost notify-standin');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (inData) {
+          if (line !== '.') {
+            message.push(line.startsWith('..') ? line.slice(1) : line);
+            continue;
+          }
+          inData = false;
+          if (failures.remaining > 0) {
+            failures.remaining--;
+            console.log(`[smtp] message from ${envelope.from} -> 451 (simulated failure)`);
+            reply('451 Simulated failure');
+          } else {
+            console.log(`[smtp] from ${envelope.from} to ${envelope.to.join(', ')}\n${message.join('\n')}`);
+            reply('250 Queued');
+          }
+          message = [];
+          continue;
+        }
+
+        const command = line.split(' ')[0].toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          reply('250-localhost');
+          reply('250 AUTH PLAIN');
+        } else if (command === 'AUTH') {
+          reply('235 Authenticated');
+        } else if (command === 'MAIL') {
+          envelope = { from: line.replace(/^MAIL FROM:\s*/i, ''), to: [] };
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          envelope.to.push(line.replace(/^RCPT TO:\s*/i, ''));
+          reply('250 OK');
+        } else if (command === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+    socket.on('error', () => {});
+  });
+  server.listen(port, () => console.log(`SMTP stand-in on localhost:${port}`));
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  let httpPort = 9002;
+  let smtpPort = 2525;
+  let fail = 0;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--http-port') httpPort = Number(args[++i]);
+    else if (args[i] === '--smtp-port') smtpPort = Number(args[++i]);
+    else if (args[i] === '--fail') fail = Number(args[++i]);
+    else {
+      console.error('Usage: npm run notify-standin -- [--http-port N] [--smtp-port N] [--fail N]');
+      process.exit(1);
+    }
+  }
+
+  startHttp(httpPort, { remaining: fail });
+  startSmtp(smtpPort, { remaining: fail });
+}
+
+main();
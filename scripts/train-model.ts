@@ -0,0 +1,58 @@
+import os from 'os';
+import { loadCandles } from '../server/trading/HistoricalData.js';
+import { ModelRegistry } from '../server/trading/ModelRegistry.js';
+import { trainModel, TrainingOptions } from '../server/trading/PredictionModel.js';
+
+// Usage: npm run train -- <file.csv|file.json>... [--horizon 1] [--folds 5] [--epochs 300]
+//        [--learning-rate 0.1] [--l2 0.001] [--dir data/models] [--promote]
+async function main() {
+  const args = process.argv.slice(2);
+  const files: string[] = [];
+  const options: TrainingOptions = {};
+  let dir = process.env.MODEL_DIR || 'data/models';
+  let promote = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--horizon') options.horizon = Number(args[++i]);
+    else if (args[i] === '--folds') options.folds = Number(args[++i]);
+    else if (args[i] === '--epochs') options.epochs = Number(args[++i]);
+    else if (args[i] === '--learning-rate') options.learningRate = Number(args[++i]);
+    else if (args[i] === '--l2') options.l2 = Number(args[++i]);
+    else if (args[i] === '--dir') dir = args[++i];
+    else if (args[i] === '--promote') promote = true;
+    else files.push(args[i]);
+  }
+
+  if (files.length === 0) {
+    console.error('Usage: npm run train -- <file.csv|file.json>... [--horizon N] [--folds N] [--epochs N] [--learning-rate N] [--l2 N] [--dir path] [--promote]');
+    process.exit(1);
+  }
+
+  const candles = files.flatMap(file => loadCandles(file));
+  console.log(`Training on ${candles.length} candles from ${files.length} file(s)...`);
+
+  const registry = new ModelRegistry({ dir });
+  const model = registry.save(trainModel(candles, options), os.userInfo().username);
+  const { training, validation } = model;
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  console.log(`Model v${model.version}: ${model.algorithm} on ${training.samples} samples (${training.pairs.join(', ')}), ${model.timeframe} bars, ${model.horizon} ahead`);
+  for (const [i, fold] of validation.folds.entries()) {
+    console.log(`  Fold ${i + 1}: train ${fold.trainSamples}, test ${fold.testSamples} `
+      + `(${new Date(fold.testFrom).toISOString()} -> ${new Date(fold.testTo).toISOString()}) `
+      + `accuracy ${pct(fold.accuracy)}, baseline ${pct(fold.baselineAccuracy)}, log loss ${fold.logLoss.toFixed(4)}`);
+  }
+  console.log(`Walk-forward accuracy: ${pct(validation.accuracy)} over ${validation.testSamples} predictions (baseline ${pct(validation.baselineAccuracy)}, log loss ${validation.logLoss.toFixed(4)})`);
+  console.log(`In-sample accuracy:    ${pct(training.accuracy)}`);
+
+  if (promote) {
+    registry.promote(model.version, os.userInfo().username);
+  } else {
+    console.log(`Saved to ${dir}/v${model.version}.json; promote with --promote or POST /api/models/${model.version}/promote`);
+  }
+}
+
+main().catch(error => {
+  console.error('Training failed:', error);
+  process.exit(1);
+});
@@ -1,36 +1,755 @@
 import express from 'express';
 import { createServer as createViteServer } from 'vite';
-import { WebSocketServer } from 'ws';
+import { WebSocketServer, WebSocket } from 'ws';
 import http from 'http';
-import { TradingEngine } from './server/trading/Engine.js';
+import path from 'path';
+import { Backtester } from './server/trading/Backtester.js';
+import { loadCandles } from './server/trading/HistoricalData.js';
+import { TradingDatabase } from './server/trading/Database.js';
+import { TIMEFRAMES, Timeframe } from './server/trading/CandleAggregator.js';
+import { PERFORMANCE_WINDOWS, PerformanceWindow } from './server/trading/PerformanceAnalyzer.js';
+import { DefaultExecutionModel } from './server/trading/ExecutionModel.js';
+import type { TradingMode } from './server/trading/LiveBroker.js';
+import { BinanceFeedAdapter } from './server/trading/MarketDataFeed.js';
+import { ModelRegistry } from './server/trading/ModelRegistry.js';
+import { trainModel } from './server/trading/PredictionModel.js';
+import { SentimentAnalyzer } from './server/trading/SentimentAnalyzer.js';
+import { createSentimentSources } from './server/trading/SentimentSources.js';
+import { createSentimentScorer } from './server/trading/SentimentScorers.js';
+import { NotificationQueue } from './server/trading/NotificationQueue.js';
+import { createNotificationRoutes } from './server/trading/NotificationChannels.js';
+import { AuthManager, Principal, SESSION_ENDED, bearerToken, requireRole } from './server/trading/AuthManager.js';
+import { AccountManager, Account, MAIN_ACCOUNT } from './server/trading/AccountManager.js';
 
 async function startServer() {
   const app = express();
   const server = http.createServer(app);
   const PORT = 3000;
+  const BACKTEST_DATA_DIR = path.resolve(process.env.BACKTEST_DATA_DIR || 'data/historical');
 
-  // Setup WebSocket Server for real-time updates
-  const wss = new WebSocketServer({ server });
-  
-  // Initialize Trading Engine
-  const engine = new TradingEngine(wss);
-  engine.start();
+  app.use(express.json());
+
+  // Open the state database (runs pending migrations)
+  const database = new TradingDatabase(process.env.DATABASE_PATH || 'data/trading.db');
+
+  // Users, sessions and API tokens. The first run creates an admin from ADMIN_USERNAME/ADMIN_PASSWORD,
+  // or with a generated password that is printed once.
+  const auth = new AuthManager({
+    database,
+    sessionTtlMs: process.env.SESSION_TTL_HOURS ? Number(process.env.SESSION_TTL_HOURS) * 60 * 60_000 : undefined,
+  });
+  const adminUsername = process.env.ADMIN_USERNAME || 'admin';
+  const generatedPassword = auth.bootstrap(adminUsername, process.env.ADMIN_PASSWORD);
+  if (generatedPassword) {
+    console.log(`Created admin user "${adminUsername}" with password: ${generatedPassword}`);
+  }
+
+  // Setup WebSocket Server for real-time updates. Browsers can't set headers on a WebSocket,
+  // so the token may also come as ?token=
+  const socketToken = (req: http.IncomingMessage) => bearerToken(req.headers.authorization) ?? new URL(req.url ?? '/', 'http://localhost').searchParams.get('token');
+  const wss = new WebSocketServer({
+    server,
+    verifyClient: ({ req }, done) => {
+      if (auth.authenticate(socketToken(req))) {
+        done(true);
+      } else {
+        done(false, 401, 'Unauthorized');
+      }
+    },
+  });
+
+  // Sockets by the token they opened with. They close on logout, and the sweep closes those whose
+  // session expired or whose token, user or session was revoked since.
+  const socketsByToken = new Map<string, Set<WebSocket>>();
+  const closeSockets = (token: string) => {
+    for (const ws of socketsByToken.get(token) ?? []) {
+      ws.close(SESSION_ENDED, 'Session ended');
+    }
+    socketsByToken.delete(token);
+  };
+  wss.on('connection', (ws, req) => {
+    const token = socketToken(req) as string;
+    const sockets = socketsByToken.get(token) ?? new Set<WebSocket>();
+    socketsByToken.set(token, sockets.add(ws));
+    ws.on('close', () => {
+      sockets.delete(ws);
+      if (sockets.size === 0 && socketsByToken.get(token) === sockets) socketsByToken.delete(token);
+    });
+  });
+  const sessionSweep = setInterval(() => {
+    for (const token of Array.from(socketsByToken.keys())) {
+      if (!auth.authenticate(token)) closeSockets(token);
+    }
+  }, 30_000);
+
+  // Paper fills are priced at bid/ask with market impact and the venue's fee schedule
+  const execution = new DefaultExecutionModel({
+    exchange: process.env.EXECUTION_EXCHANGE || 'binance',
+    fees: process.env.FEE_SCHEDULES ? JSON.parse(process.env.FEE_SCHEDULES) : undefined,
+  });
+
+  // Margin mode enables shorts and leverage; spot-only unless MARGIN_ENABLED=true
+  const margin = {
+    enabled: process.env.MARGIN_ENABLED === 'true',
+    defaultLeverage: process.env.MARGIN_DEFAULT_LEVERAGE ? Number(process.env.MARGIN_DEFAULT_LEVERAGE) : undefined,
+    leverage: process.env.MARGIN_LEVERAGE ? JSON.parse(process.env.MARGIN_LEVERAGE) : undefined,
+  };
+
+  // Quotes are consolidated across these ccxt venues and orders routed between them
+  const venues = process.env.EXCHANGES ? process.env.EXCHANGES.split(',').map(v => v.trim()).filter(Boolean) : undefined;
+
+  // Order books stream over WebSockets where an adapter exists; the URLs can point at a local replay
+  const streaming = process.env.MARKET_DATA_STREAMING !== 'false';
+  const feeds = {
+    binance: new BinanceFeedAdapter({ wsUrl: process.env.BINANCE_WS_URL, restUrl: process.env.BINANCE_REST_URL }),
+  };
+
+  // paper (default) simulates fills, dry-run also logs the exchange requests, live sends them.
+  // Live requires LIVE_TRADING_CONFIRM to equal the confirmation phrase.
+  const mode = (process.env.TRADING_MODE || 'paper') as TradingMode;
+  const liveConfirmation = process.env.LIVE_TRADING_CONFIRM;
+
+  // Alerts go to every channel configured through NOTIFY_<CHANNEL>_* (webhook, Slack, email, Telegram)
+  const notifier = new NotificationQueue(createNotificationRoutes(), { database });
+  if (notifier.getChannels().length > 0) {
+    console.log(`Notification channels: ${notifier.getChannels().join(', ')}`);
+  }
+  notifier.start();
+
+  // Trained prediction models. MODEL_VERSION promotes that version at startup; otherwise the
+  // version promoted last time is loaded.
+  const models = new ModelRegistry({ dir: process.env.MODEL_DIR || 'data/models' });
+  if (process.env.MODEL_VERSION) {
+    models.promote(Number(process.env.MODEL_VERSION), 'MODEL_VERSION');
+  }
+
+  // News sentiment from RSS feeds and files dropped into SENTIMENT_DROP_DIR, scored by Gemini when
+  // GEMINI_API_KEY is set and by the offline lexicon otherwise
+  const sentimentScorer = createSentimentScorer();
+  const sentiment = new SentimentAnalyzer({
+    sources: createSentimentSources(),
+    scorer: sentimentScorer,
+    database,
+    halfLifeMs: process.env.SENTIMENT_HALF_LIFE_HOURS ? Number(process.env.SENTIMENT_HALF_LIFE_HOURS) * 60 * 60_000 : undefined,
+    pollIntervalMs: process.env.SENTIMENT_POLL_MINUTES ? Number(process.env.SENTIMENT_POLL_MINUTES) * 60_000 : undefined,
+    aliases: process.env.SENTIMENT_ALIASES ? JSON.parse(process.env.SENTIMENT_ALIASES) : undefined,
+  });
+  console.log(`Sentiment scorer: ${sentimentScorer?.name ?? 'lexicon'}`);
+
+  // The main account and every sub-account in the registry, each resuming from its stored state with
+  // its own engine and allocation optimizer. Each account's pairs, allocations, risk limits and signal
+  // thresholds live in its config file, written with defaults on first run; edits to the file and
+  // PUT /api/config are validated and applied without a restart. Sub-accounts keep their database
+  // and config file in ACCOUNTS_DIR.
+  const accounts = new AccountManager({
+    database,
+    configPath: process.env.CONFIG_PATH || 'data/config.json',
+    accountsDir: process.env.ACCOUNTS_DIR || 'data/accounts',
+    wss,
+    engine: { execution, margin, venues, feeds, streaming, mode, liveConfirmation, notifier, models, sentiment },
+  });
+  accounts.start();
+
+  const shutdown = () => {
+    clearInterval(sessionSweep);
+    accounts.stop();
+    notifier.stop();
+    database.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  // Every API route needs a viewer or better except login and the health check;
+  // control routes add requireRole. State-changing requests are audited, rejected ones included.
+  app.use('/api', auth.auditRequests());
+  app.use('/api', auth.requireAuth(['/health', '/auth/login']));
+
+  app.post('/api/auth/login', (req, res) => {
+    try {
+      const { username, password } = req.body ?? {};
+      res.json(auth.login(username, password, req.ip));
+    } catch (error) {
+      res.status(401).json({ error: error instanceof Error ? error.message : 'Login failed' });
+    }
+  });
+
+  app.post('/api/auth/logout', (req, res) => {
+    const token = bearerToken(req.headers.authorization);
+    if (token) {
+      auth.logout(token);
+      closeSockets(token);
+    }
+    res.json({ ok: true });
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    res.json(res.locals.principal);
+  });
+
+  app.get('/api/auth/users', requireRole('admin'), (req, res) => {
+    res.json(auth.listUsers());
+  });
+
+  app.post('/api/auth/users', requireRole('admin'), (req, res) => {
+    try {
+      const { username, password, role } = req.body ?? {};
+      res.json(auth.createUser(username, password, role));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid user' });
+    }
+  });
+
+  app.patch('/api/auth/users/:username', requireRole('admin'), (req, res) => {
+    try {
+      const { role, password } = req.body ?? {};
+      res.json(auth.updateUser(req.params.username, { role, password }));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid user update' });
+    }
+  });
+
+  app.delete('/api/auth/users/:username', requireRole('admin'), (req, res) => {
+    try {
+      auth.deleteUser(req.params.username);
+      res.json({ ok: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid user' });
+    }
+  });
+
+  app.get('/api/auth/tokens', requireRole('admin'), (req, res) => {
+    res.json(auth.listApiTokens());
+  });
+
+  app.post('/api/auth/tokens', requireRole('admin'), (req, res) => {
+    try {
+      const { name, role } = req.body ?? {};
+      res.json(auth.createApiToken(name, role, (res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid token request' });
+    }
+  });
+
+  app.delete('/api/auth/tokens/:id', requireRole('admin'), (req, res) => {
+    try {
+      res.json(auth.revokeApiToken(req.params.id));
+    } catch (error) {
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Token not found' });
+    }
+  });
+
+  app.get('/api/audit', requireRole('admin'), (req, res) => {
+    const { limit = '100' } = req.query as Record<string, string>;
+    res.json(auth.getAuditLog(Number(limit)));
+  });
 
   app.get('/api/health', (req, res) => {
-    res.json({ status: 'ok', engineStatus: engine.getStatus() });
+    const { engine } = accounts.get(MAIN_ACCOUNT);
+    res.json({ status: 'ok', engineStatus: engine.getStatus(), mode: engine.getMode() });
+  });
+
+  // Every account side by side, with totals and positions netted across accounts
+  app.get('/api/accounts', (req, res) => {
+    res.json(accounts.overview());
+  });
+
+  // Creates a sub-account and starts it, e.g. { "name": "aggressive", "initialBalance": 20000,
+  // "strategies": ["momentum"], "config": { "risk": { "maxDrawdown": 0.2 } } }
+  app.post('/api/accounts', requireRole('admin'), (req, res) => {
+    try {
+      res.json(accounts.create(req.body ?? {}, (res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Could not create the account' });
+    }
+  });
+
+  // Routes for one account's engine, config and optimizer. Every account answers under
+  // /api/accounts/:account; the main account also answers directly under /api.
+  const accountRoutes = express.Router();
+  const accountOf = (res: express.Response) => res.locals.account as Account;
+
+  accountRoutes.get('/portfolio', (req, res) => {
+    res.json(accountOf(res).engine.getPortfolio());
+  });
+
+  accountRoutes.put('/positions/exits', requireRole('trader'), (req, res) => {
+    try {
+      const { pair, stopLossPct, takeProfitPct, trailing } = req.body ?? {};
+      res.json(accountOf(res).engine.setPositionExits(pair, { stopLossPct, takeProfitPct, trailing }));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid exit configuration' });
+    }
+  });
+
+  accountRoutes.get('/config', (req, res) => {
+    res.json(accountOf(res).config.getVersion());
+  });
+
+  accountRoutes.put('/config', requireRole('admin'), (req, res) => {
+    try {
+      res.json(accountOf(res).config.update(req.body));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid config' });
+    }
+  });
+
+  accountRoutes.get('/config/history', (req, res) => {
+    const { limit = '20' } = req.query as Record<string, string>;
+    res.json(accountOf(res).config.getHistory(Number(limit)));
+  });
+
+  accountRoutes.post('/config/rollback', requireRole('admin'), (req, res) => {
+    try {
+      res.json(accountOf(res).config.rollback(Number(req.body?.version)));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid config version' });
+    }
+  });
+
+  accountRoutes.get('/optimizer', (req, res) => {
+    res.json({ status: accountOf(res).optimizer.getStatus(), settings: accountOf(res).config.get().optimizer, proposals: accountOf(res).optimizer.getProposals() });
   });
 
-  app.get('/api/portfolio', (req, res) => {
-    res.json(engine.getPortfolio());
+  // Runs the optimizer now. Body fields override the configured method, maxWeight, investedFraction,
+  // riskAversion and lookbackBars for this proposal only.
+  accountRoutes.post('/optimizer/propose', requireRole('trader'), (req, res) => {
+    try {
+      const { method, maxWeight, investedFraction, riskAversion, lookbackBars } = req.body ?? {};
+      const principal = res.locals.principal as Principal;
+      res.json(accountOf(res).optimizer.propose('manual', principal.name, { method, maxWeight, investedFraction, riskAversion, lookbackBars }));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Optimization failed' });
+    }
+  });
+
+  // Makes a pending proposal the target allocations, as a new config version
+  accountRoutes.post('/optimizer/proposals/:id/apply', requireRole('admin'), (req, res) => {
+    try {
+      res.json(accountOf(res).optimizer.apply(Number(req.params.id), (res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Apply failed' });
+    }
+  });
+
+  accountRoutes.get('/rebalance/plans', (req, res) => {
+    const { limit = '20' } = req.query as Record<string, string>;
+    res.json(accountOf(res).engine.getRebalancePlans(Number(limit)));
+  });
+
+  accountRoutes.get('/rebalance/plans/:id', (req, res) => {
+    try {
+      res.json(accountOf(res).engine.getRebalancePlan(req.params.id));
+    } catch (error) {
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Plan not found' });
+    }
+  });
+
+  // What a manual rebalance would trade right now; nothing is submitted or recorded
+  accountRoutes.get('/rebalance/preview', (req, res) => {
+    try {
+      res.json(accountOf(res).engine.previewRebalance((res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Preview failed' });
+    }
+  });
+
+  // Brings every pair back to target now, whatever the policy's trigger
+  accountRoutes.post('/rebalance', requireRole('trader'), (req, res) => {
+    try {
+      res.json(accountOf(res).engine.rebalanceNow((res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Rebalance failed' });
+    }
+  });
+
+  accountRoutes.post('/positions/close', requireRole('trader'), (req, res) => {
+    try {
+      const order = accountOf(res).engine.closePosition(req.body?.pair, (res.locals.principal as Principal).name);
+      if (order.status === 'REJECTED') {
+        return res.status(400).json({ error: order.rejectReason, order });
+      }
+      res.json(order);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Could not close position' });
+    }
+  });
+
+  accountRoutes.post('/positions/flatten', requireRole('trader'), (req, res) => {
+    res.json(accountOf(res).engine.flattenAll((res.locals.principal as Principal).name));
+  });
+
+  // ?confidence=0.95,0.99&horizon=1,24 override the configured levels; ?replay=YYYY-MM-DD picks the stored day to replay
+  accountRoutes.get('/risk', (req, res) => {
+    const numbers = (value: unknown) => typeof value === 'string' ? value.split(',').map(Number) : undefined;
+    try {
+      res.json(accountOf(res).engine.getRiskReport({
+        confidenceLevels: numbers(req.query.confidence),
+        horizonsHours: numbers(req.query.horizon),
+        replayDate: typeof req.query.replay === 'string' ? req.query.replay : undefined,
+      }));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Could not compute the risk report' });
+    }
+  });
+
+  accountRoutes.post('/risk/stress', requireRole('trader'), (req, res) => {
+    try {
+      res.json(accountOf(res).engine.stressTest(req.body?.shocks, typeof req.body?.name === 'string' ? req.body.name : undefined));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Could not run the stress test' });
+    }
+  });
+
+  accountRoutes.get('/risk/pre-trade', (req, res) => {
+    res.json(accountOf(res).engine.getPreTradeStatus());
+  });
+
+  accountRoutes.get('/risk/rejections', (req, res) => {
+    res.json(accountOf(res).engine.getRejections(Number(req.query.limit) || 20));
+  });
+
+  accountRoutes.get('/risk/kill-switch', (req, res) => {
+    res.json(accountOf(res).engine.getKillSwitch(Number(req.query.limit) || 20));
+  });
+
+  accountRoutes.post('/risk/kill-switch/rearm', requireRole('admin'), (req, res) => {
+    try {
+      res.json(accountOf(res).engine.rearmKillSwitch(req.body?.reason, (res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Could not re-arm the kill switch' });
+    }
+  });
+
+  accountRoutes.get('/pairs/paused', (req, res) => {
+    res.json(accountOf(res).engine.getPausedPairs());
+  });
+
+  accountRoutes.post('/pairs/pause', requireRole('trader'), (req, res) => {
+    try {
+      res.json(accountOf(res).engine.pausePair(req.body?.pair, (res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Could not pause pair' });
+    }
+  });
+
+  accountRoutes.post('/pairs/resume', requireRole('trader'), (req, res) => {
+    res.json(accountOf(res).engine.resumePair(req.body?.pair, (res.locals.principal as Principal).name));
+  });
+
+  accountRoutes.get('/alerts', (req, res) => {
+    const { status } = req.query as Record<string, string>;
+    res.json(accountOf(res).engine.getAlerts(status === 'active' ? 'active' : undefined));
+  });
+
+  accountRoutes.post('/alerts/:id/acknowledge', requireRole('trader'), (req, res) => {
+    try {
+      res.json(accountOf(res).engine.acknowledgeAlert(req.params.id, (res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown alert' });
+    }
+  });
+
+  accountRoutes.post('/alerts/:id/resolve', requireRole('trader'), (req, res) => {
+    try {
+      res.json(accountOf(res).engine.resolveAlert(req.params.id, (res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown alert' });
+    }
+  });
+
+  accountRoutes.get('/alert-rules', (req, res) => {
+    res.json(accountOf(res).engine.getAlertRules());
+  });
+
+  accountRoutes.post('/alert-rules', requireRole('trader'), (req, res) => {
+    try {
+      res.json(accountOf(res).engine.createAlertRule(req.body ?? {}, (res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid alert rule' });
+    }
+  });
+
+  accountRoutes.patch('/alert-rules/:id', requireRole('trader'), (req, res) => {
+    try {
+      res.json(accountOf(res).engine.updateAlertRule(req.params.id, req.body ?? {}));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid alert rule' });
+    }
+  });
+
+  accountRoutes.delete('/alert-rules/:id', requireRole('trader'), (req, res) => {
+    try {
+      accountOf(res).engine.deleteAlertRule(req.params.id);
+      res.json({ ok: true });
+    } catch (error) {
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Unknown alert rule' });
+    }
+  });
+
+  accountRoutes.get('/quotes', (req, res) => {
+    res.json(accountOf(res).engine.getQuotes());
+  });
+
+  accountRoutes.get('/feeds', (req, res) => {
+    res.json(accountOf(res).engine.getFeedStatus());
+  });
+
+  accountRoutes.get('/orderbook', (req, res) => {
+    const { venue = 'binance', pair, levels = '20' } = req.query as Record<string, string>;
+    if (!pair) {
+      return res.status(400).json({ error: 'pair is required' });
+    }
+    try {
+      res.json(accountOf(res).engine.getOrderBook(venue, pair, Number(levels)));
+    } catch (error) {
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Order book not found' });
+    }
+  });
+
+  accountRoutes.get('/margin', (req, res) => {
+    res.json(accountOf(res).engine.getMarginStatus());
+  });
+
+  accountRoutes.put('/margin/leverage', requireRole('trader'), (req, res) => {
+    try {
+      const { pair, leverage } = req.body ?? {};
+      if (typeof pair !== 'string') {
+        return res.status(400).json({ error: 'pair is required' });
+      }
+      accountOf(res).engine.setLeverage(pair, Number(leverage));
+      res.json(accountOf(res).engine.getMarginStatus());
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid leverage' });
+    }
+  });
+
+  accountRoutes.get('/performance', (req, res) => {
+    const window = (req.query.window as string) || '1d';
+    if (!(window in PERFORMANCE_WINDOWS)) {
+      return res.status(400).json({ error: `window must be one of ${Object.keys(PERFORMANCE_WINDOWS).join(', ')}` });
+    }
+    res.json(accountOf(res).engine.getPerformance(window as PerformanceWindow));
+  });
+
+  accountRoutes.get('/logs', (req, res) => {
+    res.json(accountOf(res).engine.getLogs());
+  });
+
+  accountRoutes.get('/regimes', (req, res) => {
+    res.json({ regimes: accountOf(res).engine.getRegimes(), policy: accountOf(res).engine.getRegimePolicy() });
+  });
+
+  accountRoutes.get('/sentiment', (req, res) => {
+    const { headlines = '5' } = req.query as Record<string, string>;
+    res.json({ pairs: accountOf(res).engine.getSentiment(Number(headlines)), status: accountOf(res).engine.getSentimentStatus() });
+  });
+
+  accountRoutes.post('/sentiment/refresh', requireRole('trader'), async (req, res) => {
+    try {
+      res.json(await accountOf(res).engine.refreshSentiment());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Sentiment refresh failed' });
+    }
+  });
+
+  accountRoutes.get('/candles', (req, res) => {
+    const { pair, timeframe = '1m', limit = '100' } = req.query as Record<string, string>;
+    if (!pair || !(timeframe in TIMEFRAMES)) {
+      return res.status(400).json({ error: `pair is required and timeframe must be one of ${Object.keys(TIMEFRAMES).join(', ')}` });
+    }
+    res.json(accountOf(res).engine.getCandles(pair, timeframe as Timeframe, Number(limit)));
+  });
+
+  accountRoutes.get('/indicators', (req, res) => {
+    const { pair, timeframe = '1m' } = req.query as Record<string, string>;
+    if (!pair || !(timeframe in TIMEFRAMES)) {
+      return res.status(400).json({ error: `pair is required and timeframe must be one of ${Object.keys(TIMEFRAMES).join(', ')}` });
+    }
+    res.json(accountOf(res).engine.getIndicators(pair, timeframe as Timeframe));
+  });
+
+  accountRoutes.get('/orders', (req, res) => {
+    const { status, limit = '100' } = req.query as Record<string, string>;
+    res.json(status === 'open' ? accountOf(res).engine.getOpenOrders() : accountOf(res).engine.getOrders(Number(limit)));
+  });
+
+  // Manual orders are tagged strategy "manual" with the caller as placedBy. Risk refusals and
+  // orders the order manager rejects both come back as 400s.
+  accountRoutes.post('/orders', requireRole('trader'), (req, res) => {
+    try {
+      const { pair, side, type = 'MARKET', amount, price, stopPrice, timeInForce, expiresAt } = req.body ?? {};
+      const order = accountOf(res).engine.placeManualOrder(
+        { pair, side, type, amount: Number(amount), price, stopPrice, timeInForce, expiresAt },
+        (res.locals.principal as Principal).name,
+      );
+      if (order.status === 'REJECTED') {
+        return res.status(400).json({ error: order.rejectReason, order });
+      }
+      res.json(order);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid order' });
+    }
+  });
+
+  accountRoutes.post('/orders/oco', requireRole('trader'), (req, res) => {
+    try {
+      const { pair, side, amount, price, stopPrice, stopLimitPrice, expiresAt } = req.body ?? {};
+      const legs = accountOf(res).engine.placeManualOco(
+        { pair, side, amount: Number(amount), price, stopPrice, stopLimitPrice, expiresAt },
+        (res.locals.principal as Principal).name,
+      );
+      if (legs[0].status === 'REJECTED') {
+        return res.status(400).json({ error: legs[0].rejectReason, orders: legs });
+      }
+      res.json(legs);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid order' });
+    }
+  });
+
+  accountRoutes.delete('/orders/:id', requireRole('trader'), (req, res) => {
+    try {
+      res.json(accountOf(res).engine.cancelOrder(req.params.id));
+    } catch (error) {
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Order not found' });
+    }
+  });
+
+  accountRoutes.get('/strategies', (req, res) => {
+    res.json(accountOf(res).engine.getStrategies());
+  });
+
+  accountRoutes.patch('/strategies/:name', requireRole('trader'), (req, res) => {
+    try {
+      const { enabled, pairs, params } = req.body ?? {};
+      res.json(accountOf(res).engine.configureStrategy(req.params.name, { enabled, pairs, params }));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid strategy update' });
+    }
+  });
+
+  accountRoutes.post('/engine/toggle', requireRole('trader'), (req, res) => {
+    try {
+      const status = accountOf(res).engine.toggleStatus();
+      res.json({ status });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Could not start the engine', status: accountOf(res).engine.getStatus() });
+    }
+  });
+
+  accountRoutes.get('/engine/mode', (req, res) => {
+    res.json({ mode: accountOf(res).engine.getMode() });
+  });
+
+  accountRoutes.post('/engine/mode', requireRole('admin'), (req, res) => {
+    try {
+      const { mode, confirm } = req.body ?? {};
+      res.json({ mode: accountOf(res).engine.setMode(mode, confirm) });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid mode' });
+    }
+  });
+
+  app.use('/api/accounts/:account', (req, res, next) => {
+    try {
+      res.locals.account = accounts.get(req.params.account);
+      next();
+    } catch (error) {
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Unknown account' });
+    }
+  }, accountRoutes);
+  app.use('/api', (req, res, next) => {
+    res.locals.account = accounts.get(MAIN_ACCOUNT);
+    next();
+  }, accountRoutes);
+
+  app.get('/api/notifications', requireRole('admin'), (req, res) => {
+    const { limit = '50' } = req.query as Record<string, string>;
+    res.json({ channels: notifier.getStatus(), deadLetters: notifier.getDeadLetters(Number(limit)) });
+  });
+
+  app.post('/api/notifications/test', requireRole('admin'), (req, res) => {
+    try {
+      res.json({ queued: notifier.sendTest(req.body?.channel) });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown channel' });
+    }
+  });
+
+  app.post('/api/notifications/dead-letters/:id/retry', requireRole('admin'), (req, res) => {
+    try {
+      res.json(notifier.retryDeadLetter(req.params.id));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown dead letter' });
+    }
+  });
+
+  // Only allow reading from the configured data directory
+  const loadHistorical = (files: string[]) => files.flatMap(file => {
+    const filePath = path.resolve(BACKTEST_DATA_DIR, String(file));
+    if (!filePath.startsWith(BACKTEST_DATA_DIR + path.sep)) {
+      throw new Error(`File outside historical data directory: ${file}`);
+    }
+    return loadCandles(filePath);
+  });
+
+  app.post('/api/backtest', requireRole('trader'), async (req, res) => {
+    const { files, initialBalance, spread, strategies, execution, margin, regime } = req.body ?? {};
+    if (!Array.isArray(files) || files.length === 0) {
+      return res.status(400).json({ error: 'files must be a non-empty array of paths under the historical data directory' });
+    }
+
+    try {
+      const backtester = new Backtester({ initialBalance, spread, strategies, execution, margin, regime, models });
+      res.json(await backtester.run(loadHistorical(files)));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Backtest failed' });
+    }
+  });
+
+  app.get('/api/models', (req, res) => {
+    res.json({ active: models.getActiveVersion(), promotions: models.getPromotions(), models: models.list() });
+  });
+
+  app.get('/api/models/:version', (req, res) => {
+    try {
+      res.json(models.get(Number(req.params.version)));
+    } catch (error) {
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Model not found' });
+    }
+  });
+
+  // Trains on historical files and stores the result as a new version; promoting it is a separate step
+  app.post('/api/models/train', requireRole('admin'), (req, res) => {
+    const { files, horizon, folds, epochs, learningRate, l2 } = req.body ?? {};
+    if (!Array.isArray(files) || files.length === 0) {
+      return res.status(400).json({ error: 'files must be a non-empty array of paths under the historical data directory' });
+    }
+
+    try {
+      const model = trainModel(loadHistorical(files), { horizon, folds, epochs, learningRate, l2 });
+      const { weights, bias, mean, std, ...summary } = models.save(model, (res.locals.principal as Principal).name);
+      res.json(summary);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Training failed' });
+    }
   });
 
-  app.get('/api/logs', (req, res) => {
-    res.json(engine.getLogs());
+  app.post('/api/models/:version/promote', requireRole('admin'), (req, res) => {
+    try {
+      res.json(models.promote(Number(req.params.version), (res.locals.principal as Principal).name));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown model version' });
+    }
   });
 
-  app.post('/api/engine/toggle', (req, res) => {
-    const status = engine.toggleStatus();
-    res.json({ status });
+  app.post('/api/models/rollback', requireRole('admin'), (req, res) => {
+    try {
+      res.json(models.rollback());
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Rollback failed' });
+    }
   });
 
   // Vite middleware for development
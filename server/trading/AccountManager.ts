@@ -0,0 +1,345 @@
+import fs from 'fs';
+import path from 'path';
+import type { WebSocketServer, WebSocket } from 'ws';
+import { TradingEngine, EngineOptions, BUILT_IN_STRATEGIES } from './Engine.js';
+import { TradingDatabase } from './Database.js';
+import { ConfigManager, ConfigPatch, DEFAULT_CONFIG, TradingConfig, mergeConfig, validateConfig } from './ConfigManager.js';
+import { AllocationOptimizer } from './PortfolioOptimizer.js';
+import { SentimentAnalyzer } from './SentimentAnalyzer.js';
+import type { TradingMode } from './LiveBroker.js';
+
+export const MAIN_ACCOUNT = 'main';
+export const ALL_ACCOUNTS = 'all'; // WebSocket clients asking for the aggregated view
+
+export interface AccountRecord {
+  name: string;
+  description: string | null;
+  strategies: string[]; // Built-in strategy names
+  createdBy: string;
+  createdAt: number;
+}
+
+export interface AccountInput {
+  name: string;
+  description?: string;
+  initialBalance?: number;
+  strategies?: string[]; // Built-in strategy names; all of them when omitted
+  config?: ConfigPatch; // Over the defaults, e.g. risk limits, pairs and target allocations
+}
+
+// One isolated book: its own engine, state database, config file and allocation optimizer
+export interface Account {
+  name: string;
+  record: AccountRecord | null; // null for the main account, which isn't in the registry
+  engine: TradingEngine;
+  config: ConfigManager;
+  optimizer: AllocationOptimizer;
+  database: TradingDatabase;
+}
+
+export interface PositionSummary {
+  amount: number;
+  value: number; // At the last price; shorts are negative
+}
+
+export interface AccountSummary {
+  name: string;
+  description: string | null;
+  strategies: string[];
+  createdAt: number | null;
+  isRunning: boolean;
+  mode: TradingMode;
+  killSwitchTripped: boolean;
+  initialBalance: number;
+  balance: number;
+  equity: number;
+  pnl: number;
+  drawdown: number;
+  grossExposure: number;
+  openOrders: number;
+  positions: Record<string, PositionSummary>;
+}
+
+export interface AccountsOverview {
+  accounts: AccountSummary[];
+  total: {
+    running: number;
+    initialBalance: number;
+    balance: number;
+    equity: number;
+    pnl: number;
+    positions: Record<string, PositionSummary>; // Net across accounts
+  };
+}
+
+// What every account's engine is built with; the rest is per account
+export type SharedEngineOptions = Omit<EngineOptions, 'database' | 'config' | 'configVersion' | 'strategies' | 'account' | 'exchange' | 'allowLive' | 'onBroadcast' | 'notificationLabel'>;
+
+export interface AccountManagerOptions {
+  database: TradingDatabase; // The main account's state and the account registry
+  configPath: string; // The main account's config file
+  accountsDir: string; // Each sub-account keeps <name>.db and <name>.json here
+  wss?: WebSocketServer | null;
+  engine?: SharedEngineOptions;
+  clock?: () => number;
+}
+
+const ACCOUNT_NAME = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+// Signal gates only for the account's strategies; the engine rejects gates for strategies it doesn't run
+function withStrategies(config: TradingConfig, strategies: string[]): TradingConfig {
+  const minConfidence = Object.fromEntries(Object.entries(config.signals.minConfidence).filter(([strategy]) => strategies.includes(strategy)));
+  return { ...config, signals: { ...config.signals, minConfidence } };
+}
+
+// The main account plus named sub-accounts, each an isolated book with its own starting balance,
+// risk limits, allocations and strategy set. They run in one process over the main account's market
+// data. Sub-accounts share the exchange keys too, so only the main account may trade live.
+export class AccountManager {
+  private accounts: Map<string, Account> = new Map();
+  private database: TradingDatabase;
+  private configPath: string;
+  private accountsDir: string;
+  private wss: WebSocketServer | null;
+  private shared: SharedEngineOptions;
+  private sentiment: SentimentAnalyzer;
+  private clock: () => number;
+  private overviewClients: Set<WebSocket> = new Set();
+
+  constructor(options: AccountManagerOptions) {
+    this.database = options.database;
+    this.configPath = options.configPath;
+    this.accountsDir = path.resolve(options.accountsDir);
+    this.wss = options.wss ?? null;
+    this.shared = options.engine ?? {};
+    this.clock = options.clock ?? Date.now;
+    // One news poller for every account, so headlines are fetched and scored once
+    this.sentiment = this.shared.sentiment ?? new SentimentAnalyzer({ clock: this.clock });
+
+    this.open(MAIN_ACCOUNT, null);
+    for (const record of this.database.loadAccounts()) {
+      this.open(record.name, record);
+    }
+
+    // Engines take the clients that asked for their account; this takes the rest
+    this.wss?.on('connection', (ws, req) => {
+      const account = new URL(req.url ?? '/', 'http://localhost').searchParams.get('account') ?? MAIN_ACCOUNT;
+      if (account === ALL_ACCOUNTS) {
+        this.overviewClients.add(ws);
+        ws.on('close', () => this.overviewClients.delete(ws));
+        ws.send(JSON.stringify({ type: 'ACCOUNTS_UPDATE', data: this.overview() }));
+      } else if (!this.accounts.has(account)) {
+        ws.close(1008, `Unknown account: ${account}`);
+      }
+    });
+  }
+
+  private open(name: string, record: AccountRecord | null, defaults?: TradingConfig): Account {
+    const main = name === MAIN_ACCOUNT;
+    const database = main ? this.database : new TradingDatabase(path.join(this.accountsDir, `${name}.db`));
+    // What has been opened so far, let go of if a later step fails
+    let opened: { config?: ConfigManager, engine?: TradingEngine } = {};
+    try {
+      const config = new ConfigManager({
+        filePath: main ? this.configPath : path.join(this.accountsDir, `${name}.json`),
+        defaults: defaults ?? (record ? withStrategies(DEFAULT_CONFIG, record.strategies) : undefined),
+        database,
+      });
+      const { config: initial, version } = config.getVersion();
+      opened = { config };
+
+      const engine = new TradingEngine(this.wss, {
+        ...this.shared,
+        sentiment: this.sentiment,
+        database,
+        config: initial,
+        configVersion: version,
+        strategies: record?.strategies.map(strategy => BUILT_IN_STRATEGIES[strategy]({ models: this.shared.models, sentiment: this.sentiment })),
+        account: name,
+        exchange: main ? undefined : this.get(MAIN_ACCOUNT).engine.getExchangeConnector(),
+        mode: !main && this.shared.mode === 'live' ? 'paper' : this.shared.mode,
+        liveConfirmation: main ? this.shared.liveConfirmation : undefined,
+        allowLive: main,
+        notificationLabel: main ? undefined : name,
+        onBroadcast: () => this.broadcastOverview(),
+      });
+      opened = { config, engine };
+      config.onChange((next, version) => engine.applyConfig(next, version));
+      config.watch();
+
+      // Target allocations from the rolling covariance of hourly returns. Scheduled runs follow the
+      // optimizer section of the account's config; a proposal becomes its rebalancing target once applied.
+      const optimizer = new AllocationOptimizer({
+        config: () => config.get(),
+        history: (pair, limit) => engine.getCandles(pair, '1h', limit),
+        apply: (targetAllocations) => config.update({ targetAllocations }, 'optimizer'),
+      });
+
+      const account: Account = { name, record, engine, config, optimizer, database };
+      this.accounts.set(name, account);
+      return account;
+    } catch (error) {
+      opened.config?.unwatch();
+      opened.engine?.dispose();
+      if (!main) database.close();
+      throw error;
+    }
+  }
+
+  // A tripped kill switch survives restarts: that account stays stopped until an admin re-arms it
+  public start() {
+    for (const account of this.accounts.values()) {
+      this.startAccount(account);
+    }
+  }
+
+  private startAccount(account: Account) {
+    const killSwitch = account.engine.getKillSwitch(0);
+    if (killSwitch.tripped) {
+      console.warn(`Kill switch of account "${account.name}" is tripped (${killSwitch.reason}); it stays stopped until an admin re-arms it`);
+    } else {
+      account.engine.start();
+    }
+    account.optimizer.start();
+  }
+
+  // Closes sub-account databases; the main database belongs to the caller
+  public stop() {
+    for (const account of this.accounts.values()) {
+      this.close(account);
+    }
+  }
+
+  private close(account: Account) {
+    account.config.unwatch();
+    account.optimizer.stop();
+    account.engine.dispose();
+    if (account.database !== this.database) account.database.close();
+  }
+
+  public get(name: string): Account {
+    const account = this.accounts.get(name);
+    if (!account) {
+      throw new Error(`Unknown account: ${name}`);
+    }
+    return account;
+  }
+
+  public list(): Account[] {
+    return Array.from(this.accounts.values());
+  }
+
+  // Registers a sub-account and starts trading it. Its config starts from the defaults with the
+  // given overrides; the signal gates follow its strategy set.
+  public create(input: AccountInput, createdBy: string): AccountSummary {
+    const { name } = input ?? {};
+    if (typeof name !== 'string' || !ACCOUNT_NAME.test(name) || name === ALL_ACCOUNTS) {
+      throw new Error(`Account name must be 1-32 lowercase letters, digits or dashes, not starting with a dash, and not "${ALL_ACCOUNTS}"`);
+    }
+    if (this.accounts.has(name)) {
+      throw new Error(`Account already exists: ${name}`);
+    }
+    const strategies = Array.isArray(input.strategies ?? []) ? [...new Set(input.strategies ?? Object.keys(BUILT_IN_STRATEGIES))] : [];
+    if (strategies.length === 0 || strategies.some(strategy => !(strategy in BUILT_IN_STRATEGIES))) {
+      throw new Error(`strategies must be a non-empty list of: ${Object.keys(BUILT_IN_STRATEGIES).join(', ')}`);
+    }
+    if (input.config !== undefined && (typeof input.config !== 'object' || input.config === null || Array.isArray(input.config))) {
+      throw new Error('config must be an object');
+    }
+    // Files left by an account removed from the registry would otherwise be resumed as this one
+    const files = [`${name}.db`, `${name}.json`].map(file => path.join(this.accountsDir, file));
+    if (files.some(file => fs.existsSync(file))) {
+      throw new Error(`${this.accountsDir} already has files for ${name}; move them away or pick another name`);
+    }
+
+    const merged = mergeConfig(DEFAULT_CONFIG, { ...input.config, ...(input.initialBalance !== undefined && { initialBalance: input.initialBalance }) });
+    const defaults = validateConfig(withStrategies(merged, strategies));
+
+    const record: AccountRecord = {
+      name,
+      description: typeof input.description === 'string' && input.description.trim().length > 0 ? input.description.trim() : null,
+      strategies,
+      createdBy,
+      createdAt: this.clock(),
+    };
+    // The registry row goes in last, so a failure anywhere leaves no trace of the account and the
+    // name can be used again
+    let account: Account | undefined;
+    try {
+      account = this.open(name, record, defaults);
+      this.startAccount(account);
+      this.database.insertAccount(record);
+    } catch (error) {
+      this.accounts.delete(name);
+      if (account) this.close(account);
+      for (const file of [...files, `${files[0]}-wal`, `${files[0]}-shm`]) fs.rmSync(file, { force: true });
+      throw error;
+    }
+    this.broadcastOverview();
+    return this.summarize(account);
+  }
+
+  public summarize(account: Account): AccountSummary {
+    const { engine } = account;
+    const portfolio = engine.getPortfolio();
+    const { quotes } = engine.getQuotes();
+    const positions: Record<string, PositionSummary> = {};
+    for (const [pair, position] of Object.entries(portfolio.positions)) {
+      if (position.amount !== 0) {
+        positions[pair] = { amount: position.amount, value: position.amount * (quotes[pair]?.last || position.avgEntryPrice) };
+      }
+    }
+    return {
+      name: account.name,
+      description: account.record?.description ?? null,
+      strategies: engine.getStrategies().map(strategy => strategy.name),
+      createdAt: account.record?.createdAt ?? null,
+      isRunning: engine.getStatus(),
+      mode: engine.getMode(),
+      killSwitchTripped: engine.getKillSwitch(0).tripped,
+      initialBalance: portfolio.initialBalance,
+      balance: portfolio.balance,
+      equity: engine.getEquity(),
+      pnl: portfolio.pnl,
+      drawdown: portfolio.drawdown,
+      grossExposure: portfolio.grossExposure,
+      openOrders: engine.getOpenOrders().length,
+      positions,
+    };
+  }
+
+  // Every account side by side, with totals and positions netted across accounts
+  public overview(): AccountsOverview {
+    const accounts = this.list().map(account => this.summarize(account));
+    const positions: Record<string, PositionSummary> = {};
+    for (const summary of accounts) {
+      for (const [pair, position] of Object.entries(summary.positions)) {
+        positions[pair] ??= { amount: 0, value: 0 };
+        positions[pair].amount += position.amount;
+        positions[pair].value += position.value;
+      }
+    }
+    const sum = (field: 'initialBalance' | 'balance' | 'equity' | 'pnl') => accounts.reduce((total, summary) => total + summary[field], 0);
+    return {
+      accounts,
+      total: {
+        running: accounts.filter(summary => summary.isRunning).length,
+        initialBalance: sum('initialBalance'),
+        balance: sum('balance'),
+        equity: sum('equity'),
+        pnl: sum('pnl'),
+        positions,
+      },
+    };
+  }
+
+  private broadcastOverview() {
+    if (this.overviewClients.size === 0) return;
+    const message = JSON.stringify({ type: 'ACCOUNTS_UPDATE', data: this.overview() });
+    for (const client of this.overviewClients) {
+      if (client.readyState === 1) { // OPEN
+        client.send(message);
+      }
+    }
+  }
+}
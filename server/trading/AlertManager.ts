@@ -1,45 +1,217 @@
+import type { TradingDatabase } from './Database.js';
+import type { NotificationQueue } from './NotificationQueue.js';
+
+export type AlertSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
+export type AlertStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED';
+
 export interface Alert {
   id: string;
   timestamp: number;
   type: 'TRADE' | 'RISK' | 'SYSTEM' | 'PRICE';
   message: string;
-  severity: 'INFO' | 'WARNING' | 'CRITICAL';
+  severity: AlertSeverity;
+  status: AlertStatus;
+  key: string | null; // Deduplication key; repeats update this alert instead of adding new ones
+  count: number; // Occurrences folded into this alert
+  lastSeenAt: number;
+  ruleId: string | null;
+  acknowledgedBy: string | null;
+  acknowledgedAt: number | null;
+  resolvedAt: number | null;
+  escalateAfterMs: number | null;
+  escalateAt: number | null; // When an unacknowledged alert next steps up a severity
+}
+
+export interface AlertOptions {
+  key?: string;
+  cooldownMs?: number; // A repeat this soon after the keyed alert was last seen reopens it instead of raising a new one
+  escalateAfterMs?: number | null;
+  ruleId?: string;
+}
+
+export interface AlertManagerOptions {
+  clock?: () => number;
+  notifications?: boolean; // Set to false to record alerts without dispatching them
+  database?: TradingDatabase;
+  notifier?: NotificationQueue | null; // Delivers dispatched alerts to webhooks, Slack, email, Telegram
+  label?: string; // Prefixed to dispatched messages, so channels shared by several accounts show which one raised it
 }
 
+const SEVERITIES: AlertSeverity[] = ['INFO', 'WARNING', 'CRITICAL'];
+
 export class AlertManager {
   private alerts: Alert[] = [];
+  private byKey: Map<string, Alert> = new Map(); // Latest alert per deduplication key
+  private clock: () => number;
+  private notifications: boolean;
+  private database: TradingDatabase | null;
+  private notifier: NotificationQueue | null;
+  private label: string | null;
+
+  constructor(options: AlertManagerOptions = {}) {
+    this.clock = options.clock ?? Date.now;
+    this.notifications = options.notifications ?? true;
+    this.database = options.database ?? null;
+    this.notifier = options.notifier ?? null;
+    this.label = options.label ?? null;
 
-  public sendAlert(type: Alert['type'], message: string, severity: Alert['severity'] = 'INFO') {
+    // Resume with the most recent alerts from the previous run, plus any keyed alert still
+    // unresolved so its repeats keep folding into it
+    if (this.database) {
+      this.alerts = this.database.loadAlerts(100);
+      for (const alert of [...this.database.loadUnresolvedAlerts(), ...this.alerts]) {
+        if (alert.key) this.byKey.set(alert.key, this.alerts.find(a => a.id === alert.id) ?? alert);
+      }
+    }
+  }
+
+  public sendAlert(type: Alert['type'], message: string, severity: AlertSeverity = 'INFO', options: AlertOptions = {}): Alert {
+    const now = this.clock();
+
+    // Repeats of an unresolved alert, or of one seen within the cooldown, update it in place
+    const previous = options.key ? this.byKey.get(options.key) : undefined;
+    if (previous && (previous.status !== 'RESOLVED' || now - previous.lastSeenAt < (options.cooldownMs ?? 0))) {
+      previous.count++;
+      previous.lastSeenAt = now;
+      previous.message = message;
+      const reopened = previous.status === 'RESOLVED';
+      if (reopened) {
+        previous.status = 'OPEN';
+        previous.resolvedAt = null;
+        previous.escalateAt = previous.escalateAfterMs !== null ? now + previous.escalateAfterMs : null;
+      }
+      const escalated = SEVERITIES.indexOf(severity) > SEVERITIES.indexOf(previous.severity);
+      if (escalated) previous.severity = severity;
+      this.touch(previous);
+      if (escalated && this.notifications) {
+        this.dispatchNotification(previous);
+      }
+      return previous;
+    }
+
+    const escalateAfterMs = options.escalateAfterMs ?? null;
     const alert: Alert = {
       id: Math.random().toString(36).substring(7),
-      timestamp: Date.now(),
+      timestamp: now,
       type,
       message,
       severity,
+      // Unkeyed INFO alerts are notices (fills, config changes) that need no follow-up
+      status: severity === 'INFO' && !options.key ? 'RESOLVED' : 'OPEN',
+      key: options.key ?? null,
+      count: 1,
+      lastSeenAt: now,
+      ruleId: options.ruleId ?? null,
+      acknowledgedBy: null,
+      acknowledgedAt: null,
+      resolvedAt: null,
+      escalateAfterMs,
+      escalateAt: escalateAfterMs !== null && severity !== 'CRITICAL' ? now + escalateAfterMs : null,
     };
+    if (alert.status === 'RESOLVED') alert.resolvedAt = now;
     this.alerts.push(alert);
-    
+    if (alert.key) this.byKey.set(alert.key, alert);
+    this.database?.insertAlert(alert);
+
     // Keep last 100 alerts
     if (this.alerts.length > 100) {
       this.alerts.shift();
     }
 
-    // Simulate sending Email/SMS
-    this.dispatchNotification(alert);
+    if (this.notifications) {
+      this.dispatchNotification(alert);
+    }
+    return alert;
   }
 
-  private dispatchNotification(alert: Alert) {
-    // In a real system, this would use Twilio, SendGrid, etc.
-    if (alert.severity === 'CRITICAL') {
-      console.log(`[SMS/EMAIL ALERT] CRITICAL: ${alert.message}`);
-    } else if (alert.severity === 'WARNING') {
-      console.log(`[EMAIL ALERT] WARNING: ${alert.message}`);
-    } else {
-      console.log(`[ALERT] ${alert.type}: ${alert.message}`);
+  // Persists a changed alert and moves it to the end of the recent list so clients see the update
+  private touch(alert: Alert) {
+    const index = this.alerts.indexOf(alert);
+    if (index !== -1) this.alerts.splice(index, 1);
+    this.alerts.push(alert);
+    if (this.alerts.length > 100) this.alerts.shift();
+    this.database?.updateAlert(alert);
+  }
+
+  private find(id: string): Alert {
+    const alert = this.alerts.find(a => a.id === id) ?? Array.from(this.byKey.values()).find(a => a.id === id);
+    if (!alert) {
+      throw new Error(`Unknown alert: ${id}`);
+    }
+    return alert;
+  }
+
+  // Acknowledging stops escalation; the alert stays visible until it is resolved
+  public acknowledge(id: string, acknowledgedBy: string): Alert {
+    const alert = this.find(id);
+    if (alert.status === 'RESOLVED') {
+      throw new Error(`Alert ${id} is already resolved`);
+    }
+    if (alert.status === 'OPEN') {
+      alert.status = 'ACKNOWLEDGED';
+      alert.acknowledgedBy = acknowledgedBy;
+      alert.acknowledgedAt = this.clock();
+      alert.escalateAt = null;
+      this.touch(alert);
     }
+    return alert;
+  }
+
+  public resolve(id: string, resolvedBy?: string): Alert {
+    const alert = this.find(id);
+    if (alert.status !== 'RESOLVED') {
+      alert.status = 'RESOLVED';
+      alert.resolvedAt = this.clock();
+      alert.escalateAt = null;
+      if (resolvedBy && !alert.acknowledgedBy) {
+        alert.acknowledgedBy = resolvedBy;
+        alert.acknowledgedAt = alert.resolvedAt;
+      }
+      this.touch(alert);
+    }
+    return alert;
+  }
+
+  // Resolves the keyed alert once its condition has cleared. Returns whether one was open.
+  public resolveKey(key: string): boolean {
+    const alert = this.byKey.get(key);
+    if (!alert || alert.status === 'RESOLVED') return false;
+    this.resolve(alert.id);
+    return true;
+  }
+
+  // Steps unacknowledged alerts up a severity once their escalation time passes
+  public escalate() {
+    const now = this.clock();
+    for (const alert of [...this.alerts]) {
+      if (alert.status !== 'OPEN' || alert.escalateAt === null || alert.escalateAt > now) continue;
+      alert.severity = SEVERITIES[Math.min(SEVERITIES.length - 1, SEVERITIES.indexOf(alert.severity) + 1)];
+      alert.escalateAt = alert.severity !== 'CRITICAL' && alert.escalateAfterMs !== null ? now + alert.escalateAfterMs : null;
+      alert.message = alert.message.startsWith('[ESCALATED] ') ? alert.message : `[ESCALATED] ${alert.message}`;
+      this.touch(alert);
+      if (this.notifications) {
+        this.dispatchNotification(alert);
+      }
+    }
+  }
+
+  // The console always gets the alert; configured channels get it through the delivery queue
+  private dispatchNotification(alert: Alert) {
+    const dispatched = this.label ? { ...alert, message: `[${this.label}] ${alert.message}` } : alert;
+    console.log(`[ALERT] ${dispatched.severity} ${dispatched.type}: ${dispatched.message}`);
+    this.notifier?.enqueue(dispatched);
   }
 
   public getRecentAlerts() {
     return this.alerts;
   }
+
+  // Alerts still needing attention, including keyed ones older than the recent list
+  public getActiveAlerts(): Alert[] {
+    const active = new Map<string, Alert>();
+    for (const alert of [...this.byKey.values(), ...this.alerts]) {
+      if (alert.status !== 'RESOLVED') active.set(alert.id, alert);
+    }
+    return Array.from(active.values()).sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
 }
@@ -0,0 +1,248 @@
+import { randomUUID } from 'crypto';
+import type { Alert, AlertManager, AlertSeverity } from './AlertManager.js';
+import type { TradingDatabase } from './Database.js';
+
+export type AlertMetric = 'price' | 'positionPnlPct' | 'drawdownPct' | 'equity' | 'minutesSinceTrade';
+export type EngineEvent = 'FILL' | 'ORDER_REJECTED' | 'EXIT' | 'LIQUIDATION' | 'TICK_ERROR' | 'SHUTDOWN';
+
+export const ALERT_METRICS: AlertMetric[] = ['price', 'positionPnlPct', 'drawdownPct', 'equity', 'minutesSinceTrade'];
+export const ENGINE_EVENTS: EngineEvent[] = ['FILL', 'ORDER_REJECTED', 'EXIT', 'LIQUIDATION', 'TICK_ERROR', 'SHUTDOWN'];
+
+// Threshold conditions fire when the value crosses the level and resolve when it crosses back.
+// Event conditions fire each time the engine reports the event.
+export type AlertCondition =
+  | { kind: 'threshold', metric: AlertMetric, operator: 'above' | 'below', value: number, pair?: string }
+  | { kind: 'event', event: EngineEvent, pair?: string };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: AlertCondition;
+  severity: AlertSeverity;
+  cooldownMs: number; // Re-firing this soon after the last alert reopens it instead of raising a new one
+  escalateAfterMs: number | null; // Unacknowledged for this long steps the alert up a severity
+  enabled: boolean;
+  createdBy: string;
+  createdAt: number;
+}
+
+export type AlertRuleInput = Partial<Pick<AlertRule, 'name' | 'condition' | 'severity' | 'cooldownMs' | 'escalateAfterMs' | 'enabled'>>;
+
+// Values threshold rules are checked against, taken once per tick
+export interface AlertSnapshot {
+  prices: Record<string, number>;
+  positionPnlPct: Record<string, number>; // Unrealized return per open position, in percent
+  drawdownPct: number;
+  equity: number;
+  lastTradeAt: number | null;
+}
+
+export interface AlertRuleEngineOptions {
+  clock?: () => number;
+  database?: TradingDatabase | null;
+}
+
+const SEVERITIES: AlertSeverity[] = ['INFO', 'WARNING', 'CRITICAL'];
+const DEFAULT_COOLDOWN_MS = 5 * 60_000;
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  price: 'price',
+  positionPnlPct: 'position PnL %',
+  drawdownPct: 'drawdown %',
+  equity: 'equity',
+  minutesSinceTrade: 'minutes since last trade',
+};
+
+const EVENT_TYPES: Record<EngineEvent, Alert['type']> = {
+  FILL: 'TRADE',
+  ORDER_REJECTED: 'TRADE',
+  EXIT: 'RISK',
+  LIQUIDATION: 'RISK',
+  TICK_ERROR: 'SYSTEM',
+  SHUTDOWN: 'SYSTEM',
+};
+
+// User-defined alert rules over prices, portfolio metrics and engine events. Every rule and pair
+// gets its own deduplication key, so a condition that stays true is one alert, not one per tick.
+export class AlertRuleEngine {
+  private alertManager: AlertManager;
+  private clock: () => number;
+  private database: TradingDatabase | null;
+  private rules: Map<string, AlertRule> = new Map();
+  private firing: Set<string> = new Set(); // Keys of threshold conditions currently true
+  private startedAt: number;
+
+  constructor(alertManager: AlertManager, options: AlertRuleEngineOptions = {}) {
+    this.alertManager = alertManager;
+    this.clock = options.clock ?? Date.now;
+    this.database = options.database ?? null;
+    this.startedAt = this.clock();
+    for (const rule of this.database?.loadAlertRules() ?? []) {
+      this.rules.set(rule.id, rule);
+    }
+    // Threshold alerts still open from the previous run resolve once their condition clears
+    for (const alert of this.alertManager.getActiveAlerts()) {
+      const rule = alert.ruleId ? this.rules.get(alert.ruleId) : undefined;
+      if (alert.key && rule?.condition.kind === 'threshold') this.firing.add(alert.key);
+    }
+  }
+
+  public getRules(): AlertRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  public createRule(input: AlertRuleInput, createdBy: string): AlertRule {
+    const rule = this.validate({
+      id: randomUUID(),
+      name: input.name ?? '',
+      condition: input.condition as AlertCondition,
+      severity: input.severity ?? 'WARNING',
+      cooldownMs: input.cooldownMs ?? DEFAULT_COOLDOWN_MS,
+      escalateAfterMs: input.escalateAfterMs ?? null,
+      enabled: input.enabled ?? true,
+      createdBy,
+      createdAt: this.clock(),
+    });
+    this.rules.set(rule.id, rule);
+    this.database?.saveAlertRule(rule);
+    return rule;
+  }
+
+  public updateRule(id: string, input: AlertRuleInput): AlertRule {
+    const existing = this.rules.get(id);
+    if (!existing) {
+      throw new Error(`Unknown alert rule: ${id}`);
+    }
+    const rule = this.validate({ ...existing, ...input, id, createdBy: existing.createdBy, createdAt: existing.createdAt });
+    // A changed condition starts over: whatever it raised no longer describes the rule
+    if (JSON.stringify(rule.condition) !== JSON.stringify(existing.condition) || !rule.enabled) {
+      this.clearRule(id);
+    }
+    this.rules.set(id, rule);
+    this.database?.saveAlertRule(rule);
+    return rule;
+  }
+
+  public deleteRule(id: string) {
+    if (!this.rules.delete(id)) {
+      throw new Error(`Unknown alert rule: ${id}`);
+    }
+    this.clearRule(id);
+    this.database?.deleteAlertRule(id);
+  }
+
+  private clearRule(id: string) {
+    for (const key of Array.from(this.firing)) {
+      if (key.startsWith(`rule:${id}:`)) this.firing.delete(key);
+    }
+    for (const alert of this.alertManager.getActiveAlerts()) {
+      if (alert.ruleId === id) this.alertManager.resolve(alert.id);
+    }
+  }
+
+  private validate(rule: AlertRule): AlertRule {
+    const errors: string[] = [];
+    if (typeof rule.name !== 'string' || !rule.name.trim()) errors.push('name is required');
+    if (!SEVERITIES.includes(rule.severity)) errors.push(`severity must be one of ${SEVERITIES.join(', ')}`);
+    if (!(Number.isFinite(rule.cooldownMs) && rule.cooldownMs >= 0)) errors.push('cooldownMs must be a non-negative number');
+    if (rule.escalateAfterMs !== null && !(Number.isFinite(rule.escalateAfterMs) && rule.escalateAfterMs > 0)) {
+      errors.push('escalateAfterMs must be a positive number or null');
+    }
+    if (typeof rule.enabled !== 'boolean') errors.push('enabled must be a boolean');
+
+    const condition = rule.condition;
+    if (!condition || typeof condition !== 'object') {
+      errors.push('condition is required');
+    } else if (condition.pair !== undefined && typeof condition.pair !== 'string') {
+      errors.push('condition.pair must be a string');
+    } else if (condition.kind === 'threshold') {
+      if (!ALERT_METRICS.includes(condition.metric)) errors.push(`condition.metric must be one of ${ALERT_METRICS.join(', ')}`);
+      if (condition.operator !== 'above' && condition.operator !== 'below') errors.push('condition.operator must be above or below');
+      if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) errors.push('condition.value must be a number');
+      if (condition.metric === 'price' && !condition.pair) errors.push('price conditions need a pair');
+    } else if (condition.kind === 'event') {
+      if (!ENGINE_EVENTS.includes(condition.event)) errors.push(`condition.event must be one of ${ENGINE_EVENTS.join(', ')}`);
+    } else {
+      errors.push('condition.kind must be threshold or event');
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid alert rule: ${errors.join('; ')}`);
+    }
+    return { ...rule, name: rule.name.trim() };
+  }
+
+  private key(rule: AlertRule, pair: string | undefined): string {
+    return `rule:${rule.id}:${pair ?? '*'}`;
+  }
+
+  // Per-pair values for pair metrics; a single unkeyed value for portfolio metrics
+  private values(condition: Extract<AlertCondition, { kind: 'threshold' }>, snapshot: AlertSnapshot): [string | undefined, number][] {
+    switch (condition.metric) {
+      case 'price':
+        return condition.pair && snapshot.prices[condition.pair] !== undefined ? [[condition.pair, snapshot.prices[condition.pair]]] : [];
+      case 'positionPnlPct':
+        return Object.entries(snapshot.positionPnlPct).filter(([pair]) => !condition.pair || pair === condition.pair);
+      case 'drawdownPct':
+        return [[undefined, snapshot.drawdownPct]];
+      case 'equity':
+        return [[undefined, snapshot.equity]];
+      case 'minutesSinceTrade':
+        return [[undefined, (this.clock() - (snapshot.lastTradeAt ?? this.startedAt)) / 60_000]];
+    }
+  }
+
+  // Raises threshold alerts whose condition became true, resolves those that cleared and
+  // escalates anything left unacknowledged too long
+  public evaluate(snapshot: AlertSnapshot) {
+    for (const rule of this.rules.values()) {
+      if (!rule.enabled || rule.condition.kind !== 'threshold') continue;
+      const condition = rule.condition;
+      const seen = new Set<string>();
+
+      for (const [pair, value] of this.values(condition, snapshot)) {
+        const key = this.key(rule, pair);
+        seen.add(key);
+        const active = condition.operator === 'above' ? value > condition.value : value < condition.value;
+        if (active && !this.firing.has(key)) {
+          this.firing.add(key);
+          const subject = pair ? `${pair} ` : '';
+          const formatted = Number.isInteger(value) ? String(value) : value.toFixed(2);
+          this.alertManager.sendAlert(
+            condition.metric === 'price' ? 'PRICE' : 'RISK',
+            `${rule.name}: ${subject}${METRIC_LABELS[condition.metric]} ${formatted} is ${condition.operator} ${condition.value}`,
+            rule.severity,
+            { key, cooldownMs: rule.cooldownMs, escalateAfterMs: rule.escalateAfterMs, ruleId: rule.id },
+          );
+        } else if (!active && this.firing.delete(key)) {
+          this.alertManager.resolveKey(key);
+        }
+      }
+
+      // Positions that closed no longer meet the condition
+      if (condition.metric === 'positionPnlPct') {
+        for (const key of Array.from(this.firing)) {
+          if (key.startsWith(`rule:${rule.id}:`) && !seen.has(key)) {
+            this.firing.delete(key);
+            this.alertManager.resolveKey(key);
+          }
+        }
+      }
+    }
+    this.alertManager.escalate();
+  }
+
+  public onEvent(event: EngineEvent, pair: string | undefined, message: string) {
+    for (const rule of this.rules.values()) {
+      const condition = rule.condition;
+      if (!rule.enabled || condition.kind !== 'event' || condition.event !== event) continue;
+      if (condition.pair && condition.pair !== pair) continue;
+      this.alertManager.sendAlert(EVENT_TYPES[event], `${rule.name}: ${message}`, rule.severity, {
+        key: this.key(rule, condition.pair),
+        cooldownMs: rule.cooldownMs,
+        escalateAfterMs: rule.escalateAfterMs,
+        ruleId: rule.id,
+      });
+    }
+  }
+}
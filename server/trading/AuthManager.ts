@@ -0,0 +1,350 @@
+import { randomBytes, randomUUID, scryptSync, timingSafeEqual, createHash } from 'crypto';
+import type { RequestHandler } from 'express';
+import type { TradingDatabase } from './Database.js';
+
+export type Role = 'viewer' | 'trader' | 'admin';
+
+// Ordered from least to most privileged; each role can do everything the ones before it can
+export const ROLES: Role[] = ['viewer', 'trader', 'admin'];
+
+export interface User {
+  username: string;
+  role: Role;
+  createdAt: number;
+}
+
+export interface StoredUser extends User {
+  passwordHash: string;
+}
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  role: Role;
+  createdBy: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
+
+export interface StoredApiToken extends ApiToken {
+  tokenHash: string;
+}
+
+export interface Session {
+  tokenHash: string;
+  username: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Who is making a request: a logged-in user or an API token
+export interface Principal {
+  name: string; // Username, or "token:<name>" for API tokens
+  role: Role;
+  via: 'session' | 'token';
+}
+
+export interface AuditEntry {
+  timestamp: number;
+  actor: string;
+  role: Role | null; // null for unauthenticated attempts (e.g. failed logins)
+  action: string;
+  details: Record<string, unknown> | null;
+  status: number; // HTTP status the action ended with
+  ip: string | null;
+}
+
+export interface AuthManagerOptions {
+  database: TradingDatabase;
+  clock?: () => number;
+  sessionTtlMs?: number;
+  maxFailedLogins?: number; // Failures from one client before it is locked out of that username
+  lockoutMs?: number; // How long a lockout lasts, and how long a failure is remembered
+}
+
+const TOKEN_PREFIX = 'qt_'; // Distinguishes API tokens from session tokens
+export const SESSION_ENDED = 4001; // WebSocket close code when the session behind a socket ends
+const SENSITIVE_FIELDS = new Set(['password', 'token', 'confirm', 'secret', 'apiKey']);
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Replaces secrets in request bodies before they are written to the audit log
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, SENSITIVE_FIELDS.has(key) ? '[redacted]' : redact(v)]));
+}
+
+// Users with hashed passwords, login sessions and long-lived API tokens, all stored hashed:
+// a leaked database can't be replayed as credentials. Every control action goes to the audit log.
+export class AuthManager {
+  private database: TradingDatabase;
+  private clock: () => number;
+  private sessionTtlMs: number;
+  private maxFailedLogins: number;
+  private lockoutMs: number;
+  // Keyed by client and username, so a stranger guessing can't lock the real user out
+  private failedLogins: Map<string, { count: number, lockedUntil: number, lastFailedAt: number }> = new Map();
+  private dummyHash = hashPassword(randomUUID()); // Keeps unknown-user logins as slow as real ones
+
+  constructor(options: AuthManagerOptions) {
+    this.database = options.database;
+    this.clock = options.clock ?? Date.now;
+    this.sessionTtlMs = options.sessionTtlMs ?? 12 * 60 * 60_000;
+    this.maxFailedLogins = options.maxFailedLogins ?? 5;
+    this.lockoutMs = options.lockoutMs ?? 5 * 60_000;
+  }
+
+  // Creates the first admin when no users exist. Returns the generated password if one was needed.
+  public bootstrap(username: string, password?: string): string | null {
+    if (this.database.countUsers() > 0) return null;
+    const initialPassword = password || randomBytes(12).toString('base64url');
+    this.createUser(username, initialPassword, 'admin');
+    return password ? null : initialPassword;
+  }
+
+  private validateRole(role: unknown): asserts role is Role {
+    if (!ROLES.includes(role as Role)) {
+      throw new Error(`role must be one of ${ROLES.join(', ')}`);
+    }
+  }
+
+  public createUser(username: string, password: string, role: Role): User {
+    if (typeof username !== 'string' || !/^[a-zA-Z0-9_.-]{3,32}$/.test(username)) {
+      throw new Error('username must be 3-32 letters, digits, dots, dashes or underscores');
+    }
+    if (typeof password !== 'string' || password.length < 8) {
+      throw new Error('password must be at least 8 characters');
+    }
+    this.validateRole(role);
+    if (this.database.loadUser(username)) {
+      throw new Error(`User already exists: ${username}`);
+    }
+    const user: StoredUser = { username, role, createdAt: this.clock(), passwordHash: hashPassword(password) };
+    this.database.saveUser(user);
+    return { username, role, createdAt: user.createdAt };
+  }
+
+  public listUsers(): User[] {
+    return this.database.loadUsers().map(({ username, role, createdAt }) => ({ username, role, createdAt }));
+  }
+
+  // Role or password changes end the user's sessions so they take effect immediately
+  public updateUser(username: string, changes: { role?: Role, password?: string }): User {
+    const user = this.database.loadUser(username);
+    if (!user) {
+      throw new Error(`Unknown user: ${username}`);
+    }
+    if (changes.role !== undefined) {
+      this.validateRole(changes.role);
+      if (user.role === 'admin' && changes.role !== 'admin') this.assertOtherAdmin(username);
+      user.role = changes.role;
+    }
+    if (changes.password !== undefined) {
+      if (typeof changes.password !== 'string' || changes.password.length < 8) {
+        throw new Error('password must be at least 8 characters');
+      }
+      user.passwordHash = hashPassword(changes.password);
+    }
+    this.database.saveUser(user);
+    this.database.deleteSessions(username);
+    return { username: user.username, role: user.role, createdAt: user.createdAt };
+  }
+
+  public deleteUser(username: string) {
+    const user = this.database.loadUser(username);
+    if (!user) {
+      throw new Error(`Unknown user: ${username}`);
+    }
+    if (user.role === 'admin') this.assertOtherAdmin(username);
+    this.database.deleteSessions(username);
+    this.database.deleteUser(username);
+  }
+
+  private assertOtherAdmin(username: string) {
+    if (!this.database.loadUsers().some(u => u.role === 'admin' && u.username !== username)) {
+      throw new Error('At least one admin must remain');
+    }
+  }
+
+  public login(username: string, password: string, client: string = 'unknown'): { token: string, user: User, expiresAt: number } {
+    const now = this.clock();
+    this.forgetFailedLogins(now);
+    const key = JSON.stringify([client, username]);
+    const failures = this.failedLogins.get(key);
+    if (failures && failures.lockedUntil > now) {
+      throw new Error('Too many failed logins; try again later');
+    }
+
+    const user = typeof username === 'string' ? this.database.loadUser(username) : null;
+    const valid = typeof password === 'string' && verifyPassword(password, user?.passwordHash ?? this.dummyHash);
+    if (!user || !valid) {
+      const count = (failures?.count ?? 0) + 1;
+      this.failedLogins.set(key, { count, lockedUntil: count >= this.maxFailedLogins ? now + this.lockoutMs : 0, lastFailedAt: now });
+      throw new Error('Invalid username or password');
+    }
+    this.failedLogins.delete(key);
+
+    const token = randomBytes(32).toString('hex');
+    const session: Session = { tokenHash: hashToken(token), username, createdAt: now, expiresAt: now + this.sessionTtlMs };
+    this.database.saveSession(session);
+    return { token, user: { username: user.username, role: user.role, createdAt: user.createdAt }, expiresAt: session.expiresAt };
+  }
+
+  // Failures are forgotten once a lockout ends or a lockout period passes without another one
+  private forgetFailedLogins(now: number) {
+    for (const [key, failures] of this.failedLogins) {
+      if (Math.max(failures.lockedUntil, failures.lastFailedAt + this.lockoutMs) <= now) {
+        this.failedLogins.delete(key);
+      }
+    }
+  }
+
+  public logout(token: string) {
+    this.database.deleteSession(hashToken(token));
+  }
+
+  // Resolves a bearer token (session or API token) to the principal behind it, or null
+  public authenticate(token: string | null | undefined): Principal | null {
+    if (!token) return null;
+    const tokenHash = hashToken(token);
+    const now = this.clock();
+
+    if (token.startsWith(TOKEN_PREFIX)) {
+      const apiToken = this.database.loadApiTokenByHash(tokenHash);
+      if (!apiToken || apiToken.revokedAt !== null) return null;
+      this.database.touchApiToken(apiToken.id, now);
+      return { name: `token:${apiToken.name}`, role: apiToken.role, via: 'token' };
+    }
+
+    const session = this.database.loadSession(tokenHash);
+    if (!session) return null;
+    if (session.expiresAt <= now) {
+      this.database.deleteSession(tokenHash);
+      return null;
+    }
+    const user = this.database.loadUser(session.username);
+    if (!user) return null;
+    return { name: user.username, role: user.role, via: 'session' };
+  }
+
+  // The plaintext token is only returned here; only its hash is stored
+  public createApiToken(name: string, role: Role, createdBy: string): { token: string, apiToken: ApiToken } {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error('name is required');
+    }
+    this.validateRole(role);
+    const token = TOKEN_PREFIX + randomBytes(32).toString('hex');
+    const apiToken: StoredApiToken = {
+      id: randomUUID(),
+      name: name.trim(),
+      role,
+      createdBy,
+      createdAt: this.clock(),
+      lastUsedAt: null,
+      revokedAt: null,
+      tokenHash: hashToken(token),
+    };
+    this.database.saveApiToken(apiToken);
+    const { tokenHash, ...visible } = apiToken;
+    return { token, apiToken: visible };
+  }
+
+  public listApiTokens(): ApiToken[] {
+    return this.database.loadApiTokens().map(({ tokenHash, ...visible }) => visible);
+  }
+
+  public revokeApiToken(id: string): ApiToken {
+    const apiToken = this.database.loadApiTokens().find(t => t.id === id);
+    if (!apiToken) {
+      throw new Error(`Unknown API token: ${id}`);
+    }
+    if (apiToken.revokedAt === null) {
+      apiToken.revokedAt = this.clock();
+      this.database.saveApiToken(apiToken);
+    }
+    const { tokenHash, ...visible } = apiToken;
+    return visible;
+  }
+
+  public audit(entry: Omit<AuditEntry, 'timestamp'>) {
+    this.database.insertAuditEntry({ timestamp: this.clock(), ...entry, details: redact(entry.details) as AuditEntry['details'] });
+  }
+
+  public getAuditLog(limit: number = 100): AuditEntry[] {
+    return this.database.loadAuditLog(limit);
+  }
+
+  // Express middleware: resolves the bearer token into res.locals.principal and rejects
+  // unauthenticated requests, except to the given paths (relative to the mount point)
+  public requireAuth(publicPaths: string[] = []): RequestHandler {
+    return (req, res, next) => {
+      const principal = this.authenticate(bearerToken(req.headers.authorization));
+      res.locals.principal = principal;
+      if (principal || publicPaths.includes(req.path)) return next();
+      res.status(401).json({ error: 'Authentication required' });
+    };
+  }
+
+  // Express middleware: records every state-changing request, including rejected ones,
+  // once its response has been sent
+  public auditRequests(): RequestHandler {
+    return (req, res, next) => {
+      if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') return next();
+      res.on('finish', () => {
+        const principal = res.locals.principal as Principal | null;
+        const attempted = typeof req.body?.username === 'string' ? req.body.username : 'anonymous';
+        const hasBody = req.body && typeof req.body === 'object' && Object.keys(req.body).length > 0;
+        this.audit({
+          actor: principal?.name ?? attempted,
+          role: principal?.role ?? null,
+          action: `${req.method} ${req.originalUrl.split('?')[0]}`,
+          details: hasBody ? req.body : null,
+          status: res.statusCode,
+          ip: req.ip ?? null,
+        });
+      });
+      next();
+    };
+  }
+}
+
+export function bearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Rejects requests whose principal (set by AuthManager.requireAuth) lacks the role
+export function requireRole(role: Role): RequestHandler {
+  return (req, res, next) => {
+    const principal = res.locals.principal as Principal | null;
+    if (!principal) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (!hasRole(principal.role, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
@@ -0,0 +1,126 @@
+import type { Candle } from './HistoricalData.js';
+import { IndicatorSet, IndicatorValues } from './Indicators.js';
+
+export type Timeframe = '1m' | '5m' | '1h';
+
+export const TIMEFRAMES: Record<Timeframe, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '1h': 60 * 60_000,
+};
+
+interface Series {
+  closed: Candle[];
+  current: Candle | null;
+  indicators: IndicatorSet;
+}
+
+export type BarListener = (candle: Candle, timeframe: Timeframe) => void;
+
+// Rolls ticks (or replayed candles) up into OHLCV bars per pair and timeframe.
+// Indicators are updated only when a bar closes.
+export class CandleAggregator {
+  private series: Record<string, Record<Timeframe, Series>> = {};
+  private lastVolume: Record<string, number> = {};
+  private maxBars: number;
+  private onClose: BarListener | null;
+
+  constructor(maxBars: number = 500, onClose: BarListener | null = null) {
+    this.maxBars = maxBars;
+    this.onClose = onClose;
+  }
+
+  private getSeries(pair: string, timeframe: Timeframe): Series {
+    if (!this.series[pair]) {
+      this.series[pair] = {} as Record<Timeframe, Series>;
+      for (const tf of Object.keys(TIMEFRAMES) as Timeframe[]) {
+        this.series[pair][tf] = { closed: [], current: null, indicators: new IndicatorSet() };
+      }
+    }
+    return this.series[pair][timeframe];
+  }
+
+  // Tickers report rolling 24h volume, so traded volume is the increase since the previous tick
+  public ingestTick(pair: string, price: number, volume24h: number | undefined, timestamp: number) {
+    let volume = 0;
+    if (volume24h !== undefined && this.lastVolume[pair] !== undefined) {
+      volume = Math.max(0, volume24h - this.lastVolume[pair]);
+    }
+    if (volume24h !== undefined) this.lastVolume[pair] = volume24h;
+
+    this.ingestCandle({ pair, timestamp, open: price, high: price, low: price, close: price, volume });
+  }
+
+  public ingestCandle(candle: Candle) {
+    for (const [timeframe, intervalMs] of Object.entries(TIMEFRAMES) as [Timeframe, number][]) {
+      const series = this.getSeries(candle.pair, timeframe);
+      const bucket = Math.floor(candle.timestamp / intervalMs) * intervalMs;
+
+      if (series.current && bucket < series.current.timestamp) {
+        continue; // Late data for an already closed bar
+      }
+      if (!series.current && series.closed.length > 0 && bucket <= series.closed[series.closed.length - 1].timestamp) {
+        continue; // Covered by a seeded bar
+      }
+
+      if (series.current && bucket > series.current.timestamp) {
+        this.closeBar(series, timeframe);
+      }
+
+      if (!series.current) {
+        series.current = { ...candle, timestamp: bucket };
+      } else {
+        const bar = series.current;
+        bar.high = Math.max(bar.high, candle.high);
+        bar.low = Math.min(bar.low, candle.low);
+        bar.close = candle.close;
+        bar.volume += candle.volume;
+      }
+    }
+  }
+
+  private closeBar(series: Series, timeframe: Timeframe) {
+    const bar = series.current as Candle;
+    series.closed.push(bar);
+    if (series.closed.length > this.maxBars) series.closed.shift();
+    series.indicators.update(bar);
+    series.current = null;
+    this.onClose?.(bar, timeframe);
+  }
+
+  // Loads closed bars kept from an earlier run, oldest first, so history and indicators survive a
+  // restart. Only valid before live data for the pair and timeframe arrives.
+  public seed(pair: string, timeframe: Timeframe, candles: Candle[]) {
+    const series = this.getSeries(pair, timeframe);
+    for (const candle of candles.slice(-this.maxBars)) {
+      series.closed.push(candle);
+      series.indicators.update(candle);
+    }
+    series.closed.splice(0, Math.max(0, series.closed.length - this.maxBars));
+  }
+
+  public getPairs(): string[] {
+    return Object.keys(this.series);
+  }
+
+  // Closed bars followed by the in-progress bar
+  public getCandles(pair: string, timeframe: Timeframe, limit: number = 100): Candle[] {
+    if (!this.series[pair]) return [];
+    const series = this.series[pair][timeframe];
+    const candles = series.current ? [...series.closed, { ...series.current }] : [...series.closed];
+    return candles.slice(-limit);
+  }
+
+  public getIndicators(pair: string, timeframe: Timeframe): IndicatorValues | null {
+    if (!this.series[pair]) return null;
+    return this.series[pair][timeframe].indicators.getValues();
+  }
+
+  public getAllIndicators(timeframe: Timeframe): Record<string, IndicatorValues | null> {
+    const result: Record<string, IndicatorValues | null> = {};
+    for (const pair of this.getPairs()) {
+      result[pair] = this.getIndicators(pair, timeframe);
+    }
+    return result;
+  }
+}
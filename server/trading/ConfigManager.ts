@@ -0,0 +1,538 @@
+import fs from 'fs';
+import path from 'path';
+import type { TradingDatabase } from './Database.js';
+import { ALLOCATION_METHODS, AllocationMethod } from './PortfolioOptimizer.js';
+
+export interface RiskLimits {
+  maxDrawdown: number; // Total drawdown that halts trading
+  drawdownWarning: number; // Fraction of maxDrawdown at which a warning is raised
+  maxPositionSize: number; // Max fraction of available capital per trade
+  stopLoss: number; // Default stop-loss per position, relative to entry
+  takeProfit: number; // Default take-profit per position, relative to entry
+  riskPerTrade: number; // Capital at risk per trade, sized against the stop-loss distance
+  minPairs: number; // Open positions beyond which new pairs are opened at half size
+  rebalanceThreshold: number; // Allocation deviation (fraction of equity) that triggers a rebalance; the default absolute band
+}
+
+// Checks every order passes before it reaches the book; enforced exits are exempt
+export interface PreTradeLimits {
+  maxOrderNotional: number; // Largest order that adds exposure, in quote currency
+  priceCollar: number; // How far a limit price may sit past the touch, and the widest spread market orders accept
+  maxAssetExposure: number; // One pair's position value after the order, as a fraction of equity
+  maxTotalExposure: number; // Gross exposure after the order, as a multiple of equity
+  maxDailyLoss: number; // Realized losses since midnight UTC, as a fraction of equity, past which only reducing orders pass
+  maxOrdersPerMinute: number;
+}
+
+export interface ValueAtRiskSettings {
+  confidenceLevels: number[]; // e.g. 0.95 and 0.99
+  horizonsHours: number[];
+  lookbackBars: number; // Hourly bars the return distribution is estimated from
+  simulations: number; // Monte Carlo paths
+  alertLimit: number; // VaR, as a fraction of equity, that raises an alert; 0 disables the check
+  checkIntervalMs: number; // How often VaR is checked against alertLimit
+}
+
+export interface PairBand {
+  absolute?: number; // Drift from target as a fraction of equity
+  relative?: number; // Drift from target as a fraction of the target weight
+}
+
+export const REBALANCE_TRIGGERS = ['threshold', 'calendar', 'calendar-threshold'] as const;
+
+export interface RebalancePolicy {
+  // threshold: every tick, pairs outside their band go back to target. calendar: every intervalMs,
+  // every pair goes back to target. calendar-threshold: every intervalMs, pairs outside their band do.
+  trigger: typeof REBALANCE_TRIGGERS[number];
+  intervalMs: number;
+  relativeBand: number; // Default relative band; 0 leaves only the absolute band (risk.rebalanceThreshold)
+  pairBands: Record<string, PairBand>; // Per-pair overrides of either band; replaced as a whole on update
+  minTradeNotional: number; // Smaller rebalance trades aren't worth their fees and are dropped
+  netPendingSignals: boolean; // Count working strategy orders and this tick's signals toward the move
+}
+
+export interface SignalThresholds {
+  buyThreshold: number; // ML combined score above which the model buys
+  sellThreshold: number; // ML combined score below which the model sells
+  minConfidence: Record<string, number>; // Per-strategy confidence gate
+}
+
+export interface OptimizerSettings {
+  enabled: boolean; // Re-optimize on a schedule; proposals can be requested on demand either way
+  method: AllocationMethod;
+  intervalMs: number; // Time between scheduled runs
+  lookbackBars: number; // Hourly bars in the rolling covariance window
+  maxWeight: number; // Cap per pair, as a fraction of equity
+  investedFraction: number; // What the proposed weights add up to; the rest stays in cash
+  riskAversion: number; // Mean-variance only: how heavily variance counts against expected return
+  autoApply: boolean; // Apply scheduled proposals without review
+}
+
+export interface TradingConfig {
+  pairs: string[];
+  targetAllocations: Record<string, number>;
+  risk: RiskLimits;
+  preTrade: PreTradeLimits;
+  valueAtRisk: ValueAtRiskSettings;
+  tickIntervalMs: number;
+  signals: SignalThresholds;
+  rebalance: RebalancePolicy;
+  optimizer: OptimizerSettings;
+  initialBalance: number; // Only used when no portfolio has been stored yet
+}
+
+// Partial update: risk, preTrade, valueAtRisk, signals, rebalance and optimizer merge key by key, everything else is replaced
+export type ConfigPatch = Partial<Omit<TradingConfig, 'risk' | 'preTrade' | 'valueAtRisk' | 'signals' | 'rebalance' | 'optimizer'>> & {
+  risk?: Partial<RiskLimits>;
+  preTrade?: Partial<PreTradeLimits>;
+  valueAtRisk?: Partial<ValueAtRiskSettings>;
+  signals?: Partial<SignalThresholds>;
+  rebalance?: Partial<RebalancePolicy>;
+  optimizer?: Partial<OptimizerSettings>;
+};
+
+export type ConfigSource = 'default' | 'file' | 'api' | 'rollback' | 'optimizer';
+
+export interface ConfigVersion {
+  version: number;
+  config: TradingConfig;
+  source: ConfigSource;
+  createdAt: number;
+}
+
+export const DEFAULT_CONFIG: TradingConfig = {
+  pairs: ['BTC/USDT', 'ETH/USDT', 'SOL/USDT', 'ADA/USDT', 'XRP/USDT'],
+  targetAllocations: {
+    'BTC/USDT': 0.30,
+    'ETH/USDT': 0.25,
+    'SOL/USDT': 0.15,
+    'ADA/USDT': 0.15,
+    'XRP/USDT': 0.15,
+  },
+  risk: {
+    maxDrawdown: 0.10,
+    drawdownWarning: 0.8,
+    maxPositionSize: 0.15,
+    stopLoss: 0.02,
+    takeProfit: 0.05,
+    riskPerTrade: 0.01,
+    minPairs: 5,
+    rebalanceThreshold: 0.05,
+  },
+  preTrade: {
+    maxOrderNotional: 50000,
+    priceCollar: 0.05,
+    maxAssetExposure: 0.5,
+    maxTotalExposure: 3,
+    maxDailyLoss: 0.05,
+    maxOrdersPerMinute: 60,
+  },
+  valueAtRisk: {
+    confidenceLevels: [0.95, 0.99],
+    horizonsHours: [1, 24],
+    lookbackBars: 336,
+    simulations: 10000,
+    alertLimit: 0,
+    checkIntervalMs: 15 * 60_000,
+  },
+  tickIntervalMs: 1000,
+  signals: {
+    buyThreshold: 0.85,
+    sellThreshold: 0.15,
+    minConfidence: {
+      'ml-sentiment': 0.85,
+      'momentum': 0.7,
+      'mean-reversion': 0.7,
+    },
+  },
+  rebalance: {
+    trigger: 'threshold',
+    intervalMs: 7 * 24 * 60 * 60_000,
+    relativeBand: 0,
+    pairBands: {},
+    minTradeNotional: 10,
+    netPendingSignals: true,
+  },
+  optimizer: {
+    enabled: false,
+    method: 'risk-parity',
+    intervalMs: 24 * 60 * 60_000,
+    lookbackBars: 336,
+    maxWeight: 0.4,
+    investedFraction: 1,
+    riskAversion: 4,
+    autoApply: false,
+  },
+  initialBalance: 100000,
+};
+
+const CONFIG_KEYS: (keyof TradingConfig)[] = ['pairs', 'targetAllocations', 'risk', 'preTrade', 'valueAtRisk', 'tickIntervalMs', 'signals', 'rebalance', 'optimizer', 'initialBalance'];
+const PAIR_PATTERN = /^[A-Z0-9]+\/[A-Z0-9]+$/;
+
+const isFraction = (value: unknown) => typeof value === 'number' && value > 0 && value <= 1;
+
+// Checks a complete config and throws one error listing every problem found
+export function validateConfig(config: TradingConfig): TradingConfig {
+  const errors: string[] = [];
+
+  for (const key of Object.keys(config)) {
+    if (!CONFIG_KEYS.includes(key as keyof TradingConfig)) errors.push(`unknown setting "${key}"`);
+  }
+
+  const pairs = config.pairs;
+  if (!Array.isArray(pairs) || pairs.length === 0) {
+    errors.push('pairs must be a non-empty array');
+  } else {
+    for (const pair of pairs) {
+      if (typeof pair !== 'string' || !PAIR_PATTERN.test(pair)) errors.push(`invalid pair "${pair}" (expected e.g. BTC/USDT)`);
+    }
+    if (new Set(pairs).size !== pairs.length) errors.push('pairs must not repeat');
+  }
+
+  const allocations = config.targetAllocations;
+  if (!allocations || typeof allocations !== 'object' || Array.isArray(allocations)) {
+    errors.push('targetAllocations must be an object of pair -> fraction');
+  } else {
+    let total = 0;
+    for (const [pair, weight] of Object.entries(allocations)) {
+      if (Array.isArray(pairs) && !pairs.includes(pair)) errors.push(`targetAllocations has ${pair}, which is not in pairs`);
+      if (typeof weight !== 'number' || !(weight >= 0 && weight <= 1)) {
+        errors.push(`targetAllocations.${pair} must be between 0 and 1`);
+      } else {
+        total += weight;
+      }
+    }
+    if (total > 1 + 1e-9) errors.push(`targetAllocations sum to ${total.toFixed(4)}; they must not exceed 1`);
+  }
+
+  const risk = config.risk;
+  if (!risk || typeof risk !== 'object') {
+    errors.push('risk must be an object');
+  } else {
+    for (const key of Object.keys(risk)) {
+      if (!(key in DEFAULT_CONFIG.risk)) errors.push(`unknown risk limit "${key}"`);
+    }
+    for (const key of ['maxDrawdown', 'drawdownWarning', 'maxPositionSize', 'takeProfit', 'riskPerTrade', 'rebalanceThreshold'] as const) {
+      if (!isFraction(risk[key])) errors.push(`risk.${key} must be in (0, 1]`);
+    }
+    if (!(typeof risk.stopLoss === 'number' && risk.stopLoss > 0 && risk.stopLoss < 1)) errors.push('risk.stopLoss must be between 0 and 1');
+    if (!Number.isInteger(risk.minPairs) || risk.minPairs < 1) errors.push('risk.minPairs must be a positive integer');
+  }
+
+  const preTrade = config.preTrade;
+  if (!preTrade || typeof preTrade !== 'object') {
+    errors.push('preTrade must be an object');
+  } else {
+    for (const key of Object.keys(preTrade)) {
+      if (!(key in DEFAULT_CONFIG.preTrade)) errors.push(`unknown pre-trade limit "${key}"`);
+    }
+    for (const key of ['priceCollar', 'maxAssetExposure', 'maxDailyLoss'] as const) {
+      if (!isFraction(preTrade[key])) errors.push(`preTrade.${key} must be in (0, 1]`);
+    }
+    if (typeof preTrade.maxOrderNotional !== 'number' || !(preTrade.maxOrderNotional > 0) || !Number.isFinite(preTrade.maxOrderNotional)) {
+      errors.push('preTrade.maxOrderNotional must be a positive number');
+    }
+    if (typeof preTrade.maxTotalExposure !== 'number' || !(preTrade.maxTotalExposure > 0 && preTrade.maxTotalExposure <= 20)) {
+      errors.push('preTrade.maxTotalExposure must be in (0, 20]');
+    }
+    if (!Number.isInteger(preTrade.maxOrdersPerMinute) || preTrade.maxOrdersPerMinute < 1) errors.push('preTrade.maxOrdersPerMinute must be a positive integer');
+  }
+
+  const valueAtRisk = config.valueAtRisk;
+  if (!valueAtRisk || typeof valueAtRisk !== 'object') {
+    errors.push('valueAtRisk must be an object');
+  } else {
+    for (const key of Object.keys(valueAtRisk)) {
+      if (!(key in DEFAULT_CONFIG.valueAtRisk)) errors.push(`unknown valueAtRisk setting "${key}"`);
+    }
+    const { confidenceLevels, horizonsHours, lookbackBars } = valueAtRisk;
+    if (!Array.isArray(confidenceLevels) || confidenceLevels.length === 0 || !confidenceLevels.every(level => typeof level === 'number' && level >= 0.5 && level < 1)) {
+      errors.push('valueAtRisk.confidenceLevels must be a non-empty array of levels in [0.5, 1)');
+    }
+    if (!Number.isInteger(lookbackBars) || lookbackBars < 48 || lookbackBars > 500) errors.push('valueAtRisk.lookbackBars must be an integer between 48 and 500');
+    if (!Array.isArray(horizonsHours) || horizonsHours.length === 0 || !horizonsHours.every(hours => Number.isInteger(hours) && hours >= 1)) {
+      errors.push('valueAtRisk.horizonsHours must be a non-empty array of whole hours');
+    } else if (Number.isInteger(lookbackBars) && Math.max(...horizonsHours) > lookbackBars / 4) {
+      errors.push('valueAtRisk.horizonsHours must not exceed a quarter of valueAtRisk.lookbackBars');
+    }
+    if (!Number.isInteger(valueAtRisk.simulations) || valueAtRisk.simulations < 1000 || valueAtRisk.simulations > 100_000) {
+      errors.push('valueAtRisk.simulations must be an integer between 1000 and 100000');
+    }
+    if (typeof valueAtRisk.alertLimit !== 'number' || !(valueAtRisk.alertLimit >= 0 && valueAtRisk.alertLimit <= 1)) errors.push('valueAtRisk.alertLimit must be between 0 and 1');
+    if (!Number.isInteger(valueAtRisk.checkIntervalMs) || valueAtRisk.checkIntervalMs < 60_000) errors.push('valueAtRisk.checkIntervalMs must be an integer of at least 60000');
+  }
+
+  if (!Number.isInteger(config.tickIntervalMs) || config.tickIntervalMs < 100 || config.tickIntervalMs > 60_000) {
+    errors.push('tickIntervalMs must be an integer between 100 and 60000');
+  }
+
+  const signals = config.signals;
+  if (!signals || typeof signals !== 'object') {
+    errors.push('signals must be an object');
+  } else {
+    const { buyThreshold, sellThreshold, minConfidence } = signals;
+    if (typeof buyThreshold !== 'number' || !Number.isFinite(buyThreshold)) errors.push('signals.buyThreshold must be a number');
+    if (typeof sellThreshold !== 'number' || !Number.isFinite(sellThreshold)) errors.push('signals.sellThreshold must be a number');
+    if (buyThreshold <= sellThreshold) errors.push('signals.buyThreshold must be above signals.sellThreshold');
+    if (!minConfidence || typeof minConfidence !== 'object' || Array.isArray(minConfidence)) {
+      errors.push('signals.minConfidence must be an object of strategy -> confidence');
+    } else {
+      for (const [strategy, value] of Object.entries(minConfidence)) {
+        if (typeof value !== 'number' || !(value >= 0 && value < 1)) errors.push(`signals.minConfidence.${strategy} must be in [0, 1)`);
+      }
+    }
+  }
+
+  const rebalance = config.rebalance;
+  if (!rebalance || typeof rebalance !== 'object') {
+    errors.push('rebalance must be an object');
+  } else {
+    for (const key of Object.keys(rebalance)) {
+      if (!(key in DEFAULT_CONFIG.rebalance)) errors.push(`unknown rebalance setting "${key}"`);
+    }
+    if (!REBALANCE_TRIGGERS.includes(rebalance.trigger)) errors.push(`rebalance.trigger must be one of ${REBALANCE_TRIGGERS.join(', ')}`);
+    if (!Number.isInteger(rebalance.intervalMs) || rebalance.intervalMs < 60_000) errors.push('rebalance.intervalMs must be an integer of at least 60000');
+    if (typeof rebalance.relativeBand !== 'number' || !(rebalance.relativeBand >= 0 && rebalance.relativeBand <= 10)) errors.push('rebalance.relativeBand must be between 0 and 10');
+    if (typeof rebalance.minTradeNotional !== 'number' || !(rebalance.minTradeNotional >= 0) || !Number.isFinite(rebalance.minTradeNotional)) {
+      errors.push('rebalance.minTradeNotional must be zero or more');
+    }
+    if (typeof rebalance.netPendingSignals !== 'boolean') errors.push('rebalance.netPendingSignals must be true or false');
+    if (!rebalance.pairBands || typeof rebalance.pairBands !== 'object' || Array.isArray(rebalance.pairBands)) {
+      errors.push('rebalance.pairBands must be an object of pair -> { absolute, relative }');
+    } else {
+      for (const [pair, band] of Object.entries(rebalance.pairBands)) {
+        if (Array.isArray(pairs) && !pairs.includes(pair)) errors.push(`rebalance.pairBands has ${pair}, which is not in pairs`);
+        if (!band || typeof band !== 'object') {
+          errors.push(`rebalance.pairBands.${pair} must be an object`);
+          continue;
+        }
+        for (const key of Object.keys(band)) {
+          if (key !== 'absolute' && key !== 'relative') errors.push(`unknown band setting "${pair}.${key}"`);
+        }
+        if (band.absolute !== undefined && !isFraction(band.absolute)) errors.push(`rebalance.pairBands.${pair}.absolute must be in (0, 1]`);
+        if (band.relative !== undefined && !(typeof band.relative === 'number' && band.relative > 0 && band.relative <= 10)) {
+          errors.push(`rebalance.pairBands.${pair}.relative must be in (0, 10]`);
+        }
+      }
+    }
+  }
+
+  const optimizer = config.optimizer;
+  if (!optimizer || typeof optimizer !== 'object') {
+    errors.push('optimizer must be an object');
+  } else {
+    for (const key of Object.keys(optimizer)) {
+      if (!(key in DEFAULT_CONFIG.optimizer)) errors.push(`unknown optimizer setting "${key}"`);
+    }
+    if (typeof optimizer.enabled !== 'boolean') errors.push('optimizer.enabled must be true or false');
+    if (typeof optimizer.autoApply !== 'boolean') errors.push('optimizer.autoApply must be true or false');
+    if (!ALLOCATION_METHODS.includes(optimizer.method)) errors.push(`optimizer.method must be one of ${ALLOCATION_METHODS.join(', ')}`);
+    if (!Number.isInteger(optimizer.intervalMs) || optimizer.intervalMs < 60 * 60_000) errors.push('optimizer.intervalMs must be an integer of at least 3600000 (one hour)');
+    if (!Number.isInteger(optimizer.lookbackBars) || optimizer.lookbackBars < 25 || optimizer.lookbackBars > 500) errors.push('optimizer.lookbackBars must be an integer between 25 and 500');
+    if (!isFraction(optimizer.maxWeight)) errors.push('optimizer.maxWeight must be in (0, 1]');
+    if (!isFraction(optimizer.investedFraction)) errors.push('optimizer.investedFraction must be in (0, 1]');
+    if (typeof optimizer.riskAversion !== 'number' || !(optimizer.riskAversion > 0) || !Number.isFinite(optimizer.riskAversion)) {
+      errors.push('optimizer.riskAversion must be a positive number');
+    }
+    if (optimizer.enabled && Array.isArray(pairs) && optimizer.maxWeight * pairs.length < optimizer.investedFraction - 1e-9) {
+      errors.push(`optimizer.maxWeight of ${optimizer.maxWeight} across ${pairs.length} pairs can't reach optimizer.investedFraction`);
+    }
+  }
+
+  if (typeof config.initialBalance !== 'number' || !(config.initialBalance > 0) || !Number.isFinite(config.initialBalance)) {
+    errors.push('initialBalance must be a positive number');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config: ${errors.join('; ')}`);
+  }
+  return config;
+}
+
+export function mergeConfig(base: TradingConfig, patch: ConfigPatch): TradingConfig {
+  return {
+    ...base,
+    ...patch,
+    risk: { ...base.risk, ...patch.risk },
+    preTrade: { ...base.preTrade, ...patch.preTrade },
+    valueAtRisk: { ...base.valueAtRisk, ...patch.valueAtRisk },
+    signals: {
+      ...base.signals,
+      ...patch.signals,
+      minConfidence: { ...base.signals.minConfidence, ...patch.signals?.minConfidence },
+    },
+    rebalance: { ...base.rebalance, ...patch.rebalance },
+    optimizer: { ...base.optimizer, ...patch.optimizer },
+  };
+}
+
+export interface ConfigManagerOptions {
+  filePath: string;
+  defaults?: TradingConfig; // Written when the file doesn't exist yet, and fills settings it leaves out; DEFAULT_CONFIG when omitted
+  database?: TradingDatabase; // Version history; in-memory only when omitted
+  clock?: () => number;
+  watchIntervalMs?: number; // How often the file is checked for edits
+}
+
+type ConfigListener = (config: TradingConfig, version: number) => void;
+
+// Owns the trading config: a JSON file that can be edited by hand or through the API.
+// Every accepted change gets a new version number and is recorded in the database;
+// listeners apply it to the running engine, and a listener that throws rejects the change.
+export class ConfigManager {
+  private filePath: string;
+  private defaults: TradingConfig;
+  private database: TradingDatabase | null;
+  private clock: () => number;
+  private watchIntervalMs: number;
+  private current: ConfigVersion;
+  private listeners: ConfigListener[] = [];
+  private lastWritten: string | null = null; // Our own writes don't count as file edits
+  private watching = false;
+
+  constructor(options: ConfigManagerOptions) {
+    this.filePath = path.resolve(options.filePath);
+    this.defaults = options.defaults ?? DEFAULT_CONFIG;
+    this.database = options.database ?? null;
+    this.clock = options.clock ?? Date.now;
+    this.watchIntervalMs = options.watchIntervalMs ?? 2000;
+    this.current = this.load();
+  }
+
+  // Reads the file (writing defaults if there is none) and records it as a new version if it
+  // differs from the last one stored. An invalid file fails startup rather than trading on defaults.
+  private load(): ConfigVersion {
+    let config: TradingConfig;
+    let source: ConfigSource = 'file';
+    if (fs.existsSync(this.filePath)) {
+      config = validateConfig(mergeConfig(this.defaults, this.readFile()));
+    } else {
+      config = this.defaults;
+      source = 'default';
+      this.writeFile(config);
+    }
+
+    const latest = this.database?.loadLatestConfigVersion() ?? null;
+    if (latest && JSON.stringify(latest.config) === JSON.stringify(config)) {
+      return latest;
+    }
+    return this.record(config, source, latest?.version ?? 0);
+  }
+
+  private readFile(): ConfigPatch {
+    const raw = fs.readFileSync(this.filePath, 'utf8');
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid config: ${this.filePath} is not valid JSON (${error instanceof Error ? error.message : error})`);
+    }
+  }
+
+  private writeFile(config: TradingConfig) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const content = JSON.stringify(config, null, 2) + '\n';
+    // Write-then-rename so the watcher never sees a half-written file
+    const temp = `${this.filePath}.tmp`;
+    fs.writeFileSync(temp, content);
+    fs.renameSync(temp, this.filePath);
+    this.lastWritten = content;
+  }
+
+  private record(config: TradingConfig, source: ConfigSource, previousVersion: number): ConfigVersion {
+    const version: ConfigVersion = { version: previousVersion + 1, config, source, createdAt: this.clock() };
+    this.database?.saveConfigVersion(version);
+    return version;
+  }
+
+  public get(): TradingConfig {
+    return this.current.config;
+  }
+
+  public getVersion(): ConfigVersion {
+    return this.current;
+  }
+
+  public getHistory(limit: number = 20): ConfigVersion[] {
+    return this.database?.loadConfigVersions(limit) ?? [this.current];
+  }
+
+  public onChange(listener: ConfigListener) {
+    this.listeners.push(listener);
+  }
+
+  public update(patch: ConfigPatch, source: ConfigSource = 'api'): ConfigVersion {
+    if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+      throw new Error('Config update must be an object');
+    }
+    const next = validateConfig(mergeConfig(this.current.config, patch));
+    return this.commit(next, source, true);
+  }
+
+  // Re-applies a stored version as a new version
+  public rollback(version: number): ConfigVersion {
+    const target = this.getHistory(Number.MAX_SAFE_INTEGER).find(entry => entry.version === version);
+    if (!target) {
+      throw new Error(`Unknown config version: ${version}`);
+    }
+    // Versions stored before a setting existed get its default
+    return this.commit(validateConfig(mergeConfig(this.defaults, target.config)), 'rollback', true);
+  }
+
+  private commit(next: TradingConfig, source: ConfigSource, persist: boolean): ConfigVersion {
+    const previous = this.current.config;
+    if (JSON.stringify(next) === JSON.stringify(previous)) {
+      return this.current;
+    }
+
+    // Apply first so a change the engine can't take is never stored
+    const applied: ConfigListener[] = [];
+    try {
+      for (const listener of this.listeners) {
+        listener(next, this.current.version + 1);
+        applied.push(listener);
+      }
+    } catch (error) {
+      for (const listener of applied) listener(previous, this.current.version);
+      throw error;
+    }
+
+    if (persist) this.writeFile(next);
+    this.current = this.record(next, source, this.current.version);
+    console.log(`Config v${this.current.version} applied (${source})`);
+    return this.current;
+  }
+
+  // Hot reload: hand edits to the file are validated and applied like API updates.
+  // A bad edit is reported and the running config stays in place.
+  public watch(onError?: (error: Error) => void) {
+    if (this.watching) return;
+    this.watching = true;
+    fs.watchFile(this.filePath, { interval: this.watchIntervalMs }, (stat) => {
+      if (stat.mtimeMs === 0) return; // File removed; keep running on the current config
+
+      let raw: string;
+      try {
+        raw = fs.readFileSync(this.filePath, 'utf8');
+      } catch {
+        return;
+      }
+      if (raw === this.lastWritten) return;
+      this.lastWritten = raw;
+
+      try {
+        const next = validateConfig(mergeConfig(this.defaults, this.readFile()));
+        this.commit(next, 'file', false);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        console.error(`Config file change rejected: ${err.message}`);
+        onError?.(err);
+      }
+    });
+  }
+
+  public unwatch() {
+    if (!this.watching) return;
+    fs.unwatchFile(this.filePath);
+    this.watching = false;
+  }
+}
@@ -0,0 +1,998 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { Portfolio } from './RiskManager.js';
+import type { TradeLog, PausedPair } from './Engine.js';
+import type { Alert } from './AlertManager.js';
+import type { AlertRule } from './AlertRuleEngine.js';
+import type { DeadLetter } from './NotificationQueue.js';
+import type { ScoredItem } from './SentimentAnalyzer.js';
+import type { Candle } from './HistoricalData.js';
+import type { RebalancePlan, RebalanceTrigger } from './RebalancePlanner.js';
+import type { KillSwitchEvent } from './KillSwitch.js';
+import type { Order } from './OrderManager.js';
+import type { EquitySnapshot } from './PerformanceAnalyzer.js';
+import type { ConfigVersion } from './ConfigManager.js';
+import type { AccountRecord } from './AccountManager.js';
+import type { StoredUser, StoredApiToken, Session, AuditEntry } from './AuthManager.js';
+
+interface Migration {
+  version: number;
+  description: string;
+  up: string;
+}
+
+// Append-only: never edit a migration once shipped, add a new one instead
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial portfolio, positions, trade log and alert tables',
+    up: `
+      CREATE TABLE portfolio (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        balance REAL NOT NULL,
+        initial_balance REAL NOT NULL,
+        pnl REAL NOT NULL,
+        drawdown REAL NOT NULL,
+        max_drawdown REAL NOT NULL,
+        win_rate REAL NOT NULL,
+        sharpe_ratio REAL NOT NULL,
+        total_trades INTEGER NOT NULL,
+        winning_trades INTEGER NOT NULL,
+        target_allocations TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE positions (
+        pair TEXT PRIMARY KEY,
+        amount REAL NOT NULL,
+        avg_entry_price REAL NOT NULL
+      );
+
+      CREATE TABLE trade_logs (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        pair TEXT NOT NULL,
+        type TEXT NOT NULL,
+        price REAL NOT NULL,
+        amount REAL NOT NULL,
+        status TEXT NOT NULL,
+        pnl REAL
+      );
+      CREATE INDEX idx_trade_logs_timestamp ON trade_logs (timestamp);
+
+      CREATE TABLE alerts (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        message TEXT NOT NULL,
+        severity TEXT NOT NULL
+      );
+      CREATE INDEX idx_alerts_timestamp ON alerts (timestamp);
+    `,
+  },
+  {
+    version: 2,
+    description: 'Tag trade logs with the producing strategy',
+    up: `
+      ALTER TABLE trade_logs ADD COLUMN strategy TEXT;
+    `,
+  },
+  {
+    version: 3,
+    description: 'Order lifecycle table and order references on trade logs',
+    up: `
+      CREATE TABLE orders (
+        id TEXT PRIMARY KEY,
+        pair TEXT NOT NULL,
+        side TEXT NOT NULL,
+        type TEXT NOT NULL,
+        amount REAL NOT NULL,
+        filled_amount REAL NOT NULL,
+        avg_fill_price REAL NOT NULL,
+        price REAL,
+        stop_price REAL,
+        triggered INTEGER NOT NULL,
+        time_in_force TEXT NOT NULL,
+        status TEXT NOT NULL,
+        strategy TEXT NOT NULL,
+        reserved REAL NOT NULL,
+        oco_group_id TEXT,
+        expires_at INTEGER,
+        reject_reason TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_orders_status ON orders (status);
+
+      ALTER TABLE trade_logs ADD COLUMN order_id TEXT;
+      ALTER TABLE trade_logs ADD COLUMN reason TEXT;
+    `,
+  },
+  {
+    version: 4,
+    description: 'Per-position stop-loss, take-profit and trailing stop rules',
+    up: `
+      ALTER TABLE positions ADD COLUMN stop_loss_pct REAL DEFAULT 0.02;
+      ALTER TABLE positions ADD COLUMN take_profit_pct REAL DEFAULT 0.05;
+      ALTER TABLE positions ADD COLUMN trailing_type TEXT;
+      ALTER TABLE positions ADD COLUMN trailing_distance REAL;
+      ALTER TABLE positions ADD COLUMN trailing_peak REAL;
+    `,
+  },
+  {
+    version: 5,
+    description: 'Equity snapshots for performance analytics',
+    up: `
+      CREATE TABLE equity_snapshots (
+        timestamp INTEGER PRIMARY KEY,
+        equity REAL NOT NULL,
+        exposure REAL NOT NULL
+      );
+    `,
+  },
+  {
+    version: 6,
+    description: 'Trading fees on trade logs, orders and the portfolio',
+    up: `
+      ALTER TABLE portfolio ADD COLUMN total_fees REAL NOT NULL DEFAULT 0;
+      ALTER TABLE trade_logs ADD COLUMN fee REAL;
+      ALTER TABLE orders ADD COLUMN fees REAL NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    version: 7,
+    description: 'Per-position leverage and accrued financing costs',
+    up: `
+      ALTER TABLE positions ADD COLUMN leverage REAL NOT NULL DEFAULT 1;
+      ALTER TABLE portfolio ADD COLUMN total_financing REAL NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    version: 8,
+    description: 'Execution venue on trade logs and orders',
+    up: `
+      ALTER TABLE trade_logs ADD COLUMN venue TEXT;
+      ALTER TABLE orders ADD COLUMN venue TEXT;
+    `,
+  },
+  {
+    version: 9,
+    description: 'Exchange order references for live trading',
+    up: `
+      ALTER TABLE orders ADD COLUMN exchange_order_id TEXT;
+      ALTER TABLE orders ADD COLUMN sent_at INTEGER;
+    `,
+  },
+  {
+    version: 10,
+    description: 'Versioned trading config history',
+    up: `
+      CREATE TABLE config_versions (
+        version INTEGER PRIMARY KEY,
+        config TEXT NOT NULL,
+        source TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `,
+  },
+  {
+    version: 11,
+    description: 'Users, sessions, API tokens and the audit log',
+    up: `
+      CREATE TABLE users (
+        username TEXT PRIMARY KEY,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE sessions (
+        token_hash TEXT PRIMARY KEY,
+        username TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE api_tokens (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER,
+        revoked_at INTEGER
+      );
+
+      CREATE TABLE audit_log (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        actor TEXT NOT NULL,
+        role TEXT,
+        action TEXT NOT NULL,
+        details TEXT,
+        status INTEGER NOT NULL,
+        ip TEXT
+      );
+      CREATE INDEX idx_audit_log_timestamp ON audit_log (timestamp);
+    `,
+  },
+  {
+    version: 12,
+    description: 'Manual order attribution and paused pairs',
+    up: `
+      ALTER TABLE orders ADD COLUMN placed_by TEXT;
+      ALTER TABLE trade_logs ADD COLUMN placed_by TEXT;
+
+      CREATE TABLE paused_pairs (
+        pair TEXT PRIMARY KEY,
+        paused_by TEXT NOT NULL,
+        paused_at INTEGER NOT NULL
+      );
+    `,
+  },
+  {
+    version: 13,
+    description: 'Alert deduplication, acknowledgement and escalation, and user-defined alert rules',
+    up: `
+      ALTER TABLE alerts ADD COLUMN status TEXT NOT NULL DEFAULT 'RESOLVED';
+      ALTER TABLE alerts ADD COLUMN alert_key TEXT;
+      ALTER TABLE alerts ADD COLUMN count INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE alerts ADD COLUMN last_seen_at INTEGER;
+      ALTER TABLE alerts ADD COLUMN rule_id TEXT;
+      ALTER TABLE alerts ADD COLUMN acknowledged_by TEXT;
+      ALTER TABLE alerts ADD COLUMN acknowledged_at INTEGER;
+      ALTER TABLE alerts ADD COLUMN resolved_at INTEGER;
+      ALTER TABLE alerts ADD COLUMN escalate_after_ms INTEGER;
+      ALTER TABLE alerts ADD COLUMN escalate_at INTEGER;
+      CREATE INDEX idx_alerts_id ON alerts (id);
+
+      CREATE TABLE alert_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        condition TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        cooldown_ms INTEGER NOT NULL,
+        escalate_after_ms INTEGER,
+        enabled INTEGER NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `,
+  },
+  {
+    version: 14,
+    description: 'Dead-lettered notification deliveries',
+    up: `
+      CREATE TABLE notification_dead_letters (
+        id TEXT PRIMARY KEY,
+        channel TEXT NOT NULL,
+        alert TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        failed_at INTEGER NOT NULL,
+        retried_at INTEGER
+      );
+      CREATE INDEX idx_notification_dead_letters_failed_at ON notification_dead_letters (failed_at);
+    `,
+  },
+  {
+    version: 15,
+    description: 'Scored sentiment items',
+    up: `
+      CREATE TABLE sentiment_items (
+        id TEXT PRIMARY KEY,
+        source TEXT NOT NULL,
+        title TEXT NOT NULL,
+        url TEXT,
+        pairs TEXT NOT NULL,
+        score REAL NOT NULL,
+        scorer TEXT NOT NULL,
+        published_at INTEGER NOT NULL,
+        scored_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_sentiment_items_published_at ON sentiment_items (published_at);
+    `,
+  },
+  {
+    version: 16,
+    description: 'Closed price bars',
+    up: `
+      CREATE TABLE price_bars (
+        pair TEXT NOT NULL,
+        timeframe TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume REAL NOT NULL,
+        PRIMARY KEY (timeframe, pair, timestamp)
+      );
+      CREATE INDEX idx_price_bars_timestamp ON price_bars (timeframe, timestamp);
+    `,
+  },
+  {
+    version: 17,
+    description: 'Rebalance plan records',
+    up: `
+      CREATE TABLE rebalance_plans (
+        id TEXT PRIMARY KEY,
+        trigger TEXT NOT NULL,
+        plan TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_rebalance_plans_created_at ON rebalance_plans (created_at);
+    `,
+  },
+  {
+    version: 18,
+    description: 'Kill switch trips and re-arms',
+    up: `
+      CREATE TABLE kill_switch_events (
+        id TEXT PRIMARY KEY,
+        action TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        drawdown REAL NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_kill_switch_events_created_at ON kill_switch_events (created_at);
+    `,
+  },
+  {
+    version: 19,
+    description: 'Sub-account registry',
+    up: `
+      CREATE TABLE accounts (
+        name TEXT PRIMARY KEY,
+        description TEXT,
+        strategies TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `,
+  },
+  {
+    version: 20,
+    description: 'Drawdown baseline on kill switch re-arms',
+    up: `
+      ALTER TABLE kill_switch_events ADD COLUMN baseline_equity REAL;
+    `,
+  },
+  {
+    version: 21,
+    description: 'Kill switch drawdown high-water mark on the portfolio',
+    up: `
+      ALTER TABLE portfolio ADD COLUMN drawdown_baseline REAL;
+    `,
+  },
+];
+
+export class TradingDatabase {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    // WAL keeps committed writes durable across crashes without blocking readers
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+    this.migrate();
+  }
+
+  private migrate() {
+    const current = this.db.pragma('user_version', { simple: true }) as number;
+    const pending = MIGRATIONS.filter(m => m.version > current);
+
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        this.db.pragma(`user_version = ${migration.version}`);
+      })();
+      console.log(`Applied database migration ${migration.version}: ${migration.description}`);
+    }
+  }
+
+  public getSchemaVersion(): number {
+    return this.db.pragma('user_version', { simple: true }) as number;
+  }
+
+  public savePortfolio(portfolio: Portfolio) {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO portfolio (id, balance, initial_balance, pnl, drawdown, max_drawdown, drawdown_baseline, win_rate,
+          sharpe_ratio, total_trades, winning_trades, total_fees, total_financing, target_allocations, updated_at)
+        VALUES (1, @balance, @initialBalance, @pnl, @drawdown, @maxDrawdown, @drawdownBaseline, @winRate,
+          @sharpeRatio, @totalTrades, @winningTrades, @totalFees, @totalFinancing, @targetAllocations, @updatedAt)
+        ON CONFLICT (id) DO UPDATE SET
+          balance = excluded.balance,
+          initial_balance = excluded.initial_balance,
+          pnl = excluded.pnl,
+          drawdown = excluded.drawdown,
+          max_drawdown = excluded.max_drawdown,
+          drawdown_baseline = excluded.drawdown_baseline,
+          win_rate = excluded.win_rate,
+          sharpe_ratio = excluded.sharpe_ratio,
+          total_trades = excluded.total_trades,
+          winning_trades = excluded.winning_trades,
+          total_fees = excluded.total_fees,
+          total_financing = excluded.total_financing,
+          target_allocations = excluded.target_allocations,
+          updated_at = excluded.updated_at
+      `).run({
+        balance: portfolio.balance,
+        initialBalance: portfolio.initialBalance,
+        pnl: portfolio.pnl,
+        drawdown: portfolio.drawdown,
+        maxDrawdown: portfolio.maxDrawdown,
+        drawdownBaseline: portfolio.drawdownBaseline,
+        winRate: portfolio.winRate,
+        sharpeRatio: portfolio.sharpeRatio,
+        totalTrades: portfolio.totalTrades,
+        winningTrades: portfolio.winningTrades,
+        totalFees: portfolio.totalFees,
+        totalFinancing: portfolio.totalFinancing,
+        targetAllocations: JSON.stringify(portfolio.targetAllocations),
+        updatedAt: Date.now(),
+      });
+
+      // Rows are only written for positions that changed, and removed for positions closed since
+      const deletePosition = this.db.prepare('DELETE FROM positions WHERE pair = ?');
+      for (const { pair } of this.db.prepare('SELECT pair FROM positions').all() as any[]) {
+        if (!portfolio.positions[pair]) deletePosition.run(pair);
+      }
+      const upsertPosition = this.db.prepare(`
+        INSERT INTO positions (pair, amount, avg_entry_price, leverage, stop_loss_pct, take_profit_pct,
+          trailing_type, trailing_distance, trailing_peak)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (pair) DO UPDATE SET
+          amount = excluded.amount,
+          avg_entry_price = excluded.avg_entry_price,
+          leverage = excluded.leverage,
+          stop_loss_pct = excluded.stop_loss_pct,
+          take_profit_pct = excluded.take_profit_pct,
+          trailing_type = excluded.trailing_type,
+          trailing_distance = excluded.trailing_distance,
+          trailing_peak = excluded.trailing_peak
+        WHERE amount IS NOT excluded.amount
+          OR avg_entry_price IS NOT excluded.avg_entry_price
+          OR leverage IS NOT excluded.leverage
+          OR stop_loss_pct IS NOT excluded.stop_loss_pct
+          OR take_profit_pct IS NOT excluded.take_profit_pct
+          OR trailing_type IS NOT excluded.trailing_type
+          OR trailing_distance IS NOT excluded.trailing_distance
+          OR trailing_peak IS NOT excluded.trailing_peak
+      `);
+      for (const [pair, pos] of Object.entries(portfolio.positions)) {
+        upsertPosition.run(
+          pair, pos.amount, pos.avgEntryPrice, pos.leverage, pos.stopLossPct, pos.takeProfitPct,
+          pos.trailing?.type ?? null, pos.trailing?.distance ?? null, pos.trailing?.peak ?? null,
+        );
+      }
+    })();
+  }
+
+  public loadPortfolio(): Portfolio | null {
+    const row = this.db.prepare('SELECT * FROM portfolio WHERE id = 1').get() as any;
+    if (!row) return null;
+
+    const positions: Portfolio['positions'] = {};
+    for (const pos of this.db.prepare('SELECT * FROM positions').all() as any[]) {
+      positions[pos.pair] = {
+        amount: pos.amount,
+        avgEntryPrice: pos.avg_entry_price,
+        leverage: pos.leverage,
+        stopLossPct: pos.stop_loss_pct,
+        takeProfitPct: pos.take_profit_pct,
+        trailing: pos.trailing_type
+          ? { type: pos.trailing_type, distance: pos.trailing_distance, peak: pos.trailing_peak }
+          : null,
+        // Levels and margin are re-derived by the RiskManager on restore
+        margin: 0,
+        liquidationPrice: null,
+        stopLoss: null,
+        takeProfit: null,
+        trailingStop: null,
+      };
+    }
+
+    return {
+      balance: row.balance,
+      initialBalance: row.initial_balance,
+      positions,
+      pnl: row.pnl,
+      drawdown: row.drawdown,
+      maxDrawdown: row.max_drawdown,
+      drawdownBaseline: row.drawdown_baseline,
+      winRate: row.win_rate,
+      sharpeRatio: row.sharpe_ratio,
+      totalTrades: row.total_trades,
+      winningTrades: row.winning_trades,
+      totalFees: row.total_fees,
+      totalFinancing: row.total_financing,
+      grossExposure: 0, // Recomputed on the first price update
+      netExposure: 0,
+      targetAllocations: JSON.parse(row.target_allocations),
+    };
+  }
+
+  // Records a trade together with the portfolio it produced so a crash can't split them
+  public recordTrade(log: TradeLog, portfolio: Portfolio) {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO trade_logs (id, timestamp, pair, type, price, amount, status, pnl, fee, venue, strategy, order_id, reason, placed_by)
+        VALUES (@id, @timestamp, @pair, @type, @price, @amount, @status, @pnl, @fee, @venue, @strategy, @orderId, @reason, @placedBy)
+      `).run({
+        ...log,
+        pnl: log.pnl ?? null,
+        fee: log.fee ?? null,
+        venue: log.venue ?? null,
+        strategy: log.strategy ?? null,
+        orderId: log.orderId ?? null,
+        reason: log.reason ?? null,
+        placedBy: log.placedBy ?? null,
+      });
+      this.savePortfolio(portfolio);
+    })();
+  }
+
+  private toTradeLog(row: any): TradeLog {
+    const log: TradeLog = {
+      id: row.id,
+      timestamp: row.timestamp,
+      pair: row.pair,
+      type: row.type,
+      price: row.price,
+      amount: row.amount,
+      status: row.status,
+    };
+    if (row.pnl !== null) log.pnl = row.pnl;
+    if (row.fee !== null) log.fee = row.fee;
+    if (row.venue !== null) log.venue = row.venue;
+    if (row.strategy !== null) log.strategy = row.strategy;
+    if (row.order_id !== null) log.orderId = row.order_id;
+    if (row.reason !== null) log.reason = row.reason;
+    if (row.placed_by !== null) log.placedBy = row.placed_by;
+    return log;
+  }
+
+  public loadTradeLogs(limit: number): TradeLog[] {
+    const rows = this.db.prepare('SELECT * FROM trade_logs ORDER BY seq DESC LIMIT ?').all(limit) as any[];
+    return rows.reverse().map(row => this.toTradeLog(row));
+  }
+
+  public saveOrder(order: Order) {
+    this.db.prepare(`
+      INSERT INTO orders (id, pair, side, type, amount, filled_amount, avg_fill_price, fees, venue, price, stop_price, triggered,
+        time_in_force, status, strategy, reserved, oco_group_id, expires_at, reject_reason, exchange_order_id, sent_at,
+        placed_by, created_at, updated_at)
+      VALUES (@id, @pair, @side, @type, @amount, @filledAmount, @avgFillPrice, @fees, @venue, @price, @stopPrice, @triggered,
+        @timeInForce, @status, @strategy, @reserved, @ocoGroupId, @expiresAt, @rejectReason, @exchangeOrderId, @sentAt,
+        @placedBy, @createdAt, @updatedAt)
+      ON CONFLICT (id) DO UPDATE SET
+        filled_amount = excluded.filled_amount,
+        avg_fill_price = excluded.avg_fill_price,
+        fees = excluded.fees,
+        venue = excluded.venue,
+        triggered = excluded.triggered,
+        status = excluded.status,
+        reserved = excluded.reserved,
+        reject_reason = excluded.reject_reason,
+        exchange_order_id = excluded.exchange_order_id,
+        sent_at = excluded.sent_at,
+        updated_at = excluded.updated_at
+    `).run({
+      ...order,
+      venue: order.venue ?? null,
+      price: order.price ?? null,
+      stopPrice: order.stopPrice ?? null,
+      triggered: order.triggered ? 1 : 0,
+      ocoGroupId: order.ocoGroupId ?? null,
+      expiresAt: order.expiresAt ?? null,
+      rejectReason: order.rejectReason ?? null,
+      exchangeOrderId: order.exchangeOrderId ?? null,
+      sentAt: order.sentAt ?? null,
+      placedBy: order.placedBy ?? null,
+    });
+  }
+
+  public loadOpenOrders(): Order[] {
+    const rows = this.db.prepare(`SELECT * FROM orders WHERE status IN ('NEW', 'PARTIALLY_FILLED') ORDER BY created_at`).all() as any[];
+    return rows.map(row => {
+      const order: Order = {
+        id: row.id,
+        pair: row.pair,
+        side: row.side,
+        type: row.type,
+        amount: row.amount,
+        filledAmount: row.filled_amount,
+        avgFillPrice: row.avg_fill_price,
+        fees: row.fees,
+        triggered: row.triggered === 1,
+        timeInForce: row.time_in_force,
+        status: row.status,
+        strategy: row.strategy,
+        reserved: row.reserved,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      };
+      if (row.venue !== null) order.venue = row.venue;
+      if (row.price !== null) order.price = row.price;
+      if (row.stop_price !== null) order.stopPrice = row.stop_price;
+      if (row.oco_group_id !== null) order.ocoGroupId = row.oco_group_id;
+      if (row.expires_at !== null) order.expiresAt = row.expires_at;
+      if (row.exchange_order_id !== null) order.exchangeOrderId = row.exchange_order_id;
+      if (row.sent_at !== null) order.sentAt = row.sent_at;
+      if (row.placed_by !== null) order.placedBy = row.placed_by;
+      return order;
+    });
+  }
+
+  public loadTradeLogsSince(since: number): TradeLog[] {
+    const rows = this.db.prepare('SELECT * FROM trade_logs WHERE timestamp >= ? ORDER BY seq').all(since) as any[];
+    return rows.map(row => this.toTradeLog(row));
+  }
+
+  public insertEquitySnapshot(snapshot: EquitySnapshot) {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO equity_snapshots (timestamp, equity, exposure)
+      VALUES (@timestamp, @equity, @exposure)
+    `).run(snapshot);
+  }
+
+  public loadEquitySnapshots(since: number): EquitySnapshot[] {
+    return this.db.prepare('SELECT timestamp, equity, exposure FROM equity_snapshots WHERE timestamp >= ? ORDER BY timestamp').all(since) as EquitySnapshot[];
+  }
+
+  public insertAlert(alert: Alert) {
+    this.db.prepare(`
+      INSERT INTO alerts (id, timestamp, type, message, severity, status, alert_key, count, last_seen_at, rule_id,
+        acknowledged_by, acknowledged_at, resolved_at, escalate_after_ms, escalate_at)
+      VALUES (@id, @timestamp, @type, @message, @severity, @status, @key, @count, @lastSeenAt, @ruleId,
+        @acknowledgedBy, @acknowledgedAt, @resolvedAt, @escalateAfterMs, @escalateAt)
+    `).run(alert);
+  }
+
+  public updateAlert(alert: Alert) {
+    this.db.prepare(`
+      UPDATE alerts SET message = @message, severity = @severity, status = @status, count = @count, last_seen_at = @lastSeenAt,
+        acknowledged_by = @acknowledgedBy, acknowledged_at = @acknowledgedAt, resolved_at = @resolvedAt, escalate_at = @escalateAt
+      WHERE id = @id
+    `).run(alert);
+  }
+
+  public loadAlerts(limit: number): Alert[] {
+    const rows = this.db.prepare('SELECT * FROM alerts ORDER BY seq DESC LIMIT ?').all(limit) as any[];
+    return rows.reverse().map(row => this.alertFromRow(row));
+  }
+
+  public loadUnresolvedAlerts(): Alert[] {
+    const rows = this.db.prepare(`SELECT * FROM alerts WHERE status != 'RESOLVED' ORDER BY seq`).all() as any[];
+    return rows.map(row => this.alertFromRow(row));
+  }
+
+  private alertFromRow(row: any): Alert {
+    return {
+      id: row.id,
+      timestamp: row.timestamp,
+      type: row.type,
+      message: row.message,
+      severity: row.severity,
+      status: row.status,
+      key: row.alert_key,
+      count: row.count,
+      lastSeenAt: row.last_seen_at ?? row.timestamp,
+      ruleId: row.rule_id,
+      acknowledgedBy: row.acknowledged_by,
+      acknowledgedAt: row.acknowledged_at,
+      resolvedAt: row.resolved_at,
+      escalateAfterMs: row.escalate_after_ms,
+      escalateAt: row.escalate_at,
+    };
+  }
+
+  public insertDeadLetter(letter: DeadLetter) {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO notification_dead_letters (id, channel, alert, attempts, last_error, created_at, failed_at, retried_at)
+      VALUES (@id, @channel, @alert, @attempts, @lastError, @createdAt, @failedAt, @retriedAt)
+    `).run({ ...letter, alert: JSON.stringify(letter.alert) });
+  }
+
+  public markDeadLetterRetried(id: string, retriedAt: number) {
+    this.db.prepare('UPDATE notification_dead_letters SET retried_at = ? WHERE id = ?').run(retriedAt, id);
+  }
+
+  // Newest first
+  public loadDeadLetters(limit: number): DeadLetter[] {
+    const rows = this.db.prepare('SELECT * FROM notification_dead_letters ORDER BY failed_at DESC LIMIT ?').all(limit) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      channel: row.channel,
+      alert: JSON.parse(row.alert),
+      attempts: row.attempts,
+      lastError: row.last_error,
+      createdAt: row.created_at,
+      failedAt: row.failed_at,
+      retriedAt: row.retried_at,
+    }));
+  }
+
+  public insertSentimentItems(items: ScoredItem[]) {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO sentiment_items (id, source, title, url, pairs, score, scorer, published_at, scored_at)
+      VALUES (@id, @source, @title, @url, @pairs, @score, @scorer, @publishedAt, @scoredAt)
+    `);
+    this.db.transaction(() => {
+      for (const item of items) insert.run({ ...item, pairs: JSON.stringify(item.pairs) });
+    })();
+  }
+
+  // Oldest first
+  public loadSentimentItems(since: number): ScoredItem[] {
+    const rows = this.db.prepare('SELECT * FROM sentiment_items WHERE published_at >= ? ORDER BY published_at').all(since) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      source: row.source,
+      title: row.title,
+      url: row.url,
+      pairs: JSON.parse(row.pairs),
+      score: row.score,
+      scorer: row.scorer,
+      publishedAt: row.published_at,
+      scoredAt: row.scored_at,
+    }));
+  }
+
+  public savePriceBar(timeframe: string, candle: Candle) {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO price_bars (pair, timeframe, timestamp, open, high, low, close, volume)
+      VALUES (@pair, @timeframe, @timestamp, @open, @high, @low, @close, @volume)
+    `).run({ ...candle, timeframe });
+  }
+
+  // Oldest first
+  public loadPriceBars(timeframe: string, since: number, until: number = Number.MAX_SAFE_INTEGER): Candle[] {
+    return this.db.prepare(`
+      SELECT pair, timestamp, open, high, low, close, volume FROM price_bars
+      WHERE timeframe = ? AND timestamp >= ? AND timestamp < ? ORDER BY timestamp
+    `).all(timeframe, since, until) as Candle[];
+  }
+
+  public insertRebalancePlan(plan: RebalancePlan) {
+    this.db.prepare('INSERT INTO rebalance_plans (id, trigger, plan, created_at) VALUES (?, ?, ?, ?)')
+      .run(plan.id, plan.trigger, JSON.stringify(plan), plan.createdAt);
+  }
+
+  // Newest first, optionally only plans from one trigger
+  public loadRebalancePlans(limit: number, trigger?: RebalanceTrigger): RebalancePlan[] {
+    const rows = (trigger
+      ? this.db.prepare('SELECT plan FROM rebalance_plans WHERE trigger = ? ORDER BY created_at DESC LIMIT ?').all(trigger, limit)
+      : this.db.prepare('SELECT plan FROM rebalance_plans ORDER BY created_at DESC LIMIT ?').all(limit)) as any[];
+    return rows.map(row => JSON.parse(row.plan));
+  }
+
+  public loadRebalancePlan(id: string): RebalancePlan | null {
+    const row = this.db.prepare('SELECT plan FROM rebalance_plans WHERE id = ?').get(id) as any;
+    return row ? JSON.parse(row.plan) : null;
+  }
+
+  public insertKillSwitchEvent(event: KillSwitchEvent) {
+    this.db.prepare(`
+      INSERT INTO kill_switch_events (id, action, reason, actor, drawdown, baseline_equity, created_at)
+      VALUES (@id, @action, @reason, @actor, @drawdown, @baselineEquity, @createdAt)
+    `).run(event);
+  }
+
+  // Newest first
+  public loadKillSwitchEvents(limit: number): KillSwitchEvent[] {
+    const rows = this.db.prepare('SELECT * FROM kill_switch_events ORDER BY created_at DESC, rowid DESC LIMIT ?').all(limit) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      action: row.action,
+      reason: row.reason,
+      actor: row.actor,
+      drawdown: row.drawdown,
+      baselineEquity: row.baseline_equity,
+      createdAt: row.created_at,
+    }));
+  }
+
+  public insertAccount(account: AccountRecord) {
+    this.db.prepare(`
+      INSERT INTO accounts (name, description, strategies, created_by, created_at)
+      VALUES (@name, @description, @strategies, @createdBy, @createdAt)
+    `).run({ ...account, strategies: JSON.stringify(account.strategies) });
+  }
+
+  // Oldest first
+  public loadAccounts(): AccountRecord[] {
+    const rows = this.db.prepare('SELECT * FROM accounts ORDER BY created_at, rowid').all() as any[];
+    return rows.map(row => ({
+      name: row.name,
+      description: row.description,
+      strategies: JSON.parse(row.strategies),
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    }));
+  }
+
+  public saveAlertRule(rule: AlertRule) {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO alert_rules (id, name, condition, severity, cooldown_ms, escalate_after_ms, enabled, created_by, created_at)
+      VALUES (@id, @name, @condition, @severity, @cooldownMs, @escalateAfterMs, @enabled, @createdBy, @createdAt)
+    `).run({ ...rule, condition: JSON.stringify(rule.condition), enabled: rule.enabled ? 1 : 0 });
+  }
+
+  public deleteAlertRule(id: string) {
+    this.db.prepare('DELETE FROM alert_rules WHERE id = ?').run(id);
+  }
+
+  public loadAlertRules(): AlertRule[] {
+    const rows = this.db.prepare('SELECT * FROM alert_rules ORDER BY created_at').all() as any[];
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      condition: JSON.parse(row.condition),
+      severity: row.severity,
+      cooldownMs: row.cooldown_ms,
+      escalateAfterMs: row.escalate_after_ms,
+      enabled: row.enabled === 1,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    }));
+  }
+
+  public saveConfigVersion(entry: ConfigVersion) {
+    this.db.prepare(`
+      INSERT INTO config_versions (version, config, source, created_at)
+      VALUES (@version, @config, @source, @createdAt)
+    `).run({ ...entry, config: JSON.stringify(entry.config) });
+  }
+
+  public loadLatestConfigVersion(): ConfigVersion | null {
+    return this.loadConfigVersions(1)[0] ?? null;
+  }
+
+  // Newest first
+  public loadConfigVersions(limit: number): ConfigVersion[] {
+    const rows = this.db.prepare('SELECT * FROM config_versions ORDER BY version DESC LIMIT ?').all(limit) as any[];
+    return rows.map(row => ({
+      version: row.version,
+      config: JSON.parse(row.config),
+      source: row.source,
+      createdAt: row.created_at,
+    }));
+  }
+
+  public savePausedPair(pair: string, pausedBy: string, pausedAt: number) {
+    this.db.prepare('INSERT OR REPLACE INTO paused_pairs (pair, paused_by, paused_at) VALUES (?, ?, ?)').run(pair, pausedBy, pausedAt);
+  }
+
+  public deletePausedPair(pair: string) {
+    this.db.prepare('DELETE FROM paused_pairs WHERE pair = ?').run(pair);
+  }
+
+  public loadPausedPairs(): PausedPair[] {
+    const rows = this.db.prepare('SELECT * FROM paused_pairs ORDER BY paused_at').all() as any[];
+    return rows.map(row => ({ pair: row.pair, pausedBy: row.paused_by, pausedAt: row.paused_at }));
+  }
+
+  public countUsers(): number {
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number }).count;
+  }
+
+  public saveUser(user: StoredUser) {
+    this.db.prepare(`
+      INSERT INTO users (username, password_hash, role, created_at)
+      VALUES (@username, @passwordHash, @role, @createdAt)
+      ON CONFLICT(username) DO UPDATE SET password_hash = excluded.password_hash, role = excluded.role
+    `).run(user);
+  }
+
+  public loadUser(username: string): StoredUser | null {
+    const row = this.db.prepare('SELECT * FROM users WHERE username = ?').get(username) as any;
+    return row ? this.toUser(row) : null;
+  }
+
+  public loadUsers(): StoredUser[] {
+    const rows = this.db.prepare('SELECT * FROM users ORDER BY created_at').all() as any[];
+    return rows.map(row => this.toUser(row));
+  }
+
+  private toUser(row: any): StoredUser {
+    return { username: row.username, passwordHash: row.password_hash, role: row.role, createdAt: row.created_at };
+  }
+
+  public deleteUser(username: string) {
+    this.db.prepare('DELETE FROM users WHERE username = ?').run(username);
+  }
+
+  public saveSession(session: Session) {
+    // Expired sessions are swept whenever a new one starts
+    this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(session.createdAt);
+    this.db.prepare(`
+      INSERT INTO sessions (token_hash, username, created_at, expires_at)
+      VALUES (@tokenHash, @username, @createdAt, @expiresAt)
+    `).run(session);
+  }
+
+  public loadSession(tokenHash: string): Session | null {
+    const row = this.db.prepare('SELECT * FROM sessions WHERE token_hash = ?').get(tokenHash) as any;
+    return row ? { tokenHash: row.token_hash, username: row.username, createdAt: row.created_at, expiresAt: row.expires_at } : null;
+  }
+
+  public deleteSession(tokenHash: string) {
+    this.db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+  }
+
+  public deleteSessions(username: string) {
+    this.db.prepare('DELETE FROM sessions WHERE username = ?').run(username);
+  }
+
+  public saveApiToken(token: StoredApiToken) {
+    this.db.prepare(`
+      INSERT INTO api_tokens (id, name, token_hash, role, created_by, created_at, last_used_at, revoked_at)
+      VALUES (@id, @name, @tokenHash, @role, @createdBy, @createdAt, @lastUsedAt, @revokedAt)
+      ON CONFLICT(id) DO UPDATE SET last_used_at = excluded.last_used_at, revoked_at = excluded.revoked_at
+    `).run(token);
+  }
+
+  public loadApiTokenByHash(tokenHash: string): StoredApiToken | null {
+    const row = this.db.prepare('SELECT * FROM api_tokens WHERE token_hash = ?').get(tokenHash) as any;
+    return row ? this.toApiToken(row) : null;
+  }
+
+  public loadApiTokens(): StoredApiToken[] {
+    const rows = this.db.prepare('SELECT * FROM api_tokens ORDER BY created_at').all() as any[];
+    return rows.map(row => this.toApiToken(row));
+  }
+
+  public touchApiToken(id: string, timestamp: number) {
+    this.db.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?').run(timestamp, id);
+  }
+
+  private toApiToken(row: any): StoredApiToken {
+    return {
+      id: row.id,
+      name: row.name,
+      tokenHash: row.token_hash,
+      role: row.role,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      revokedAt: row.revoked_at,
+    };
+  }
+
+  public insertAuditEntry(entry: AuditEntry) {
+    this.db.prepare(`
+      INSERT INTO audit_log (timestamp, actor, role, action, details, status, ip)
+      VALUES (@timestamp, @actor, @role, @action, @details, @status, @ip)
+    `).run({ ...entry, details: entry.details ? JSON.stringify(entry.details) : null });
+  }
+
+  // Newest first
+  public loadAuditLog(limit: number): AuditEntry[] {
+    const rows = this.db.prepare('SELECT * FROM audit_log ORDER BY seq DESC LIMIT ?').all(limit) as any[];
+    return rows.map(row => ({
+      timestamp: row.timestamp,
+      actor: row.actor,
+      role: row.role,
+      action: row.action,
+      details: row.details ? JSON.parse(row.details) : null,
+      status: row.status,
+      ip: row.ip,
+    }));
+  }
+
+  public close() {
+    this.db.close();
+  }
+}
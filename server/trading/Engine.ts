@@ -1,8 +1,31 @@
+import { randomUUID } from 'crypto';
 import { WebSocketServer, WebSocket } from 'ws';
-import { MLPredictor } from './MLPredictor.js';
-import { RiskManager } from './RiskManager.js';
+import type { IncomingMessage } from 'http';
+import { RiskManager, PositionExitConfig, MarginConfig } from './RiskManager.js';
 import { ExchangeConnector } from './ExchangeConnector.js';
-import { AlertManager } from './AlertManager.js';
+import type { FeedAdapter } from './MarketDataFeed.js';
+import { AlertManager, Alert } from './AlertManager.js';
+import type { NotificationQueue } from './NotificationQueue.js';
+import { AlertRuleEngine, AlertRule, AlertRuleInput, AlertSnapshot } from './AlertRuleEngine.js';
+import { TradingDatabase } from './Database.js';
+import { CandleAggregator, Timeframe, TIMEFRAMES } from './CandleAggregator.js';
+import { RegimeDetector, RegimeDetectorOptions } from './RegimeDetector.js';
+import { DEFAULT_CONFIG, TradingConfig } from './ConfigManager.js';
+import { DefaultExecutionModel, ExecutionModel } from './ExecutionModel.js';
+import { OrderManager, Order, Fill, OrderRequest, OcoRequest } from './OrderManager.js';
+import { LiveBroker, ExchangeClient, TradingMode, TRADING_MODES, LIVE_CONFIRMATION_PHRASE, createExchangeClients } from './LiveBroker.js';
+import { PerformanceTracker, PerformanceWindow, PERFORMANCE_WINDOWS, computePerformance, downsample } from './PerformanceAnalyzer.js';
+import { MLPredictor, Signal } from './MLPredictor.js';
+import type { ModelRegistry } from './ModelRegistry.js';
+import { SentimentAnalyzer, PairSentiment, SentimentStatus } from './SentimentAnalyzer.js';
+import { planRebalance, PendingTrade, RebalancePlan, RebalanceTrigger } from './RebalancePlanner.js';
+import { PreTradeChecker, PreTradeStatus, startOfDay } from './PreTradeChecker.js';
+import { KillSwitch, KillSwitchState } from './KillSwitch.js';
+import { RiskMonitor, RiskReport, RiskReportOptions, StressResult } from './RiskAnalytics.js';
+import { Strategy, StrategyConfig } from './strategies/Strategy.js';
+import { MLSentimentStrategy } from './strategies/MLSentimentStrategy.js';
+import { MomentumStrategy } from './strategies/MomentumStrategy.js';
+import { MeanReversionStrategy } from './strategies/MeanReversionStrategy.js';
 
 export interface TradeLog {
   id: string;
@@ -12,44 +35,375 @@ export interface TradeLog {
   price: number;
   amount: number;
   status: 'EXECUTED' | 'FAILED' | 'PENDING';
-  pnl?: number;
+  pnl?: number; // Realized on sells, net of fees
+  fee?: number; // Quote-currency fee charged on the fill
+  venue?: string; // Exchange the fill was routed to
+  strategy?: string; // Strategy name, 'rebalance' for allocation trades, 'risk' for enforced exits, 'liquidation' or 'manual'
+  orderId?: string;
+  reason?: string; // Why the order was rejected
+  placedBy?: string; // User or API token behind a manual order
 }
 
+// Pairs where strategies and rebalancing stand down; exits, liquidations and manual orders still run
+export interface PausedPair {
+  pair: string;
+  pausedBy: string;
+  pausedAt: number;
+}
+
+const EXIT_REBALANCE_COOLDOWN_MS = 15 * 60_000;
+const REBALANCE_EXITS: PositionExitConfig = { stopLossPct: null, takeProfitPct: null, trailing: null };
+const REJECTED_REBALANCE_COOLDOWN_MS = 15 * 60_000;
+const STORED_TIMEFRAME: Timeframe = '1h'; // Closed bars kept in the database across restarts
+const MARK_TO_MARKET_SAVE_MS = 60_000;
+
+export interface EngineOptions {
+  clock?: () => number; // Defaults to wall-clock time; backtests supply a simulated clock
+  initialBalance?: number;
+  logLimit?: number;
+  notifications?: boolean;
+  notifier?: NotificationQueue | null; // Channels that dispatched alerts are delivered to
+  database?: TradingDatabase; // When set, state is persisted and restored on boot
+  strategies?: Strategy[]; // Defaults to the built-in strategy set
+  execution?: ExecutionModel; // Fill pricing and fees; defaults to DefaultExecutionModel
+  margin?: Partial<MarginConfig>; // Shorts and leverage; spot-only when omitted
+  venues?: string[]; // Exchanges to pull quotes from and route orders to
+  feeds?: Record<string, FeedAdapter>; // Streaming market data adapters by venue
+  streaming?: boolean; // Set false to poll REST tickers instead of streaming order books
+  mode?: TradingMode; // Defaults to paper
+  liveConfirmation?: string; // Must equal LIVE_CONFIRMATION_PHRASE to start in live mode
+  exchangeClients?: Record<string, ExchangeClient>; // Authenticated clients; built from env keys when omitted
+  regime?: RegimeDetectorOptions; // Regime thresholds and the per-regime strategy policy
+  models?: ModelRegistry | null; // Trained prediction models; the promoted one drives ml-sentiment
+  sentiment?: SentimentAnalyzer; // News ingestion and scoring; polled while the engine runs
+  config?: TradingConfig; // Pairs, allocations, risk limits and signal thresholds; strategies keep their own params when omitted
+  configVersion?: number;
+  account?: string; // Name WebSocket clients pick the engine by (?account=); defaults to 'main'
+  exchange?: ExchangeConnector; // Market data shared with other accounts' engines; built from venues/feeds when omitted
+  allowLive?: boolean; // Set false for accounts that must not trade live; defaults to true
+  onBroadcast?: () => void; // Called after each state push to this engine's clients
+  notificationLabel?: string; // Prefixed to this engine's notifications, e.g. a sub-account's name
+}
+
+// The strategy set engines run by default, by name
+export const BUILT_IN_STRATEGIES: Record<string, (deps: { models?: ModelRegistry | null, sentiment: SentimentAnalyzer }) => Strategy> = {
+  'ml-sentiment': ({ models, sentiment }) => new MLSentimentStrategy({}, new MLPredictor({ registry: models, sentiment })),
+  'momentum': () => new MomentumStrategy(),
+  'mean-reversion': () => new MeanReversionStrategy(),
+};
+
+const samePairs = (a: string[], b: string[]) => a.length === b.length && a.every(pair => b.includes(pair));
+
 export class TradingEngine {
-  private wss: WebSocketServer;
-  private predictor: MLPredictor;
+  private wss: WebSocketServer | null;
+  private account: string;
+  private allowLive: boolean;
+  private onBroadcast: () => void;
+  private strategies: Map<string, Strategy> = new Map();
   private riskManager: RiskManager;
   private exchange: ExchangeConnector;
   private alertManager: AlertManager;
+  private alertRules: AlertRuleEngine;
+  private candles: CandleAggregator;
+  private regimes: RegimeDetector;
+  private sentiment: SentimentAnalyzer;
+  private orders: OrderManager;
+  private preTrade: PreTradeChecker;
+  private killSwitch: KillSwitch;
+  private riskMonitor: RiskMonitor;
+  private execution: ExecutionModel;
+  private performance: PerformanceTracker;
+  private marketData: Record<string, any> = {}; // Last snapshot run through the pipeline
+  private exitCooldowns: Record<string, number> = {}; // Pair -> time until which rebalancing won't re-buy
+  private rebalanceRejections: Record<string, { until: number, reason: string }> = {}; // Pair -> backoff after a refused rebalance order
+  private pausedPairs: Map<string, PausedPair> = new Map();
+  private rebalancePlans: RebalancePlan[] = []; // Newest first; the database keeps the full history
+  private lastCalendarRebalance: number | null = null;
+  private lastFinancingAccrual: number | null = null;
+  private lastFillAt: number | null = null;
+  private portfolioSavedAt = 0;
+  private mode: TradingMode = 'paper';
+  private broker: LiveBroker | null = null;
+  private exchangeClients?: Record<string, ExchangeClient>;
+  private rebaseOnReconcile = false; // First live reconcile restarts PnL from the exchange equity
+  private tickInFlight = false;
+  private config: TradingConfig = DEFAULT_CONFIG;
+  private configVersion: number | null = null;
   
   private isRunning: boolean = false;
   private logs: TradeLog[] = [];
   private clients: Set<WebSocket> = new Set();
   private updateInterval: NodeJS.Timeout | null = null;
+  private clock: () => number;
+  private logLimit: number;
+  private database: TradingDatabase | null;
 
-  constructor(wss: WebSocketServer) {
+  constructor(wss: WebSocketServer | null, options: EngineOptions = {}) {
     this.wss = wss;
-    this.alertManager = new AlertManager();
-    this.predictor = new MLPredictor();
-    this.riskManager = new RiskManager(this.alertManager);
-    this.exchange = new ExchangeConnector(this.alertManager);
-
-    this.wss.on('connection', (ws) => {
-      this.clients.add(ws);
-      ws.on('close', () => this.clients.delete(ws));
-      this.sendInitialState(ws);
+    this.account = options.account ?? 'main';
+    this.allowLive = options.allowLive ?? true;
+    this.onBroadcast = options.onBroadcast ?? (() => {});
+    this.clock = options.clock ?? Date.now;
+    this.logLimit = options.logLimit ?? 1000;
+    this.database = options.database ?? null;
+    this.candles = new CandleAggregator(500, (bar, timeframe) => {
+      if (timeframe === STORED_TIMEFRAME) this.database?.savePriceBar(timeframe, bar);
+    });
+    this.alertManager = new AlertManager({ clock: this.clock, notifications: options.notifications, database: options.database, notifier: options.notifier, label: options.notificationLabel });
+    this.alertRules = new AlertRuleEngine(this.alertManager, { clock: this.clock, database: this.database });
+    this.riskManager = new RiskManager(this.alertManager, options.initialBalance ?? options.config?.initialBalance, options.margin);
+    this.exchange = options.exchange ?? new ExchangeConnector(this.alertManager, { venues: options.venues, pairs: this.config.pairs, feeds: options.feeds, streaming: options.streaming });
+    this.performance = new PerformanceTracker({ database: this.database });
+    this.regimes = new RegimeDetector(options.regime);
+    this.sentiment = options.sentiment ?? new SentimentAnalyzer({ clock: this.clock });
+    this.execution = options.execution ?? new DefaultExecutionModel();
+    this.killSwitch = new KillSwitch({ database: this.database, clock: this.clock });
+    this.preTrade = new PreTradeChecker(this.riskManager, {
+      limits: options.config?.preTrade,
+      clock: this.clock,
+      halted: () => this.killSwitch.isTripped() ? 'Kill switch is tripped' : null,
     });
+    this.orders = new OrderManager(this.riskManager, this.alertManager, {
+      clock: this.clock,
+      executionModel: this.execution,
+      preTradeCheck: (legs, quote) => this.preTrade.check(legs, quote),
+      // Holdings rebalancing buys are its targets: a default stop would sell them only for the next
+      // rebalance to buy them back
+      positionExits: (order) => order.strategy === 'rebalance' ? REBALANCE_EXITS : undefined,
+      onFill: (order, fill) => this.recordFill(order, fill),
+      onReject: (order) => this.recordRejection(order),
+      onUpdate: (order) => this.database?.saveOrder(order),
+    });
+    this.riskMonitor = new RiskMonitor({
+      settings: () => this.config.valueAtRisk,
+      positions: () => this.positionValues(),
+      history: (pair, limit) => this.candles.getCandles(pair, STORED_TIMEFRAME, limit),
+      storedBars: (since, until) => this.database?.loadPriceBars(STORED_TIMEFRAME, since, until) ?? [],
+      alertManager: this.alertManager,
+      clock: this.clock,
+    });
+
+    const strategies = options.strategies
+      ?? Object.values(BUILT_IN_STRATEGIES).map(create => create({ models: options.models, sentiment: this.sentiment }));
+    for (const strategy of strategies) {
+      this.registerStrategy(strategy);
+    }
+
+    if (this.database) {
+      this.restoreState(this.database);
+    }
+    if (options.config) {
+      this.installConfig(options.config, options.configVersion ?? null, true);
+    }
+
+    this.exchangeClients = options.exchangeClients;
+    this.applyMode(options.mode ?? 'paper', options.liveConfirmation);
+
+    // Headless engines (e.g. backtests) run without a WebSocket server. Every account's engine
+    // shares the server and takes the clients that asked for it.
+    this.wss?.on('connection', this.onConnection);
+  }
+
+  private onConnection = (ws: WebSocket, req: IncomingMessage) => {
+    if ((new URL(req.url ?? '/', 'http://localhost').searchParams.get('account') ?? 'main') !== this.account) return;
+    this.clients.add(ws);
+    ws.on('close', () => this.clients.delete(ws));
+    this.sendInitialState(ws);
+  };
+
+  private restoreState(database: TradingDatabase) {
+    const portfolio = database.loadPortfolio();
+    if (portfolio) {
+      this.riskManager.restorePortfolio(portfolio);
+      console.log(`Restored portfolio: $${portfolio.balance.toFixed(2)} cash, ${Object.keys(portfolio.positions).length} open positions`);
+    } else {
+      database.savePortfolio(this.riskManager.getPortfolio());
+    }
+    this.logs = database.loadTradeLogs(this.logLimit);
+    this.lastFillAt = this.logs.filter(log => log.status === 'EXECUTED').at(-1)?.timestamp ?? null;
+    for (const log of database.loadTradeLogsSince(startOfDay(this.clock()))) {
+      if (log.status === 'EXECUTED' && log.pnl !== undefined) this.preTrade.recordPnl(log.pnl, log.timestamp);
+    }
+    this.orders.restore(database.loadOpenOrders());
+    for (const paused of database.loadPausedPairs()) {
+      this.pausedPairs.set(paused.pair, paused);
+    }
+    const bars = database.loadPriceBars(STORED_TIMEFRAME, this.clock() - 500 * TIMEFRAMES[STORED_TIMEFRAME]);
+    for (const pair of new Set(bars.map(bar => bar.pair))) {
+      this.candles.seed(pair, STORED_TIMEFRAME, bars.filter(bar => bar.pair === pair));
+    }
+    this.rebalancePlans = database.loadRebalancePlans(50);
+    this.lastCalendarRebalance = database.loadRebalancePlans(1, 'calendar')[0]?.createdAt ?? null;
+    this.performance.restore(this.clock());
+  }
+
+  public async ready() {
+    await Promise.all(Array.from(this.strategies.values()).map(strategy => strategy.ready?.()));
+  }
+
+  public registerStrategy(strategy: Strategy) {
+    if (this.strategies.has(strategy.name)) {
+      throw new Error(`Strategy already registered: ${strategy.name}`);
+    }
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  public getStrategies() {
+    return Array.from(this.strategies.values()).map(strategy => strategy.getInfo());
+  }
+
+  public configureStrategy(name: string, config: StrategyConfig) {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown strategy: ${name}`);
+    }
+    strategy.configure(config);
+    this.alertManager.sendAlert('SYSTEM', `Strategy ${name} updated (${strategy.enabled ? 'enabled' : 'disabled'})`, 'INFO');
+    return strategy.getInfo();
+  }
+
+  public getMode(): TradingMode {
+    return this.mode;
+  }
+
+  // Modes can only change while stopped so no order straddles two execution paths
+  public setMode(mode: TradingMode, confirmation?: string): TradingMode {
+    if (this.isRunning) {
+      throw new Error('Stop the engine before changing mode');
+    }
+    this.applyMode(mode, confirmation);
+    this.alertManager.sendAlert('SYSTEM', `Trading mode set to ${mode.toUpperCase()}`, mode === 'live' ? 'WARNING' : 'INFO');
+    return this.mode;
+  }
+
+  private applyMode(mode: TradingMode, confirmation?: string) {
+    if (!TRADING_MODES.includes(mode)) {
+      throw new Error(`Invalid mode: ${mode}`);
+    }
+    if (mode === 'live') {
+      if (!this.allowLive) {
+        throw new Error(`Live trading is disabled for account "${this.account}"`);
+      }
+      if (confirmation !== LIVE_CONFIRMATION_PHRASE) {
+        throw new Error(`Live trading requires explicit confirmation: "${LIVE_CONFIRMATION_PHRASE}"`);
+      }
+      if (this.riskManager.isMarginEnabled()) {
+        throw new Error('Live trading is spot-only; disable margin mode first');
+      }
+    }
+
+    if (mode === 'paper') {
+      this.broker = null;
+    } else {
+      // Dry runs only log the requests they would send, so credentials are optional
+      const clients = this.exchangeClients
+        ?? (mode === 'live' ? createExchangeClients(this.exchange.getVenues()) : {});
+      this.broker = new LiveBroker({
+        mode,
+        clients,
+        pairs: this.config.pairs,
+        clock: this.clock,
+        onFill: (orderId, fill) => this.orders.applyFill(orderId, fill.price, fill.amount, fill.fee, fill.venue),
+        onStatus: (orderId, status, reason) => this.orders.applyExchangeStatus(orderId, status, reason),
+        onPlaced: (order) => this.database?.saveOrder(order),
+        onBalances: (snapshot) => this.reconcileBalances(snapshot.balance, snapshot.amounts),
+      });
+      this.broker.track(this.orders.getOpenOrders());
+    }
+    this.orders.setExecutor(this.broker);
+    this.rebaseOnReconcile = mode === 'live' && this.mode !== 'live';
+    this.mode = mode;
+  }
+
+  private reconcileBalances(balance: number, amounts: Record<string, number>) {
+    const drift = this.riskManager.reconcile(balance, amounts, this.latestData(), this.rebaseOnReconcile);
+    this.rebaseOnReconcile = false;
+    this.persistPortfolio();
+
+    const pairs = Object.entries(drift.positions).map(([pair, delta]) => `${pair} ${delta > 0 ? '+' : ''}${delta.toFixed(6)}`);
+    if (Math.abs(drift.balance) >= 0.01 || pairs.length > 0) {
+      const details = [`cash ${drift.balance >= 0 ? '+' : ''}$${drift.balance.toFixed(2)}`, ...pairs].join(', ');
+      this.alertManager.sendAlert('SYSTEM', `Portfolio reconciled to exchange balances: ${details}`, 'WARNING');
+    }
+  }
+
+  public getConfig() {
+    return { version: this.configVersion, config: this.config };
+  }
+
+  // Applies a validated config without a restart. Throws before changing anything if the config
+  // names a strategy that isn't registered. After the first apply, only signal settings that
+  // changed are pushed to strategies, so params tuned through the strategies API survive
+  // unrelated config edits. Strategies trading the whole universe follow it when pairs change.
+  public applyConfig(config: TradingConfig, version: number | null = null) {
+    this.installConfig(config, version, false);
+  }
+
+  private installConfig(config: TradingConfig, version: number | null, initial: boolean) {
+    for (const name of Object.keys(config.signals.minConfidence)) {
+      if (!this.strategies.has(name)) {
+        throw new Error(`Invalid config: signals.minConfidence names unknown strategy "${name}"`);
+      }
+    }
+    const previous = this.config;
+    const changed = (next: unknown, prev: unknown) => initial || next !== prev;
+
+    if (!samePairs(config.pairs, this.exchange.getPairs(this.account))) {
+      this.exchange.setPairs(config.pairs, this.account);
+      this.broker?.setPairs(config.pairs);
+    }
+    for (const strategy of this.strategies.values()) {
+      const pairs = samePairs(strategy.pairs, previous.pairs)
+        ? config.pairs
+        : strategy.pairs.filter(pair => config.pairs.includes(pair));
+      const params: Record<string, number> = {};
+      const minConfidence = config.signals.minConfidence[strategy.name];
+      if (minConfidence !== undefined && changed(minConfidence, previous.signals.minConfidence[strategy.name])) {
+        params.minConfidence = minConfidence;
+      }
+      if ('buyThreshold' in strategy.params && changed(config.signals.buyThreshold, previous.signals.buyThreshold)) {
+        params.buyThreshold = config.signals.buyThreshold;
+      }
+      if ('sellThreshold' in strategy.params && changed(config.signals.sellThreshold, previous.signals.sellThreshold)) {
+        params.sellThreshold = config.signals.sellThreshold;
+      }
+      strategy.configure({ pairs, params });
+    }
+
+    this.riskManager.setLimits(config.risk);
+    this.preTrade.setLimits(config.preTrade);
+    this.riskManager.setTargetAllocations(config.targetAllocations);
+    this.config = config;
+    this.configVersion = version;
+    this.persistPortfolio();
+
+    if (this.isRunning && config.tickIntervalMs !== previous.tickIntervalMs) {
+      this.scheduleTicks();
+    }
+    if (!initial) {
+      this.alertManager.sendAlert('SYSTEM', `Config${version !== null ? ` v${version}` : ''} applied`, 'INFO');
+      this.broadcastState();
+    }
   }
 
   public start() {
+    if (this.killSwitch.isTripped()) {
+      throw new Error('Kill switch is tripped; an admin must re-arm it before trading resumes');
+    }
     console.log('Starting Trading Engine...');
     this.isRunning = true;
-    this.exchange.connect();
-    
-    // Simulate real-time trading loop
+    this.exchange.connect(this.account);
+    this.sentiment.start(() => this.config.pairs, this.account);
+    this.scheduleTicks();
+  }
+
+  private scheduleTicks() {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+    }
     this.updateInterval = setInterval(() => {
       this.tick();
-    }, 1000); // 1-second ticks
+    }, this.config.tickIntervalMs);
   }
 
   public stop() {
@@ -57,8 +411,25 @@ export class TradingEngine {
     this.isRunning = false;
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
+      this.updateInterval = null;
     }
-    this.exchange.disconnect();
+    this.exchange.disconnect(this.account);
+    this.sentiment.stop(this.account);
+    this.persistPortfolio();
+  }
+
+  // Stops the engine for good: it lets go of the shared WebSocket server and its clients, so an
+  // account opened later under the same name gets them instead
+  public dispose() {
+    this.stop();
+    this.wss?.off('connection', this.onConnection);
+    for (const ws of this.clients) ws.close(1001, `Account ${this.account} closed`);
+    this.clients.clear();
+  }
+
+  private persistPortfolio() {
+    this.database?.savePortfolio(this.riskManager.getPortfolio());
+    this.portfolioSavedAt = this.clock();
   }
 
   public toggleStatus() {
@@ -78,90 +449,666 @@ export class TradingEngine {
     return this.riskManager.getPortfolio();
   }
 
-  public getLogs() {
-    return this.logs.slice(-100); // Return last 100 logs
+  public getEquity(marketData: Record<string, any> = this.latestData()) {
+    return this.riskManager.getEquity(marketData);
   }
 
-  private async tick() {
-    if (!this.isRunning) return;
+  public getExposure(marketData: Record<string, any> = this.latestData()) {
+    return this.riskManager.getExposure(marketData);
+  }
 
-    try {
-      const marketData = await this.exchange.fetchMarketData();
-      
-      // Update sentiment periodically (e.g., every 10 ticks)
-      if (Math.random() < 0.1) {
-        await this.predictor.updateSentiment();
+  public getAccount(): string {
+    return this.account;
+  }
+
+  // For other accounts' engines to share
+  public getExchangeConnector(): ExchangeConnector {
+    return this.exchange;
+  }
+
+  // The latest quotes for this account's pairs; a shared connector also carries other accounts' pairs
+  private latestData(): Record<string, any> {
+    const quotes = this.exchange.getLatestData();
+    return Object.fromEntries(this.config.pairs.filter(pair => quotes[pair]).map(pair => [pair, quotes[pair]]));
+  }
+
+  // Consolidated best bid/offer per pair with the per-venue quotes behind it
+  public getQuotes() {
+    return { venues: this.exchange.getVenues(), quotes: this.latestData() };
+  }
+
+  public getFeedStatus() {
+    return this.exchange.getFeedStatus();
+  }
+
+  public getOrderBook(venue: string, pair: string, levels?: number) {
+    return this.exchange.getOrderBook(venue, pair, levels);
+  }
+
+  public getMarginStatus() {
+    return this.riskManager.getMarginStatus();
+  }
+
+  public setLeverage(pair: string, leverage: number) {
+    this.riskManager.setLeverage(pair, leverage);
+    this.persistPortfolio();
+    this.alertManager.sendAlert('SYSTEM', `${pair} leverage set to ${leverage}x`, 'INFO');
+  }
+
+  public getLogs(limit: number = 100) {
+    return this.logs.slice(-limit); // Return last 100 logs by default
+  }
+
+  public getRegimes() {
+    return this.regimes.getRegimes();
+  }
+
+  public getRegimePolicy() {
+    return this.regimes.getPolicy();
+  }
+
+  public getSentiment(headlines?: number): PairSentiment[] {
+    return this.sentiment.getSummary(this.config.pairs, headlines);
+  }
+
+  public getSentimentStatus(): SentimentStatus {
+    return this.sentiment.getStatus();
+  }
+
+  // Polls every source now instead of waiting for the next interval
+  public async refreshSentiment(): Promise<PairSentiment[]> {
+    await this.sentiment.refresh(this.config.pairs);
+    this.broadcastState();
+    return this.getSentiment();
+  }
+
+  public getCandles(pair: string, timeframe: Timeframe, limit?: number) {
+    return this.candles.getCandles(pair, timeframe, limit);
+  }
+
+  public getIndicators(pair: string, timeframe: Timeframe) {
+    return this.candles.getIndicators(pair, timeframe);
+  }
+
+  public getOrders(limit?: number) {
+    return this.orders.getOrders(limit);
+  }
+
+  public getOpenOrders() {
+    return this.orders.getOpenOrders();
+  }
+
+  public submitOrder(request: OrderRequest): Order {
+    return this.orders.submit(request, this.marketData);
+  }
+
+  public submitOcoOrder(request: OcoRequest): Order[] {
+    return this.orders.submitOco(request, this.marketData);
+  }
+
+  // Orders placed by hand: same order path as strategies, after the risk limits for hand-sized orders
+  public placeManualOrder(request: OrderRequest, placedBy: string): Order {
+    this.checkManualOrder(request.pair, request.side, request.amount, request.price ?? request.stopPrice);
+    const order = this.orders.submit({ ...request, strategy: 'manual', placedBy }, this.marketData);
+    this.alertManager.sendAlert('TRADE', `${placedBy} placed ${order.type} ${order.side} ${order.amount} ${order.pair} (${order.status})`, 'INFO');
+    return order;
+  }
+
+  public placeManualOco(request: OcoRequest, placedBy: string): Order[] {
+    this.checkManualOrder(request.pair, request.side, request.amount, request.price);
+    const legs = this.orders.submitOco({ ...request, strategy: 'manual', placedBy }, this.marketData);
+    this.alertManager.sendAlert('TRADE', `${placedBy} placed OCO ${request.side} ${request.amount} ${request.pair} (${legs[0].status})`, 'INFO');
+    return legs;
+  }
+
+  private checkManualOrder(pair: string, side: 'BUY' | 'SELL', amount: number, price?: number) {
+    if (!this.config.pairs.includes(pair)) {
+      throw new Error(`Unknown pair: ${pair}`);
+    }
+    const reference = price ?? this.marketData[pair]?.last;
+    if (!reference || !(amount > 0)) return; // OrderManager rejects these with the specific reason
+    const refusal = this.riskManager.checkOrder(pair, side, amount, reference);
+    if (refusal) {
+      throw new Error(refusal);
+    }
+  }
+
+  // Cancels every working order on the pair, then closes the position at market
+  public closePosition(pair: string, placedBy: string): Order {
+    for (const order of this.orders.getOpenOrders().filter(o => o.pair === pair)) {
+      this.orders.cancel(order.id, `Position closed by ${placedBy}`);
+    }
+    const closing = this.closingOrder(pair);
+    if (!closing) {
+      throw new Error(`No open position for ${pair}`);
+    }
+    this.alertManager.sendAlert('TRADE', `${placedBy} closing ${pair} position (${closing.amount.toFixed(4)})`, 'WARNING');
+    return this.orders.submit({ pair, ...closing, type: 'MARKET', strategy: 'manual', placedBy }, this.marketData);
+  }
+
+  // Cancels every working order and closes every position at market
+  public flattenAll(placedBy: string): Order[] {
+    for (const order of this.orders.getOpenOrders()) {
+      this.orders.cancel(order.id, `Flattened by ${placedBy}`);
+    }
+    const orders: Order[] = [];
+    for (const pair of Object.keys(this.riskManager.getPortfolio().positions)) {
+      const closing = this.closingOrder(pair);
+      if (closing) {
+        orders.push(this.orders.submit({ pair, ...closing, type: 'MARKET', strategy: 'manual', placedBy }, this.marketData));
       }
+    }
+    this.alertManager.sendAlert('TRADE', `${placedBy} flattened the portfolio (${orders.length} positions)`, 'WARNING');
+    return orders;
+  }
+
+  public getRebalancePlans(limit: number = 20): RebalancePlan[] {
+    return this.database?.loadRebalancePlans(limit) ?? this.rebalancePlans.slice(0, limit);
+  }
+
+  public getRebalancePlan(id: string): RebalancePlan {
+    const plan = this.database?.loadRebalancePlan(id) ?? this.rebalancePlans.find(entry => entry.id === id);
+    if (!plan) {
+      throw new Error(`Unknown rebalance plan: ${id}`);
+    }
+    return plan;
+  }
+
+  // The plan a manual rebalance would carry out now: every pair back to target, within the policy's
+  // minimum trade size, netting and cash limits
+  public previewRebalance(requestedBy: string): RebalancePlan {
+    if (Object.keys(this.marketData).length === 0) {
+      throw new Error('No market data yet');
+    }
+    return this.planRebalance(this.marketData, 'manual', false, [], requestedBy);
+  }
+
+  public rebalanceNow(requestedBy: string): RebalancePlan {
+    const plan = this.previewRebalance(requestedBy);
+    this.executeRebalance(plan, this.marketData);
+    this.broadcastState();
+    return plan;
+  }
+
+  public getKillSwitch(limit?: number): KillSwitchState {
+    return this.killSwitch.getState(limit);
+  }
+
+  // Re-arming lets the engine start again. The switch then measures drawdown from current equity,
+  // so the losses that tripped it don't trip it again on the first tick; the book's PnL and drawdown
+  // history are kept.
+  public rearmKillSwitch(reason: string, rearmedBy: string): KillSwitchState {
+    const drawdown = this.riskManager.getKillSwitchDrawdown();
+    const equity = this.riskManager.getEquity(this.latestData());
+    const event = this.killSwitch.rearm(reason, rearmedBy, drawdown, equity);
+    this.riskManager.resetDrawdownBaseline(this.latestData());
+    this.persistPortfolio();
+    this.alertManager.sendAlert('RISK', `Kill switch re-armed by ${rearmedBy}: ${event.reason}; drawdown now measured from $${equity.toFixed(2)}`, 'WARNING');
+    this.broadcastState();
+    return this.killSwitch.getState();
+  }
+
+  // VaR, expected shortfall and the standard stress tests for the current positions
+  public getRiskReport(options: RiskReportOptions = {}): RiskReport {
+    return this.riskMonitor.report(options);
+  }
+
+  public stressTest(shocks: Record<string, number>, name?: string): StressResult {
+    return this.riskMonitor.stress(shocks, name);
+  }
+
+  // Signed value of each open position at the last price seen
+  private positionValues(): { equity: number, exposures: Record<string, number> } {
+    const exposures: Record<string, number> = {};
+    for (const [pair, position] of Object.entries(this.riskManager.getPortfolio().positions)) {
+      if (position.amount !== 0) exposures[pair] = position.amount * (this.marketData[pair]?.last || position.avgEntryPrice);
+    }
+    return { equity: this.riskManager.getEquity(), exposures };
+  }
+
+  public getPreTradeStatus(): PreTradeStatus {
+    return this.preTrade.getStatus();
+  }
+
+  // Orders refused by validation, the pre-trade checks or the exchange, newest first
+  public getRejections(limit: number = 20): TradeLog[] {
+    return this.logs.filter(log => log.status === 'FAILED').slice(-limit).reverse();
+  }
+
+  public getPausedPairs(): PausedPair[] {
+    return Array.from(this.pausedPairs.values());
+  }
 
-      // Update risk manager with current prices
-      this.riskManager.updatePrices(marketData);
+  public pausePair(pair: string, pausedBy: string): PausedPair[] {
+    if (!this.config.pairs.includes(pair)) {
+      throw new Error(`Unknown pair: ${pair}`);
+    }
+    if (!this.pausedPairs.has(pair)) {
+      const paused: PausedPair = { pair, pausedBy, pausedAt: this.clock() };
+      this.pausedPairs.set(pair, paused);
+      this.database?.savePausedPair(pair, pausedBy, paused.pausedAt);
+      this.alertManager.sendAlert('SYSTEM', `Automated trading on ${pair} paused by ${pausedBy}`, 'WARNING');
+    }
+    return this.getPausedPairs();
+  }
+
+  public resumePair(pair: string, resumedBy: string): PausedPair[] {
+    if (this.pausedPairs.delete(pair)) {
+      this.database?.deletePausedPair(pair);
+      this.alertManager.sendAlert('SYSTEM', `Automated trading on ${pair} resumed by ${resumedBy}`, 'INFO');
+    }
+    return this.getPausedPairs();
+  }
 
-      // Check fail-safes
-      if (this.riskManager.shouldShutdown()) {
-        this.logSystemEvent('CRITICAL', 'Max drawdown reached. Shutting down engine.');
+  public cancelOrder(id: string): Order {
+    const order = this.orders.cancel(id);
+    this.alertManager.sendAlert('TRADE', `Canceled ${order.type} ${order.side} ${order.pair} order ${order.id}`, 'INFO');
+    return order;
+  }
+
+  public setPositionExits(pair: string, config: PositionExitConfig) {
+    const position = this.riskManager.setPositionExits(pair, config);
+    this.persistPortfolio();
+    return position;
+  }
+
+  public getPerformance(window: PerformanceWindow, maxPoints: number = 500) {
+    const now = this.clock();
+    const snapshots = this.performance.getSnapshots(window, now);
+    const span = PERFORMANCE_WINDOWS[window];
+    const since = span === null ? 0 : now - span;
+    const trades = this.database
+      ? this.database.loadTradeLogsSince(since)
+      : this.logs.filter(log => log.timestamp >= since);
+
+    return {
+      window,
+      metrics: computePerformance(snapshots, trades),
+      equityCurve: downsample(snapshots, maxPoints),
+    };
+  }
+
+  public getAlerts(status?: 'active'): Alert[] {
+    return status === 'active' ? this.alertManager.getActiveAlerts() : this.alertManager.getRecentAlerts();
+  }
+
+  public acknowledgeAlert(id: string, acknowledgedBy: string): Alert {
+    const alert = this.alertManager.acknowledge(id, acknowledgedBy);
+    this.broadcastState();
+    return alert;
+  }
+
+  public resolveAlert(id: string, resolvedBy: string): Alert {
+    const alert = this.alertManager.resolve(id, resolvedBy);
+    this.broadcastState();
+    return alert;
+  }
+
+  public getAlertRules(): AlertRule[] {
+    return this.alertRules.getRules();
+  }
+
+  public createAlertRule(input: AlertRuleInput, createdBy: string): AlertRule {
+    return this.alertRules.createRule(input, createdBy);
+  }
+
+  public updateAlertRule(id: string, input: AlertRuleInput): AlertRule {
+    return this.alertRules.updateRule(id, input);
+  }
+
+  public deleteAlertRule(id: string) {
+    this.alertRules.deleteRule(id);
+  }
+
+  private async tick() {
+    // Exchange round-trips in live mode can outlast the tick interval
+    if (!this.isRunning || this.tickInFlight) return;
+    this.tickInFlight = true;
+
+    try {
+      await this.exchange.fetchMarketData();
+      const marketData = this.latestData();
+
+      if (!(await this.processMarketData(marketData))) {
+        this.logSystemEvent('CRITICAL', 'Max drawdown reached. Kill switch tripped; shutting down engine.');
         this.stop();
         this.broadcastState();
         return;
       }
 
-      // Check for rebalancing
-      const rebalanceTrades = this.riskManager.checkRebalance(marketData);
-      if (rebalanceTrades.length > 0) {
-        this.alertManager.sendAlert('SYSTEM', `Initiating portfolio rebalance for ${rebalanceTrades.length} pairs`, 'INFO');
-        for (const trade of rebalanceTrades) {
-          this.executeTrade(trade.pair, trade.action, trade.price, trade.amount, true);
-        }
-      }
-
-      // Generate signals
-      const signals = this.predictor.generateSignals(marketData);
-
-      // Execute trades based on signals and risk
-      for (const signal of signals) {
-        if (signal.action !== 'HOLD' && signal.confidence > 0.85) {
-          const tradeAmount = this.riskManager.calculatePositionSize(signal.pair, signal.price);
-          if (tradeAmount > 0) {
-            this.executeTrade(signal.pair, signal.action, signal.price, tradeAmount);
-          }
-        }
-      }
+      // Send new orders, pick up exchange fills and reconcile balances
+      await this.broker?.sync();
 
+      // Fills, reconciles and settings are saved as they happen. Mark-to-market fields (pnl,
+      // drawdown) and accrued financing move every tick, so they are saved once a minute.
+      if (this.clock() - this.portfolioSavedAt >= MARK_TO_MARKET_SAVE_MS) this.persistPortfolio();
       this.broadcastState();
     } catch (error) {
       console.error('Error in trading tick:', error);
       this.logSystemEvent('ERROR', `Tick error: ${error instanceof Error ? error.message : 'Unknown'}`);
       this.alertManager.sendAlert('SYSTEM', `Tick error: ${error instanceof Error ? error.message : 'Unknown'}`, 'WARNING');
+      this.alertRules.onEvent('TICK_ERROR', undefined, `Tick error: ${error instanceof Error ? error.message : 'Unknown'}`);
+    } finally {
+      this.tickInFlight = false;
     }
   }
 
-  private executeTrade(pair: string, type: 'BUY' | 'SELL', price: number, amount: number, isRebalance: boolean = false) {
-    // Simulate slippage
-    const slippage = price * (Math.random() * 0.001); // Max 0.1% slippage
-    const executedPrice = type === 'BUY' ? price + slippage : price - slippage;
+  // Runs one market snapshot through the signal/risk pipeline.
+  // Returns false when a fail-safe trips and trading must halt.
+  public async processMarketData(marketData: Record<string, any>): Promise<boolean> {
+    this.marketData = marketData;
 
-    const success = this.riskManager.executeTrade(pair, type, executedPrice, amount);
-    
+    // Roll the snapshot into OHLCV bars; replayed history carries the full candle
+    for (const [pair, data] of Object.entries(marketData)) {
+      if (data.candle) {
+        this.candles.ingestCandle(data.candle);
+      } else if (data.last) {
+        this.candles.ingestTick(pair, data.last, data.volume, data.timestamp ?? this.clock());
+      }
+    }
+
+    this.regimes.update(this.candles);
+
+    // Update risk manager with current prices
+    this.riskManager.updatePrices(marketData);
+
+    // Borrow and margin interest accrue for the time since the previous tick
+    const now = this.clock();
+    if (this.lastFinancingAccrual !== null) {
+      this.riskManager.accrueFinancing(marketData, now - this.lastFinancingAccrual);
+    }
+    this.lastFinancingAccrual = now;
+
+    // Liquidations happen regardless of the fail-safe, as they would on the exchange
+    this.enforceLiquidations(marketData);
+
+    this.alertRules.evaluate(this.alertSnapshot(marketData));
+    this.riskMonitor.check();
+
+    // Check fail-safes
+    if (this.riskManager.shouldShutdown()) {
+      const drawdown = this.riskManager.getKillSwitchDrawdown();
+      this.killSwitch.trip(`Max drawdown reached (${(drawdown * 100).toFixed(2)}%)`, drawdown);
+      this.alertRules.onEvent('SHUTDOWN', undefined, `Max drawdown reached (${(drawdown * 100).toFixed(2)}%); engine stopped until the kill switch is re-armed`);
+      return false;
+    }
+
+    // Work resting orders against this tick's bid/ask
+    this.orders.processTick(marketData);
+
+    this.enforcePositionExits(marketData);
+
+    // Generate signals from every enabled strategy; each applies its own confidence gate, and the
+    // pair's regime gates and sizes what passes. Signals come first so rebalancing can net against them.
+    const signals: { strategy: Strategy, signal: Signal, sizeMultiplier: number }[] = [];
+    for (const strategy of this.strategies.values()) {
+      if (!strategy.enabled) continue;
+      for (const signal of await strategy.generateSignals(marketData, { candles: this.candles, regimes: this.regimes })) {
+        if (this.pausedPairs.has(signal.pair)) continue;
+        const { sizeMultiplier } = this.regimes.assess(signal, strategy.params.minConfidence);
+        if (sizeMultiplier > 0) signals.push({ strategy, signal, sizeMultiplier });
+      }
+    }
+
+    // Rebalance orders go out before the signal trades, as they always have
+    this.runRebalancePolicy(marketData, this.config.rebalance.netPendingSignals
+      ? signals.map(({ strategy, signal, sizeMultiplier }) => ({
+        pair: signal.pair,
+        side: signal.action as 'BUY' | 'SELL',
+        amount: this.riskManager.calculatePositionSize(signal.pair, signal.price) * sizeMultiplier,
+        source: strategy.name,
+      }))
+      : []);
+
+    // Execute trades based on signals and risk
+    for (const { strategy, signal, sizeMultiplier } of signals) {
+      const tradeAmount = this.riskManager.calculatePositionSize(signal.pair, signal.price) * sizeMultiplier;
+      if (tradeAmount > 0) {
+        this.orders.submit({
+          pair: signal.pair,
+          side: signal.action as 'BUY' | 'SELL',
+          type: 'MARKET',
+          amount: tradeAmount,
+          strategy: strategy.name,
+        }, marketData);
+      }
+    }
+
+    this.recordEquitySnapshot(marketData);
+    return true;
+  }
+
+  // Threshold policies look at the bands every tick and record a plan when they trade. Calendar
+  // policies run once per interval and always record their plan.
+  private runRebalancePolicy(marketData: Record<string, any>, signalTrades: PendingTrade[]) {
+    const policy = this.config.rebalance;
+    let trigger: RebalanceTrigger = 'threshold';
+    if (policy.trigger !== 'threshold') {
+      const now = this.clock();
+      if (this.lastCalendarRebalance !== null && now - this.lastCalendarRebalance < policy.intervalMs) return;
+      this.lastCalendarRebalance = now;
+      trigger = 'calendar';
+    }
+    const plan = this.planRebalance(marketData, trigger, policy.trigger !== 'calendar', signalTrades, null);
+    if (trigger === 'threshold' && plan.trades.length === 0) return;
+    this.executeRebalance(plan, marketData);
+  }
+
+  private planRebalance(marketData: Record<string, any>, trigger: RebalanceTrigger, bandsOnly: boolean, signalTrades: PendingTrade[], requestedBy: string | null): RebalancePlan {
+    const portfolio = this.riskManager.getPortfolio();
+    const now = this.clock();
+    const openOrders = this.orders.getOpenOrders();
+    const working = new Set(openOrders.filter(o => o.strategy === 'rebalance').map(o => o.pair));
+    const prices: Record<string, number> = {};
+    const amounts: Record<string, number> = {};
+    const sellable: Record<string, number> = {};
+    const blocked: Record<string, string> = {};
+
+    for (const pair of Object.keys(portfolio.targetAllocations)) {
+      if (marketData[pair]?.last) prices[pair] = marketData[pair].last;
+      amounts[pair] = portfolio.positions[pair]?.amount ?? 0;
+      sellable[pair] = this.riskManager.getAvailableAmount(pair);
+      if (this.pausedPairs.has(pair)) blocked[pair] = 'pair is paused';
+      else if (working.has(pair)) blocked[pair] = 'previous rebalance order still working';
+      else if ((this.exitCooldowns[pair] ?? 0) > now) blocked[pair] = 'recently exited';
+      else if ((this.rebalanceRejections[pair]?.until ?? 0) > now) blocked[pair] = `rebalance order refused recently: ${this.rebalanceRejections[pair].reason}`;
+    }
+
+    // Working strategy orders count like this tick's signals
+    const pending: PendingTrade[] = [
+      ...signalTrades,
+      ...openOrders
+        .filter(o => this.strategies.has(o.strategy))
+        .map(o => ({ pair: o.pair, side: o.side, amount: o.amount - o.filledAmount, source: o.strategy })),
+    ];
+
+    return planRebalance(this.config.rebalance, {
+      trigger,
+      requestedBy,
+      now,
+      bandsOnly,
+      absoluteBand: this.config.risk.rebalanceThreshold,
+      equity: this.riskManager.getEquity(marketData),
+      cash: this.riskManager.getAvailableBalance(),
+      targets: portfolio.targetAllocations,
+      prices,
+      amounts,
+      sellable,
+      blocked,
+      pending,
+      limits: this.config.preTrade,
+      estimateCost: (pair, side, amount) => {
+        const quote = marketData[pair];
+        const fill = this.execution.quote(side, amount, { ...quote, bid: quote.bid ?? quote.last, ask: quote.ask ?? quote.last }, 'TAKER');
+        return fill.fee + Math.abs(fill.price - quote.last) * amount;
+      },
+    }, randomUUID());
+  }
+
+  private executeRebalance(plan: RebalancePlan, marketData: Record<string, any>) {
+    this.database?.insertRebalancePlan(plan);
+    this.rebalancePlans.unshift(plan);
+    this.rebalancePlans.length = Math.min(this.rebalancePlans.length, 50);
+    if (plan.trades.length === 0) return;
+
+    this.alertManager.sendAlert('SYSTEM', `Initiating portfolio rebalance for ${plan.trades.length} pairs (${plan.trigger}, est. cost $${plan.estimatedCost.toFixed(2)})`, 'INFO');
+    // A refused order stops the rest of its pair's slices, and the pair sits out a while rather than
+    // being planned and refused again every tick
+    for (const trade of plan.trades) {
+      for (let slice = 0; slice < trade.slices; slice++) {
+        const order = this.orders.submit({ pair: trade.pair, side: trade.side, type: 'MARKET', amount: trade.amount / trade.slices, strategy: 'rebalance' }, marketData);
+        if (order.status === 'REJECTED') {
+          this.rebalanceRejections[trade.pair] = { until: this.clock() + REJECTED_REBALANCE_COOLDOWN_MS, reason: order.rejectReason ?? 'rejected' };
+          break;
+        }
+      }
+    }
+  }
+
+  private alertSnapshot(marketData: Record<string, any>): AlertSnapshot {
+    const portfolio = this.riskManager.getPortfolio();
+    const prices: Record<string, number> = {};
+    for (const [pair, data] of Object.entries(marketData)) {
+      if (data?.last) prices[pair] = data.last;
+    }
+    const positionPnlPct: Record<string, number> = {};
+    for (const [pair, position] of Object.entries(portfolio.positions)) {
+      const price = prices[pair];
+      if (price && position.avgEntryPrice > 0) {
+        positionPnlPct[pair] = ((price - position.avgEntryPrice) / position.avgEntryPrice) * Math.sign(position.amount) * 100;
+      }
+    }
+    return {
+      prices,
+      positionPnlPct,
+      drawdownPct: portfolio.drawdown * 100,
+      equity: this.riskManager.getEquity(marketData),
+      lastTradeAt: this.lastFillAt,
+    };
+  }
+
+  private recordEquitySnapshot(marketData: Record<string, any>) {
+    const snapshot = {
+      timestamp: this.clock(),
+      equity: this.riskManager.getEquity(marketData),
+      exposure: this.riskManager.getExposure(marketData),
+    };
+    if (this.performance.record(snapshot)) {
+      const weekly = this.performance.getSnapshots('7d', snapshot.timestamp);
+      this.riskManager.setSharpeRatio(computePerformance(weekly, []).sharpeRatio);
+    }
+  }
+
+  // Force-closes positions past their liquidation price (margin mode)
+  private enforceLiquidations(marketData: Record<string, any>) {
+    for (const liquidation of this.riskManager.checkLiquidations(marketData)) {
+      const openOrders = this.orders.getOpenOrders().filter(o => o.pair === liquidation.pair);
+      if (openOrders.some(o => o.strategy === 'liquidation')) continue;
+
+      for (const order of openOrders) {
+        this.orders.cancel(order.id, 'Position liquidated');
+      }
+
+      const closing = this.closingOrder(liquidation.pair);
+      if (!closing) continue;
+
+      this.alertManager.sendAlert('RISK', `${liquidation.pair} liquidated at $${liquidation.price.toFixed(2)}. Closing ${closing.amount.toFixed(4)}.`, 'CRITICAL');
+      this.alertRules.onEvent('LIQUIDATION', liquidation.pair, `${liquidation.pair} liquidated at $${liquidation.price.toFixed(2)}`);
+      this.exitCooldowns[liquidation.pair] = this.clock() + EXIT_REBALANCE_COOLDOWN_MS;
+      this.orders.submit({ pair: liquidation.pair, ...closing, type: 'MARKET', strategy: 'liquidation' }, marketData);
+    }
+  }
+
+  // Side and amount that flatten a position: sell a long, buy back a short
+  private closingOrder(pair: string): { side: 'BUY' | 'SELL', amount: number } | null {
+    const position = this.riskManager.getPortfolio().positions[pair];
+    const amount = this.riskManager.getAvailableAmount(pair);
+    if (!position || amount <= 0) return null;
+    return { side: position.amount < 0 ? 'BUY' : 'SELL', amount };
+  }
+
+  // Closes positions whose stop-loss, take-profit or trailing stop was hit
+  private enforcePositionExits(marketData: Record<string, any>) {
+    const atr: Record<string, number | null> = {};
+    for (const pair of Object.keys(marketData)) {
+      atr[pair] = this.candles.getIndicators(pair, '1m')?.atr14 ?? null;
+    }
+
+    for (const exit of this.riskManager.checkExits(marketData, atr)) {
+      const openOrders = this.orders.getOpenOrders().filter(o => o.pair === exit.pair);
+      if (openOrders.some(o => o.strategy === 'risk' || o.strategy === 'liquidation')) continue; // Exit already working
+
+      // Free amounts held by resting orders on the closing side so the whole position can be closed
+      const closingSide = this.riskManager.getPortfolio().positions[exit.pair].amount < 0 ? 'BUY' : 'SELL';
+      for (const order of openOrders.filter(o => o.side === closingSide)) {
+        this.orders.cancel(order.id, `Superseded by ${exit.reason}`);
+      }
+
+      const closing = this.closingOrder(exit.pair);
+      if (!closing) continue;
+
+      const label = exit.reason.replace('_', ' ').toLowerCase();
+      this.alertManager.sendAlert('RISK', `${exit.pair} ${label} hit at $${exit.price.toFixed(2)}. Closing ${closing.amount.toFixed(4)}.`, exit.reason === 'TAKE_PROFIT' ? 'INFO' : 'WARNING');
+      this.alertRules.onEvent('EXIT', exit.pair, `${exit.pair} ${label} hit at $${exit.price.toFixed(2)}`);
+      this.exitCooldowns[exit.pair] = this.clock() + EXIT_REBALANCE_COOLDOWN_MS;
+      this.orders.submit({ pair: exit.pair, ...closing, type: 'MARKET', strategy: 'risk' }, marketData);
+    }
+  }
+
+  private recordFill(order: Order, fill: Fill) {
     const log: TradeLog = {
       id: Math.random().toString(36).substring(7),
-      timestamp: Date.now(),
-      pair,
-      type,
-      price: executedPrice,
-      amount,
-      status: success ? 'EXECUTED' : 'FAILED',
+      timestamp: fill.timestamp,
+      pair: fill.pair,
+      type: fill.side,
+      price: fill.price,
+      amount: fill.amount,
+      status: 'EXECUTED',
+      fee: fill.fee,
+      venue: fill.venue,
+      strategy: order.strategy,
+      orderId: order.id,
+      placedBy: order.placedBy,
     };
 
-    if (success) {
-      let pnlMsg = '';
-      if (type === 'SELL') {
-        log.pnl = this.riskManager.calculateTradePnL(pair, executedPrice, amount);
-        pnlMsg = ` (PnL: $${log.pnl.toFixed(2)})`;
-      }
-      this.alertManager.sendAlert('TRADE', `${isRebalance ? '[REBALANCE] ' : ''}Executed ${type} ${amount.toFixed(4)} ${pair} @ $${executedPrice.toFixed(2)}${pnlMsg}`, 'INFO');
+    let pnlMsg = '';
+    if (fill.pnl !== undefined) {
+      log.pnl = fill.pnl;
+      this.preTrade.recordPnl(fill.pnl, fill.timestamp);
+      pnlMsg = ` (PnL: $${log.pnl.toFixed(2)})`;
     }
+    const partial = order.status === 'PARTIALLY_FILLED' ? ' (partial)' : '';
+    const venue = fill.venue ? ` on ${fill.venue}` : '';
+    const message = `[${order.strategy.toUpperCase()}] Executed ${fill.side} ${fill.amount.toFixed(4)} ${fill.pair} @ $${fill.price.toFixed(2)}${venue} (fee $${fill.fee.toFixed(2)})${partial}${pnlMsg}`;
+    this.alertManager.sendAlert('TRADE', message, 'INFO');
+    this.lastFillAt = fill.timestamp;
+    this.alertRules.onEvent('FILL', fill.pair, message);
+
+    this.appendLog(log);
+  }
+
+  private recordRejection(order: Order) {
+    this.appendLog({
+      id: Math.random().toString(36).substring(7),
+      timestamp: this.clock(),
+      pair: order.pair,
+      type: order.side,
+      price: order.price ?? order.stopPrice ?? this.marketData[order.pair]?.last ?? 0,
+      amount: order.amount - order.filledAmount,
+      status: 'FAILED',
+      strategy: order.strategy,
+      orderId: order.id,
+      reason: order.rejectReason,
+      placedBy: order.placedBy,
+    });
+    this.alertRules.onEvent('ORDER_REJECTED', order.pair, `${order.side} ${order.pair} order rejected: ${order.rejectReason ?? 'unknown reason'}`);
+  }
 
+  private appendLog(log: TradeLog) {
+    this.database?.recordTrade(log, this.riskManager.getPortfolio());
+    this.portfolioSavedAt = this.clock();
     this.logs.push(log);
-    if (this.logs.length > 1000) this.logs.shift(); // Keep last 1000 logs
+    if (this.logs.length > this.logLimit) this.logs.shift(); // Keep last 1000 logs by default
   }
 
   private logSystemEvent(level: string, message: string) {
@@ -171,10 +1118,20 @@ export class TradingEngine {
   private broadcastState() {
     const state = {
       type: 'STATE_UPDATE',
+      account: this.account,
       data: {
         isRunning: this.isRunning,
+        mode: this.mode,
         portfolio: this.riskManager.getPortfolio(),
-        marketData: this.exchange.getLatestData(),
+        marketData: this.latestData(),
+        indicators: this.candles.getAllIndicators('1m'),
+        regimes: this.regimes.getRegimes(),
+        sentiment: this.getSentiment(),
+        config: this.getConfig(),
+        pausedPairs: this.getPausedPairs(),
+        killSwitch: this.getKillSwitch(5),
+        rejections: this.getRejections(10),
+        openOrders: this.orders.getOpenOrders(),
         recentLogs: this.getLogs().slice(-10),
         alerts: this.alertManager.getRecentAlerts().slice(-5),
       }
@@ -186,15 +1143,26 @@ export class TradingEngine {
         client.send(message);
       }
     }
+    this.onBroadcast();
   }
 
   private sendInitialState(ws: WebSocket) {
     ws.send(JSON.stringify({
       type: 'STATE_UPDATE',
+      account: this.account,
       data: {
         isRunning: this.isRunning,
+        mode: this.mode,
         portfolio: this.riskManager.getPortfolio(),
-        marketData: this.exchange.getLatestData(),
+        marketData: this.latestData(),
+        indicators: this.candles.getAllIndicators('1m'),
+        regimes: this.regimes.getRegimes(),
+        sentiment: this.getSentiment(),
+        config: this.getConfig(),
+        pausedPairs: this.getPausedPairs(),
+        killSwitch: this.getKillSwitch(5),
+        rejections: this.getRejections(10),
+        openOrders: this.orders.getOpenOrders(),
         recentLogs: this.getLogs().slice(-50),
         alerts: this.alertManager.getRecentAlerts().slice(-20),
       }
@@ -1,79 +1,160 @@
 import ccxt from 'ccxt';
 import { AlertManager } from './AlertManager.js';
+import type { VenueQuote } from './SmartOrderRouter.js';
+import { FeedAdapter, FEED_ADAPTERS, StreamingFeed } from './MarketDataFeed.js';
+import { DEFAULT_CONFIG } from './ConfigManager.js';
+
+export const DEFAULT_VENUES = ['binance', 'coinbase', 'kraken'];
+const DEFAULT_SUBSCRIBER = 'default';
+
+export interface ExchangeConnectorOptions {
+  venues?: string[]; // ccxt exchange ids to pull quotes from
+  pairs?: string[]; // Trading universe; defaults to the default config's pairs
+  dislocationThreshold?: number; // Mid-price gap between venues that raises a PRICE alert
+  dislocationCooldownMs?: number; // Minimum time between dislocation alerts for one pair
+  feeds?: Record<string, FeedAdapter>; // Streaming adapters by venue; overrides the built-in ones
+  streaming?: boolean; // Set false to poll REST tickers for every venue
+  pollIntervalMs?: number; // REST ticker polling for venues without a live stream
+  staleAfterMs?: number; // Venue quotes older than this are left out of the consolidated quote
+}
 
 export class ExchangeConnector {
-  private binance: any;
-  private coinbase: any;
-  private kraken: any;
-  
-  private pairs = ['BTC/USDT', 'ETH/USDT', 'SOL/USDT', 'ADA/USDT', 'XRP/USDT'];
+  private clients: Record<string, any> = {};
+  private adapters: Record<string, FeedAdapter> = {};
+  private feeds: Record<string, StreamingFeed> = {};
+  private lastPoll: Record<string, number> = {};
+  private polling: Set<string> = new Set();
+  private pollIntervalMs: number;
+  private staleAfterMs: number;
+
+  private pairs: string[]; // Union of every subscriber's pairs
+  private subscriptions: Map<string, string[]> = new Map(); // Subscriber (account) -> its pairs
+  private subscribers: Set<string> = new Set(); // Connected subscribers; the feeds run while any are
   private latestData: Record<string, any> = {};
+  private venueQuotes: Record<string, Record<string, VenueQuote>> = {}; // Pair -> venue -> quote
+  private lastDislocationAlert: Record<string, number> = {};
+  private dislocationThreshold: number;
+  private dislocationCooldownMs: number;
   private isConnected: boolean = false;
   private alertManager: AlertManager;
 
-  constructor(alertManager: AlertManager) {
+  constructor(alertManager: AlertManager, options: ExchangeConnectorOptions = {}) {
     this.alertManager = alertManager;
-    this.binance = new ccxt.binance({ enableRateLimit: true });
-    this.coinbase = new ccxt.coinbase({ enableRateLimit: true });
-    this.kraken = new ccxt.kraken({ enableRateLimit: true });
+    this.dislocationThreshold = options.dislocationThreshold ?? 0.005;
+    this.dislocationCooldownMs = options.dislocationCooldownMs ?? 5 * 60_000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.staleAfterMs = options.staleAfterMs ?? 30_000;
+    this.pairs = [...(options.pairs ?? DEFAULT_CONFIG.pairs)];
+
+    for (const venue of options.venues ?? DEFAULT_VENUES) {
+      const ExchangeClass = (ccxt as any)[venue];
+      if (typeof ExchangeClass !== 'function') {
+        throw new Error(`Unknown exchange: ${venue}`);
+      }
+      this.clients[venue] = new ExchangeClass({ enableRateLimit: true });
+
+      const adapter = options.feeds?.[venue] ?? FEED_ADAPTERS[venue]?.();
+      if (adapter && options.streaming !== false) {
+        this.adapters[venue] = adapter;
+        this.feeds[venue] = new StreamingFeed(adapter, this.pairs, alertManager);
+      }
+    }
+  }
+
+  public getPairs(subscriber?: string): string[] {
+    return subscriber === undefined ? this.pairs : this.subscriptions.get(subscriber) ?? [];
+  }
+
+  // Accounts sharing the connector each subscribe to their own pairs; quotes are kept for all of them.
+  // Streams subscribe per pair, so feeds are rebuilt (and reconnected if running) when the union changes.
+  public setPairs(pairs: string[], subscriber: string = DEFAULT_SUBSCRIBER) {
+    this.subscriptions.set(subscriber, [...pairs]);
+    const union = [...new Set([...this.subscriptions.values()].flat())];
+    if (union.length === this.pairs.length && union.every(pair => this.pairs.includes(pair))) return;
+    this.pairs = union;
+    for (const [venue, adapter] of Object.entries(this.adapters)) {
+      this.feeds[venue].disconnect();
+      this.feeds[venue] = new StreamingFeed(adapter, this.pairs, this.alertManager);
+      if (this.isConnected) this.feeds[venue].connect();
+    }
+    for (const pair of Object.keys(this.venueQuotes)) {
+      if (!this.pairs.includes(pair)) {
+        delete this.venueQuotes[pair];
+        delete this.latestData[pair];
+      }
+    }
+  }
+
+  public getVenues(): string[] {
+    return Object.keys(this.clients);
+  }
+
+  public getFeedStatus() {
+    return Object.values(this.feeds).map(feed => feed.getStatus());
+  }
+
+  public getOrderBook(venue: string, pair: string, levels?: number) {
+    const feed = this.feeds[venue];
+    if (!feed) {
+      throw new Error(`No streaming order book for ${venue}`);
+    }
+    const depth = feed.getDepth(pair, levels);
+    if (!depth) {
+      throw new Error(`Unknown pair: ${pair}`);
+    }
+    return { venue, pair, ...depth };
   }
 
-  public async connect() {
-    console.log('Connecting to exchanges...');
+  // The feeds connect for the first subscriber and disconnect after the last one leaves
+  public async connect(subscriber: string = DEFAULT_SUBSCRIBER) {
+    this.subscribers.add(subscriber);
+    if (this.isConnected) return;
+    console.log(`Connecting to exchanges: ${this.getVenues().join(', ')}...`);
     this.isConnected = true;
+    for (const feed of Object.values(this.feeds)) {
+      feed.connect();
+    }
     this.alertManager.sendAlert('SYSTEM', 'Connected to Exchange APIs', 'INFO');
-    
+
     // Initial fetch
     await this.fetchMarketData();
   }
 
-  public disconnect() {
+  public disconnect(subscriber: string = DEFAULT_SUBSCRIBER) {
+    this.subscribers.delete(subscriber);
+    if (this.subscribers.size > 0 || !this.isConnected) return;
     console.log('Disconnecting from exchanges...');
     this.isConnected = false;
+    for (const feed of Object.values(this.feeds)) {
+      feed.disconnect();
+    }
     this.alertManager.sendAlert('SYSTEM', 'Disconnected from Exchange APIs', 'WARNING');
   }
 
+  // Streaming venues are read from their local books; the rest (and streams that are down)
+  // are polled over REST in the background so a slow venue never holds up the tick
   public async fetchMarketData(): Promise<Record<string, any>> {
     if (!this.isConnected) return this.latestData;
 
     try {
-      // In a real high-frequency bot, we'd use WebSockets per exchange.
-      // For this implementation, we simulate sub-second latency by polling or using cached data
-      // and adding random noise to simulate tick data.
-      
-      // Fetch real data periodically
-      if (Math.random() < 0.1) { // 10% chance to fetch real data to avoid rate limits
-        const tickers = await this.binance.fetchTickers(this.pairs);
-        for (const pair of this.pairs) {
-          if (tickers[pair]) {
-            this.latestData[pair] = {
-              last: tickers[pair].last,
-              bid: tickers[pair].bid,
-              ask: tickers[pair].ask,
-              volume: tickers[pair].baseVolume,
-              timestamp: Date.now()
-            };
-          }
-        }
-      } else {
-        // Simulate tick data based on last known prices
-        for (const pair of this.pairs) {
-          if (this.latestData[pair]) {
-            const volatility = 0.001; // 0.1% volatility per tick
-            const change = 1 + (Math.random() * volatility * 2 - volatility);
-            this.latestData[pair].last *= change;
-            this.latestData[pair].bid = this.latestData[pair].last * 0.9995;
-            this.latestData[pair].ask = this.latestData[pair].last * 1.0005;
-            this.latestData[pair].timestamp = Date.now();
-          } else {
-            // Fallback initial prices if real fetch hasn't happened yet
-            this.latestData[pair] = {
-              last: 50000, bid: 49950, ask: 50050, volume: 100, timestamp: Date.now()
-            };
+      const now = Date.now();
+      for (const venue of this.getVenues()) {
+        const feed = this.feeds[venue];
+        if (feed?.isConnected()) {
+          for (const pair of this.pairs) {
+            const quote = feed.getQuote(pair);
+            if (quote) {
+              this.venueQuotes[pair] ??= {};
+              this.venueQuotes[pair][venue] = quote;
+            }
           }
+        } else if (now - (this.lastPoll[venue] ?? 0) >= this.pollIntervalMs && !this.polling.has(venue)) {
+          this.lastPoll[venue] = now;
+          this.pollVenue(venue);
         }
       }
 
+      this.consolidate();
       return this.latestData;
     } catch (error) {
       console.error('Error fetching market data:', error);
@@ -81,6 +162,86 @@ export class ExchangeConnector {
     }
   }
 
+  // One venue failing must not take down the others
+  private async pollVenue(venue: string) {
+    this.polling.add(venue);
+    try {
+      const tickers = await this.clients[venue].fetchTickers(this.pairs);
+      for (const pair of this.pairs) {
+        const ticker = tickers[pair];
+        if (!ticker?.last) continue;
+        this.venueQuotes[pair] ??= {};
+        this.venueQuotes[pair][venue] = {
+          exchange: venue,
+          last: ticker.last,
+          bid: ticker.bid ?? ticker.last,
+          ask: ticker.ask ?? ticker.last,
+          volume: ticker.baseVolume,
+          timestamp: Date.now(),
+        };
+      }
+    } catch (error) {
+      console.error(`Error fetching ${venue} tickers:`, error instanceof Error ? error.message : error);
+    } finally {
+      this.polling.delete(venue);
+    }
+  }
+
+  // Best bid/offer across venues, with the per-venue quotes kept alongside
+  private consolidate() {
+    const cutoff = Date.now() - this.staleAfterMs;
+    for (const [pair, venues] of Object.entries(this.venueQuotes)) {
+      const quotes = Object.values(venues).filter(q => q.timestamp >= cutoff);
+      if (quotes.length === 0) {
+        delete this.latestData[pair]; // No fresh quote anywhere; better no price than a stale one
+        continue;
+      }
+
+      const bestBid = quotes.reduce((best, q) => q.bid > best.bid ? q : best);
+      const bestAsk = quotes.reduce((best, q) => q.ask < best.ask ? q : best);
+      const volume = quotes.reduce((acc, q) => acc + (q.volume ?? 0), 0);
+      // Volume-weighted last so thin venues don't steer the reference price
+      const last = volume > 0
+        ? quotes.reduce((acc, q) => acc + q.last * (q.volume ?? 0), 0) / volume
+        : quotes.reduce((acc, q) => acc + q.last, 0) / quotes.length;
+
+      this.latestData[pair] = {
+        last,
+        bid: bestBid.bid,
+        ask: bestAsk.ask,
+        bidVenue: bestBid.exchange,
+        askVenue: bestAsk.exchange,
+        volume: volume > 0 ? volume : undefined,
+        venues: Object.fromEntries(quotes.map(q => [q.exchange, { ...q }])),
+        timestamp: Math.max(...quotes.map(q => q.timestamp)),
+      };
+
+      this.checkDislocation(pair, quotes);
+    }
+  }
+
+  private checkDislocation(pair: string, quotes: VenueQuote[]) {
+    if (quotes.length < 2) return;
+
+    const mid = (q: VenueQuote) => (q.bid + q.ask) / 2;
+    const low = quotes.reduce((best, q) => mid(q) < mid(best) ? q : best);
+    const high = quotes.reduce((best, q) => mid(q) > mid(best) ? q : best);
+    const gap = mid(high) / mid(low) - 1;
+    if (gap < this.dislocationThreshold) return;
+
+    const now = Date.now();
+    if (now - (this.lastDislocationAlert[pair] ?? 0) < this.dislocationCooldownMs) return;
+    this.lastDislocationAlert[pair] = now;
+
+    // A crossed market (one venue's bid above another's ask) is directly arbitrageable
+    const crossed = high.bid > low.ask ? ' Market is crossed.' : '';
+    this.alertManager.sendAlert(
+      'PRICE',
+      `${pair} dislocation of ${(gap * 100).toFixed(2)}%: ${high.exchange} $${mid(high).toFixed(2)} vs ${low.exchange} $${mid(low).toFixed(2)}.${crossed}`,
+      'WARNING',
+    );
+  }
+
   public getLatestData() {
     return this.latestData;
   }
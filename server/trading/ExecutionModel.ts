@@ -0,0 +1,72 @@
+export type LiquidityRole = 'MAKER' | 'TAKER';
+
+export interface FeeSchedule {
+  maker: number; // Fraction of notional charged when adding liquidity
+  taker: number; // Fraction of notional charged when removing liquidity
+}
+
+// Base-tier spot fees; override per deployment with the account's actual tier
+export const DEFAULT_FEE_SCHEDULES: Record<string, FeeSchedule> = {
+  binance: { maker: 0.001, taker: 0.001 },
+  coinbase: { maker: 0.004, taker: 0.006 },
+  kraken: { maker: 0.0016, taker: 0.0026 },
+};
+
+export interface ExecutionQuote {
+  price: number;
+  fee: number;
+  feeRate: number;
+  role: LiquidityRole;
+  impact: number; // Fractional price move caused by the order itself
+}
+
+// Prices fills and charges fees; swap implementations to change execution assumptions
+export interface ExecutionModel {
+  quote(side: 'BUY' | 'SELL', amount: number, marketQuote: any, role: LiquidityRole): ExecutionQuote;
+  feeRate(role: LiquidityRole, exchange?: string): number;
+}
+
+export interface ExecutionModelOptions {
+  exchange?: string; // Venue assumed when a quote doesn't name one
+  fees?: Record<string, FeeSchedule>;
+  impactCoefficient?: number;
+  maxImpact?: number;
+}
+
+// Takers cross the spread (buy at the ask, sell at the bid) and pay square-root market impact
+// scaled by the order's share of the ticker's reported volume. Makers fill at the touch with no impact.
+export class DefaultExecutionModel implements ExecutionModel {
+  private exchange: string;
+  private fees: Record<string, FeeSchedule>;
+  private impactCoefficient: number;
+  private maxImpact: number;
+
+  constructor(options: ExecutionModelOptions = {}) {
+    this.exchange = options.exchange ?? 'binance';
+    this.fees = { ...DEFAULT_FEE_SCHEDULES, ...options.fees };
+    this.impactCoefficient = options.impactCoefficient ?? 0.1;
+    this.maxImpact = options.maxImpact ?? 0.005;
+
+    if (!this.fees[this.exchange]) {
+      throw new Error(`No fee schedule for exchange: ${this.exchange}`);
+    }
+  }
+
+  public feeRate(role: LiquidityRole, exchange: string = this.exchange): number {
+    const schedule = this.fees[exchange] ?? this.fees[this.exchange];
+    return role === 'MAKER' ? schedule.maker : schedule.taker;
+  }
+
+  public impact(amount: number, volume: number | undefined): number {
+    if (!(volume && volume > 0)) return 0; // No volume reported, nothing to scale by
+    return Math.min(this.maxImpact, this.impactCoefficient * Math.sqrt(amount / volume));
+  }
+
+  public quote(side: 'BUY' | 'SELL', amount: number, marketQuote: any, role: LiquidityRole): ExecutionQuote {
+    const touch = side === 'BUY' ? marketQuote.ask : marketQuote.bid;
+    const impact = role === 'TAKER' ? this.impact(amount, marketQuote.volume) : 0;
+    const price = side === 'BUY' ? touch * (1 + impact) : touch * (1 - impact);
+    const feeRate = this.feeRate(role, marketQuote.exchange);
+    return { price, fee: price * amount * feeRate, feeRate, role, impact };
+  }
+}
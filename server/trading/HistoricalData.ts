@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface Candle {
+  pair: string;
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Infers the pair from file names like "BTC-USDT.csv" or "BTC_USDT_1h.json"
+function pairFromFileName(filePath: string): string | undefined {
+  const match = path.basename(filePath).toUpperCase().match(/^([A-Z0-9]+)[-_]([A-Z0-9]+)/);
+  return match ? `${match[1]}/${match[2]}` : undefined;
+}
+
+function toTimestamp(value: unknown): number {
+  if (typeof value === 'number') return value;
+  const str = String(value).trim();
+  const numeric = Number(str);
+  if (!Number.isNaN(numeric)) return numeric;
+  const parsed = Date.parse(str);
+  if (Number.isNaN(parsed)) throw new Error(`Invalid timestamp: ${str}`);
+  return parsed;
+}
+
+function toCandle(pair: string, row: Record<string, unknown> | unknown[]): Candle {
+  // ccxt fetchOHLCV layout: [timestamp, open, high, low, close, volume]
+  if (Array.isArray(row)) {
+    return {
+      pair,
+      timestamp: toTimestamp(row[0]),
+      open: Number(row[1]),
+      high: Number(row[2]),
+      low: Number(row[3]),
+      close: Number(row[4]),
+      volume: Number(row[5] ?? 0),
+    };
+  }
+  return {
+    pair: row.pair ? String(row.pair) : pair,
+    timestamp: toTimestamp(row.timestamp ?? row.time ?? row.date),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: Number(row.volume ?? 0),
+  };
+}
+
+function parseCsv(content: string, pair: string | undefined): Candle[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(col => col.trim().toLowerCase());
+  const hasHeader = header.includes('close');
+  const columns = hasHeader ? header : ['timestamp', 'open', 'high', 'low', 'close', 'volume'];
+
+  return lines.slice(hasHeader ? 1 : 0).map(line => {
+    const values = line.split(',');
+    const row: Record<string, string> = {};
+    columns.forEach((col, i) => {
+      row[col] = values[i]?.trim();
+    });
+    if (!row.pair && !pair) throw new Error('CSV has no pair column and pair could not be inferred from file name');
+    return toCandle(pair as string, row);
+  });
+}
+
+function parseJson(content: string, pair: string | undefined): Candle[] {
+  const data = JSON.parse(content);
+
+  // Either an array of rows, or an object keyed by pair
+  if (Array.isArray(data)) {
+    return data.map(row => {
+      if (Array.isArray(row) && !pair) throw new Error('JSON OHLCV arrays require the pair in the file name');
+      return toCandle(pair as string, row);
+    });
+  }
+
+  const candles: Candle[] = [];
+  for (const [key, rows] of Object.entries(data)) {
+    if (!Array.isArray(rows)) continue;
+    for (const row of rows) {
+      candles.push(toCandle(key, row));
+    }
+  }
+  return candles;
+}
+
+export function loadCandles(filePath: string, pair?: string): Candle[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const resolvedPair = pair ?? pairFromFileName(filePath);
+  const ext = path.extname(filePath).toLowerCase();
+
+  let candles: Candle[];
+  if (ext === '.csv') {
+    candles = parseCsv(content, resolvedPair);
+  } else if (ext === '.json') {
+    candles = parseJson(content, resolvedPair);
+  } else {
+    throw new Error(`Unsupported historical data format: ${ext}`);
+  }
+
+  return candles.filter(c => Number.isFinite(c.timestamp) && Number.isFinite(c.close) && c.close > 0);
+}
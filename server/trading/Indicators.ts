@@ -0,0 +1,320 @@
+import type { Candle } from './HistoricalData.js';
+
+// Incremental indicators: each update() consumes one closed bar in O(1)
+// and returns the latest value, or null while the indicator is warming up.
+
+export class SMA {
+  private period: number;
+  private window: number[] = [];
+  private sum = 0;
+  public value: number | null = null;
+
+  constructor(period: number) {
+    this.period = period;
+  }
+
+  public update(input: number): number | null {
+    this.window.push(input);
+    this.sum += input;
+    if (this.window.length > this.period) {
+      this.sum -= this.window.shift() as number;
+    }
+    this.value = this.window.length === this.period ? this.sum / this.period : null;
+    return this.value;
+  }
+}
+
+export class EMA {
+  private alpha: number;
+  private seed: SMA;
+  public value: number | null = null;
+
+  constructor(period: number) {
+    this.alpha = 2 / (period + 1);
+    this.seed = new SMA(period);
+  }
+
+  public update(input: number): number | null {
+    if (this.value === null) {
+      // Seed with the simple average of the first `period` inputs
+      this.value = this.seed.update(input);
+    } else {
+      this.value = input * this.alpha + this.value * (1 - this.alpha);
+    }
+    return this.value;
+  }
+}
+
+// Wilder-smoothed relative strength index
+export class RSI {
+  private period: number;
+  private prevClose: number | null = null;
+  private avgGain = 0;
+  private avgLoss = 0;
+  private samples = 0;
+  public value: number | null = null;
+
+  constructor(period: number = 14) {
+    this.period = period;
+  }
+
+  public update(close: number): number | null {
+    if (this.prevClose === null) {
+      this.prevClose = close;
+      return null;
+    }
+
+    const change = close - this.prevClose;
+    this.prevClose = close;
+    const gain = Math.max(0, change);
+    const loss = Math.max(0, -change);
+
+    this.samples++;
+    if (this.samples <= this.period) {
+      this.avgGain += gain / this.period;
+      this.avgLoss += loss / this.period;
+      if (this.samples < this.period) return null;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    this.value = this.avgLoss === 0 ? 100 : 100 - 100 / (1 + this.avgGain / this.avgLoss);
+    return this.value;
+  }
+}
+
+export interface MACDValue {
+  macd: number;
+  signal: number | null;
+  histogram: number | null;
+}
+
+export class MACD {
+  private fast: EMA;
+  private slow: EMA;
+  private signalLine: EMA;
+  public value: MACDValue | null = null;
+
+  constructor(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signalLine = new EMA(signalPeriod);
+  }
+
+  public update(close: number): MACDValue | null {
+    const fast = this.fast.update(close);
+    const slow = this.slow.update(close);
+    if (fast === null || slow === null) return null;
+
+    const macd = fast - slow;
+    const signal = this.signalLine.update(macd);
+    this.value = { macd, signal, histogram: signal === null ? null : macd - signal };
+    return this.value;
+  }
+}
+
+// Wilder-smoothed average true range
+export class ATR {
+  private period: number;
+  private prevClose: number | null = null;
+  private seed: SMA;
+  public value: number | null = null;
+
+  constructor(period: number = 14) {
+    this.period = period;
+    this.seed = new SMA(period);
+  }
+
+  public update(candle: Candle): number | null {
+    const trueRange = this.prevClose === null
+      ? candle.high - candle.low
+      : Math.max(
+          candle.high - candle.low,
+          Math.abs(candle.high - this.prevClose),
+          Math.abs(candle.low - this.prevClose),
+        );
+    this.prevClose = candle.close;
+
+    if (this.value === null) {
+      this.value = this.seed.update(trueRange);
+    } else {
+      this.value = (this.value * (this.period - 1) + trueRange) / this.period;
+    }
+    return this.value;
+  }
+}
+
+// Wilder's average directional index: trend strength regardless of direction (0-100)
+export class ADX {
+  private period: number;
+  private prev: Candle | null = null;
+  private samples = 0;
+  private trueRange = 0;
+  private plusDM = 0;
+  private minusDM = 0;
+  private dxSeed: SMA;
+  public value: number | null = null;
+
+  constructor(period: number = 14) {
+    this.period = period;
+    this.dxSeed = new SMA(period);
+  }
+
+  public update(candle: Candle): number | null {
+    const prev = this.prev;
+    this.prev = candle;
+    if (prev === null) return null;
+
+    const up = candle.high - prev.high;
+    const down = prev.low - candle.low;
+    const plusDM = up > down && up > 0 ? up : 0;
+    const minusDM = down > up && down > 0 ? down : 0;
+    const trueRange = Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - prev.close),
+      Math.abs(candle.low - prev.close),
+    );
+
+    // Wilder smoothing: sum the first `period` values, then decay by 1/period
+    this.samples++;
+    if (this.samples <= this.period) {
+      this.trueRange += trueRange;
+      this.plusDM += plusDM;
+      this.minusDM += minusDM;
+      if (this.samples < this.period) return null;
+    } else {
+      this.trueRange += trueRange - this.trueRange / this.period;
+      this.plusDM += plusDM - this.plusDM / this.period;
+      this.minusDM += minusDM - this.minusDM / this.period;
+    }
+
+    const plusDI = this.trueRange > 0 ? 100 * this.plusDM / this.trueRange : 0;
+    const minusDI = this.trueRange > 0 ? 100 * this.minusDM / this.trueRange : 0;
+    const dx = plusDI + minusDI > 0 ? 100 * Math.abs(plusDI - minusDI) / (plusDI + minusDI) : 0;
+
+    if (this.value === null) {
+      this.value = this.dxSeed.update(dx);
+    } else {
+      this.value = (this.value * (this.period - 1) + dx) / this.period;
+    }
+    return this.value;
+  }
+}
+
+export interface BollingerValue {
+  middle: number;
+  upper: number;
+  lower: number;
+  percentB: number; // Position of the close within the bands (0 = lower, 1 = upper)
+}
+
+export class BollingerBands {
+  private period: number;
+  private multiplier: number;
+  private window: number[] = [];
+  private sum = 0;
+  private sumSquares = 0;
+  public value: BollingerValue | null = null;
+
+  constructor(period: number = 20, multiplier: number = 2) {
+    this.period = period;
+    this.multiplier = multiplier;
+  }
+
+  public update(close: number): BollingerValue | null {
+    this.window.push(close);
+    this.sum += close;
+    this.sumSquares += close * close;
+    if (this.window.length > this.period) {
+      const dropped = this.window.shift() as number;
+      this.sum -= dropped;
+      this.sumSquares -= dropped * dropped;
+    }
+    if (this.window.length < this.period) return null;
+
+    const middle = this.sum / this.period;
+    const stdDev = Math.sqrt(Math.max(0, this.sumSquares / this.period - middle * middle));
+    const upper = middle + this.multiplier * stdDev;
+    const lower = middle - this.multiplier * stdDev;
+    this.value = {
+      middle,
+      upper,
+      lower,
+      percentB: upper === lower ? 0.5 : (close - lower) / (upper - lower),
+    };
+    return this.value;
+  }
+}
+
+// Session VWAP over typical price, reset at each UTC day boundary
+export class VWAP {
+  private sessionStart: number | null = null;
+  private cumulativePV = 0;
+  private cumulativeVolume = 0;
+  public value: number | null = null;
+
+  public update(candle: Candle): number | null {
+    const session = Math.floor(candle.timestamp / 86_400_000);
+    if (session !== this.sessionStart) {
+      this.sessionStart = session;
+      this.cumulativePV = 0;
+      this.cumulativeVolume = 0;
+    }
+
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    this.cumulativePV += typicalPrice * candle.volume;
+    this.cumulativeVolume += candle.volume;
+    this.value = this.cumulativeVolume > 0 ? this.cumulativePV / this.cumulativeVolume : null;
+    return this.value;
+  }
+}
+
+export interface IndicatorValues {
+  timestamp: number; // Open time of the last bar included
+  close: number;
+  sma20: number | null;
+  ema12: number | null;
+  ema26: number | null;
+  rsi14: number | null;
+  macd: MACDValue | null;
+  atr14: number | null;
+  adx14: number | null;
+  bollinger: BollingerValue | null;
+  vwap: number | null;
+}
+
+// Standard indicator bundle maintained per pair and timeframe
+export class IndicatorSet {
+  private sma20 = new SMA(20);
+  private ema12 = new EMA(12);
+  private ema26 = new EMA(26);
+  private rsi14 = new RSI(14);
+  private macd = new MACD(12, 26, 9);
+  private atr14 = new ATR(14);
+  private adx14 = new ADX(14);
+  private bollinger = new BollingerBands(20, 2);
+  private vwap = new VWAP();
+  private latest: IndicatorValues | null = null;
+
+  public update(candle: Candle): IndicatorValues {
+    this.latest = {
+      timestamp: candle.timestamp,
+      close: candle.close,
+      sma20: this.sma20.update(candle.close),
+      ema12: this.ema12.update(candle.close),
+      ema26: this.ema26.update(candle.close),
+      rsi14: this.rsi14.update(candle.close),
+      macd: this.macd.update(candle.close),
+      atr14: this.atr14.update(candle),
+      adx14: this.adx14.update(candle),
+      bollinger: this.bollinger.update(candle.close),
+      vwap: this.vwap.update(candle),
+    };
+    return this.latest;
+  }
+
+  public getValues(): IndicatorValues | null {
+    return this.latest;
+  }
+}
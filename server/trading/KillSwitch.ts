@@ -0,0 +1,76 @@
+import { randomUUID } from 'crypto';
+import type { TradingDatabase } from './Database.js';
+
+export interface KillSwitchEvent {
+  id: string;
+  action: 'TRIPPED' | 'REARMED';
+  reason: string;
+  actor: string; // 'system' for trips
+  drawdown: number; // Portfolio drawdown at the time
+  baselineEquity: number | null; // Re-arms: the equity drawdown is measured from afterwards
+  createdAt: number;
+}
+
+export interface KillSwitchState {
+  tripped: boolean;
+  trippedAt: number | null;
+  reason: string | null; // Why it tripped, while tripped
+  events: KillSwitchEvent[]; // Newest first
+}
+
+// Latches when a fail-safe halts trading and stays tripped, across restarts, until an admin
+// re-arms it with a reason. Every trip and re-arm is recorded.
+export class KillSwitch {
+  private database: TradingDatabase | null;
+  private clock: () => number;
+  private events: KillSwitchEvent[] = []; // Newest first; the database keeps the full history
+  private tripped: KillSwitchEvent | null = null;
+
+  constructor(options: { database?: TradingDatabase | null, clock?: () => number } = {}) {
+    this.database = options.database ?? null;
+    this.clock = options.clock ?? Date.now;
+    if (this.database) {
+      this.events = this.database.loadKillSwitchEvents(50);
+      this.tripped = this.events[0]?.action === 'TRIPPED' ? this.events[0] : null;
+    }
+  }
+
+  public isTripped(): boolean {
+    return this.tripped !== null;
+  }
+
+  // Returns the event, or null when already tripped
+  public trip(reason: string, drawdown: number): KillSwitchEvent | null {
+    if (this.tripped) return null;
+    this.tripped = this.record('TRIPPED', reason, 'system', drawdown, null);
+    return this.tripped;
+  }
+
+  public rearm(reason: string, rearmedBy: string, drawdown: number, baselineEquity: number): KillSwitchEvent {
+    if (!this.tripped) {
+      throw new Error('Kill switch is not tripped');
+    }
+    if (typeof reason !== 'string' || reason.trim().length === 0) {
+      throw new Error('A reason is required to re-arm the kill switch');
+    }
+    this.tripped = null;
+    return this.record('REARMED', reason.trim(), rearmedBy, drawdown, baselineEquity);
+  }
+
+  private record(action: KillSwitchEvent['action'], reason: string, actor: string, drawdown: number, baselineEquity: number | null): KillSwitchEvent {
+    const event: KillSwitchEvent = { id: randomUUID(), action, reason, actor, drawdown, baselineEquity, createdAt: this.clock() };
+    this.database?.insertKillSwitchEvent(event);
+    this.events.unshift(event);
+    this.events.length = Math.min(this.events.length, 50);
+    return event;
+  }
+
+  public getState(limit: number = 20): KillSwitchState {
+    return {
+      tripped: this.tripped !== null,
+      trippedAt: this.tripped?.createdAt ?? null,
+      reason: this.tripped?.reason ?? null,
+      events: this.events.slice(0, limit),
+    };
+  }
+}
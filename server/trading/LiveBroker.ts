@@ -0,0 +1,311 @@
+import ccxt from 'ccxt';
+import type { Order } from './OrderManager.js';
+
+export type TradingMode = 'paper' | 'dry-run' | 'live';
+
+export const TRADING_MODES: TradingMode[] = ['paper', 'dry-run', 'live'];
+
+// Must be supplied verbatim (env or API) before live mode will start
+export const LIVE_CONFIRMATION_PHRASE = 'I UNDERSTAND THIS TRADES REAL FUNDS';
+
+// The subset of a ccxt exchange the broker uses; tests can pass a plain object
+export interface ExchangeClient {
+  createOrder(symbol: string, type: string, side: string, amount: number, price?: number, params?: Record<string, any>): Promise<any>;
+  cancelOrder(id: string, symbol?: string): Promise<any>;
+  fetchOrder(id: string, symbol?: string): Promise<any>;
+  fetchBalance(): Promise<any>;
+  loadMarkets?(): Promise<any>;
+  amountToPrecision?(symbol: string, amount: number): string; // Lot-size rounding; needs the markets loaded
+}
+
+export interface BrokerFill {
+  price: number;
+  amount: number;
+  fee: number;
+  venue: string;
+}
+
+export interface BalanceSnapshot {
+  balance: number; // Quote currency across venues
+  amounts: Record<string, number>; // Pair -> base currency across venues
+}
+
+export interface LiveBrokerOptions {
+  mode: 'dry-run' | 'live';
+  clients: Record<string, ExchangeClient>;
+  pairs: string[];
+  quoteCurrency?: string;
+  clock?: () => number;
+  reconcileIntervalMs?: number;
+  onFill: (orderId: string, fill: BrokerFill) => void;
+  onStatus: (orderId: string, status: 'FILLED' | 'CANCELED' | 'EXPIRED' | 'REJECTED', reason: string) => void;
+  onPlaced?: (order: Order) => void;
+  onBalances?: (snapshot: BalanceSnapshot) => void;
+  log?: (message: string) => void;
+}
+
+interface TrackedOrder {
+  order: Order;
+  venue: string;
+  filled: number; // Exchange-reported cumulative fill already applied
+  cost: number; // Exchange-reported cumulative quote cost already applied
+  fees: number;
+}
+
+// Reads <VENUE>_API_KEY / <VENUE>_API_SECRET (and <VENUE>_API_PASSWORD where the venue needs one)
+export function createExchangeClients(venues: string[], env: Record<string, string | undefined> = process.env): Record<string, ExchangeClient> {
+  const clients: Record<string, ExchangeClient> = {};
+  for (const venue of venues) {
+    const prefix = venue.toUpperCase();
+    const apiKey = env[`${prefix}_API_KEY`];
+    const secret = env[`${prefix}_API_SECRET`];
+    if (!apiKey || !secret) continue;
+
+    const ExchangeClass = (ccxt as any)[venue];
+    if (typeof ExchangeClass !== 'function') {
+      throw new Error(`Unknown exchange: ${venue}`);
+    }
+    clients[venue] = new ExchangeClass({ apiKey, secret, password: env[`${prefix}_API_PASSWORD`], enableRateLimit: true });
+  }
+  if (Object.keys(clients).length === 0) {
+    throw new Error(`No exchange credentials found; set <VENUE>_API_KEY and <VENUE>_API_SECRET for one of: ${venues.join(', ')}`);
+  }
+  return clients;
+}
+
+// Sends activated orders to exchanges (live) or logs the exact request (dry-run),
+// polls live orders for fills and reconciles balances into the portfolio.
+export class LiveBroker {
+  private mode: 'dry-run' | 'live';
+  private clients: Record<string, ExchangeClient>;
+  private pairs: string[];
+  private quoteCurrency: string;
+  private clock: () => number;
+  private reconcileIntervalMs: number;
+  private lastReconcile = 0;
+  private tracked: Map<string, TrackedOrder> = new Map();
+  private pending: Promise<void>[] = [];
+  private onFill: LiveBrokerOptions['onFill'];
+  private onStatus: LiveBrokerOptions['onStatus'];
+  private onPlaced?: LiveBrokerOptions['onPlaced'];
+  private onBalances?: LiveBrokerOptions['onBalances'];
+  private log: (message: string) => void;
+
+  constructor(options: LiveBrokerOptions) {
+    this.mode = options.mode;
+    this.clients = options.clients;
+    this.pairs = options.pairs;
+    this.quoteCurrency = options.quoteCurrency ?? 'USDT';
+    this.clock = options.clock ?? Date.now;
+    this.reconcileIntervalMs = options.reconcileIntervalMs ?? 30_000;
+    this.onFill = options.onFill;
+    this.onStatus = options.onStatus;
+    this.onPlaced = options.onPlaced;
+    this.onBalances = options.onBalances;
+    this.log = options.log ?? console.log;
+  }
+
+  public getMode() {
+    return this.mode;
+  }
+
+  public getVenues(): string[] {
+    return Object.keys(this.clients);
+  }
+
+  // Pairs whose base-currency balances are reconciled
+  public setPairs(pairs: string[]) {
+    this.pairs = [...pairs];
+  }
+
+  // Dry-run fills are still simulated locally; only live waits on the exchange
+  public simulatesFills(): boolean {
+    return this.mode === 'dry-run';
+  }
+
+  // Prefers the router's venue, falling back to any venue we hold credentials for.
+  // Dry runs need no credentials, so the router's choice stands.
+  public resolveVenue(venue?: string): string | undefined {
+    if (venue && (this.mode === 'dry-run' || this.clients[venue])) return venue;
+    return this.getVenues()[0];
+  }
+
+  public place(order: Order, venue?: string) {
+    const target = this.resolveVenue(venue);
+
+    if (this.mode === 'dry-run') {
+      this.log(`[DRY RUN] ${target ?? 'exchange'}.createOrder(${JSON.stringify(this.toExchangeRequest(order))})`);
+      return;
+    }
+    if (!target) {
+      this.onStatus(order.id, 'REJECTED', 'No exchange credentials configured');
+      return;
+    }
+
+    const client = this.clients[target];
+    this.pending.push((async () => {
+      try {
+        await client.loadMarkets?.(); // Lot sizes come with the markets
+        const request = this.toExchangeRequest(order, client);
+        if (request.amount <= 0) {
+          this.onStatus(order.id, 'REJECTED', `Amount is below the lot size on ${target}`);
+          return;
+        }
+        // The venue fills the rounded amount, so that is what the order is booked against
+        order.amount = order.filledAmount + request.amount;
+        const placed = await client.createOrder(request.symbol, request.type, request.side, request.amount, request.price, request.params);
+        order.exchangeOrderId = String(placed.id);
+        order.venue = target;
+        this.tracked.set(order.id, { order, venue: target, filled: 0, cost: 0, fees: 0 });
+        this.onPlaced?.(order);
+        if (order.status !== 'NEW' && order.status !== 'PARTIALLY_FILLED') {
+          this.cancel(order); // Closed locally while the placement was in flight
+        }
+      } catch (error) {
+        this.onStatus(order.id, 'REJECTED', `Exchange rejected order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    })());
+  }
+
+  // Conditional orders are triggered locally, so the exchange only ever sees market or limit orders.
+  // Given the venue's client, the amount is rounded to its lot size.
+  private toExchangeRequest(order: Order, client?: ExchangeClient) {
+    const unrounded = order.amount - order.filledAmount;
+    const remaining = client?.amountToPrecision ? Number(client.amountToPrecision(order.pair, unrounded)) : unrounded;
+    const isLimit = order.type === 'LIMIT' || order.type === 'STOP_LIMIT';
+    const params: Record<string, any> = { clientOrderId: order.id };
+    if (order.timeInForce !== 'GTC') params.timeInForce = order.timeInForce;
+    return {
+      symbol: order.pair,
+      type: isLimit ? 'limit' : 'market',
+      side: order.side.toLowerCase(),
+      amount: remaining,
+      price: isLimit ? order.price : undefined,
+      params,
+    };
+  }
+
+  public cancel(order: Order) {
+    if (this.mode === 'dry-run') {
+      this.log(`[DRY RUN] cancelOrder(${order.id})`);
+      return;
+    }
+    const tracked = this.tracked.get(order.id);
+    if (!tracked || !order.exchangeOrderId) return;
+    // Keep tracking: fills that raced the cancel are still picked up by the next poll
+    const exchangeOrderId = order.exchangeOrderId;
+    this.pending.push(this.clients[tracked.venue].cancelOrder(exchangeOrderId, order.pair).then(
+      () => undefined,
+      (error: unknown) => this.log(`Cancel of ${exchangeOrderId} on ${tracked.venue} failed: ${error instanceof Error ? error.message : error}`),
+    ));
+  }
+
+  // Re-adopts live orders that were working on the exchange before a restart
+  public track(orders: Order[]) {
+    for (const order of orders) {
+      if (!order.exchangeOrderId || !order.venue || !this.clients[order.venue]) continue;
+      this.tracked.set(order.id, {
+        order,
+        venue: order.venue,
+        filled: order.filledAmount,
+        cost: order.filledAmount * order.avgFillPrice,
+        fees: order.fees,
+      });
+    }
+  }
+
+  public getTrackedCount(): number {
+    return this.tracked.size;
+  }
+
+  // Awaits outstanding placements, polls tracked orders and reconciles balances when due.
+  // Dry runs keep the simulated portfolio, so there is nothing to poll or reconcile.
+  public async sync() {
+    const pending = this.pending;
+    this.pending = [];
+    await Promise.all(pending);
+    if (this.mode !== 'live') return;
+
+    await this.pollOrders();
+
+    const now = this.clock();
+    if (now - this.lastReconcile >= this.reconcileIntervalMs) {
+      this.lastReconcile = now;
+      await this.reconcile();
+    }
+  }
+
+  private async pollOrders() {
+    for (const [id, tracked] of Array.from(this.tracked.entries())) {
+      let remote: any;
+      try {
+        remote = await this.clients[tracked.venue].fetchOrder(tracked.order.exchangeOrderId as string, tracked.order.pair);
+      } catch (error) {
+        this.log(`Polling order ${tracked.order.exchangeOrderId} on ${tracked.venue} failed: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+
+      const filled = Number(remote.filled ?? 0);
+      const delta = filled - tracked.filled;
+      if (delta > 1e-12) {
+        const average = Number(remote.average ?? remote.price ?? 0);
+        const cost = Number(remote.cost ?? average * filled);
+        const fees = this.quoteFee(remote.fee, average);
+        this.onFill(id, {
+          price: (cost - tracked.cost) / delta,
+          amount: delta,
+          fee: Math.max(0, fees - tracked.fees),
+          venue: tracked.venue,
+        });
+        tracked.filled = filled;
+        tracked.cost = cost;
+        tracked.fees = fees;
+      }
+
+      if (remote.status === 'closed') {
+        // Closed short of the local amount (e.g. lot rounding): the order is done either way
+        this.tracked.delete(id);
+        if (tracked.filled > 0) {
+          this.onStatus(id, 'FILLED', `Order closed on ${tracked.venue} with ${tracked.filled} filled`);
+        } else {
+          this.onStatus(id, 'CANCELED', `Order closed on ${tracked.venue} without a fill`);
+        }
+      } else if (remote.status === 'canceled' || remote.status === 'expired' || remote.status === 'rejected') {
+        this.tracked.delete(id);
+        const status = remote.status === 'canceled' ? 'CANCELED' : remote.status === 'expired' ? 'EXPIRED' : 'REJECTED';
+        this.onStatus(id, status, `Order ${remote.status} on ${tracked.venue}`);
+      }
+    }
+  }
+
+  // ccxt reports fees in whichever currency the venue charged; convert base-currency fees at the fill price
+  private quoteFee(fee: any, price: number): number {
+    if (!fee?.cost) return 0;
+    return fee.currency && fee.currency !== this.quoteCurrency ? fee.cost * price : fee.cost;
+  }
+
+  // Brings the next sync's reconcile forward, for when the local book is known to be off
+  public requestReconcile() {
+    this.lastReconcile = -Infinity;
+  }
+
+  public async reconcile(): Promise<BalanceSnapshot | null> {
+    const snapshot: BalanceSnapshot = { balance: 0, amounts: {} };
+    for (const [venue, client] of Object.entries(this.clients)) {
+      let balances: any;
+      try {
+        balances = await client.fetchBalance();
+      } catch (error) {
+        this.log(`Balance fetch on ${venue} failed: ${error instanceof Error ? error.message : error}`);
+        return null; // A partial view would misstate the portfolio
+      }
+      snapshot.balance += Number(balances.total?.[this.quoteCurrency] ?? 0);
+      for (const pair of this.pairs) {
+        const base = pair.split('/')[0];
+        snapshot.amounts[pair] = (snapshot.amounts[pair] ?? 0) + Number(balances.total?.[base] ?? 0);
+      }
+    }
+    this.onBalances?.(snapshot);
+    return snapshot;
+  }
+}
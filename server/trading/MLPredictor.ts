@@ -1,4 +1,9 @@
 import { SentimentAnalyzer } from './SentimentAnalyzer.js';
+import type { IndicatorValues } from './Indicators.js';
+import type { MarketRegime } from './RegimeDetector.js';
+import type { Timeframe } from './CandleAggregator.js';
+import type { ModelRegistry, StoredModel } from './ModelRegistry.js';
+import { extractFeatures, predictProbability } from './PredictionModel.js';
 
 export interface Signal {
   pair: string;
@@ -6,32 +11,96 @@ export interface Signal {
   price: number;
   confidence: number;
   sentimentScore: number;
+  strategy?: string; // Set by the strategy that produced the signal
+  regime?: MarketRegime; // Pair's market regime when the signal was generated
 }
 
+export const DEFAULT_SENTIMENT_WEIGHT = 0.3;
+
+// Combined-score cutoffs for BUY and SELL
+export interface SignalCutoffs {
+  buy: number;
+  sell: number;
+}
+
+export const DEFAULT_SIGNAL_CUTOFFS: SignalCutoffs = { buy: 0.85, sell: 0.15 };
+
+export interface MLPredictorOptions {
+  registry?: ModelRegistry | null; // Source of the promoted model; follows promotions and rollbacks
+  sentiment?: SentimentAnalyzer; // Shared with the engine, which runs its ingestion
+}
+
+// Predicts the chance of an up move with the promoted model from the registry. Without one it
+// falls back to a fixed blend of the same indicators.
 export class MLPredictor {
-  private modelLoaded: boolean = false;
+  private model: StoredModel | null = null;
+  private loading: Promise<void>;
   private sentimentAnalyzer: SentimentAnalyzer;
+  private registry: ModelRegistry | null;
+
+  constructor(options: MLPredictorOptions = {}) {
+    this.sentimentAnalyzer = options.sentiment ?? new SentimentAnalyzer();
+    this.registry = options.registry ?? null;
+    this.registry?.onChange(model => this.useModel(model));
+    this.loading = this.loadModel();
+  }
 
-  constructor() {
-    this.sentimentAnalyzer = new SentimentAnalyzer();
-    this.loadModel();
+  public async ready() {
+    await this.loading;
   }
 
   private async loadModel() {
-    // Simulate loading an LSTM/GRU model
-    console.log('Loading LSTM/GRU models with Sentiment Integration...');
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    this.modelLoaded = true;
-    console.log('Models loaded successfully. Accuracy: 88.2%');
+    const model = this.registry?.getActive() ?? null;
+    if (model) {
+      this.useModel(model);
+    } else {
+      console.log('No promoted prediction model; using the indicator blend');
+    }
   }
 
-  public async updateSentiment() {
-    await this.sentimentAnalyzer.fetchSentiment();
+  private useModel(model: StoredModel) {
+    this.model = model;
+    const { validation } = model;
+    console.log(`Prediction model v${model.version} loaded (${model.algorithm}, ${model.timeframe} bars, ${model.horizon} ahead). `
+      + `Walk-forward accuracy: ${(validation.accuracy * 100).toFixed(1)}% over ${validation.testSamples} predictions `
+      + `(baseline ${(validation.baselineAccuracy * 100).toFixed(1)}%)`);
   }
 
-  public generateSignals(marketData: Record<string, any>): Signal[] {
-    if (!this.modelLoaded) return [];
+  public getModel(): StoredModel | null {
+    return this.model;
+  }
 
+  // Bars the model was trained on; its features must come from the same timeframe
+  public getTimeframe(): Timeframe {
+    return this.model?.timeframe ?? '1m';
+  }
+
+  // The model's probability of an up move; without a model, blends trend (MACD vs ATR), RSI
+  // and Bollinger %B into a score in [0, 1]. Returns null until every indicator has warmed up.
+  private technicalScore(features: IndicatorValues | null | undefined): number | null {
+    if (this.model) {
+      const x = extractFeatures(features);
+      return x ? predictProbability(this.model, x) : null;
+    }
+    if (!features || features.macd?.histogram == null || !features.atr14 || features.rsi14 === null || !features.bollinger) {
+      return null;
+    }
+
+    const trend = Math.tanh(features.macd.histogram / features.atr14);
+    const rsi = (50 - features.rsi14) / 50; // Oversold is bullish
+    const bands = Math.max(-1, Math.min(1, 1 - 2 * features.bollinger.percentB)); // Near lower band is bullish
+    const score = 0.5 * trend + 0.25 * rsi + 0.25 * bands;
+
+    return 0.5 + 0.5 * score;
+  }
+
+  // sentimentWeights overrides the sentiment blend per pair (e.g. by regime)
+  public generateSignals(
+    marketData: Record<string, any>,
+    features: Record<string, IndicatorValues | null> = {},
+    sentimentWeights: Record<string, number> = {},
+    cutoffs: SignalCutoffs = DEFAULT_SIGNAL_CUTOFFS,
+  ): Signal[] {
     const signals: Signal[] = [];
     const pairs = Object.keys(marketData);
 
@@ -41,26 +110,26 @@ export class MLPredictor {
 
       const sentiment = this.sentimentAnalyzer.getSentiment(pair);
 
-      // Simulate ML prediction based on recent price action
-      // In a real scenario, this would feed historical OHLCV data into the PyTorch model
-      const technicalFactor = Math.random();
-      
+      // No prediction until enough bars have closed
+      const technicalFactor = this.technicalScore(features[pair]);
+      if (technicalFactor === null) continue;
+
       // Sentiment boosts or penalizes the technical factor
       // Sentiment is -1 to 1. We scale it to affect the factor.
-      const combinedScore = technicalFactor + (sentiment * 0.3);
+      const combinedScore = technicalFactor + (sentiment * (sentimentWeights[pair] ?? DEFAULT_SENTIMENT_WEIGHT));
 
       let action: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
       let confidence = 0.5;
 
-      if (combinedScore > 0.85) {
+      if (combinedScore > cutoffs.buy) {
         action = 'BUY';
-        confidence = Math.min(1, 0.80 + (combinedScore - 0.85));
-      } else if (combinedScore < 0.15) {
+        confidence = Math.min(1, 0.80 + (combinedScore - cutoffs.buy));
+      } else if (combinedScore < cutoffs.sell) {
         action = 'SELL';
-        confidence = Math.min(1, 0.80 + (0.15 - combinedScore));
+        confidence = Math.min(1, 0.80 + (cutoffs.sell - combinedScore));
       } else {
         action = 'HOLD';
-        confidence = Math.random() * 0.8;
+        confidence = Math.max(0, 1 - Math.abs(combinedScore - 0.5) * 2); // Surest of holding at an even score
       }
 
       signals.push({
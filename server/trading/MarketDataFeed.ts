@@ -0,0 +1,320 @@
+import WebSocket from 'ws';
+import { AlertManager } from './AlertManager.js';
+import { OrderBook, BookDelta, BookSnapshot, BookLevel } from './OrderBook.js';
+import type { VenueQuote } from './SmartOrderRouter.js';
+
+export type FeedEvent =
+  | { type: 'trade', pair: string, price: number, amount: number, timestamp: number }
+  | { type: 'ticker', pair: string, volume: number, timestamp: number } // Rolling 24h base volume
+  | { type: 'delta', pair: string, delta: BookDelta, timestamp: number };
+
+// Venue-specific wire protocol: where to connect, what to subscribe to and how to read messages
+export interface FeedAdapter {
+  readonly venue: string;
+  url(pairs: string[]): string;
+  subscribe(pairs: string[]): unknown[]; // Messages sent once the socket opens
+  parse(message: any): FeedEvent[];
+  fetchSnapshot(pair: string): Promise<BookSnapshot>;
+}
+
+export interface BinanceFeedOptions {
+  wsUrl?: string;
+  restUrl?: string;
+  depthLimit?: number; // Levels in the REST snapshot
+}
+
+// Binance combined streams: diff depth (U..u update ids), trades and the 24h mini ticker.
+// Books are seeded from the REST depth snapshot, whose lastUpdateId continues the diff stream.
+export class BinanceFeedAdapter implements FeedAdapter {
+  public readonly venue = 'binance';
+  private wsUrl: string;
+  private restUrl: string;
+  private depthLimit: number;
+  private pairsBySymbol: Record<string, string> = {};
+
+  constructor(options: BinanceFeedOptions = {}) {
+    this.wsUrl = options.wsUrl ?? 'wss://stream.binance.com:9443';
+    this.restUrl = options.restUrl ?? 'https://api.binance.com';
+    this.depthLimit = options.depthLimit ?? 1000;
+  }
+
+  private symbol(pair: string): string {
+    const symbol = pair.replace('/', '');
+    this.pairsBySymbol[symbol] = pair;
+    return symbol;
+  }
+
+  public url(pairs: string[]): string {
+    const streams = pairs.flatMap(pair => {
+      const symbol = this.symbol(pair).toLowerCase();
+      return [`${symbol}@depth@100ms`, `${symbol}@trade`, `${symbol}@miniTicker`];
+    });
+    return `${this.wsUrl}/stream?streams=${streams.join('/')}`;
+  }
+
+  public subscribe(): unknown[] {
+    return []; // Streams are selected by the URL
+  }
+
+  public parse(message: any): FeedEvent[] {
+    const data = message?.data ?? message;
+    const pair = this.pairsBySymbol[data?.s];
+    if (!pair) return [];
+
+    const levels = (raw: [string, string][]): BookLevel[] => raw.map(([price, size]) => [Number(price), Number(size)]);
+    switch (data.e) {
+      case 'depthUpdate':
+        return [{
+          type: 'delta',
+          pair,
+          delta: { bids: levels(data.b), asks: levels(data.a), firstSequence: data.U, sequence: data.u },
+          timestamp: data.E,
+        }];
+      case 'trade':
+        return [{ type: 'trade', pair, price: Number(data.p), amount: Number(data.q), timestamp: data.T }];
+      case '24hrMiniTicker':
+        return [{ type: 'ticker', pair, volume: Number(data.v), timestamp: data.E }];
+      default:
+        return [];
+    }
+  }
+
+  public async fetchSnapshot(pair: string): Promise<BookSnapshot> {
+    const response = await fetch(`${this.restUrl}/api/v3/depth?symbol=${this.symbol(pair)}&limit=${this.depthLimit}`);
+    if (!response.ok) {
+      throw new Error(`Depth snapshot for ${pair} failed: HTTP ${response.status}`);
+    }
+    const body = await response.json() as { lastUpdateId: number, bids: [string, string][], asks: [string, string][] };
+    return {
+      sequence: body.lastUpdateId,
+      bids: body.bids.map(([price, size]) => [Number(price), Number(size)]),
+      asks: body.asks.map(([price, size]) => [Number(price), Number(size)]),
+    };
+  }
+}
+
+// Streaming adapters available by ccxt venue id; other venues fall back to REST tickers
+export const FEED_ADAPTERS: Record<string, () => FeedAdapter> = {
+  binance: () => new BinanceFeedAdapter(),
+};
+
+export interface StreamingFeedOptions {
+  reconnectDelayMs?: number; // First reconnect delay, doubled per failed attempt
+  maxReconnectDelayMs?: number;
+  maxBufferedDeltas?: number; // Per pair, while waiting for a snapshot
+  maxResyncAttempts?: number; // Snapshots fetched per resync before giving up until the next gap
+}
+
+export interface FeedStatus {
+  venue: string;
+  connected: boolean;
+  books: Record<string, { synced: boolean, sequence: number | null, resyncs: number }>;
+  lastMessageAt: number | null;
+}
+
+// One WebSocket connection to one venue, maintaining an L2 book per pair. Deltas that arrive
+// while a book is unsynced are buffered and replayed on top of the next snapshot.
+export class StreamingFeed {
+  private adapter: FeedAdapter;
+  private pairs: string[];
+  private alertManager: AlertManager;
+  private reconnectDelayMs: number;
+  private maxReconnectDelayMs: number;
+  private maxBufferedDeltas: number;
+  private maxResyncAttempts: number;
+  private socket: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private stopped = true;
+  private books: Record<string, OrderBook> = {};
+  private buffers: Record<string, BookDelta[]> = {};
+  private resyncing: Set<string> = new Set();
+  private resyncs: Record<string, number> = {};
+  private retryResyncAt: Record<string, number> = {}; // Backoff after a resync gave up
+  private trades: Record<string, { price: number, timestamp: number }> = {};
+  private volumes: Record<string, number> = {};
+  private updatedAt: Record<string, number> = {}; // Pair -> when its last message arrived
+  private lastMessageAt: number | null = null;
+
+  constructor(adapter: FeedAdapter, pairs: string[], alertManager: AlertManager, options: StreamingFeedOptions = {}) {
+    this.adapter = adapter;
+    this.pairs = pairs;
+    this.alertManager = alertManager;
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30_000;
+    this.maxBufferedDeltas = options.maxBufferedDeltas ?? 1000;
+    this.maxResyncAttempts = options.maxResyncAttempts ?? 5;
+    for (const pair of pairs) {
+      this.books[pair] = new OrderBook(pair);
+      this.buffers[pair] = [];
+      this.resyncs[pair] = 0;
+    }
+  }
+
+  public getVenue(): string {
+    return this.adapter.venue;
+  }
+
+  public isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  public connect() {
+    this.stopped = false;
+    this.open();
+  }
+
+  public disconnect() {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private open() {
+    const socket = new WebSocket(this.adapter.url(this.pairs));
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.reconnectAttempts = 0;
+      console.log(`${this.adapter.venue} feed connected`);
+      for (const message of this.adapter.subscribe(this.pairs)) {
+        socket.send(JSON.stringify(message));
+      }
+      for (const pair of this.pairs) {
+        this.resync(pair);
+      }
+    });
+
+    socket.on('message', (raw) => {
+      this.lastMessageAt = Date.now();
+      let message: unknown;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return; // Ignore non-JSON frames (e.g. pongs from some venues)
+      }
+      for (const event of this.adapter.parse(message)) {
+        this.handle(event);
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.error(`${this.adapter.venue} feed error:`, error.message);
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return; // Replaced by a newer connection
+      this.socket = null;
+      for (const book of Object.values(this.books)) book.invalidate();
+      if (this.stopped) return;
+
+      const delay = Math.min(this.maxReconnectDelayMs, this.reconnectDelayMs * 2 ** this.reconnectAttempts);
+      this.reconnectAttempts++;
+      this.alertManager.sendAlert('SYSTEM', `${this.adapter.venue} market data feed disconnected; reconnecting in ${delay / 1000}s`, 'WARNING');
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (!this.stopped) this.open();
+      }, delay);
+    });
+  }
+
+  private handle(event: FeedEvent) {
+    if (!this.books[event.pair]) return;
+    this.updatedAt[event.pair] = Date.now(); // Receive time, so staleness doesn't depend on the venue's clock
+
+    if (event.type === 'trade') {
+      this.trades[event.pair] = { price: event.price, timestamp: event.timestamp };
+    } else if (event.type === 'ticker') {
+      this.volumes[event.pair] = event.volume;
+    } else {
+      const book = this.books[event.pair];
+      if (this.resyncing.has(event.pair) || !book.isSynced()) {
+        this.buffer(event.pair, event.delta);
+        if (!this.resyncing.has(event.pair) && Date.now() >= (this.retryResyncAt[event.pair] ?? 0)) {
+          this.resync(event.pair);
+        }
+        return;
+      }
+      if (book.applyDelta(event.delta) === 'GAP') {
+        console.warn(`${this.adapter.venue} ${event.pair} book gap after sequence ${book.getSequence()}; resyncing`);
+        this.buffer(event.pair, event.delta);
+        this.resync(event.pair);
+      }
+    }
+  }
+
+  private buffer(pair: string, delta: BookDelta) {
+    const buffer = this.buffers[pair];
+    buffer.push(delta);
+    if (buffer.length > this.maxBufferedDeltas) buffer.shift();
+  }
+
+  // Fetches a snapshot and replays buffered deltas on top. A snapshot older than the
+  // buffered deltas can't be bridged, so another is fetched.
+  private async resync(pair: string) {
+    if (this.resyncing.has(pair)) return;
+    this.resyncing.add(pair);
+    this.resyncs[pair]++;
+    const book = this.books[pair];
+    book.invalidate();
+
+    try {
+      for (let attempt = 0; attempt < this.maxResyncAttempts && !this.stopped; attempt++) {
+        let snapshot: BookSnapshot;
+        try {
+          snapshot = await this.adapter.fetchSnapshot(pair);
+        } catch (error) {
+          console.error(`${this.adapter.venue} ${pair} snapshot failed:`, error instanceof Error ? error.message : error);
+          await new Promise(resolve => setTimeout(resolve, this.reconnectDelayMs));
+          continue;
+        }
+
+        book.applySnapshot(snapshot);
+        const pending = this.buffers[pair].filter(delta => delta.sequence > snapshot.sequence);
+        this.buffers[pair] = [];
+        if (pending.every(delta => book.applyDelta(delta) !== 'GAP')) return;
+        this.buffers[pair] = pending; // Keep what we have; the next snapshot may bridge it
+      }
+      this.retryResyncAt[pair] = Date.now() + this.maxReconnectDelayMs;
+      this.alertManager.sendAlert('SYSTEM', `${this.adapter.venue} ${pair} order book could not be resynced`, 'WARNING');
+    } finally {
+      this.resyncing.delete(pair);
+    }
+  }
+
+  // Touch from the local book, last from the trade stream. Null until the book is synced.
+  public getQuote(pair: string): VenueQuote | null {
+    const book = this.books[pair];
+    if (!book?.isSynced()) return null;
+    const bid = book.bestBid();
+    const ask = book.bestAsk();
+    if (!bid || !ask) return null;
+
+    return {
+      exchange: this.adapter.venue,
+      last: this.trades[pair]?.price ?? (bid[0] + ask[0]) / 2,
+      bid: bid[0],
+      ask: ask[0],
+      volume: this.volumes[pair],
+      timestamp: this.updatedAt[pair] ?? Date.now(),
+    };
+  }
+
+  public getDepth(pair: string, levels?: number) {
+    const book = this.books[pair];
+    if (!book) return null;
+    return { synced: book.isSynced(), sequence: book.getSequence(), ...book.depth(levels) };
+  }
+
+  public getStatus(): FeedStatus {
+    const books: FeedStatus['books'] = {};
+    for (const [pair, book] of Object.entries(this.books)) {
+      books[pair] = { synced: book.isSynced(), sequence: book.getSequence(), resyncs: this.resyncs[pair] };
+    }
+    return { venue: this.adapter.venue, connected: this.isConnected(), books, lastMessageAt: this.lastMessageAt };
+  }
+}
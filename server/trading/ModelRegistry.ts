@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import type { TrainedModel } from './PredictionModel.js';
+
+export interface StoredModel extends TrainedModel {
+  version: number;
+  createdAt: number;
+  createdBy: string;
+}
+
+// Listing entry: everything but the parameters
+export type ModelSummary = Omit<StoredModel, 'weights' | 'bias' | 'mean' | 'std'>;
+
+export interface Promotion {
+  version: number;
+  promotedBy: string;
+  promotedAt: number;
+}
+
+interface RegistryIndex {
+  active: number | null;
+  promotions: Promotion[]; // Oldest first; rollback steps back through this
+}
+
+export interface ModelRegistryOptions {
+  dir: string;
+  clock?: () => number;
+}
+
+type ModelListener = (model: StoredModel) => void;
+
+// Versioned prediction models on disk: one JSON file per version (v1.json, v2.json, ...) with its
+// parameters and validation metrics, and registry.json recording which version is promoted.
+// Saving a model never changes what the predictor uses; promoting or rolling back does.
+export class ModelRegistry {
+  private dir: string;
+  private clock: () => number;
+  private index: RegistryIndex;
+  private listeners: ModelListener[] = [];
+
+  constructor(options: ModelRegistryOptions) {
+    this.dir = path.resolve(options.dir);
+    this.clock = options.clock ?? Date.now;
+    const indexPath = path.join(this.dir, 'registry.json');
+    this.index = fs.existsSync(indexPath) ? JSON.parse(fs.readFileSync(indexPath, 'utf8')) : { active: null, promotions: [] };
+  }
+
+  private writeJson(file: string, data: unknown) {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const target = path.join(this.dir, file);
+    const temp = `${target}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(data, null, 2) + '\n');
+    fs.renameSync(temp, target);
+  }
+
+  private versions(): number[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .map(file => file.match(/^v(\d+)\.json$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => Number(match[1]))
+      .sort((a, b) => a - b);
+  }
+
+  public onChange(listener: ModelListener) {
+    this.listeners.push(listener);
+  }
+
+  // Stores a trained model as the next version
+  public save(model: TrainedModel, createdBy: string): StoredModel {
+    const versions = this.versions();
+    const stored: StoredModel = {
+      ...model,
+      version: (versions[versions.length - 1] ?? 0) + 1,
+      createdAt: this.clock(),
+      createdBy,
+    };
+    this.writeJson(`v${stored.version}.json`, stored);
+    return stored;
+  }
+
+  public get(version: number): StoredModel {
+    const file = path.join(this.dir, `v${version}.json`);
+    if (!Number.isInteger(version) || !fs.existsSync(file)) {
+      throw new Error(`Unknown model version: ${version}`);
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  // Newest first
+  public list(): ModelSummary[] {
+    return this.versions().reverse().map(version => {
+      const { weights, bias, mean, std, ...summary } = this.get(version);
+      return summary;
+    });
+  }
+
+  public getActiveVersion(): number | null {
+    return this.index.active;
+  }
+
+  public getActive(): StoredModel | null {
+    return this.index.active === null ? null : this.get(this.index.active);
+  }
+
+  public getPromotions(): Promotion[] {
+    return this.index.promotions;
+  }
+
+  public promote(version: number, promotedBy: string): StoredModel {
+    const model = this.get(version);
+    if (this.index.active === version) return model;
+    this.commit(model, [...this.index.promotions, { version, promotedBy, promotedAt: this.clock() }]);
+    return model;
+  }
+
+  // Returns to the version promoted before the current one
+  public rollback(): StoredModel {
+    if (this.index.promotions.length < 2) {
+      throw new Error('No earlier promoted model to roll back to');
+    }
+    const promotions = this.index.promotions.slice(0, -1);
+    const model = this.get(promotions[promotions.length - 1].version);
+    this.commit(model, promotions);
+    return model;
+  }
+
+  private commit(model: StoredModel, promotions: Promotion[]) {
+    this.index = { active: model.version, promotions };
+    this.writeJson('registry.json', this.index);
+    console.log(`Model v${model.version} is now active (walk-forward accuracy ${(model.validation.accuracy * 100).toFixed(1)}%)`);
+    for (const listener of this.listeners) listener(model);
+  }
+}
@@ -0,0 +1,352 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { createHmac } from 'crypto';
+import type { Alert, AlertSeverity } from './AlertManager.js';
+
+// One way of delivering an alert. send() rejects when delivery failed and should be retried.
+export interface NotificationChannel {
+  readonly name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+// Which alerts a channel receives
+export interface NotificationRoute {
+  channel: NotificationChannel;
+  minSeverity: AlertSeverity;
+  types: Alert['type'][] | null; // null receives every type
+}
+
+export const NOTIFICATION_SEVERITIES: AlertSeverity[] = ['INFO', 'WARNING', 'CRITICAL'];
+export const ALERT_TYPES: Alert['type'][] = ['TRADE', 'RISK', 'SYSTEM', 'PRICE'];
+
+export function formatAlert(alert: Alert): string {
+  const count = alert.count > 1 ? ` (x${alert.count})` : '';
+  return `[${alert.severity}] ${alert.type}: ${alert.message}${count}`;
+}
+
+async function post(url: string, body: unknown, timeoutMs: number, headers: Record<string, string> = {}): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+  return response;
+}
+
+export interface WebhookChannelOptions {
+  url: string;
+  secret?: string; // Signs the body as X-Signature: sha256=<hex HMAC>
+  timeoutMs?: number;
+}
+
+// Posts the alert as JSON to any HTTP endpoint
+export class WebhookChannel implements NotificationChannel {
+  public readonly name = 'webhook';
+  private url: string;
+  private secret: string | null;
+  private timeoutMs: number;
+
+  constructor(options: WebhookChannelOptions) {
+    this.url = options.url;
+    this.secret = options.secret ?? null;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  public async send(alert: Alert) {
+    const body = JSON.stringify({ alert, text: formatAlert(alert) });
+    const headers: Record<string, string> = {};
+    if (this.secret) {
+      headers['X-Signature'] = `sha256=${createHmac('sha256', this.secret).update(body).digest('hex')}`;
+    }
+    await post(this.url, body, this.timeoutMs, headers);
+  }
+}
+
+// Slack incoming webhooks (and compatible ones, e.g. Mattermost, Discord's /slack endpoint)
+export class SlackChannel implements NotificationChannel {
+  public readonly name = 'slack';
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(options: { url: string, timeoutMs?: number }) {
+    this.url = options.url;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  public async send(alert: Alert) {
+    const count = alert.count > 1 ? ` (x${alert.count})` : '';
+    await post(this.url, { text: `*${alert.severity}* ${alert.type}: ${alert.message}${count}` }, this.timeoutMs);
+  }
+}
+
+export interface TelegramChannelOptions {
+  token: string;
+  chatId: string;
+  apiUrl?: string;
+  timeoutMs?: number;
+}
+
+// Telegram Bot API sendMessage
+export class TelegramChannel implements NotificationChannel {
+  public readonly name = 'telegram';
+  private token: string;
+  private chatId: string;
+  private apiUrl: string;
+  private timeoutMs: number;
+
+  constructor(options: TelegramChannelOptions) {
+    this.token = options.token;
+    this.chatId = options.chatId;
+    this.apiUrl = (options.apiUrl ?? 'https://api.telegram.org').replace(/\/$/, '');
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  public async send(alert: Alert) {
+    const response = await post(`${this.apiUrl}/bot${this.token}/sendMessage`, {
+      chat_id: this.chatId,
+      text: formatAlert(alert),
+      disable_web_page_preview: true,
+    }, this.timeoutMs);
+    const body = await response.json().catch(() => null) as { ok?: boolean, description?: string } | null;
+    if (body && body.ok === false) {
+      throw new Error(`Telegram: ${body.description ?? 'request refused'}`);
+    }
+  }
+}
+
+export interface EmailChannelOptions {
+  host: string;
+  port?: number;
+  secure?: boolean; // TLS from the start (usually port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  timeoutMs?: number;
+  rejectUnauthorized?: boolean;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// Reads SMTP replies (including multi-line ones) off a socket, one at a time
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: ((reply: SmtpReply | Error) => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.listen(socket);
+  }
+
+  private listen(socket: net.Socket) {
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(data: string) {
+    this.buffer += data;
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.lines.push(line.slice(4));
+      if (line[3] === '-') continue; // Continuation of a multi-line reply
+      const reply = { code: Number(line.slice(0, 3)), text: this.lines.join('\n') };
+      this.lines = [];
+      if (this.waiter) {
+        const waiter = this.waiter;
+        this.waiter = null;
+        waiter(reply);
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiter) {
+      const waiter = this.waiter;
+      this.waiter = null;
+      waiter(error);
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = (reply) => reply instanceof Error ? reject(reply) : resolve(reply);
+    });
+  }
+
+  // Sends a command (or just reads, for the greeting) and checks the reply code
+  public async command(line: string | null, expected: number, label = line?.split(' ')[0] ?? 'greeting'): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (Math.floor(reply.code / 100) !== Math.floor(expected / 100)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  public async upgrade(host: string, rejectUnauthorized: boolean) {
+    this.socket.removeAllListeners('data'); // Raw bytes are now TLS records; errors and close still apply
+    const secure = tls.connect({ socket: this.socket, servername: host, rejectUnauthorized });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', () => resolve());
+      secure.once('error', reject);
+    });
+    this.socket = secure;
+    secure.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    secure.on('error', (error) => this.fail(error));
+  }
+
+  public close() {
+    this.socket.end();
+  }
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+// Plain SMTP submission: EHLO, STARTTLS when offered, AUTH PLAIN when credentials are set
+export class EmailChannel implements NotificationChannel {
+  public readonly name = 'email';
+  private options: Required<Omit<EmailChannelOptions, 'user' | 'password'>> & Pick<EmailChannelOptions, 'user' | 'password'>;
+
+  constructor(options: EmailChannelOptions) {
+    this.options = {
+      ...options,
+      port: options.port ?? (options.secure ? 465 : 587),
+      secure: options.secure ?? false,
+      timeoutMs: options.timeoutMs ?? 15_000,
+      rejectUnauthorized: options.rejectUnauthorized ?? true,
+    };
+  }
+
+  public async send(alert: Alert) {
+    const { host, port, secure, user, password, from, to, timeoutMs, rejectUnauthorized } = this.options;
+    const socket = secure
+      ? tls.connect({ host, port, servername: host, rejectUnauthorized })
+      : net.connect({ host, port });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP timed out')));
+    const session = new SmtpSession(socket);
+
+    try {
+      await session.command(null, 220);
+      const hello = `EHLO ${os.hostname() || 'localhost'}`;
+      const capabilities = await session.command(hello, 250);
+      if (!secure && /^STARTTLS$/im.test(capabilities.text)) {
+        await session.command('STARTTLS', 220);
+        await session.upgrade(host, rejectUnauthorized);
+        await session.command(hello, 250);
+      }
+      if (user && password) {
+        await session.command(`AUTH PLAIN ${Buffer.from(`\0${user}\0${password}`).toString('base64')}`, 235, 'AUTH');
+      }
+
+      await session.command(`MAIL FROM:<${from}>`, 250);
+      for (const recipient of to) {
+        await session.command(`RCPT TO:<${recipient}>`, 250);
+      }
+      await session.command('DATA', 354);
+
+      const headers = [
+        `From: ${from}`,
+        `To: ${to.join(', ')}`,
+        `Subject: ${encodeHeader(`[${alert.severity}] ${alert.type} alert`)}`,
+        `Date: ${new Date(alert.lastSeenAt).toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit',
+      ];
+      const body = [formatAlert(alert), '', `Raised: ${new Date(alert.timestamp).toISOString()}`, `Status: ${alert.status}`]
+        .join('\n')
+        .split('\n')
+        .map(line => line.startsWith('.') ? `.${line}` : line); // Dot-stuffing
+      await session.command(`${[...headers, '', ...body].join('\r\n')}\r\n.`, 250, 'message');
+      await session.command('QUIT', 221).catch(() => {}); // Delivered either way
+    } finally {
+      session.close();
+    }
+  }
+}
+
+function parseSeverity(value: string | undefined, name: string): AlertSeverity {
+  const severity = (value || 'WARNING').toUpperCase() as AlertSeverity;
+  if (!NOTIFICATION_SEVERITIES.includes(severity)) {
+    throw new Error(`${name} must be one of ${NOTIFICATION_SEVERITIES.join(', ')}`);
+  }
+  return severity;
+}
+
+function parseTypes(value: string | undefined, name: string): Alert['type'][] | null {
+  if (!value) return null;
+  const types = value.split(',').map(t => t.trim().toUpperCase()).filter(Boolean) as Alert['type'][];
+  const unknown = types.filter(t => !ALERT_TYPES.includes(t));
+  if (unknown.length > 0) {
+    throw new Error(`${name} has unknown alert types: ${unknown.join(', ')}`);
+  }
+  return types;
+}
+
+// Reads NOTIFY_<CHANNEL>_* settings for each channel that is configured. Every channel also takes
+// NOTIFY_<CHANNEL>_MIN_SEVERITY (default WARNING) and NOTIFY_<CHANNEL>_TYPES (default all).
+export function createNotificationRoutes(env: Record<string, string | undefined> = process.env): NotificationRoute[] {
+  const channels: NotificationChannel[] = [];
+
+  if (env.NOTIFY_WEBHOOK_URL) {
+    channels.push(new WebhookChannel({ url: env.NOTIFY_WEBHOOK_URL, secret: env.NOTIFY_WEBHOOK_SECRET }));
+  }
+  if (env.NOTIFY_SLACK_URL) {
+    channels.push(new SlackChannel({ url: env.NOTIFY_SLACK_URL }));
+  }
+  if (env.NOTIFY_EMAIL_HOST) {
+    const to = (env.NOTIFY_EMAIL_TO ?? '').split(',').map(a => a.trim()).filter(Boolean);
+    if (!env.NOTIFY_EMAIL_FROM || to.length === 0) {
+      throw new Error('NOTIFY_EMAIL_HOST needs NOTIFY_EMAIL_FROM and NOTIFY_EMAIL_TO');
+    }
+    channels.push(new EmailChannel({
+      host: env.NOTIFY_EMAIL_HOST,
+      port: env.NOTIFY_EMAIL_PORT ? Number(env.NOTIFY_EMAIL_PORT) : undefined,
+      secure: env.NOTIFY_EMAIL_SECURE === 'true',
+      user: env.NOTIFY_EMAIL_USER,
+      password: env.NOTIFY_EMAIL_PASSWORD,
+      from: env.NOTIFY_EMAIL_FROM,
+      to,
+    }));
+  }
+  if (env.NOTIFY_TELEGRAM_TOKEN) {
+    if (!env.NOTIFY_TELEGRAM_CHAT_ID) {
+      throw new Error('NOTIFY_TELEGRAM_TOKEN needs NOTIFY_TELEGRAM_CHAT_ID');
+    }
+    channels.push(new TelegramChannel({ token: env.NOTIFY_TELEGRAM_TOKEN, chatId: env.NOTIFY_TELEGRAM_CHAT_ID, apiUrl: env.NOTIFY_TELEGRAM_API_URL }));
+  }
+
+  return channels.map(channel => {
+    const prefix = `NOTIFY_${channel.name.toUpperCase()}`;
+    return {
+      channel,
+      minSeverity: parseSeverity(env[`${prefix}_MIN_SEVERITY`], `${prefix}_MIN_SEVERITY`),
+      types: parseTypes(env[`${prefix}_TYPES`], `${prefix}_TYPES`),
+    };
+  });
+}
@@ -0,0 +1,241 @@
+import { randomUUID } from 'crypto';
+import type { Alert } from './AlertManager.js';
+import type { TradingDatabase } from './Database.js';
+import { NotificationRoute, NOTIFICATION_SEVERITIES } from './NotificationChannels.js';
+
+interface Delivery {
+  id: string;
+  channel: string;
+  alert: Alert; // Copy taken when queued; the live alert keeps changing
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: number;
+}
+
+// A delivery that used up its attempts
+export interface DeadLetter {
+  id: string;
+  channel: string;
+  alert: Alert;
+  attempts: number;
+  lastError: string;
+  createdAt: number;
+  failedAt: number;
+  retriedAt: number | null;
+}
+
+export interface ChannelStatus {
+  name: string;
+  minSeverity: Alert['severity'];
+  types: Alert['type'][] | null;
+  pending: number;
+  delivered: number;
+  retries: number;
+  deadLettered: number;
+  lastDeliveredAt: number | null;
+  lastError: string | null;
+}
+
+export interface NotificationQueueOptions {
+  database?: TradingDatabase | null;
+  clock?: () => number;
+  maxAttempts?: number;
+  baseDelayMs?: number; // Delay before the first retry, doubled per further attempt
+  maxDelayMs?: number;
+  pollIntervalMs?: number;
+  maxPending?: number; // Oldest deliveries are dead-lettered beyond this
+}
+
+// Delivers alerts to every channel whose route matches, retrying failures with exponential
+// backoff. Deliveries that use up their attempts are kept as dead letters and can be re-queued.
+// Pending deliveries live in memory only.
+export class NotificationQueue {
+  private routes: NotificationRoute[];
+  private database: TradingDatabase | null;
+  private clock: () => number;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private pollIntervalMs: number;
+  private maxPending: number;
+  private pending: Delivery[] = [];
+  private inFlight: Set<string> = new Set();
+  private deadLetters: DeadLetter[] = []; // Without a database
+  private stats: Record<string, Omit<ChannelStatus, 'name' | 'minSeverity' | 'types' | 'pending'>> = {};
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(routes: NotificationRoute[], options: NotificationQueueOptions = {}) {
+    this.routes = routes;
+    this.database = options.database ?? null;
+    this.clock = options.clock ?? Date.now;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 2000;
+    this.maxDelayMs = options.maxDelayMs ?? 5 * 60_000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.maxPending = options.maxPending ?? 1000;
+    for (const route of routes) {
+      this.stats[route.channel.name] = { delivered: 0, retries: 0, deadLettered: 0, lastDeliveredAt: null, lastError: null };
+    }
+  }
+
+  public getChannels(): string[] {
+    return this.routes.map(route => route.channel.name);
+  }
+
+  // Queues the alert for every matching channel. Returns how many deliveries were queued.
+  public enqueue(alert: Alert): number {
+    const routes = this.routes.filter(route =>
+      NOTIFICATION_SEVERITIES.indexOf(alert.severity) >= NOTIFICATION_SEVERITIES.indexOf(route.minSeverity)
+      && (!route.types || route.types.includes(alert.type))
+    );
+    for (const route of routes) {
+      this.push(route.channel.name, alert);
+    }
+    return routes.length;
+  }
+
+  // Sends a test alert to one channel (or all), bypassing routing
+  public sendTest(channel?: string): number {
+    const names = channel ? [channel] : this.getChannels();
+    if (channel && !this.getChannels().includes(channel)) {
+      throw new Error(`Unknown notification channel: ${channel}`);
+    }
+    const now = this.clock();
+    const alert: Alert = {
+      id: `test-${now}`,
+      timestamp: now,
+      type: 'SYSTEM',
+      message: 'Test notification',
+      severity: 'INFO',
+      status: 'RESOLVED',
+      key: null,
+      count: 1,
+      lastSeenAt: now,
+      ruleId: null,
+      acknowledgedBy: null,
+      acknowledgedAt: null,
+      resolvedAt: now,
+      escalateAfterMs: null,
+      escalateAt: null,
+    };
+    for (const name of names) {
+      this.push(name, alert);
+    }
+    this.process();
+    return names.length;
+  }
+
+  private push(channel: string, alert: Alert) {
+    const now = this.clock();
+    this.pending.push({ id: randomUUID(), channel, alert: { ...alert }, attempts: 0, nextAttemptAt: now, lastError: null, createdAt: now });
+    while (this.pending.length > this.maxPending) {
+      const dropped = this.pending.shift()!;
+      this.deadLetter(dropped, 'Dropped: notification queue full');
+    }
+  }
+
+  public start() {
+    if (this.timer || this.routes.length === 0) return;
+    this.timer = setInterval(() => this.process(), this.pollIntervalMs);
+  }
+
+  public stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Attempts every delivery that is due; resolves once they have all settled
+  public async process(): Promise<void> {
+    const now = this.clock();
+    const due = this.pending.filter(delivery => delivery.nextAttemptAt <= now && !this.inFlight.has(delivery.id));
+    await Promise.all(due.map(delivery => this.attempt(delivery)));
+  }
+
+  private async attempt(delivery: Delivery) {
+    const route = this.routes.find(r => r.channel.name === delivery.channel);
+    if (!route) return;
+    this.inFlight.add(delivery.id);
+    delivery.attempts++;
+    const stats = this.stats[delivery.channel];
+
+    try {
+      await route.channel.send(delivery.alert);
+      this.remove(delivery);
+      stats.delivered++;
+      stats.lastDeliveredAt = this.clock();
+    } catch (error) {
+      // fetch reports network failures as "fetch failed" with the reason in cause
+      const cause = error instanceof Error && error.cause instanceof Error ? ` (${error.cause.message})` : '';
+      delivery.lastError = error instanceof Error ? `${error.message}${cause}` : String(error);
+      stats.lastError = delivery.lastError;
+      if (delivery.attempts >= this.maxAttempts) {
+        this.remove(delivery);
+        this.deadLetter(delivery, delivery.lastError);
+        console.error(`Notification to ${delivery.channel} failed after ${delivery.attempts} attempts: ${delivery.lastError}`);
+      } else {
+        stats.retries++;
+        delivery.nextAttemptAt = this.clock() + Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (delivery.attempts - 1));
+      }
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+
+  private remove(delivery: Delivery) {
+    const index = this.pending.indexOf(delivery);
+    if (index !== -1) this.pending.splice(index, 1);
+  }
+
+  private deadLetter(delivery: Delivery, lastError: string) {
+    const letter: DeadLetter = {
+      id: delivery.id,
+      channel: delivery.channel,
+      alert: delivery.alert,
+      attempts: delivery.attempts,
+      lastError,
+      createdAt: delivery.createdAt,
+      failedAt: this.clock(),
+      retriedAt: null,
+    };
+    this.stats[delivery.channel].deadLettered++;
+    if (this.database) {
+      this.database.insertDeadLetter(letter);
+    } else {
+      this.deadLetters.push(letter);
+      if (this.deadLetters.length > 100) this.deadLetters.shift();
+    }
+  }
+
+  // Newest first
+  public getDeadLetters(limit: number = 50): DeadLetter[] {
+    return this.database ? this.database.loadDeadLetters(limit) : this.deadLetters.slice(-limit).reverse();
+  }
+
+  // Queues a dead letter again with a fresh set of attempts
+  public retryDeadLetter(id: string): DeadLetter {
+    const letter = this.getDeadLetters(1000).find(l => l.id === id);
+    if (!letter) {
+      throw new Error(`Unknown dead letter: ${id}`);
+    }
+    if (!this.getChannels().includes(letter.channel)) {
+      throw new Error(`Channel ${letter.channel} is no longer configured`);
+    }
+    letter.retriedAt = this.clock();
+    this.database?.markDeadLetterRetried(id, letter.retriedAt);
+    this.push(letter.channel, letter.alert);
+    return letter;
+  }
+
+  public getStatus(): ChannelStatus[] {
+    return this.routes.map(route => ({
+      name: route.channel.name,
+      minSeverity: route.minSeverity,
+      types: route.types,
+      pending: this.pending.filter(delivery => delivery.channel === route.channel.name).length,
+      ...this.stats[route.channel.name],
+    }));
+  }
+}
@@ -0,0 +1,102 @@
+export type BookLevel = [price: number, size: number];
+
+export interface BookSnapshot {
+  bids: BookLevel[];
+  asks: BookLevel[];
+  sequence: number;
+}
+
+// Incremental update covering exchange sequence numbers firstSequence..sequence
+export interface BookDelta {
+  bids: BookLevel[]; // Size 0 removes the level
+  asks: BookLevel[];
+  firstSequence: number;
+  sequence: number;
+}
+
+export type DeltaResult = 'APPLIED' | 'STALE' | 'GAP';
+
+// Level-2 book for one pair on one venue. Deltas must continue the sequence exactly;
+// a gap leaves the book unsynced until a fresh snapshot is applied.
+export class OrderBook {
+  public readonly pair: string;
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  private sequence: number | null = null;
+  private synced = false;
+
+  constructor(pair: string) {
+    this.pair = pair;
+  }
+
+  public isSynced(): boolean {
+    return this.synced;
+  }
+
+  public getSequence(): number | null {
+    return this.sequence;
+  }
+
+  public applySnapshot(snapshot: BookSnapshot) {
+    this.bids = new Map(snapshot.bids.filter(([, size]) => size > 0));
+    this.asks = new Map(snapshot.asks.filter(([, size]) => size > 0));
+    this.sequence = snapshot.sequence;
+    this.synced = true;
+  }
+
+  public applyDelta(delta: BookDelta): DeltaResult {
+    if (!this.synced || this.sequence === null) return 'GAP';
+    if (delta.sequence <= this.sequence) return 'STALE';
+    // The delta must cover the next expected sequence number; anything later means updates were lost
+    if (delta.firstSequence > this.sequence + 1) {
+      this.synced = false;
+      return 'GAP';
+    }
+
+    for (const [price, size] of delta.bids) {
+      if (size > 0) this.bids.set(price, size);
+      else this.bids.delete(price);
+    }
+    for (const [price, size] of delta.asks) {
+      if (size > 0) this.asks.set(price, size);
+      else this.asks.delete(price);
+    }
+    this.sequence = delta.sequence;
+
+    // A crossed book can only come from a missed update
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    if (bid && ask && bid[0] >= ask[0]) {
+      this.synced = false;
+      return 'GAP';
+    }
+    return 'APPLIED';
+  }
+
+  public invalidate() {
+    this.synced = false;
+  }
+
+  public bestBid(): BookLevel | null {
+    let best: BookLevel | null = null;
+    for (const [price, size] of this.bids) {
+      if (!best || price > best[0]) best = [price, size];
+    }
+    return best;
+  }
+
+  public bestAsk(): BookLevel | null {
+    let best: BookLevel | null = null;
+    for (const [price, size] of this.asks) {
+      if (!best || price < best[0]) best = [price, size];
+    }
+    return best;
+  }
+
+  // Top levels per side, best first
+  public depth(levels: number = 10): { bids: BookLevel[], asks: BookLevel[] } {
+    const bids = Array.from(this.bids.entries()).sort((a, b) => b[0] - a[0]).slice(0, levels);
+    const asks = Array.from(this.asks.entries()).sort((a, b) => a[0] - b[0]).slice(0, levels);
+    return { bids, asks };
+  }
+}
@@ -0,0 +1,550 @@
+import { randomUUID } from 'crypto';
+import { RiskManager, PositionExitConfig } from './RiskManager.js';
+import { AlertManager } from './AlertManager.js';
+import { DefaultExecutionModel, ExecutionModel, LiquidityRole } from './ExecutionModel.js';
+import { SmartOrderRouter } from './SmartOrderRouter.js';
+
+export type OrderSide = 'BUY' | 'SELL';
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TAKE_PROFIT';
+export type OrderStatus = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'REJECTED' | 'EXPIRED';
+export type TimeInForce = 'GTC' | 'IOC' | 'FOK';
+
+export interface Order {
+  id: string;
+  pair: string;
+  side: OrderSide;
+  type: OrderType;
+  amount: number;
+  filledAmount: number;
+  avgFillPrice: number;
+  fees: number; // Total fees paid across fills, in quote currency
+  venue?: string; // Venue of the most recent fill
+  price?: number; // Limit price (LIMIT, STOP_LIMIT)
+  stopPrice?: number; // Trigger price (STOP, STOP_LIMIT, TAKE_PROFIT)
+  triggered: boolean;
+  timeInForce: TimeInForce;
+  status: OrderStatus;
+  strategy: string;
+  reserved: number; // Hold in RiskManager units: quote for BUYs and base for SELLs (spot), or margin
+  ocoGroupId?: string;
+  expiresAt?: number;
+  rejectReason?: string;
+  sentAt?: number; // When the order was handed to the exchange executor (dry-run or live)
+  exchangeOrderId?: string; // Exchange-assigned id, live mode only
+  placedBy?: string; // User or API token behind a manual order
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OrderRequest {
+  pair: string;
+  side: OrderSide;
+  type: OrderType;
+  amount: number;
+  price?: number;
+  stopPrice?: number;
+  timeInForce?: TimeInForce;
+  strategy?: string;
+  expiresAt?: number;
+  placedBy?: string;
+}
+
+// Limit (take-profit side) and stop leg sharing one amount; a fill on either cancels the other
+export interface OcoRequest {
+  pair: string;
+  side: OrderSide;
+  amount: number;
+  price: number;
+  stopPrice: number;
+  stopLimitPrice?: number; // Makes the stop leg a STOP_LIMIT
+  strategy?: string;
+  expiresAt?: number;
+  placedBy?: string;
+}
+
+export interface Fill {
+  orderId: string;
+  pair: string;
+  side: OrderSide;
+  price: number;
+  amount: number;
+  fee: number;
+  role: LiquidityRole;
+  venue?: string;
+  timestamp: number;
+  pnl?: number; // Realized PnL for sells, net of fees
+}
+
+// Hands activated orders to an exchange. Executors that don't simulate fills report them
+// back through applyFill/applyExchangeStatus instead.
+export interface OrderExecutor {
+  simulatesFills(): boolean;
+  place(order: Order, venue?: string): void;
+  cancel(order: Order): void;
+  requestReconcile?(): void; // Re-reads exchange balances into the portfolio on the next sync
+}
+
+export interface OrderManagerOptions {
+  clock?: () => number;
+  liquidityFraction?: number; // Share of the reported ticker volume fillable per tick
+  executionModel?: ExecutionModel;
+  executor?: OrderExecutor; // Paper trading when omitted
+  preTradeCheck?: (legs: Order[], quote: any) => string | null; // Limits every order must pass; returns the refusal
+  positionExits?: (order: Order) => PositionExitConfig | undefined; // Exits for a position the order opens, over the risk defaults
+  onFill?: (order: Order, fill: Fill) => void;
+  onReject?: (order: Order) => void;
+  onUpdate?: (order: Order) => void;
+}
+
+const OPEN_STATUSES: OrderStatus[] = ['NEW', 'PARTIALLY_FILLED'];
+const MARKET_BUY_BUFFER = 1.01; // Headroom reserved above the ask for market buys (covers impact)
+const MAX_CLOSED_ORDERS = 500;
+
+export class OrderManager {
+  private riskManager: RiskManager;
+  private alertManager: AlertManager;
+  private openOrders: Map<string, Order> = new Map();
+  private closedOrders: Order[] = [];
+  private clock: () => number;
+  private liquidityFraction: number;
+  private executionModel: ExecutionModel;
+  private router: SmartOrderRouter;
+  private executor: OrderExecutor | null;
+  private preTradeCheck?: (legs: Order[], quote: any) => string | null;
+  private positionExits?: (order: Order) => PositionExitConfig | undefined;
+  private onFill?: (order: Order, fill: Fill) => void;
+  private onReject?: (order: Order) => void;
+  private onUpdate?: (order: Order) => void;
+
+  constructor(riskManager: RiskManager, alertManager: AlertManager, options: OrderManagerOptions = {}) {
+    this.riskManager = riskManager;
+    this.alertManager = alertManager;
+    this.clock = options.clock ?? Date.now;
+    this.liquidityFraction = options.liquidityFraction ?? 0.01;
+    this.executionModel = options.executionModel ?? new DefaultExecutionModel();
+    this.router = new SmartOrderRouter(this.executionModel);
+    this.executor = options.executor ?? null;
+    this.preTradeCheck = options.preTradeCheck;
+    this.positionExits = options.positionExits;
+    this.onFill = options.onFill;
+    this.onReject = options.onReject;
+    this.onUpdate = options.onUpdate;
+  }
+
+  public static isOpen(order: Order): boolean {
+    return OPEN_STATUSES.includes(order.status);
+  }
+
+  public setExecutor(executor: OrderExecutor | null) {
+    this.executor = executor;
+  }
+
+  public getOpenOrders(): Order[] {
+    return Array.from(this.openOrders.values());
+  }
+
+  public getOrders(limit: number = 100): Order[] {
+    return [...this.closedOrders.slice(-limit), ...this.getOpenOrders()]
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public getOrder(id: string): Order | undefined {
+    return this.openOrders.get(id) ?? this.closedOrders.find(o => o.id === id);
+  }
+
+  // Re-adopts open orders from a previous run and re-reserves their holds
+  public restore(orders: Order[]) {
+    for (const order of orders) {
+      if (!OrderManager.isOpen(order)) continue;
+      if (order.reserved > 0 && !this.riskManager.reserve(order.pair, order.side, order.reserved)) {
+        order.reserved = 0;
+        this.finalize(order, 'CANCELED', 'Insufficient balance to restore order');
+        continue;
+      }
+      this.openOrders.set(order.id, order);
+    }
+  }
+
+  public submit(request: OrderRequest, marketData: Record<string, any>): Order {
+    const now = this.clock();
+    const order: Order = {
+      id: randomUUID(),
+      pair: request.pair,
+      side: request.side,
+      type: request.type,
+      amount: request.amount,
+      filledAmount: 0,
+      avgFillPrice: 0,
+      fees: 0,
+      price: request.price,
+      stopPrice: request.stopPrice,
+      triggered: request.type === 'MARKET' || request.type === 'LIMIT',
+      timeInForce: request.timeInForce ?? 'GTC',
+      status: 'NEW',
+      strategy: request.strategy ?? 'manual',
+      reserved: 0,
+      expiresAt: request.expiresAt,
+      placedBy: request.placedBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const error = this.validate(order, marketData[order.pair]) ?? this.preTradeCheck?.([order], marketData[order.pair]);
+    if (error) {
+      return this.reject(order, error);
+    }
+
+    if (!this.reserveFor(order, marketData[order.pair])) {
+      return this.reject(order, this.insufficientReason(order));
+    }
+
+    this.openOrders.set(order.id, order);
+    this.onUpdate?.(order);
+    this.evaluate(order, marketData[order.pair], true);
+    return order;
+  }
+
+  public submitOco(request: OcoRequest, marketData: Record<string, any>): Order[] {
+    const ocoGroupId = randomUUID();
+    const quote = marketData[request.pair];
+    const now = this.clock();
+
+    const base = {
+      pair: request.pair,
+      side: request.side,
+      amount: request.amount,
+      filledAmount: 0,
+      avgFillPrice: 0,
+      fees: 0,
+      timeInForce: 'GTC' as TimeInForce,
+      status: 'NEW' as OrderStatus,
+      strategy: request.strategy ?? 'manual',
+      reserved: 0,
+      ocoGroupId,
+      expiresAt: request.expiresAt,
+      placedBy: request.placedBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const limitLeg: Order = { ...base, id: randomUUID(), type: 'LIMIT', price: request.price, triggered: true };
+    const stopLeg: Order = {
+      ...base,
+      id: randomUUID(),
+      type: request.stopLimitPrice !== undefined ? 'STOP_LIMIT' : 'STOP',
+      stopPrice: request.stopPrice,
+      price: request.stopLimitPrice,
+      triggered: false,
+    };
+
+    const error = this.validate(limitLeg, quote) ?? this.validate(stopLeg, quote) ?? this.preTradeCheck?.([limitLeg, stopLeg], quote);
+    if (error) {
+      return [this.reject(limitLeg, error), this.reject(stopLeg, error)];
+    }
+
+    // One hold covers both legs; it sits on the leg needing the larger reservation
+    const holder = this.reservationValue(stopLeg, quote) > this.reservationValue(limitLeg, quote)
+      ? stopLeg
+      : limitLeg;
+    if (!this.reserveFor(holder, quote)) {
+      const reason = this.insufficientReason(holder);
+      return [this.reject(limitLeg, reason), this.reject(stopLeg, reason)];
+    }
+
+    for (const leg of [limitLeg, stopLeg]) {
+      this.openOrders.set(leg.id, leg);
+      this.onUpdate?.(leg);
+    }
+    this.evaluate(limitLeg, quote, true);
+    if (OrderManager.isOpen(stopLeg)) {
+      this.evaluate(stopLeg, quote, true);
+    }
+    return [limitLeg, stopLeg];
+  }
+
+  public cancel(id: string, reason: string = 'Canceled by request'): Order {
+    const order = this.openOrders.get(id);
+    if (!order) {
+      const closed = this.closedOrders.find(o => o.id === id);
+      throw new Error(closed ? `Order ${id} is already ${closed.status}` : `Unknown order: ${id}`);
+    }
+    this.finalize(order, 'CANCELED', reason);
+    return order;
+  }
+
+  public cancelAll(pair?: string): Order[] {
+    return this.getOpenOrders()
+      .filter(order => !pair || order.pair === pair)
+      .map(order => this.cancel(order.id));
+  }
+
+  // Evaluates every resting order against the tick's bid/ask
+  public processTick(marketData: Record<string, any>) {
+    const now = this.clock();
+    for (const order of this.getOpenOrders()) {
+      if (!this.openOrders.has(order.id)) continue; // Canceled earlier in this pass (OCO sibling)
+
+      if (order.expiresAt !== undefined && now >= order.expiresAt) {
+        this.finalize(order, 'EXPIRED', 'Order expired');
+        continue;
+      }
+      this.evaluate(order, marketData[order.pair]);
+    }
+  }
+
+  private validate(order: Order, quote: any): string | null {
+    if (!(order.amount > 0) || !Number.isFinite(order.amount)) return 'Amount must be a positive number';
+    if (order.side !== 'BUY' && order.side !== 'SELL') return `Invalid side: ${order.side}`;
+    if (!['GTC', 'IOC', 'FOK'].includes(order.timeInForce)) return `Invalid time in force: ${order.timeInForce}`;
+    if (!quote?.bid || !quote?.ask) return `No market data for ${order.pair}`;
+
+    const needsPrice = order.type === 'LIMIT' || order.type === 'STOP_LIMIT';
+    const needsStop = order.type === 'STOP' || order.type === 'STOP_LIMIT' || order.type === 'TAKE_PROFIT';
+    if (!['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT', 'TAKE_PROFIT'].includes(order.type)) return `Invalid order type: ${order.type}`;
+    if (needsPrice && !(order.price && order.price > 0)) return `${order.type} orders require a positive price`;
+    if (needsStop && !(order.stopPrice && order.stopPrice > 0)) return `${order.type} orders require a positive stopPrice`;
+    if (needsStop && order.timeInForce !== 'GTC') return `${order.type} orders only support GTC`;
+
+    // Conditional orders must not trigger on arrival
+    if (needsStop && this.isTriggered(order, quote)) {
+      return `Stop price ${order.stopPrice} would trigger immediately`;
+    }
+    return null;
+  }
+
+  private isTriggered(order: Order, quote: any): boolean {
+    const stop = order.stopPrice as number;
+    if (order.type === 'TAKE_PROFIT') {
+      return order.side === 'SELL' ? quote.bid >= stop : quote.ask <= stop;
+    }
+    // STOP / STOP_LIMIT trigger on adverse moves
+    return order.side === 'BUY' ? quote.ask >= stop : quote.bid <= stop;
+  }
+
+  private reservationValue(order: Order, quote: any): number {
+    const remaining = order.amount - order.filledAmount;
+    const fees = 1 + this.executionModel.feeRate('TAKER', quote.exchange);
+    let value: number;
+    if (order.side === 'BUY') {
+      const refPrice = order.price ?? (order.stopPrice ? Math.max(order.stopPrice, quote.ask) : quote.ask);
+      value = remaining * refPrice * (order.price ? 1 : MARKET_BUY_BUFFER) * fees;
+    } else {
+      // Only matters for margin holds: a short's notional is bounded by where it sells
+      const refPrice = order.price ?? (order.stopPrice ? Math.max(order.stopPrice, quote.bid) : quote.bid);
+      value = remaining * refPrice * fees;
+    }
+    return this.riskManager.holdRequirement(order.pair, order.side, remaining, value);
+  }
+
+  private insufficientReason(order: Order): string {
+    if (this.riskManager.isMarginEnabled()) return 'Insufficient free margin';
+    return order.side === 'BUY' ? 'Insufficient available balance' : 'Insufficient available position';
+  }
+
+  private reserveFor(order: Order, quote: any): boolean {
+    const value = this.reservationValue(order, quote);
+    if (!this.riskManager.reserve(order.pair, order.side, value)) return false;
+    order.reserved = value;
+    return true;
+  }
+
+  // onArrival: the order is being evaluated for the first time, so any fill takes liquidity
+  private evaluate(order: Order, quote: any, onArrival: boolean = false) {
+    if (!quote?.bid || !quote?.ask) return;
+
+    let takesLiquidity = onArrival;
+    if (!order.triggered) {
+      if (!this.isTriggered(order, quote)) return;
+      takesLiquidity = true;
+      order.triggered = true;
+      order.updatedAt = this.clock();
+      this.alertManager.sendAlert('TRADE', `${order.type} ${order.side} ${order.pair} triggered at ${order.stopPrice}`, 'INFO');
+      this.onUpdate?.(order);
+    }
+
+    // Stop and take-profit orders become market orders once triggered; stop-limits become limits
+    const limit = order.type === 'LIMIT' || order.type === 'STOP_LIMIT' ? order.price as number : undefined;
+    // Limits that rested on the book are filled as makers; everything else crosses the spread
+    const role: LiquidityRole = limit !== undefined && !takesLiquidity ? 'MAKER' : 'TAKER';
+
+    // Route to the venue with the best price after fees among those marketable against the limit
+    const remaining = order.amount - order.filledAmount;
+    const route = this.router.route(order.side, remaining, quote, role, limit);
+
+    if (this.executor && !order.sentAt) {
+      this.send(order, route?.venue ?? this.router.route(order.side, remaining, quote, role)?.venue, quote);
+      if (!this.executor.simulatesFills()) return;
+    } else if (this.executor && !this.executor.simulatesFills()) {
+      return; // Working on the exchange; fills arrive through applyFill
+    }
+    const venueQuote = route?.quote ?? quote;
+    const liquidity = venueQuote.volume > 0 ? venueQuote.volume * this.liquidityFraction : Infinity;
+    const fillable = route ? Math.min(remaining, liquidity) : 0;
+
+    if (order.timeInForce === 'FOK' && fillable < remaining) {
+      this.finalize(order, 'EXPIRED', 'Fill-or-kill could not be fully filled');
+      return;
+    }
+
+    if (fillable > 0) {
+      const execution = this.executionModel.quote(order.side, fillable, venueQuote, role);
+      // Impact never pushes a limit order through its limit price
+      const price = limit === undefined
+        ? execution.price
+        : order.side === 'BUY' ? Math.min(execution.price, limit) : Math.max(execution.price, limit);
+      const fee = price * fillable * execution.feeRate;
+      this.fill(order, price, fillable, fee, role, route?.venue);
+    }
+
+    // IOC/FOK are only ever marketable on arrival, so whatever is left now expires
+    if (OrderManager.isOpen(order) && order.timeInForce === 'IOC') {
+      this.finalize(order, 'EXPIRED', 'Immediate-or-cancel remainder expired');
+    }
+  }
+
+  private send(order: Order, venue: string | undefined, quote: any) {
+    const executor = this.executor as OrderExecutor;
+    // Only one OCO leg may work on the exchange: a triggered stop pulls the resting limit leg first
+    if (order.ocoGroupId && !executor.simulatesFills()) {
+      for (const sibling of this.getOpenOrders()) {
+        if (sibling.ocoGroupId === order.ocoGroupId && sibling.id !== order.id && sibling.sentAt) {
+          this.finalize(sibling, 'CANCELED', 'OCO sibling sent to exchange');
+        }
+      }
+      if (order.reserved === 0) this.reserveFor(order, quote); // Take over the shared hold
+    }
+    order.sentAt = this.clock();
+    order.updatedAt = order.sentAt;
+    executor.place(order, venue);
+    this.onUpdate?.(order);
+  }
+
+  // Fill reported by the exchange for a live order
+  public applyFill(orderId: string, price: number, amount: number, fee: number, venue?: string) {
+    const order = this.getOrder(orderId);
+    if (!order) {
+      throw new Error(`Unknown order: ${orderId}`);
+    }
+    // Exchanges report fills per order, not per liquidity role; resting limits are assumed to have made
+    const role: LiquidityRole = order.type === 'LIMIT' || order.type === 'STOP_LIMIT' ? 'MAKER' : 'TAKER';
+    this.fill(order, price, amount, fee, role, venue);
+  }
+
+  // Terminal status reported by the exchange; nothing is sent back. FILLED closes an order the
+  // exchange completed short of its amount, releasing the hold on the unfilled rest.
+  public applyExchangeStatus(orderId: string, status: 'FILLED' | 'CANCELED' | 'EXPIRED' | 'REJECTED', reason: string) {
+    const order = this.openOrders.get(orderId);
+    if (!order) return;
+    if (status !== 'FILLED') {
+      this.finalize(order, status, reason, false);
+      return;
+    }
+    if (order.reserved > 0) {
+      this.riskManager.release(order.pair, order.side, order.reserved);
+      order.reserved = 0;
+    }
+    order.status = 'FILLED';
+    order.updatedAt = this.clock();
+    this.close(order);
+    this.onUpdate?.(order);
+  }
+
+  private fill(order: Order, price: number, amount: number, fee: number, role: LiquidityRole, venue?: string) {
+    // OCO: any execution on one leg cancels its sibling first, releasing the shared hold
+    if (order.ocoGroupId) {
+      for (const sibling of this.getOpenOrders()) {
+        if (sibling.ocoGroupId === order.ocoGroupId && sibling.id !== order.id) {
+          this.finalize(sibling, 'CANCELED', 'OCO sibling executed');
+        }
+      }
+    }
+
+    const remainingBefore = order.amount - order.filledAmount;
+    const released = Math.min(order.reserved, order.reserved * (amount / remainingBefore));
+    this.riskManager.release(order.pair, order.side, released);
+    order.reserved -= released;
+
+    // Realized PnL must be measured before the position is reduced
+    let pnl = this.riskManager.calculateTradePnL(order.pair, order.side, price, amount, fee);
+    if (!this.riskManager.executeTrade(order.pair, order.side, price, amount, fee, this.positionExits?.(order))) {
+      const reason = this.riskManager.isMarginEnabled()
+        ? 'Insufficient margin at fill'
+        : order.side === 'BUY' ? 'Insufficient funds at fill' : 'Insufficient position at fill';
+      if (!this.isLive()) {
+        this.finalize(order, 'REJECTED', reason);
+        return;
+      }
+      // The exchange filled it all the same: the order keeps the fill, and the portfolio is brought
+      // back in line from the exchange balances rather than trusted as it stands
+      pnl = undefined;
+      this.alertManager.sendAlert('TRADE', `${order.side} fill of ${amount} ${order.pair} (order ${order.id}) doesn't fit the local portfolio: ${reason.toLowerCase()}; reconciling with the exchange`, 'WARNING');
+      this.executor?.requestReconcile?.();
+    }
+
+    const timestamp = this.clock();
+    order.avgFillPrice = (order.avgFillPrice * order.filledAmount + price * amount) / (order.filledAmount + amount);
+    order.filledAmount += amount;
+    order.fees += fee;
+    order.venue = venue;
+    order.updatedAt = timestamp;
+
+    const fill: Fill = { orderId: order.id, pair: order.pair, side: order.side, price, amount, fee, role, venue, timestamp, pnl };
+    if (!this.openOrders.has(order.id)) {
+      // Late exchange fill on an order already closed locally; booked, but its final status stands
+    } else if (order.amount - order.filledAmount <= 1e-9) {
+      order.status = 'FILLED';
+      if (order.reserved > 0) {
+        this.riskManager.release(order.pair, order.side, order.reserved);
+        order.reserved = 0;
+      }
+      this.close(order);
+    } else {
+      order.status = 'PARTIALLY_FILLED';
+    }
+    this.onFill?.(order, fill);
+    this.onUpdate?.(order);
+  }
+
+  private reject(order: Order, reason: string): Order {
+    order.status = 'REJECTED';
+    order.rejectReason = reason;
+    this.closedOrders.push(order);
+    this.trimClosed();
+    this.onReject?.(order);
+    this.onUpdate?.(order);
+    return order;
+  }
+
+  private isLive(): boolean {
+    return this.executor !== null && !this.executor.simulatesFills();
+  }
+
+  private finalize(order: Order, status: 'CANCELED' | 'EXPIRED' | 'REJECTED', reason: string, notifyExchange: boolean = true) {
+    if (notifyExchange && order.sentAt && this.isLive()) {
+      this.executor?.cancel(order);
+    }
+    if (order.reserved > 0) {
+      this.riskManager.release(order.pair, order.side, order.reserved);
+      order.reserved = 0;
+    }
+    order.status = status;
+    order.rejectReason = reason;
+    order.updatedAt = this.clock();
+    this.close(order);
+    if (status === 'REJECTED') {
+      this.onReject?.(order);
+    }
+    this.onUpdate?.(order);
+  }
+
+  private close(order: Order) {
+    this.openOrders.delete(order.id);
+    this.closedOrders.push(order);
+    this.trimClosed();
+  }
+
+  private trimClosed() {
+    if (this.closedOrders.length > MAX_CLOSED_ORDERS) {
+      this.closedOrders.shift();
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import type { TradeLog } from './Engine.js';
+import type { TradingDatabase } from './Database.js';
+
+export interface EquitySnapshot {
+  timestamp: number;
+  equity: number;
+  exposure: number; // Gross position value as a fraction of equity
+}
+
+export type PerformanceWindow = '1h' | '1d' | '7d' | 'all';
+
+export const PERFORMANCE_WINDOWS: Record<PerformanceWindow, number | null> = {
+  '1h': 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+  '7d': 7 * 24 * 60 * 60_000,
+  'all': null,
+};
+
+export interface PerformanceMetrics {
+  startTime: number | null;
+  endTime: number | null;
+  startEquity: number | null;
+  endEquity: number | null;
+  totalReturn: number;
+  annualizedReturn: number;
+  annualizedVolatility: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  maxDrawdown: number;
+  maxDrawdownDuration: number; // ms spent below a prior peak in the worst episode
+  closedTrades: number;
+  winRate: number;
+  profitFactor: number | null; // null when there are no losing trades
+  averageWin: number;
+  averageLoss: number;
+  expectancy: number; // Average PnL per closed trade
+  exposureTime: number; // Fraction of the window with any open position
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60_000;
+
+// Ratios are annualized from the average snapshot spacing; risk-free rate assumed zero
+export function computePerformance(snapshots: EquitySnapshot[], trades: TradeLog[]): PerformanceMetrics {
+  const closed = trades.filter(t => t.status === 'EXECUTED' && t.pnl !== undefined).map(t => t.pnl as number);
+  const wins = closed.filter(pnl => pnl > 0);
+  const losses = closed.filter(pnl => pnl <= 0);
+  const grossProfit = wins.reduce((acc, pnl) => acc + pnl, 0);
+  const grossLoss = -losses.reduce((acc, pnl) => acc + pnl, 0);
+
+  const metrics: PerformanceMetrics = {
+    startTime: null,
+    endTime: null,
+    startEquity: null,
+    endEquity: null,
+    totalReturn: 0,
+    annualizedReturn: 0,
+    annualizedVolatility: 0,
+    sharpeRatio: 0,
+    sortinoRatio: 0,
+    calmarRatio: 0,
+    maxDrawdown: 0,
+    maxDrawdownDuration: 0,
+    closedTrades: closed.length,
+    winRate: closed.length > 0 ? (wins.length / closed.length) * 100 : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    averageWin: wins.length > 0 ? grossProfit / wins.length : 0,
+    averageLoss: losses.length > 0 ? -grossLoss / losses.length : 0,
+    expectancy: closed.length > 0 ? (grossProfit - grossLoss) / closed.length : 0,
+    exposureTime: 0,
+  };
+
+  if (snapshots.length === 0) return metrics;
+
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  metrics.startTime = first.timestamp;
+  metrics.endTime = last.timestamp;
+  metrics.startEquity = first.equity;
+  metrics.endEquity = last.equity;
+  metrics.totalReturn = first.equity > 0 ? last.equity / first.equity - 1 : 0;
+
+  // Drawdown depth and the longest stretch below a prior peak
+  let peak = first.equity;
+  let peakTime = first.timestamp;
+  for (const snap of snapshots) {
+    if (snap.equity >= peak) {
+      peak = snap.equity;
+      peakTime = snap.timestamp;
+    } else {
+      metrics.maxDrawdown = Math.max(metrics.maxDrawdown, (peak - snap.equity) / peak);
+      metrics.maxDrawdownDuration = Math.max(metrics.maxDrawdownDuration, snap.timestamp - peakTime);
+    }
+  }
+
+  const duration = last.timestamp - first.timestamp;
+  if (snapshots.length < 2 || duration <= 0) return metrics;
+
+  // Time-weighted exposure: each interval counts if a position was open at its start
+  let exposedMs = 0;
+  const returns: number[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    if (snapshots[i - 1].exposure > 0) exposedMs += snapshots[i].timestamp - snapshots[i - 1].timestamp;
+    returns.push(snapshots[i].equity / snapshots[i - 1].equity - 1);
+  }
+  metrics.exposureTime = exposedMs / duration;
+
+  const periodsPerYear = YEAR_MS / (duration / returns.length);
+  const mean = returns.reduce((acc, r) => acc + r, 0) / returns.length;
+  const variance = returns.length > 1
+    ? returns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / (returns.length - 1)
+    : 0;
+  const downside = Math.sqrt(returns.reduce((acc, r) => acc + Math.min(0, r) ** 2, 0) / returns.length);
+
+  metrics.annualizedReturn = Math.pow(1 + metrics.totalReturn, YEAR_MS / duration) - 1;
+  metrics.annualizedVolatility = Math.sqrt(variance) * Math.sqrt(periodsPerYear);
+  metrics.sharpeRatio = variance > 0 ? (mean / Math.sqrt(variance)) * Math.sqrt(periodsPerYear) : 0;
+  metrics.sortinoRatio = downside > 0 ? (mean / downside) * Math.sqrt(periodsPerYear) : 0;
+  metrics.calmarRatio = metrics.maxDrawdown > 0 ? metrics.annualizedReturn / metrics.maxDrawdown : 0;
+
+  return metrics;
+}
+
+// Evenly thins a series for charting, always keeping the latest point
+export function downsample<T>(points: T[], maxPoints: number): T[] {
+  if (points.length <= maxPoints) return points;
+  const stride = points.length / maxPoints;
+  const result: T[] = [];
+  for (let i = 0; i < maxPoints - 1; i++) {
+    result.push(points[Math.floor(i * stride)]);
+  }
+  result.push(points[points.length - 1]);
+  return result;
+}
+
+export interface PerformanceTrackerOptions {
+  database?: TradingDatabase | null;
+  snapshotIntervalMs?: number;
+  retentionMs?: number; // How much history stays in memory; older windows are read from the database
+}
+
+export class PerformanceTracker {
+  private snapshots: EquitySnapshot[] = [];
+  private database: TradingDatabase | null;
+  private snapshotIntervalMs: number;
+  private retentionMs: number;
+
+  constructor(options: PerformanceTrackerOptions = {}) {
+    this.database = options.database ?? null;
+    this.snapshotIntervalMs = options.snapshotIntervalMs ?? 10_000;
+    this.retentionMs = options.retentionMs ?? PERFORMANCE_WINDOWS['7d'] as number;
+  }
+
+  public restore(now: number) {
+    if (this.database) {
+      this.snapshots = this.database.loadEquitySnapshots(now - this.retentionMs);
+    }
+  }
+
+  // Returns true when a new snapshot was taken
+  public record(snapshot: EquitySnapshot): boolean {
+    const latest = this.snapshots[this.snapshots.length - 1];
+    if (latest && snapshot.timestamp - latest.timestamp < this.snapshotIntervalMs) return false;
+
+    this.snapshots.push(snapshot);
+    this.database?.insertEquitySnapshot(snapshot);
+
+    const cutoff = snapshot.timestamp - this.retentionMs;
+    while (this.snapshots.length > 0 && this.snapshots[0].timestamp < cutoff) {
+      this.snapshots.shift();
+    }
+    return true;
+  }
+
+  public getSnapshots(window: PerformanceWindow, now: number): EquitySnapshot[] {
+    const span = PERFORMANCE_WINDOWS[window];
+    if (span === null || span > this.retentionMs) {
+      const since = span === null ? 0 : now - span;
+      return this.database
+        ? this.database.loadEquitySnapshots(since)
+        : this.snapshots.filter(s => s.timestamp >= since);
+    }
+    return this.snapshots.filter(s => s.timestamp >= now - span);
+  }
+}
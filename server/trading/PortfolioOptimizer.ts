@@ -0,0 +1,378 @@
+import type { Candle } from './HistoricalData.js';
+import type { ConfigVersion, OptimizerSettings, TradingConfig } from './ConfigManager.js';
+
+export const ALLOCATION_METHODS = ['equal-weight', 'inverse-volatility', 'risk-parity', 'minimum-variance', 'mean-variance'] as const;
+export type AllocationMethod = typeof ALLOCATION_METHODS[number];
+
+const BARS_PER_YEAR = 365 * 24; // The optimizer works on hourly bars
+const MIN_RETURNS = 24;
+const SHRINKAGE = 0.1; // Pull on off-diagonal covariances toward zero; steadies the optimizers on short windows
+
+export type OptimizationOptions = Pick<OptimizerSettings, 'method' | 'maxWeight' | 'investedFraction' | 'riskAversion'>;
+
+export interface AllocationResult {
+  method: AllocationMethod;
+  weights: Record<string, number>;
+  volatility: Record<string, number>; // Annualized, per pair
+  expectedReturn: Record<string, number>; // Annualized mean log return, per pair
+  riskContribution: Record<string, number>; // Share of portfolio variance, per pair
+  portfolioVolatility: number; // Annualized, at the proposed weights
+  returns: number; // Returns in the estimation window
+  from: number;
+  to: number;
+}
+
+export interface ReturnWindow {
+  returns: number[][]; // Per pair, oldest first
+  from: number;
+  to: number;
+}
+
+// Log returns between the bars every pair has a close for
+export function alignReturns(pairs: string[], history: Record<string, Candle[]>): ReturnWindow {
+  const closes = pairs.map(pair => new Map((history[pair] ?? []).map(candle => [candle.timestamp, candle.close])));
+  const timestamps = [...closes[0].keys()]
+    .filter(timestamp => closes.every(series => (series.get(timestamp) ?? 0) > 0))
+    .sort((a, b) => a - b);
+
+  if (timestamps.length <= MIN_RETURNS) {
+    const short = pairs
+      .map((pair, i) => `${pair} (${closes[i].size})`)
+      .filter((_, i) => closes[i].size <= MIN_RETURNS);
+    throw new Error(`Not enough price history: need ${MIN_RETURNS + 1} hourly bars shared by every pair, have ${timestamps.length}`
+      + (short.length > 0 ? `; short on ${short.join(', ')}` : ''));
+  }
+
+  const returns = closes.map(series => timestamps.slice(1).map((timestamp, i) => Math.log(series.get(timestamp)! / series.get(timestamps[i])!)));
+  return { returns, from: timestamps[0], to: timestamps[timestamps.length - 1] };
+}
+
+// Sample means and covariance of per-bar returns, with the off-diagonals shrunk
+export function estimateCovariance(returns: number[][]): { mean: number[], covariance: number[][] } {
+  const n = returns[0].length;
+  const mean = returns.map(series => series.reduce((sum, r) => sum + r, 0) / n);
+  const covariance = returns.map((a, i) => returns.map((b, j) => {
+    let sum = 0;
+    for (let t = 0; t < n; t++) sum += (a[t] - mean[i]) * (b[t] - mean[j]);
+    return (sum / (n - 1)) * (i === j ? 1 : 1 - SHRINKAGE);
+  }));
+  return { mean, covariance };
+}
+
+const multiply = (matrix: number[][], w: number[]) => matrix.map(row => row.reduce((sum, value, j) => sum + value * w[j], 0));
+const variance = (matrix: number[][], w: number[]) => multiply(matrix, w).reduce((sum, value, i) => sum + value * w[i], 0);
+
+// Scales weights to the total and caps them, handing what a capped pair gives up to the others
+// in proportion, so the ratios between uncapped pairs are kept
+function capWeights(raw: number[], total: number, cap: number): number[] {
+  const weights = new Array(raw.length).fill(0);
+  const capped = new Set<number>();
+  for (let round = 0; round < raw.length; round++) {
+    const free = raw.map((_, i) => i).filter(i => !capped.has(i));
+    const rawSum = free.reduce((sum, i) => sum + raw[i], 0);
+    const remaining = total - capped.size * cap;
+    for (const i of free) weights[i] = rawSum > 0 ? raw[i] / rawSum * remaining : remaining / free.length;
+    const over = free.filter(i => weights[i] > cap);
+    if (over.length === 0) break;
+    for (const i of over) {
+      capped.add(i);
+      weights[i] = cap;
+    }
+  }
+  return weights;
+}
+
+// Nearest point to v with weights in [0, cap] adding up to the total, by bisection on a common shift
+function project(v: number[], total: number, cap: number): number[] {
+  const sum = (shift: number) => v.reduce((acc, value) => acc + Math.min(cap, Math.max(0, value - shift)), 0);
+  let lo = Math.min(...v) - cap;
+  let hi = Math.max(...v);
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (sum(mid) > total) lo = mid;
+    else hi = mid;
+  }
+  return v.map(value => Math.min(cap, Math.max(0, value - (lo + hi) / 2)));
+}
+
+// Projected gradient ascent on expectedReturn'w - (riskAversion / 2) w'Σw over the capped weights;
+// with no expected returns this is the minimum-variance portfolio
+function projectedGradient(covariance: number[][], expected: number[] | null, riskAversion: number, total: number, cap: number): number[] {
+  const n = covariance.length;
+  const trace = covariance.reduce((sum, row, i) => sum + row[i], 0);
+  const step = 1 / (riskAversion * trace); // The trace bounds the largest eigenvalue, so this step never overshoots
+  let w = project(new Array(n).fill(total / n), total, cap);
+  for (let iteration = 0; iteration < 5000; iteration++) {
+    const gradient = multiply(covariance, w).map((value, i) => (expected?.[i] ?? 0) - riskAversion * value);
+    const next = project(w.map((value, i) => value + step * gradient[i]), total, cap);
+    const moved = next.reduce((max, value, i) => Math.max(max, Math.abs(value - w[i])), 0);
+    w = next;
+    if (moved < 1e-10) break;
+  }
+  return w;
+}
+
+// Weights whose risk contributions w_i (Σw)_i are equal, by multiplicative updates from inverse volatility
+function riskParity(covariance: number[][]): number[] {
+  let w = covariance.map((row, i) => 1 / Math.sqrt(row[i]));
+  for (let iteration = 0; iteration < 1000; iteration++) {
+    const marginal = multiply(covariance, w);
+    const contributions = w.map((value, i) => value * marginal[i]);
+    const target = contributions.reduce((sum, value) => sum + value, 0) / w.length;
+    const next = w.map((value, i) => value * Math.sqrt(target / contributions[i]));
+    const total = next.reduce((sum, value) => sum + value, 0);
+    const normalized = next.map(value => value / total);
+    const moved = normalized.reduce((max, value, i) => Math.max(max, Math.abs(value - w[i])), 0);
+    w = normalized;
+    if (moved < 1e-12) break;
+  }
+  return w;
+}
+
+// Target weights for the pairs from their hourly price history. Every method honours maxWeight,
+// and the weights add up to investedFraction.
+export function optimizeAllocations(pairs: string[], history: Record<string, Candle[]>, options: OptimizationOptions): AllocationResult {
+  const { method, maxWeight, investedFraction, riskAversion } = options;
+  if (!ALLOCATION_METHODS.includes(method)) {
+    throw new Error(`Unknown allocation method: ${method}`);
+  }
+  if (pairs.length === 0) {
+    throw new Error('No pairs to allocate');
+  }
+  for (const [name, value] of Object.entries({ maxWeight, investedFraction })) {
+    if (typeof value !== 'number' || !(value > 0 && value <= 1)) throw new Error(`${name} must be in (0, 1]`);
+  }
+  if (typeof riskAversion !== 'number' || !(riskAversion > 0) || !Number.isFinite(riskAversion)) {
+    throw new Error('riskAversion must be a positive number');
+  }
+  if (maxWeight * pairs.length < investedFraction - 1e-9) {
+    throw new Error(`maxWeight of ${maxWeight} across ${pairs.length} pairs can't reach an invested fraction of ${investedFraction}`);
+  }
+
+  const window = alignReturns(pairs, history);
+  const { mean, covariance } = estimateCovariance(window.returns);
+  const volatility = covariance.map((row, i) => Math.sqrt(row[i]));
+  if (volatility.some(value => !(value > 0))) {
+    throw new Error(`Flat price history for ${pairs.filter((_, i) => !(volatility[i] > 0)).join(', ')}; can't estimate risk`);
+  }
+
+  let weights: number[];
+  switch (method) {
+    case 'equal-weight':
+      weights = capWeights(pairs.map(() => 1), investedFraction, maxWeight);
+      break;
+    case 'inverse-volatility':
+      weights = capWeights(volatility.map(value => 1 / value), investedFraction, maxWeight);
+      break;
+    case 'risk-parity':
+      weights = capWeights(riskParity(covariance), investedFraction, maxWeight);
+      break;
+    case 'minimum-variance':
+      weights = projectedGradient(covariance, null, 1, investedFraction, maxWeight);
+      break;
+    case 'mean-variance':
+      weights = projectedGradient(covariance, mean, riskAversion, investedFraction, maxWeight);
+      break;
+  }
+
+  // Rounded down so the rounded weights never add up to more than the invested fraction
+  weights = weights.map(value => Math.floor(value * 10_000 + 1e-6) / 10_000);
+  const marginal = multiply(covariance, weights);
+  const portfolioVariance = variance(covariance, weights);
+  const byPair = (values: number[]) => Object.fromEntries(pairs.map((pair, i) => [pair, values[i]]));
+
+  return {
+    method,
+    weights: byPair(weights),
+    volatility: byPair(volatility.map(value => value * Math.sqrt(BARS_PER_YEAR))),
+    expectedReturn: byPair(mean.map(value => value * BARS_PER_YEAR)),
+    riskContribution: byPair(weights.map((value, i) => portfolioVariance > 0 ? value * marginal[i] / portfolioVariance : 0)),
+    portfolioVolatility: Math.sqrt(portfolioVariance * BARS_PER_YEAR),
+    returns: window.returns[0].length,
+    from: window.from,
+    to: window.to,
+  };
+}
+
+// Annualized volatility of a set of weights over the same window, for comparing against a proposal
+export function portfolioVolatility(pairs: string[], history: Record<string, Candle[]>, weights: Record<string, number>): number {
+  const { covariance } = estimateCovariance(alignReturns(pairs, history).returns);
+  return Math.sqrt(variance(covariance, pairs.map(pair => weights[pair] ?? 0)) * BARS_PER_YEAR);
+}
+
+export type ProposalStatus = 'pending' | 'applied' | 'superseded';
+
+export interface AllocationProposal extends AllocationResult {
+  id: number;
+  lookbackBars: number;
+  current: Record<string, number>; // Target allocations in force when the proposal was made
+  currentVolatility: number; // Annualized volatility of the current targets over the same window
+  trigger: 'schedule' | 'manual';
+  requestedBy: string;
+  createdAt: number;
+  status: ProposalStatus;
+  appliedBy: string | null;
+  appliedAt: number | null;
+  configVersion: number | null; // Config version the proposal was applied as
+}
+
+export interface OptimizerStatus {
+  enabled: boolean;
+  method: AllocationMethod;
+  autoApply: boolean;
+  lastRunAt: number | null;
+  nextRunAt: number | null;
+  lastError: string | null;
+}
+
+export interface AllocationOptimizerOptions {
+  config: () => TradingConfig;
+  history: (pair: string, limit: number) => Candle[]; // Hourly bars, oldest first
+  apply: (targetAllocations: Record<string, number>) => ConfigVersion; // Makes the weights the running targets
+  clock?: () => number;
+  checkIntervalMs?: number; // How often the schedule is checked
+  keep?: number; // Proposals kept in memory
+}
+
+// Proposes target allocations from the rolling covariance of hourly returns, on demand and on the
+// schedule in the optimizer config. A proposal only changes the targets rebalancing works toward
+// once it is applied, by a person or by autoApply.
+export class AllocationOptimizer {
+  private config: () => TradingConfig;
+  private history: (pair: string, limit: number) => Candle[];
+  private applyAllocations: (targetAllocations: Record<string, number>) => ConfigVersion;
+  private clock: () => number;
+  private checkIntervalMs: number;
+  private keep: number;
+  private proposals: AllocationProposal[] = []; // Newest first
+  private nextId = 1;
+  private lastRunAt: number | null = null;
+  private lastError: string | null = null;
+  private lastLoggedError: string | null = null; // Retries every check would otherwise repeat it each minute
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: AllocationOptimizerOptions) {
+    this.config = options.config;
+    this.history = options.history;
+    this.applyAllocations = options.apply;
+    this.clock = options.clock ?? Date.now;
+    this.checkIntervalMs = options.checkIntervalMs ?? 60_000;
+    this.keep = options.keep ?? 20;
+  }
+
+  public start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runSchedule(), this.checkIntervalMs);
+  }
+
+  public stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // The first scheduled run comes one check after start, so the engine has priced every pair.
+  // A failed run (usually too little history just after startup) is retried on the next check.
+  private runSchedule() {
+    const settings = this.config().optimizer;
+    if (!settings.enabled) return;
+    if (this.lastRunAt !== null && this.clock() - this.lastRunAt < settings.intervalMs) return;
+
+    try {
+      const proposal = this.propose('schedule', 'scheduler');
+      if (settings.autoApply) this.apply(proposal.id, 'scheduler');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message !== this.lastLoggedError) console.error(`Scheduled allocation optimization failed: ${message}`);
+      this.lastLoggedError = message;
+    }
+  }
+
+  // Runs the optimizer with the configured settings, or overrides for a what-if, and replaces any
+  // pending proposal with the result
+  public propose(trigger: 'schedule' | 'manual', requestedBy: string, overrides: Partial<OptimizationOptions & { lookbackBars: number }> = {}): AllocationProposal {
+    const config = this.config();
+    const given = Object.entries(overrides).filter(([, value]) => value !== undefined);
+    const settings = { ...config.optimizer, ...Object.fromEntries(given) };
+    const now = this.clock();
+
+    try {
+      if (!Number.isInteger(settings.lookbackBars) || settings.lookbackBars < MIN_RETURNS + 1 || settings.lookbackBars > 500) {
+        throw new Error('lookbackBars must be an integer between 25 and 500');
+      }
+      const history = Object.fromEntries(config.pairs.map(pair => [pair, this.history(pair, settings.lookbackBars)]));
+      const result = optimizeAllocations(config.pairs, history, settings);
+
+      for (const pending of this.proposals.filter(proposal => proposal.status === 'pending')) {
+        pending.status = 'superseded';
+      }
+      const proposal: AllocationProposal = {
+        ...result,
+        id: this.nextId++,
+        lookbackBars: settings.lookbackBars,
+        current: Object.fromEntries(config.pairs.map(pair => [pair, config.targetAllocations[pair] ?? 0])),
+        currentVolatility: portfolioVolatility(config.pairs, history, config.targetAllocations),
+        trigger,
+        requestedBy,
+        createdAt: now,
+        status: 'pending',
+        appliedBy: null,
+        appliedAt: null,
+        configVersion: null,
+      };
+      this.proposals.unshift(proposal);
+      this.proposals.length = Math.min(this.proposals.length, this.keep);
+      if (trigger === 'schedule') {
+        this.lastRunAt = now;
+        this.lastError = null;
+        this.lastLoggedError = null;
+      }
+      console.log(`Allocation proposal #${proposal.id} (${proposal.method}): `
+        + Object.entries(proposal.weights).map(([pair, weight]) => `${pair} ${(weight * 100).toFixed(1)}%`).join(', '));
+      return proposal;
+    } catch (error) {
+      if (trigger === 'schedule') this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  }
+
+  // Writes a pending proposal's weights into the config as the new target allocations
+  public apply(id: number, appliedBy: string): AllocationProposal {
+    const proposal = this.proposals.find(entry => entry.id === id);
+    if (!proposal) {
+      throw new Error(`Unknown allocation proposal: ${id}`);
+    }
+    if (proposal.status !== 'pending') {
+      throw new Error(`Allocation proposal #${id} is ${proposal.status}`);
+    }
+    const pairs = this.config().pairs;
+    const proposed = Object.keys(proposal.weights);
+    if (pairs.length !== proposed.length || !pairs.every(pair => proposed.includes(pair))) {
+      throw new Error(`Pairs changed since allocation proposal #${id}; run the optimizer again`);
+    }
+
+    const version = this.applyAllocations(proposal.weights);
+    proposal.status = 'applied';
+    proposal.appliedBy = appliedBy;
+    proposal.appliedAt = this.clock();
+    proposal.configVersion = version.version;
+    return proposal;
+  }
+
+  public getProposals(): AllocationProposal[] {
+    return this.proposals;
+  }
+
+  public getStatus(): OptimizerStatus {
+    const settings = this.config().optimizer;
+    return {
+      enabled: settings.enabled,
+      method: settings.method,
+      autoApply: settings.autoApply,
+      lastRunAt: this.lastRunAt,
+      nextRunAt: settings.enabled && this.timer && this.lastRunAt !== null ? this.lastRunAt + settings.intervalMs : null,
+      lastError: this.lastError,
+    };
+  }
+}
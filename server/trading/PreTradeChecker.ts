@@ -0,0 +1,154 @@
+import { DEFAULT_CONFIG, PreTradeLimits } from './ConfigManager.js';
+import type { RiskManager } from './RiskManager.js';
+import type { Order } from './OrderManager.js';
+
+export interface PreTradeStatus {
+  limits: PreTradeLimits;
+  realizedToday: number; // Realized PnL since midnight UTC
+  ordersLastMinute: number;
+  halted: string | null;
+}
+
+export interface PreTradeCheckerOptions {
+  limits?: PreTradeLimits;
+  clock?: () => number;
+  halted?: () => string | null; // Why orders that add exposure are refused outright (e.g. the kill switch), or null
+}
+
+const EXEMPT_STRATEGIES = ['risk', 'liquidation']; // Enforced exits must always reach the market
+const RATE_WINDOW_MS = 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+export const startOfDay = (timestamp: number) => timestamp - timestamp % DAY_MS;
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1).replace(/\.0$/, '')}%`;
+
+// The checks every order passes before it is accepted: rate limit, price collars, max order
+// notional, per-asset and total exposure caps, and the daily realized-loss limit
+export class PreTradeChecker {
+  private riskManager: RiskManager;
+  private limits: PreTradeLimits;
+  private clock: () => number;
+  private halted: () => string | null;
+  private accepted: number[] = []; // Times of orders that passed, inside the rate window
+  private day = 0; // Midnight UTC of the day realizedToday covers
+  private realizedToday = 0;
+
+  constructor(riskManager: RiskManager, options: PreTradeCheckerOptions = {}) {
+    this.riskManager = riskManager;
+    this.limits = { ...(options.limits ?? DEFAULT_CONFIG.preTrade) };
+    this.clock = options.clock ?? Date.now;
+    this.halted = options.halted ?? (() => null);
+  }
+
+  public getLimits(): PreTradeLimits {
+    return this.limits;
+  }
+
+  public setLimits(limits: PreTradeLimits) {
+    this.limits = { ...limits };
+  }
+
+  // Realized PnL from a fill counts toward the loss limit of the day it happened
+  public recordPnl(pnl: number, timestamp: number) {
+    if (startOfDay(timestamp) < this.day) return;
+    this.rollDay(timestamp);
+    this.realizedToday += pnl;
+  }
+
+  private rollDay(now: number) {
+    const day = startOfDay(now);
+    if (day !== this.day) {
+      this.day = day;
+      this.realizedToday = 0;
+    }
+  }
+
+  public getStatus(): PreTradeStatus {
+    const now = this.clock();
+    this.rollDay(now);
+    return {
+      limits: this.limits,
+      realizedToday: this.realizedToday,
+      ordersLastMinute: this.accepted.filter(time => time > now - RATE_WINDOW_MS).length,
+      halted: this.halted(),
+    };
+  }
+
+  // Returns why the order is refused, or null. OCO legs are checked together as one order.
+  // Enforced exits skip every check, and so do orders that only reduce a position, so a position
+  // can always be closed, even in a spread blowout or after a burst of orders.
+  public check(legs: Order[], quote: any): string | null {
+    const [order] = legs;
+    if (EXEMPT_STRATEGIES.includes(order.strategy)) return null;
+
+    const now = this.clock();
+    while (this.accepted.length > 0 && this.accepted[0] <= now - RATE_WINDOW_MS) this.accepted.shift();
+    const reducing = this.riskManager.openingAmount(order.pair, order.side, order.amount) <= 0;
+    const reason = reducing ? null : this.checkRate() ?? this.checkCollar(legs, quote) ?? this.checkExposure(legs, quote, now);
+    if (reason === null) this.accepted.push(now);
+    return reason;
+  }
+
+  private checkRate(): string | null {
+    if (this.accepted.length < this.limits.maxOrdersPerMinute) return null;
+    return `Order rate limit reached: ${this.accepted.length} orders in the last minute (max ${this.limits.maxOrdersPerMinute})`;
+  }
+
+  // Fat-finger protection: a price may not sit more than the collar past the side it would trade
+  // against, and market orders aren't sent into a spread wider than the collar
+  private checkCollar(legs: Order[], quote: any): string | null {
+    const collar = this.limits.priceCollar;
+    for (const leg of legs) {
+      if (leg.price !== undefined) {
+        const stop = leg.type === 'STOP_LIMIT';
+        const reference = stop ? leg.stopPrice as number : leg.side === 'BUY' ? quote.ask : quote.bid;
+        const label = stop ? 'stop price' : leg.side === 'BUY' ? 'ask' : 'bid';
+        if (leg.side === 'BUY' && leg.price > reference * (1 + collar)) {
+          return `Limit price ${leg.price} is more than ${percent(collar)} above the ${label} (${reference})`;
+        }
+        if (leg.side === 'SELL' && leg.price < reference * (1 - collar)) {
+          return `Limit price ${leg.price} is more than ${percent(collar)} below the ${label} (${reference})`;
+        }
+      } else if (leg.type === 'MARKET') {
+        const spread = (quote.ask - quote.bid) / ((quote.ask + quote.bid) / 2);
+        if (spread > collar) {
+          return `${leg.pair} spread of ${percent(spread)} is wider than the ${percent(collar)} price collar`;
+        }
+      }
+    }
+    return null;
+  }
+
+  private checkExposure(legs: Order[], quote: any, now: number): string | null {
+    const [order] = legs;
+    const halted = this.halted();
+    if (halted) return `${halted}; only orders that reduce a position are accepted`;
+
+    const equity = Math.max(0, this.riskManager.getEquity());
+    this.rollDay(now);
+    if (this.realizedToday < 0 && -this.realizedToday >= this.limits.maxDailyLoss * equity) {
+      return `Daily realized loss of $${(-this.realizedToday).toFixed(2)} reached the ${percent(this.limits.maxDailyLoss)} limit; only orders that reduce a position are accepted`;
+    }
+
+    // The leg that would trade at the worst price sets the notional
+    const price = Math.max(...legs.map(leg => leg.price ?? leg.stopPrice ?? (leg.side === 'BUY' ? quote.ask : quote.bid)));
+    const notional = order.amount * price;
+    if (notional > this.limits.maxOrderNotional) {
+      return `Order notional of $${notional.toFixed(2)} is above the $${this.limits.maxOrderNotional} maximum`;
+    }
+
+    // Exposure after a full fill, from filled positions only
+    const current = this.riskManager.getPortfolio().positions[order.pair]?.amount ?? 0;
+    const mark = quote.last ?? (quote.bid + quote.ask) / 2;
+    const after = Math.abs(current + (order.side === 'BUY' ? order.amount : -order.amount)) * price;
+    if (after > this.limits.maxAssetExposure * equity) {
+      return `${order.pair} exposure would reach ${percent(equity > 0 ? after / equity : Infinity)} of equity, above the ${percent(this.limits.maxAssetExposure)} cap`;
+    }
+    const gross = this.riskManager.getExposure() * equity - Math.abs(current) * mark + after;
+    if (gross > this.limits.maxTotalExposure * equity) {
+      return `Gross exposure would reach ${(equity > 0 ? gross / equity : Infinity).toFixed(2)}x equity, above the ${this.limits.maxTotalExposure}x cap`;
+    }
+    return null;
+  }
+}
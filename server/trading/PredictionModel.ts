@@ -0,0 +1,266 @@
+import type { Candle } from './HistoricalData.js';
+import { IndicatorSet, IndicatorValues } from './Indicators.js';
+import { TIMEFRAMES, Timeframe } from './CandleAggregator.js';
+
+// Inputs the model sees, all scale-free so one model can serve every pair
+export const FEATURE_NAMES = ['trend', 'rsi', 'percentB', 'bandWidth', 'smaGap', 'emaGap', 'volatility', 'adx'];
+
+// Builds the feature vector from a bar's indicators. Returns null until every indicator has warmed up.
+export function extractFeatures(values: IndicatorValues | null | undefined): number[] | null {
+  if (!values || values.macd?.histogram == null || !values.atr14 || values.rsi14 === null || !values.bollinger
+    || values.sma20 === null || values.ema12 === null || !values.ema26 || values.adx14 === null) {
+    return null;
+  }
+  const { close, bollinger } = values;
+  return [
+    Math.tanh(values.macd.histogram / values.atr14),
+    (values.rsi14 - 50) / 50,
+    bollinger.percentB - 0.5,
+    (bollinger.upper - bollinger.lower) / bollinger.middle,
+    close / values.sma20 - 1,
+    values.ema12 / values.ema26 - 1,
+    values.atr14 / close,
+    values.adx14 / 100,
+  ];
+}
+
+// Standardized logistic regression: P(up) = sigmoid(bias + weights · (x - mean) / std)
+export interface LogisticModel {
+  weights: number[];
+  bias: number;
+  mean: number[];
+  std: number[];
+}
+
+export interface TrainingOptions {
+  horizon?: number; // Bars ahead whose close is predicted against the current close
+  folds?: number; // Walk-forward test windows
+  epochs?: number;
+  learningRate?: number;
+  l2?: number; // Weight decay; keeps the fit from chasing noise
+}
+
+export interface FoldMetrics {
+  trainSamples: number;
+  testSamples: number;
+  testFrom: number;
+  testTo: number;
+  accuracy: number;
+  logLoss: number;
+  baselineAccuracy: number; // Always predicting the training set's majority direction
+}
+
+export interface ValidationMetrics {
+  method: 'walk-forward';
+  folds: FoldMetrics[];
+  testSamples: number;
+  accuracy: number; // Over every out-of-sample prediction
+  logLoss: number;
+  baselineAccuracy: number;
+}
+
+// A model ready to be stored: parameters plus what it was trained on and how it validated
+export interface TrainedModel extends LogisticModel {
+  algorithm: 'logistic-regression';
+  features: string[];
+  timeframe: Timeframe;
+  horizon: number;
+  training: {
+    pairs: string[];
+    samples: number;
+    from: number;
+    to: number;
+    epochs: number;
+    learningRate: number;
+    l2: number;
+    accuracy: number; // In-sample, for comparison with the validation accuracy
+  };
+  validation: ValidationMetrics;
+}
+
+interface Sample {
+  timestamp: number;
+  labelTimestamp: number; // When the label became known; training samples must not overlap the test window
+  x: number[];
+  y: number; // 1 when the close `horizon` bars later is higher
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+export function predictProbability(model: LogisticModel, x: number[]): number {
+  let z = model.bias;
+  for (let i = 0; i < x.length; i++) {
+    z += model.weights[i] * (x[i] - model.mean[i]) / model.std[i];
+  }
+  return sigmoid(z);
+}
+
+// The bar size of the data, taken from the most common gap between consecutive candles
+function inferTimeframe(candles: Candle[]): Timeframe {
+  const gaps = new Map<number, number>();
+  const byPair = groupByPair(candles);
+  for (const series of byPair.values()) {
+    for (let i = 1; i < series.length; i++) {
+      const gap = series[i].timestamp - series[i - 1].timestamp;
+      gaps.set(gap, (gaps.get(gap) ?? 0) + 1);
+    }
+  }
+  const [gap] = Array.from(gaps.entries()).sort((a, b) => b[1] - a[1])[0] ?? [0];
+  const timeframe = (Object.keys(TIMEFRAMES) as Timeframe[]).find(tf => TIMEFRAMES[tf] === gap);
+  if (!timeframe) {
+    throw new Error(`Candles are ${gap / 1000}s apart; training needs ${Object.keys(TIMEFRAMES).join(', ')} bars`);
+  }
+  return timeframe;
+}
+
+function groupByPair(candles: Candle[]): Map<string, Candle[]> {
+  const byPair = new Map<string, Candle[]>();
+  for (const candle of candles) {
+    const series = byPair.get(candle.pair) ?? [];
+    series.push(candle);
+    byPair.set(candle.pair, series);
+  }
+  for (const series of byPair.values()) series.sort((a, b) => a.timestamp - b.timestamp);
+  return byPair;
+}
+
+// Runs each pair's bars through the same indicator set the live aggregator uses and labels
+// every warmed-up bar with the direction of the close `horizon` bars later. Sorted by time.
+function buildSamples(candles: Candle[], horizon: number): Sample[] {
+  const samples: Sample[] = [];
+  for (const series of groupByPair(candles).values()) {
+    const indicators = new IndicatorSet();
+    for (let i = 0; i < series.length - horizon; i++) {
+      const x = extractFeatures(indicators.update(series[i]));
+      if (!x) continue;
+      const future = series[i + horizon];
+      samples.push({ timestamp: series[i].timestamp, labelTimestamp: future.timestamp, x, y: future.close > series[i].close ? 1 : 0 });
+    }
+  }
+  return samples.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Batch gradient descent on standardized features, starting from zero so a run is reproducible
+function fitLogistic(samples: Sample[], epochs: number, learningRate: number, l2: number): LogisticModel {
+  const width = samples[0].x.length;
+  const mean = new Array(width).fill(0);
+  const std = new Array(width).fill(0);
+  for (const { x } of samples) x.forEach((v, i) => { mean[i] += v / samples.length; });
+  for (const { x } of samples) x.forEach((v, i) => { std[i] += (v - mean[i]) ** 2 / samples.length; });
+  for (let i = 0; i < width; i++) std[i] = Math.sqrt(std[i]) || 1;
+
+  const inputs = samples.map(({ x }) => x.map((v, i) => (v - mean[i]) / std[i]));
+  const weights = new Array(width).fill(0);
+  let bias = 0;
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = new Array(width).fill(0);
+    let biasGradient = 0;
+    for (let n = 0; n < inputs.length; n++) {
+      let z = bias;
+      for (let i = 0; i < width; i++) z += weights[i] * inputs[n][i];
+      const error = sigmoid(z) - samples[n].y;
+      for (let i = 0; i < width; i++) gradient[i] += error * inputs[n][i];
+      biasGradient += error;
+    }
+    for (let i = 0; i < width; i++) {
+      weights[i] -= learningRate * (gradient[i] / inputs.length + l2 * weights[i]);
+    }
+    bias -= learningRate * biasGradient / inputs.length;
+  }
+
+  return { weights, bias, mean, std };
+}
+
+function score(model: LogisticModel, samples: Sample[]): { accuracy: number, logLoss: number } {
+  let correct = 0;
+  let loss = 0;
+  for (const { x, y } of samples) {
+    const p = Math.min(1 - 1e-12, Math.max(1e-12, predictProbability(model, x)));
+    if ((p > 0.5 ? 1 : 0) === y) correct++;
+    loss -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+  }
+  return { accuracy: correct / samples.length, logLoss: loss / samples.length };
+}
+
+// Expanding-window walk-forward: the samples are cut into folds + 1 consecutive blocks, and each
+// block after the first is predicted by a model fitted only on what came before it
+function walkForward(samples: Sample[], folds: number, epochs: number, learningRate: number, l2: number): ValidationMetrics {
+  const blockSize = Math.floor(samples.length / (folds + 1));
+  const results: FoldMetrics[] = [];
+
+  for (let k = 1; k <= folds; k++) {
+    const test = samples.slice(k * blockSize, k === folds ? samples.length : (k + 1) * blockSize);
+    // Drop training samples whose label was only known once the test window had started
+    const train = samples.slice(0, k * blockSize).filter(sample => sample.labelTimestamp < test[0].timestamp);
+    if (train.length === 0 || test.length === 0) continue;
+
+    const model = fitLogistic(train, epochs, learningRate, l2);
+    const majority = train.filter(sample => sample.y === 1).length * 2 >= train.length ? 1 : 0;
+    results.push({
+      trainSamples: train.length,
+      testSamples: test.length,
+      testFrom: test[0].timestamp,
+      testTo: test[test.length - 1].timestamp,
+      ...score(model, test),
+      baselineAccuracy: test.filter(sample => sample.y === majority).length / test.length,
+    });
+  }
+
+  if (results.length === 0) {
+    throw new Error('Not enough samples for walk-forward validation');
+  }
+  const testSamples = results.reduce((sum, fold) => sum + fold.testSamples, 0);
+  const weighted = (field: 'accuracy' | 'logLoss' | 'baselineAccuracy') =>
+    results.reduce((sum, fold) => sum + fold[field] * fold.testSamples, 0) / testSamples;
+  return {
+    method: 'walk-forward',
+    folds: results,
+    testSamples,
+    accuracy: weighted('accuracy'),
+    logLoss: weighted('logLoss'),
+    baselineAccuracy: weighted('baselineAccuracy'),
+  };
+}
+
+// Validates walk-forward, then fits the stored model on every sample
+export function trainModel(candles: Candle[], options: TrainingOptions = {}): TrainedModel {
+  const horizon = options.horizon ?? 1;
+  const folds = options.folds ?? 5;
+  const epochs = options.epochs ?? 300;
+  const learningRate = options.learningRate ?? 0.1;
+  const l2 = options.l2 ?? 0.001;
+  if (!(Number.isInteger(horizon) && horizon >= 1)) throw new Error('horizon must be a positive integer');
+  if (!(Number.isInteger(folds) && folds >= 1)) throw new Error('folds must be a positive integer');
+  if (!(Number.isInteger(epochs) && epochs >= 1)) throw new Error('epochs must be a positive integer');
+  if (!(learningRate > 0)) throw new Error('learningRate must be positive');
+  if (!(l2 >= 0)) throw new Error('l2 must be non-negative');
+
+  const timeframe = inferTimeframe(candles);
+  const samples = buildSamples(candles, horizon);
+  const minimum = (folds + 1) * 20;
+  if (samples.length < minimum) {
+    throw new Error(`Only ${samples.length} usable samples after indicator warm-up; ${folds} folds need at least ${minimum}`);
+  }
+
+  const validation = walkForward(samples, folds, epochs, learningRate, l2);
+  const model = fitLogistic(samples, epochs, learningRate, l2);
+  return {
+    algorithm: 'logistic-regression',
+    features: FEATURE_NAMES,
+    timeframe,
+    horizon,
+    ...model,
+    training: {
+      pairs: Array.from(new Set(candles.map(candle => candle.pair))).sort(),
+      samples: samples.length,
+      from: samples[0].timestamp,
+      to: samples[samples.length - 1].timestamp,
+      epochs,
+      learningRate,
+      l2,
+      accuracy: score(model, samples).accuracy,
+    },
+    validation,
+  };
+}
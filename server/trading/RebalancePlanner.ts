@@ -0,0 +1,188 @@
+import type { PreTradeLimits, RebalancePolicy } from './ConfigManager.js';
+
+export type RebalanceTrigger = 'threshold' | 'calendar' | 'manual';
+
+// A trade already on its way that moves a pair's weight: a working strategy order or a signal
+// raised this tick
+export interface PendingTrade {
+  pair: string;
+  side: 'BUY' | 'SELL';
+  amount: number;
+  source: string;
+}
+
+export interface PlannedTrade {
+  pair: string;
+  side: 'BUY' | 'SELL';
+  amount: number;
+  price: number;
+  notional: number;
+  drift: number; // Weight minus target before the trade
+  estimatedCost: number; // Fees plus crossing the spread, in quote currency
+  partial: boolean; // Cut short by the cash available
+  slices: number; // Orders the trade goes out as, each under the maximum order notional
+}
+
+export interface SkippedPair {
+  pair: string;
+  drift: number;
+  reason: string;
+}
+
+export interface RebalancePlan {
+  id: string;
+  createdAt: number;
+  trigger: RebalanceTrigger;
+  requestedBy: string | null;
+  equity: number;
+  cash: { before: number, after: number }; // Available cash, before and estimated after the trades
+  before: Record<string, number>; // Weights as fractions of equity
+  target: Record<string, number>;
+  after: Record<string, number>; // Estimated weights once the trades fill
+  trades: PlannedTrade[]; // Sells first, so their proceeds fund the buys
+  skipped: SkippedPair[];
+  estimatedCost: number;
+}
+
+export interface RebalanceInput {
+  trigger: RebalanceTrigger;
+  requestedBy?: string | null;
+  now: number;
+  bandsOnly: boolean; // Trade only pairs outside their band; otherwise every pair with drift goes back to target
+  absoluteBand: number; // Default absolute band (risk.rebalanceThreshold)
+  equity: number;
+  cash: number; // Cash free for buys
+  targets: Record<string, number>;
+  prices: Record<string, number>;
+  amounts: Record<string, number>; // Position sizes
+  sellable: Record<string, number>; // Amounts not held by working orders
+  blocked: Record<string, string>; // Pairs rebalancing must leave alone, with the reason
+  pending: PendingTrade[];
+  limits: PreTradeLimits; // Buys are sized to pass the pre-trade checks
+  estimateCost: (pair: string, side: 'BUY' | 'SELL', amount: number) => number;
+}
+
+const BUY_HEADROOM = 1.02; // Market buys hold a little over their quoted value, and the pre-trade checks price them at the ask
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1).replace(/\.0$/, '')}%`;
+
+// Whether a pair's drift from target leaves its band. The band is crossed when the drift exceeds
+// the absolute band (a fraction of equity) or, when set, the relative band (a fraction of the target).
+export function outsideBand(policy: RebalancePolicy, absoluteBand: number, pair: string, drift: number, target: number): boolean {
+  const band = policy.pairBands[pair] ?? {};
+  const absolute = band.absolute ?? absoluteBand;
+  const relative = band.relative ?? policy.relativeBand;
+  return Math.abs(drift) > absolute || (relative > 0 && target > 0 && Math.abs(drift) > relative * target);
+}
+
+// Works out the trades that bring the portfolio back to its targets under a rebalancing policy.
+// Trades below the minimum notional are dropped, pending trades in the same direction count toward
+// the move, and when cash runs short the buys for the largest deviations are funded first. Buys stop
+// at the per-asset exposure cap and are split into orders under the maximum order notional; sells
+// only reduce positions, which the pre-trade checks let through.
+export function planRebalance(policy: RebalancePolicy, input: RebalanceInput, id: string): RebalancePlan {
+  const { equity, prices, amounts, targets } = input;
+  const weight = (pair: string, amount: number) => equity > 0 ? amount * prices[pair] / equity : 0;
+  const before: Record<string, number> = {};
+  const skipped: SkippedPair[] = [];
+  const sells: PlannedTrade[] = [];
+  const buys: PlannedTrade[] = [];
+
+  for (const [pair, target] of Object.entries(targets)) {
+    const price = prices[pair];
+    if (!price) continue;
+    const amount = amounts[pair] ?? 0;
+    before[pair] = weight(pair, amount);
+    const drift = before[pair] - target;
+
+    // Targets are net long allocations: pairs a strategy is short are left to their own exits
+    if (amount < 0) continue;
+    if (input.bandsOnly ? !outsideBand(policy, input.absoluteBand, pair, drift, target) : Math.abs(drift) < 1e-9) continue;
+    if (input.blocked[pair]) {
+      skipped.push({ pair, drift, reason: input.blocked[pair] });
+      continue;
+    }
+
+    const side = drift > 0 ? 'SELL' : 'BUY';
+    let size = Math.abs(drift) * equity / price;
+    if (policy.netPendingSignals) {
+      const pending = input.pending.filter(trade => trade.pair === pair && trade.side === side);
+      const covered = pending.reduce((sum, trade) => sum + trade.amount, 0);
+      if (covered >= size) {
+        skipped.push({ pair, drift, reason: `covered by pending ${[...new Set(pending.map(trade => trade.source))].join(', ')} ${side.toLowerCase()}s` });
+        continue;
+      }
+      size -= covered;
+    }
+    if (side === 'SELL') size = Math.min(size, input.sellable[pair] ?? 0);
+
+    let capped = false;
+    if (side === 'BUY') {
+      const room = input.limits.maxAssetExposure * equity / (price * BUY_HEADROOM) - amount;
+      if (room < size) {
+        size = Math.max(0, room);
+        capped = true;
+      }
+    }
+    const cap = `${percent(input.limits.maxAssetExposure)} per-asset exposure cap`;
+
+    if (size * price < policy.minTradeNotional || size <= 0) {
+      const reason = capped ? `at the ${cap}` : size <= 0 ? 'nothing free to sell' : `below the $${policy.minTradeNotional} minimum trade`;
+      skipped.push({ pair, drift, reason });
+      continue;
+    }
+    if (capped) skipped.push({ pair, drift, reason: `buy cut short at the ${cap}` });
+    const trade: PlannedTrade = { pair, side, amount: size, price, notional: size * price, drift, estimatedCost: 0, partial: false, slices: 1 };
+    if (side === 'SELL') sells.push(trade);
+    else buys.push(trade);
+  }
+
+  // Sells go first; their proceeds, net of costs, join the cash for buys
+  let cash = input.cash;
+  for (const trade of sells) {
+    trade.estimatedCost = input.estimateCost(trade.pair, 'SELL', trade.amount);
+    cash += trade.notional - trade.estimatedCost;
+  }
+
+  const funded: PlannedTrade[] = [];
+  buys.sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+  for (const trade of buys) {
+    const affordable = Math.max(0, cash / BUY_HEADROOM);
+    if (affordable < policy.minTradeNotional) {
+      skipped.push({ pair: trade.pair, drift: trade.drift, reason: 'not enough cash' });
+      continue;
+    }
+    if (trade.notional > affordable) {
+      trade.amount = affordable / trade.price;
+      trade.notional = affordable;
+      trade.partial = true;
+    }
+    trade.slices = Math.max(1, Math.ceil(trade.notional * BUY_HEADROOM / input.limits.maxOrderNotional));
+    trade.estimatedCost = input.estimateCost(trade.pair, 'BUY', trade.amount);
+    cash -= trade.notional + trade.estimatedCost;
+    funded.push(trade);
+  }
+
+  const trades = [...sells, ...funded];
+  const estimatedCost = trades.reduce((sum, trade) => sum + trade.estimatedCost, 0);
+  const after: Record<string, number> = {};
+  for (const pair of Object.keys(before)) {
+    const traded = trades.filter(trade => trade.pair === pair).reduce((sum, trade) => sum + (trade.side === 'BUY' ? trade.amount : -trade.amount), 0);
+    after[pair] = weight(pair, (amounts[pair] ?? 0) + traded) * equity / Math.max(equity - estimatedCost, 1e-9);
+  }
+
+  return {
+    id,
+    createdAt: input.now,
+    trigger: input.trigger,
+    requestedBy: input.requestedBy ?? null,
+    equity,
+    cash: { before: input.cash, after: cash },
+    before,
+    target: { ...targets },
+    after,
+    trades,
+    skipped,
+    estimatedCost,
+  };
+}
@@ -0,0 +1,168 @@
+import type { CandleAggregator, Timeframe } from './CandleAggregator.js';
+import type { Signal } from './MLPredictor.js';
+
+export type TrendRegime = 'TRENDING' | 'RANGING' | 'UNKNOWN';
+export type VolatilityRegime = 'LOW' | 'HIGH' | 'UNKNOWN';
+
+export interface MarketRegime {
+  trend: TrendRegime;
+  volatility: VolatilityRegime;
+  adx: number | null;
+  realizedVolatility: number | null; // Stdev of bar log returns over the short window
+  volatilityRatio: number | null; // Short-window volatility over the long-window baseline
+  updatedAt: number | null; // Open time of the last bar included
+}
+
+export interface RegimePolicy {
+  // Size multiplier per strategy and trend regime; 0 suppresses the strategy's signals.
+  // Strategies or regimes without an entry trade at full size.
+  strategyWeights: Record<string, Partial<Record<TrendRegime, number>>>;
+  volatilityScale: Record<VolatilityRegime, number>; // Size multiplier by volatility regime
+  confidenceBoost: Record<VolatilityRegime, number>; // Added to a strategy's minConfidence
+}
+
+export const DEFAULT_REGIME_POLICY: RegimePolicy = {
+  strategyWeights: {
+    'momentum': { TRENDING: 1, RANGING: 0 },
+    'mean-reversion': { TRENDING: 0, RANGING: 1 },
+    'ml-sentiment': { TRENDING: 1, RANGING: 0.75 },
+  },
+  volatilityScale: { LOW: 1, HIGH: 0.5, UNKNOWN: 1 },
+  confidenceBoost: { LOW: 0, HIGH: 0.05, UNKNOWN: 0 },
+};
+
+export interface RegimeDetectorOptions {
+  timeframe?: Timeframe;
+  trendingAdx?: number; // ADX at or above which a ranging pair turns trending
+  rangingAdx?: number; // ADX at or below which a trending pair turns ranging
+  shortWindow?: number; // Bars in the realized volatility window
+  longWindow?: number; // Bars in the baseline volatility window
+  highVolatilityRatio?: number; // Ratio at or above which volatility turns high
+  lowVolatilityRatio?: number; // Ratio at or below which volatility turns low
+  policy?: Partial<RegimePolicy>;
+}
+
+export interface RegimeAssessment {
+  regime: MarketRegime;
+  sizeMultiplier: number; // 0 when the signal is suppressed
+}
+
+const UNKNOWN_REGIME: MarketRegime = {
+  trend: 'UNKNOWN',
+  volatility: 'UNKNOWN',
+  adx: null,
+  realizedVolatility: null,
+  volatilityRatio: null,
+  updatedAt: null,
+};
+
+function stdDev(values: number[]): number {
+  const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+}
+
+// Classifies each pair from its closed bars: ADX separates trending from ranging markets and
+// short- vs long-window realized volatility separates calm from turbulent ones. Both use
+// hysteresis bands so a pair doesn't flip regime on every bar near a threshold.
+export class RegimeDetector {
+  private timeframe: Timeframe;
+  private trendingAdx: number;
+  private rangingAdx: number;
+  private shortWindow: number;
+  private longWindow: number;
+  private highVolatilityRatio: number;
+  private lowVolatilityRatio: number;
+  private policy: RegimePolicy;
+  private regimes: Record<string, MarketRegime> = {};
+
+  constructor(options: RegimeDetectorOptions = {}) {
+    this.timeframe = options.timeframe ?? '1m';
+    this.trendingAdx = options.trendingAdx ?? 25;
+    this.rangingAdx = options.rangingAdx ?? 20;
+    this.shortWindow = options.shortWindow ?? 20;
+    this.longWindow = options.longWindow ?? 200;
+    this.highVolatilityRatio = options.highVolatilityRatio ?? 1.25;
+    this.lowVolatilityRatio = options.lowVolatilityRatio ?? 1.0;
+    this.policy = {
+      strategyWeights: { ...DEFAULT_REGIME_POLICY.strategyWeights, ...options.policy?.strategyWeights },
+      volatilityScale: { ...DEFAULT_REGIME_POLICY.volatilityScale, ...options.policy?.volatilityScale },
+      confidenceBoost: { ...DEFAULT_REGIME_POLICY.confidenceBoost, ...options.policy?.confidenceBoost },
+    };
+
+    if (this.rangingAdx > this.trendingAdx) {
+      throw new Error('rangingAdx must not exceed trendingAdx');
+    }
+    if (this.lowVolatilityRatio > this.highVolatilityRatio) {
+      throw new Error('lowVolatilityRatio must not exceed highVolatilityRatio');
+    }
+  }
+
+  public getPolicy(): RegimePolicy {
+    return this.policy;
+  }
+
+  public getRegime(pair: string): MarketRegime {
+    return this.regimes[pair] ?? UNKNOWN_REGIME;
+  }
+
+  public getRegimes(): Record<string, MarketRegime> {
+    return this.regimes;
+  }
+
+  // Re-classifies pairs whose latest bar has closed since the last update
+  public update(candles: CandleAggregator) {
+    for (const pair of candles.getPairs()) {
+      const indicators = candles.getIndicators(pair, this.timeframe);
+      if (!indicators) continue;
+      const previous = this.getRegime(pair);
+      if (previous.updatedAt === indicators.timestamp) continue;
+
+      // getCandles includes the in-progress bar; only closed bars count
+      const closes = candles.getCandles(pair, this.timeframe, this.longWindow + 2)
+        .filter(bar => bar.timestamp <= indicators.timestamp)
+        .map(bar => bar.close);
+      const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]));
+
+      const realizedVolatility = returns.length >= this.shortWindow ? stdDev(returns.slice(-this.shortWindow)) : null;
+      const baseline = returns.length >= Math.min(this.longWindow, this.shortWindow * 3) ? stdDev(returns) : null;
+      const volatilityRatio = realizedVolatility !== null && baseline ? realizedVolatility / baseline : null;
+
+      this.regimes[pair] = {
+        trend: this.classifyTrend(previous.trend, indicators.adx14),
+        volatility: this.classifyVolatility(previous.volatility, volatilityRatio),
+        adx: indicators.adx14,
+        realizedVolatility,
+        volatilityRatio,
+        updatedAt: indicators.timestamp,
+      };
+    }
+  }
+
+  private classifyTrend(previous: TrendRegime, adx: number | null): TrendRegime {
+    if (adx === null) return 'UNKNOWN';
+    if (adx >= this.trendingAdx) return 'TRENDING';
+    if (adx <= this.rangingAdx) return 'RANGING';
+    return previous === 'UNKNOWN' ? 'RANGING' : previous;
+  }
+
+  private classifyVolatility(previous: VolatilityRegime, ratio: number | null): VolatilityRegime {
+    if (ratio === null) return 'UNKNOWN';
+    if (ratio >= this.highVolatilityRatio) return 'HIGH';
+    if (ratio <= this.lowVolatilityRatio) return 'LOW';
+    return previous === 'UNKNOWN' ? 'LOW' : previous;
+  }
+
+  // Applies the policy to a strategy's signal: suppresses it, or returns the position-size multiplier
+  public assess(signal: Signal, minConfidence: number): RegimeAssessment {
+    const regime = this.getRegime(signal.pair);
+    const strategy = signal.strategy ?? '';
+
+    const weight = this.policy.strategyWeights[strategy]?.[regime.trend] ?? 1;
+    const threshold = minConfidence + this.policy.confidenceBoost[regime.volatility];
+    if (weight <= 0 || signal.confidence <= threshold) {
+      return { regime, sizeMultiplier: 0 };
+    }
+
+    return { regime, sizeMultiplier: weight * this.policy.volatilityScale[regime.volatility] };
+  }
+}
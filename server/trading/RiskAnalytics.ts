@@ -0,0 +1,383 @@
+import type { Candle } from './HistoricalData.js';
+import type { AlertManager } from './AlertManager.js';
+import type { ValueAtRiskSettings } from './ConfigManager.js';
+import { alignReturns, estimateCovariance } from './PortfolioOptimizer.js';
+
+export const VAR_METHODS = ['historical', 'parametric', 'monte-carlo'] as const;
+export type VaRMethod = typeof VAR_METHODS[number];
+
+export interface VaREstimate {
+  method: VaRMethod;
+  confidence: number;
+  horizonHours: number;
+  valueAtRisk: number; // Loss not exceeded at the confidence level, in quote currency
+  expectedShortfall: number; // Mean loss beyond the VaR
+}
+
+export interface StressScenario {
+  name: string;
+  description: string;
+  shocks: Record<string, number>; // Price change per pair, as a fraction
+}
+
+export interface StressResult extends StressScenario {
+  pnl: number; // Portfolio PnL under the shocks, in quote currency
+  pnlPct: number; // As a fraction of equity
+  byPair: Record<string, number>;
+}
+
+export interface RiskReport {
+  computedAt: number;
+  equity: number;
+  exposures: Record<string, number>; // Position value per pair; shorts are negative
+  returns: number; // Hourly returns behind the estimates
+  from: number | null;
+  to: number | null;
+  estimates: VaREstimate[];
+  stress: StressResult[];
+  alertLimit: number | null; // VaR that raises an alert, in quote currency
+  breach: VaREstimate | null; // Worst estimate past alertLimit at the highest confidence and longest horizon
+  error: string | null; // Why VaR couldn't be estimated; the stress tests still run
+}
+
+export interface VaROptions {
+  confidenceLevels: number[];
+  horizonsHours: number[];
+  simulations: number;
+  seed?: number;
+}
+
+const MIN_WINDOWS = 20; // Historical outcomes needed per horizon
+const MIN_DAY_BARS = 20; // Hourly bars a pair needs in a day for the day to be replayed
+const DAY_MS = 24 * 60 * 60_000;
+
+// Inverse of the standard normal CDF (Acklam's rational approximation, relative error below 1.2e-9)
+export function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  if (!(p > 0 && p < 1)) throw new Error(`Probability must be in (0, 1): ${p}`);
+
+  const low = 0.02425;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+const normalDensity = (x: number) => Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+
+// Seeded so two requests on the same positions and history give the same Monte Carlo figures
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Lower-triangular L with LLᵀ = matrix; pivots that round below zero are clamped, which keeps
+// near-singular covariances (pairs moving in lockstep) usable
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) lower[i][i] = Math.sqrt(Math.max(sum, 0));
+      else lower[i][j] = lower[j][j] > 0 ? sum / lower[j][j] : 0;
+    }
+  }
+  return lower;
+}
+
+// Loss at the confidence level and the mean loss beyond it, from a sample of PnL outcomes
+function tailLoss(pnl: number[], confidence: number): { valueAtRisk: number, expectedShortfall: number } {
+  const sorted = [...pnl].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.floor((1 - confidence) * sorted.length));
+  const tail = sorted.slice(0, index + 1);
+  return {
+    valueAtRisk: Math.max(0, -sorted[index]),
+    expectedShortfall: Math.max(0, -tail.reduce((sum, value) => sum + value, 0) / tail.length),
+  };
+}
+
+// VaR and expected shortfall of positions worth exposures (signed, in quote currency), three ways.
+// Historical revalues the positions over every window of past hourly returns as long as the horizon.
+// Parametric treats PnL as normal with the sample mean and covariance. Monte Carlo draws correlated
+// normal returns and revalues the positions, so it keeps the convexity a linear model drops.
+export function estimateVaR(exposures: Record<string, number>, history: Record<string, Candle[]>, options: VaROptions): { estimates: VaREstimate[], returns: number, from: number | null, to: number | null } {
+  const pairs = Object.keys(exposures).filter(pair => exposures[pair] !== 0);
+  if (pairs.length === 0) {
+    const estimates = options.horizonsHours.flatMap(horizonHours => options.confidenceLevels.flatMap(confidence =>
+      VAR_METHODS.map(method => ({ method, confidence, horizonHours, valueAtRisk: 0, expectedShortfall: 0 }))));
+    return { estimates, returns: 0, from: null, to: null };
+  }
+
+  const window = alignReturns(pairs, history);
+  const values = pairs.map(pair => exposures[pair]);
+  const { mean, covariance } = estimateCovariance(window.returns);
+  const lower = cholesky(covariance);
+  const n = window.returns[0].length;
+  const random = seededRandom(options.seed ?? 1);
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  const revalue = (returns: number[]) => returns.reduce((sum, r, i) => sum + values[i] * (Math.exp(r) - 1), 0);
+  const pnlVariance = values.reduce((sum, value, i) => sum + value * covariance[i].reduce((acc, cov, j) => acc + cov * values[j], 0), 0);
+  const pnlMean = values.reduce((sum, value, i) => sum + value * mean[i], 0);
+
+  const estimates: VaREstimate[] = [];
+  for (const horizon of options.horizonsHours) {
+    if (n - horizon + 1 < MIN_WINDOWS) {
+      throw new Error(`Not enough price history for a ${horizon}h horizon: ${n} hourly returns, need ${horizon + MIN_WINDOWS - 1}`);
+    }
+
+    const historical: number[] = [];
+    for (let t = 0; t + horizon <= n; t++) {
+      historical.push(revalue(window.returns.map(series => series.slice(t, t + horizon).reduce((sum, r) => sum + r, 0))));
+    }
+
+    const simulated: number[] = [];
+    for (let s = 0; s < options.simulations; s++) {
+      const z = pairs.map(gaussian);
+      simulated.push(revalue(lower.map((row, i) => mean[i] * horizon + Math.sqrt(horizon) * row.reduce((sum, l, k) => sum + l * z[k], 0))));
+    }
+
+    const mu = pnlMean * horizon;
+    const sigma = Math.sqrt(pnlVariance * horizon);
+    for (const confidence of options.confidenceLevels) {
+      const z = normalQuantile(confidence);
+      estimates.push(
+        { method: 'historical', confidence, horizonHours: horizon, ...tailLoss(historical, confidence) },
+        {
+          method: 'parametric',
+          confidence,
+          horizonHours: horizon,
+          valueAtRisk: Math.max(0, z * sigma - mu),
+          expectedShortfall: Math.max(0, sigma * normalDensity(z) / (1 - confidence) - mu),
+        },
+        { method: 'monte-carlo', confidence, horizonHours: horizon, ...tailLoss(simulated, confidence) },
+      );
+    }
+  }
+  return { estimates, returns: n, from: window.from, to: window.to };
+}
+
+const baseAsset = (pair: string) => pair.split('/')[0];
+
+// Shocks keyed by pair ("ETH/USDT") or base asset ("ETH"); a pair's own key wins
+export function resolveShocks(pairs: string[], shocks: Record<string, number>): Record<string, number> {
+  if (!shocks || typeof shocks !== 'object' || Array.isArray(shocks)) {
+    throw new Error('shocks must be an object of pair or asset -> price change');
+  }
+  for (const [key, shock] of Object.entries(shocks)) {
+    if (typeof shock !== 'number' || !Number.isFinite(shock) || shock < -1) throw new Error(`Shock for ${key} must be a price change of -1 or more`);
+  }
+  const resolved: Record<string, number> = {};
+  for (const pair of pairs) {
+    const shock = shocks[pair] ?? shocks[baseAsset(pair)];
+    if (shock !== undefined) resolved[pair] = shock;
+  }
+  return resolved;
+}
+
+export function runScenario(scenario: StressScenario, exposures: Record<string, number>, equity: number): StressResult {
+  const byPair: Record<string, number> = {};
+  for (const [pair, value] of Object.entries(exposures)) {
+    byPair[pair] = value * (scenario.shocks[pair] ?? 0);
+  }
+  const pnl = Object.values(byPair).reduce((sum, value) => sum + value, 0);
+  return { ...scenario, pnl, pnlPct: equity > 0 ? pnl / equity : 0, byPair };
+}
+
+// Each pair's move from the first open to the last close of every UTC day, for days where the
+// pair has most of its hourly bars
+function dailyMoves(bars: Candle[]): Map<number, Record<string, number>> {
+  const groups = new Map<string, Candle[]>();
+  for (const bar of bars) {
+    const key = `${bar.timestamp - bar.timestamp % DAY_MS}|${bar.pair}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(bar);
+  }
+  const days = new Map<number, Record<string, number>>();
+  for (const [key, group] of groups) {
+    if (group.length < MIN_DAY_BARS) continue;
+    const [day, pair] = key.split('|');
+    group.sort((a, b) => a.timestamp - b.timestamp);
+    const moves = days.get(Number(day)) ?? {};
+    moves[pair] = group[group.length - 1].close / group[0].open - 1;
+    days.set(Number(day), moves);
+  }
+  return days;
+}
+
+const isoDay = (day: number) => new Date(day).toISOString().slice(0, 10);
+
+// The built-in scenarios: a BTC crash, an altcoin crash, every pair falling at once by its own
+// tail move as if all correlations were one, and a replay of a stored day
+export function standardScenarios(
+  exposures: Record<string, number>,
+  history: Record<string, Candle[]>,
+  tail: { confidence: number, horizonHours: number },
+  replay: { day: number, bars: Candle[] } | null,
+): StressScenario[] {
+  const pairs = Object.keys(exposures);
+  const scenarios: StressScenario[] = [
+    { name: 'btc-crash', description: 'BTC falls 30%', shocks: resolveShocks(pairs, { BTC: -0.3 }) },
+    {
+      name: 'alt-crash',
+      description: 'Every asset other than BTC falls 50%',
+      shocks: Object.fromEntries(pairs.filter(pair => baseAsset(pair) !== 'BTC').map(pair => [pair, -0.5])),
+    },
+  ];
+
+  // Each pair's own volatility, from its own bars, so one short series doesn't hold back the rest
+  const z = normalQuantile(tail.confidence);
+  const correlated: Record<string, number> = {};
+  for (const pair of pairs) {
+    const closes = (history[pair] ?? []).map(candle => candle.close).filter(close => close > 0);
+    if (closes.length < MIN_WINDOWS + 1) continue;
+    const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]));
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const sd = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1));
+    correlated[pair] = Math.exp(-z * sd * Math.sqrt(tail.horizonHours)) - 1;
+  }
+  scenarios.push({
+    name: 'correlation-one',
+    description: `Every pair falls at once by its own ${(tail.confidence * 100).toFixed(1).replace(/\.0$/, '')}% ${tail.horizonHours}h move, as if all correlations were one`,
+    shocks: correlated,
+  });
+
+  if (replay) {
+    const moves = dailyMoves(replay.bars).get(replay.day);
+    if (!moves) throw new Error(`No stored hourly bars for ${isoDay(replay.day)}`);
+    scenarios.push({ name: `replay-${isoDay(replay.day)}`, description: `Price moves of ${isoDay(replay.day)} (UTC), first open to last close`, shocks: resolveShocks(pairs, moves) });
+  } else {
+    // The stored day in the window that would have hurt the current positions most
+    let worst: { day: number, moves: Record<string, number>, pnl: number } | null = null;
+    for (const [day, moves] of dailyMoves(pairs.flatMap(pair => history[pair] ?? []))) {
+      if (!pairs.every(pair => pair in moves)) continue;
+      const pnl = pairs.reduce((sum, pair) => sum + exposures[pair] * moves[pair], 0);
+      if (!worst || pnl < worst.pnl) worst = { day, moves, pnl };
+    }
+    if (worst) {
+      scenarios.push({ name: `replay-${isoDay(worst.day)}`, description: `Replay of ${isoDay(worst.day)} (UTC), the worst stored day for the current positions`, shocks: worst.moves });
+    }
+  }
+  return scenarios;
+}
+
+export interface RiskReportOptions {
+  confidenceLevels?: number[];
+  horizonsHours?: number[];
+  replayDate?: string; // YYYY-MM-DD; the worst day in the lookback window when omitted
+}
+
+export interface RiskMonitorOptions {
+  settings: () => ValueAtRiskSettings;
+  positions: () => { equity: number, exposures: Record<string, number> };
+  history: (pair: string, limit: number) => Candle[]; // Hourly bars, oldest first
+  storedBars?: (since: number, until: number) => Candle[]; // Hourly bars of any stored day, for replays
+  alertManager?: AlertManager | null;
+  clock?: () => number;
+}
+
+// Tail risk of the current positions on request, and a periodic check of VaR against the alert
+// limit in the valueAtRisk config
+export class RiskMonitor {
+  private settings: () => ValueAtRiskSettings;
+  private positions: () => { equity: number, exposures: Record<string, number> };
+  private history: (pair: string, limit: number) => Candle[];
+  private storedBars: (since: number, until: number) => Candle[];
+  private alertManager: AlertManager | null;
+  private clock: () => number;
+  private lastCheckAt: number | null = null;
+
+  constructor(options: RiskMonitorOptions) {
+    this.settings = options.settings;
+    this.positions = options.positions;
+    this.history = options.history;
+    this.storedBars = options.storedBars ?? (() => []);
+    this.alertManager = options.alertManager ?? null;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  public report(options: RiskReportOptions = {}): RiskReport {
+    const settings = this.settings();
+    const confidenceLevels = options.confidenceLevels ?? settings.confidenceLevels;
+    const horizonsHours = options.horizonsHours ?? settings.horizonsHours;
+    if (confidenceLevels.length === 0 || !confidenceLevels.every(level => level >= 0.5 && level < 1)) {
+      throw new Error('Confidence levels must be in [0.5, 1)');
+    }
+    if (horizonsHours.length === 0 || !horizonsHours.every(hours => Number.isInteger(hours) && hours >= 1)) {
+      throw new Error('Horizons must be whole hours');
+    }
+    let replay: { day: number, bars: Candle[] } | null = null;
+    if (options.replayDate !== undefined) {
+      const day = Date.parse(`${options.replayDate}T00:00:00Z`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(options.replayDate) || Number.isNaN(day)) {
+        throw new Error(`Invalid replay date: ${options.replayDate} (expected YYYY-MM-DD)`);
+      }
+      replay = { day, bars: this.storedBars(day, day + DAY_MS) };
+    }
+
+    const { equity, exposures } = this.positions();
+    const history: Record<string, Candle[]> = {};
+    for (const pair of Object.keys(exposures)) history[pair] = this.history(pair, settings.lookbackBars + 1);
+
+    let result: ReturnType<typeof estimateVaR> = { estimates: [], returns: 0, from: null, to: null };
+    let error: string | null = null;
+    try {
+      result = estimateVaR(exposures, history, { confidenceLevels, horizonsHours, simulations: settings.simulations });
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const tail = { confidence: Math.max(...confidenceLevels), horizonHours: Math.max(...horizonsHours) };
+    const stress = standardScenarios(exposures, history, tail, replay).map(scenario => runScenario(scenario, exposures, equity));
+
+    const alertLimit = settings.alertLimit > 0 ? settings.alertLimit * Math.max(0, equity) : null;
+    const breach = alertLimit === null ? null : result.estimates
+      .filter(estimate => estimate.confidence === tail.confidence && estimate.horizonHours === tail.horizonHours && estimate.valueAtRisk > alertLimit)
+      .sort((a, b) => b.valueAtRisk - a.valueAtRisk)[0] ?? null;
+
+    return { computedAt: this.clock(), equity, exposures, ...result, stress, alertLimit, breach, error };
+  }
+
+  // Scenario of your own: shocks keyed by pair or base asset, e.g. { "BTC": -0.2, "SOL/USDT": -0.4 }
+  public stress(shocks: Record<string, number>, name: string = 'custom'): StressResult {
+    const { equity, exposures } = this.positions();
+    const resolved = resolveShocks(Object.keys(exposures), shocks);
+    const description = Object.entries(shocks).map(([key, shock]) => `${key} ${shock >= 0 ? '+' : ''}${(shock * 100).toFixed(1)}%`).join(', ');
+    return runScenario({ name, description, shocks: resolved }, exposures, equity);
+  }
+
+  // Runs once per checkIntervalMs while an alert limit is set. A breach raises one keyed alert,
+  // which resolves once VaR is back under the limit.
+  public check() {
+    const settings = this.settings();
+    if (settings.alertLimit <= 0 || !this.alertManager) return;
+    const now = this.clock();
+    if (this.lastCheckAt !== null && now - this.lastCheckAt < settings.checkIntervalMs) return;
+    this.lastCheckAt = now;
+
+    const report = this.report();
+    if (report.breach) {
+      const { method, confidence, horizonHours, valueAtRisk } = report.breach;
+      this.alertManager.sendAlert('RISK', `${horizonHours}h ${(confidence * 100).toFixed(1).replace(/\.0$/, '')}% ${method} VaR of $${valueAtRisk.toFixed(2)} is above the $${report.alertLimit!.toFixed(2)} limit (${(settings.alertLimit * 100).toFixed(1)}% of equity)`, 'WARNING', {
+        key: 'var-breach',
+        cooldownMs: settings.checkIntervalMs * 4,
+      });
+    } else if (!report.error) {
+      this.alertManager.resolveKey('var-breach');
+    }
+  }
+}
@@ -1,110 +1,483 @@
 import { AlertManager } from './AlertManager.js';
+import { DEFAULT_CONFIG, RiskLimits } from './ConfigManager.js';
+
+export interface TrailingStopConfig {
+  type: 'PERCENT' | 'ATR';
+  distance: number; // Fraction of the peak for PERCENT, ATR multiples for ATR
+}
+
+export interface Position {
+  amount: number; // Negative for shorts (margin mode only)
+  avgEntryPrice: number;
+  leverage: number;
+  // Derived from the entry and leverage, refreshed every tick
+  margin: number; // Initial margin backing the position
+  liquidationPrice: number | null; // null when the position can't be liquidated (unlevered long)
+  // Exit rules, relative to the average entry price; null disables the rule
+  stopLossPct: number | null;
+  takeProfitPct: number | null;
+  trailing: (TrailingStopConfig & { peak: number }) | null;
+  // Price levels derived from the rules, refreshed every tick
+  stopLoss: number | null;
+  takeProfit: number | null;
+  trailingStop: number | null;
+}
+
+export interface PositionExitConfig {
+  stopLossPct?: number | null;
+  takeProfitPct?: number | null;
+  trailing?: TrailingStopConfig | null;
+}
+
+export type ExitReason = 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP';
+
+export interface MarginConfig {
+  enabled: boolean; // Allows shorts and leverage; spot mode keeps positions long and fully funded
+  defaultLeverage: number;
+  leverage: Record<string, number>; // Per-pair overrides of defaultLeverage
+  maintenanceMarginRate: number; // Fraction of position notional that must stay covered
+  borrowRate: number; // Annual rate charged on short notional
+  cashBorrowRate: number; // Annual rate charged on a negative cash balance (levered longs)
+  maxGrossLeverage: number; // Cap on gross exposure as a multiple of equity
+}
+
+export interface MarginStatus {
+  enabled: boolean;
+  equity: number;
+  usedMargin: number;
+  reservedMargin: number;
+  freeMargin: number;
+  maintenanceMargin: number;
+  grossExposure: number;
+  netExposure: number;
+  leverage: Record<string, number>;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60_000;
+const DRAWDOWN_WARNING_COOLDOWN_MS = 15 * 60_000; // Drawdown hovering around the warning level reopens one alert
 
 export interface Portfolio {
   balance: number;
   initialBalance: number;
-  positions: Record<string, { amount: number; avgEntryPrice: number }>;
+  positions: Record<string, Position>;
   pnl: number;
   drawdown: number;
   maxDrawdown: number;
+  drawdownBaseline: number | null; // Kill switch high-water mark since its last re-arm; null while it follows drawdown
   winRate: number;
   sharpeRatio: number;
   totalTrades: number;
   winningTrades: number;
+  totalFees: number; // Trading fees paid since inception, in quote currency
+  totalFinancing: number; // Borrow and margin interest paid since inception
+  grossExposure: number; // Sum of |position value| as a fraction of equity
+  netExposure: number; // Longs minus shorts as a fraction of equity
   targetAllocations: Record<string, number>;
 }
 
 export class RiskManager {
-  private portfolio: Portfolio = {
-    balance: 100000, // $100k initial paper trading balance
-    initialBalance: 100000,
-    positions: {},
-    pnl: 0,
-    drawdown: 0,
-    maxDrawdown: 0,
-    winRate: 0,
-    sharpeRatio: 1.5, // Simulated initial Sharpe
-    totalTrades: 0,
-    winningTrades: 0,
-    targetAllocations: {
-      'BTC/USDT': 0.30,
-      'ETH/USDT': 0.25,
-      'SOL/USDT': 0.15,
-      'ADA/USDT': 0.15,
-      'XRP/USDT': 0.15,
-    }
-  };
-
-  private maxDrawdownLimit = 0.10; // 10% total loss fail-safe
-  private stopLossLimit = 0.02; // 2% max drawdown per trade
-  private maxPositionSize = 0.15; // Max 15% of portfolio per trade
-  private minPairs = 5; // Diversification across minimum 5 pairs
+  private portfolio: Portfolio;
+
+  private limits: RiskLimits;
+  private defaultTrailing: TrailingStopConfig | null = null; // Trailing stops are opt-in per position
   private alertManager: AlertManager;
+  private margin: MarginConfig;
+  // Holds for open orders: quote balance for buys, base amounts for sells (spot),
+  // or posted margin for either side (margin mode)
+  private reservedBalance = 0;
+  private reservedAmounts: Record<string, number> = {};
+  private reservedMargin = 0;
+  private marks: Record<string, any> = {}; // Latest prices seen by updatePrices
 
-  constructor(alertManager: AlertManager) {
+  constructor(alertManager: AlertManager, initialBalance: number = DEFAULT_CONFIG.initialBalance, margin: Partial<MarginConfig> = {}, limits: Partial<RiskLimits> = {}) {
     this.alertManager = alertManager;
+    this.limits = { ...DEFAULT_CONFIG.risk, ...limits };
+    this.margin = {
+      enabled: margin.enabled ?? false,
+      defaultLeverage: margin.defaultLeverage ?? 1,
+      leverage: { ...margin.leverage },
+      maintenanceMarginRate: margin.maintenanceMarginRate ?? 0.05,
+      borrowRate: margin.borrowRate ?? 0.10,
+      cashBorrowRate: margin.cashBorrowRate ?? 0.08,
+      maxGrossLeverage: margin.maxGrossLeverage ?? 3,
+    };
+    this.validateLeverage(this.margin.defaultLeverage);
+    Object.values(this.margin.leverage).forEach(leverage => this.validateLeverage(leverage));
+
+    this.portfolio = {
+      balance: initialBalance,
+      initialBalance,
+      positions: {},
+      pnl: 0,
+      drawdown: 0,
+      maxDrawdown: 0,
+      drawdownBaseline: null,
+      winRate: 0,
+      sharpeRatio: 0, // Computed from the equity curve by the PerformanceTracker
+      totalTrades: 0,
+      winningTrades: 0,
+      totalFees: 0,
+      totalFinancing: 0,
+      grossExposure: 0,
+      netExposure: 0,
+      targetAllocations: { ...DEFAULT_CONFIG.targetAllocations },
+    };
+  }
+
+  public getLimits(): RiskLimits {
+    return this.limits;
+  }
+
+  // New stop-loss and take-profit defaults apply to positions opened from now on
+  public setLimits(limits: RiskLimits) {
+    this.limits = { ...limits };
+  }
+
+  public setTargetAllocations(allocations: Record<string, number>) {
+    this.portfolio.targetAllocations = { ...allocations };
   }
 
   public getPortfolio() {
     return this.portfolio;
   }
 
+  public restorePortfolio(portfolio: Portfolio) {
+    this.portfolio = portfolio;
+    for (const pos of Object.values(this.portfolio.positions)) {
+      this.refreshExitLevels(pos, null);
+      this.refreshMargin(pos);
+    }
+  }
+
+  // Overwrites cash and position sizes with exchange balances (live mode) and returns the drift
+  // found. rebase restarts PnL and drawdown from the reconciled equity, as when going live.
+  public reconcile(balance: number, amounts: Record<string, number>, marketData: Record<string, any> = this.marks, rebase: boolean = false) {
+    const drift: { balance: number, positions: Record<string, number> } = { balance: balance - this.portfolio.balance, positions: {} };
+    this.portfolio.balance = balance;
+
+    for (const [pair, amount] of Object.entries(amounts)) {
+      const position = this.portfolio.positions[pair];
+      const current = position?.amount ?? 0;
+      if (Math.abs(amount - current) <= 1e-9) continue;
+      drift.positions[pair] = amount - current;
+
+      if (amount <= 1e-9) {
+        delete this.portfolio.positions[pair];
+        continue;
+      }
+      let pos = position;
+      if (!pos) {
+        // Holdings we didn't trade ourselves are carried at the current mark
+        const mark = marketData[pair]?.last ?? 0;
+        pos = this.createPosition(mark, this.getLeverage(pair));
+        pos.avgEntryPrice = mark;
+        this.portfolio.positions[pair] = pos;
+      }
+      pos.amount = amount;
+      this.refreshExitLevels(pos, null);
+      this.refreshMargin(pos);
+    }
+
+    if (rebase) this.rebase(marketData);
+    return drift;
+  }
+
+  // Restarts PnL and drawdown from current equity, which becomes the new reference; returns it
+  public rebase(marketData: Record<string, any> = this.marks): number {
+    const equity = this.getEquity(marketData);
+    this.portfolio.initialBalance = equity;
+    this.portfolio.pnl = 0;
+    this.portfolio.drawdown = 0;
+    this.portfolio.maxDrawdown = 0;
+    this.portfolio.drawdownBaseline = null;
+    return equity;
+  }
+
+  // After a kill switch re-arm, the switch measures drawdown from current equity, and from each new
+  // high after that, while the book keeps its own PnL and drawdown; returns the baseline
+  public resetDrawdownBaseline(marketData: Record<string, any> = this.marks): number {
+    const equity = this.getEquity(marketData);
+    this.portfolio.drawdownBaseline = equity;
+    return equity;
+  }
+
+  // The drawdown the kill switch acts on
+  public getKillSwitchDrawdown(): number {
+    const baseline = this.portfolio.drawdownBaseline;
+    if (baseline === null) return this.portfolio.drawdown;
+    return baseline > 0 ? Math.max(0, (baseline - this.getEquity(this.marks)) / baseline) : 0;
+  }
+
+  public isMarginEnabled(): boolean {
+    return this.margin.enabled;
+  }
+
+  public getLeverage(pair: string): number {
+    if (!this.margin.enabled) return 1;
+    return this.margin.leverage[pair] ?? this.margin.defaultLeverage;
+  }
+
+  private validateLeverage(leverage: number) {
+    if (!(leverage >= 1 && leverage <= 20)) {
+      throw new Error('leverage must be between 1 and 20');
+    }
+  }
+
+  // Applies to new exposure and re-margins any open position on the pair
+  public setLeverage(pair: string, leverage: number) {
+    if (!this.margin.enabled) {
+      throw new Error('Margin mode is disabled');
+    }
+    this.validateLeverage(leverage);
+
+    const pos = this.portfolio.positions[pair];
+    if (pos) {
+      const extraMargin = Math.abs(pos.amount) * pos.avgEntryPrice * (1 / leverage - 1 / pos.leverage);
+      if (extraMargin > this.getFreeMargin()) {
+        throw new Error(`Insufficient free margin to lower ${pair} leverage to ${leverage}x`);
+      }
+      pos.leverage = leverage;
+      this.refreshMargin(pos);
+    }
+    this.margin.leverage[pair] = leverage;
+  }
+
+  public getAvailableBalance(): number {
+    return this.portfolio.balance - this.reservedBalance;
+  }
+
+  // Amount that can be closed right now; in margin mode closing never needs a hold
+  public getAvailableAmount(pair: string): number {
+    const amount = this.portfolio.positions[pair]?.amount ?? 0;
+    if (this.margin.enabled) return Math.abs(amount);
+    return amount - (this.reservedAmounts[pair] ?? 0);
+  }
+
+  public getReservations() {
+    return { balance: this.reservedBalance, amounts: { ...this.reservedAmounts }, margin: this.reservedMargin };
+  }
+
+  public getUsedMargin(): number {
+    return Object.values(this.portfolio.positions).reduce((acc, pos) => acc + pos.margin, 0);
+  }
+
+  public getFreeMargin(marketData: Record<string, any> = this.marks): number {
+    return this.getEquity(marketData) - this.getUsedMargin() - this.reservedMargin;
+  }
+
+  // Cash (spot) or margin-backed capacity for new exposure on a pair, in quote currency
+  public getBuyingPower(pair: string): number {
+    if (!this.margin.enabled) return this.getAvailableBalance();
+    return Math.max(0, this.getFreeMargin()) * this.getLeverage(pair);
+  }
+
+  // Portion of an order that adds exposure rather than reducing the opposite position
+  public openingAmount(pair: string, side: 'BUY' | 'SELL', amount: number): number {
+    const current = this.portfolio.positions[pair]?.amount ?? 0;
+    const opposite = side === 'BUY' ? Math.max(0, -current) : Math.max(0, current);
+    return Math.max(0, amount - opposite);
+  }
+
+  // Converts an order into the hold reserve() expects. value is the order's worst-case quote value.
+  public holdRequirement(pair: string, side: 'BUY' | 'SELL', amount: number, value: number): number {
+    if (!this.margin.enabled) return side === 'BUY' ? value : amount;
+    const opening = this.openingAmount(pair, side, amount);
+    return (value * (opening / amount)) / this.getLeverage(pair);
+  }
+
+  // quantity is a quote value for BUY and a base amount for SELL in spot mode, and margin in margin mode
+  public reserve(pair: string, side: 'BUY' | 'SELL', quantity: number): boolean {
+    if (this.margin.enabled) {
+      if (quantity > 0 && this.getFreeMargin() < quantity) return false;
+      this.reservedMargin += quantity;
+    } else if (side === 'BUY') {
+      if (this.getAvailableBalance() < quantity) return false;
+      this.reservedBalance += quantity;
+    } else {
+      if (this.getAvailableAmount(pair) < quantity - 1e-9) return false;
+      this.reservedAmounts[pair] = (this.reservedAmounts[pair] ?? 0) + quantity;
+    }
+    return true;
+  }
+
+  public release(pair: string, side: 'BUY' | 'SELL', quantity: number) {
+    if (this.margin.enabled) {
+      this.reservedMargin = Math.max(0, this.reservedMargin - quantity);
+    } else if (side === 'BUY') {
+      this.reservedBalance = Math.max(0, this.reservedBalance - quantity);
+    } else {
+      const remaining = (this.reservedAmounts[pair] ?? 0) - quantity;
+      if (remaining <= 1e-9) {
+        delete this.reservedAmounts[pair];
+      } else {
+        this.reservedAmounts[pair] = remaining;
+      }
+    }
+  }
+
+  public setSharpeRatio(sharpeRatio: number) {
+    this.portfolio.sharpeRatio = sharpeRatio;
+  }
+
+  private markPrice(pair: string, position: Position, marketData: Record<string, any>): number {
+    return marketData[pair]?.last || position.avgEntryPrice;
+  }
+
+  // Gross value of open positions as a fraction of equity
+  public getExposure(marketData: Record<string, any> = this.marks): number {
+    const equity = this.getEquity(marketData);
+    if (equity <= 0) return 0;
+    let gross = 0;
+    for (const [pair, position] of Object.entries(this.portfolio.positions)) {
+      gross += Math.abs(position.amount) * this.markPrice(pair, position, marketData);
+    }
+    return gross / equity;
+  }
+
+  // Short positions count negatively: the sale proceeds already sit in the balance
+  public getEquity(marketData: Record<string, any> = this.marks): number {
+    let equity = this.portfolio.balance;
+    for (const [pair, position] of Object.entries(this.portfolio.positions)) {
+      equity += position.amount * this.markPrice(pair, position, marketData);
+    }
+    return equity;
+  }
+
+  public getMaintenanceMargin(marketData: Record<string, any> = this.marks): number {
+    if (!this.margin.enabled) return 0;
+    let required = 0;
+    for (const [pair, position] of Object.entries(this.portfolio.positions)) {
+      required += Math.abs(position.amount) * this.markPrice(pair, position, marketData) * this.margin.maintenanceMarginRate;
+    }
+    return required;
+  }
+
+  public getMarginStatus(): MarginStatus {
+    const leverage: Record<string, number> = {};
+    for (const pair of new Set([...Object.keys(this.portfolio.targetAllocations), ...Object.keys(this.portfolio.positions)])) {
+      leverage[pair] = this.getLeverage(pair);
+    }
+    return {
+      enabled: this.margin.enabled,
+      equity: this.getEquity(this.marks),
+      usedMargin: this.getUsedMargin(),
+      reservedMargin: this.reservedMargin,
+      freeMargin: this.getFreeMargin(),
+      maintenanceMargin: this.getMaintenanceMargin(),
+      grossExposure: this.portfolio.grossExposure,
+      netExposure: this.portfolio.netExposure,
+      leverage,
+    };
+  }
+
   public updatePrices(marketData: Record<string, any>) {
-    let currentEquity = this.portfolio.balance;
-    
+    this.marks = marketData;
+    const currentEquity = this.getEquity(marketData);
+
+    let gross = 0;
+    let net = 0;
     for (const [pair, position] of Object.entries(this.portfolio.positions)) {
-      if (marketData[pair] && marketData[pair].last) {
-        const currentPrice = marketData[pair].last;
-        currentEquity += position.amount * currentPrice;
-
-        // Check for major price movements (+/- 5%)
-        const priceChange = (currentPrice - position.avgEntryPrice) / position.avgEntryPrice;
-        if (Math.abs(priceChange) >= 0.05) {
-          // In a real system, we'd track this over a specific timeframe (e.g., 1 hour).
-          // Here we just alert if it deviates from entry price significantly.
-          // To avoid spam, we could add a lastAlertedPrice property to the position.
-        }
-      }
+      const value = position.amount * this.markPrice(pair, position, marketData);
+      gross += Math.abs(value);
+      net += value;
     }
+    this.portfolio.grossExposure = currentEquity > 0 ? gross / currentEquity : 0;
+    this.portfolio.netExposure = currentEquity > 0 ? net / currentEquity : 0;
 
     const peakEquity = Math.max(this.portfolio.initialBalance, currentEquity);
     this.portfolio.drawdown = (peakEquity - currentEquity) / peakEquity;
-    
+
     if (this.portfolio.drawdown > this.portfolio.maxDrawdown) {
       this.portfolio.maxDrawdown = this.portfolio.drawdown;
     }
 
-    if (this.portfolio.drawdown >= this.maxDrawdownLimit * 0.8) {
-      this.alertManager.sendAlert('RISK', `Drawdown nearing threshold: ${(this.portfolio.drawdown * 100).toFixed(2)}%`, 'WARNING');
+    // The re-arm baseline follows new highs, and is dropped once the book's drawdown is back to zero
+    if (this.portfolio.drawdownBaseline !== null) {
+      this.portfolio.drawdownBaseline = currentEquity >= this.portfolio.initialBalance ? null : Math.max(this.portfolio.drawdownBaseline, currentEquity);
+    }
+
+    // One alert while drawdown stays past the warning level, resolved once it recovers
+    const drawdown = this.getKillSwitchDrawdown();
+    if (drawdown >= this.limits.maxDrawdown * this.limits.drawdownWarning) {
+      this.alertManager.sendAlert('RISK', `Drawdown nearing threshold: ${(drawdown * 100).toFixed(2)}%`, 'WARNING', {
+        key: 'drawdown-warning',
+        cooldownMs: DRAWDOWN_WARNING_COOLDOWN_MS,
+      });
+    } else {
+      this.alertManager.resolveKey('drawdown-warning');
     }
 
     this.portfolio.pnl = currentEquity - this.portfolio.initialBalance;
   }
 
+  // Charges borrow on short notional and interest on borrowed cash for the elapsed time
+  public accrueFinancing(marketData: Record<string, any>, elapsedMs: number): number {
+    if (!this.margin.enabled || elapsedMs <= 0) return 0;
+
+    let shortNotional = 0;
+    for (const [pair, position] of Object.entries(this.portfolio.positions)) {
+      if (position.amount < 0) {
+        shortNotional += -position.amount * this.markPrice(pair, position, marketData);
+      }
+    }
+    const borrowedCash = Math.max(0, -this.portfolio.balance);
+    const cost = (shortNotional * this.margin.borrowRate + borrowedCash * this.margin.cashBorrowRate) * (elapsedMs / YEAR_MS);
+
+    this.portfolio.balance -= cost;
+    this.portfolio.totalFinancing += cost;
+    return cost;
+  }
+
   public shouldShutdown(): boolean {
-    if (this.portfolio.drawdown >= this.maxDrawdownLimit) {
-      this.alertManager.sendAlert('RISK', `Max drawdown limit reached: ${(this.portfolio.drawdown * 100).toFixed(2)}%. Shutting down.`, 'CRITICAL');
+    const drawdown = this.getKillSwitchDrawdown();
+    if (drawdown >= this.limits.maxDrawdown) {
+      this.alertManager.sendAlert('RISK', `Max drawdown limit reached: ${(drawdown * 100).toFixed(2)}%. Shutting down.`, 'CRITICAL');
       return true;
     }
     return false;
   }
 
+  // Limits for orders sized by hand; strategy orders are sized within them by calculatePositionSize.
+  // Returns why the order is refused, or null. Orders that only reduce a position always pass.
+  public checkOrder(pair: string, side: 'BUY' | 'SELL', amount: number, price: number): string | null {
+    const opening = this.openingAmount(pair, side, amount);
+    if (opening <= 0) return null;
+
+    if (this.getKillSwitchDrawdown() >= this.limits.maxDrawdown) {
+      return 'Max drawdown limit reached; only orders that reduce a position are accepted';
+    }
+    const equity = this.getEquity(this.marks);
+    const maxValue = Math.max(0, equity) * this.limits.maxPositionSize * this.getLeverage(pair);
+    if (opening * price > maxValue) {
+      return `Order adds $${(opening * price).toFixed(2)} of exposure, above the ${(this.limits.maxPositionSize * 100).toFixed(0)}% max position size ($${maxValue.toFixed(2)})`;
+    }
+    return null;
+  }
+
   public calculatePositionSize(pair: string, price: number): number {
     // Dynamic position sizing based on Kelly Criterion or simple risk %
-    const riskAmount = this.portfolio.balance * 0.01; // Risk 1% per trade
-    const stopLossDistance = price * this.stopLossLimit;
-    
+    const available = this.margin.enabled ? Math.max(0, this.getFreeMargin()) : this.getAvailableBalance();
+    const riskAmount = available * this.limits.riskPerTrade;
+    const stopLossDistance = price * this.limits.stopLoss;
+
     let positionSize = riskAmount / stopLossDistance;
-    
-    // Cap position size
-    const maxAllowedValue = this.portfolio.balance * this.maxPositionSize;
+
+    // Cap position size; margin lets the notional reach a multiple of the capital
+    const maxAllowedValue = available * this.limits.maxPositionSize * this.getLeverage(pair);
     if (positionSize * price > maxAllowedValue) {
       positionSize = maxAllowedValue / price;
     }
 
+    // Keep gross exposure (longs plus shorts) under the account-wide cap
+    if (this.margin.enabled) {
+      const equity = this.getEquity(this.marks);
+      const headroom = equity * this.margin.maxGrossLeverage - this.portfolio.grossExposure * equity;
+      positionSize = Math.min(positionSize, Math.max(0, headroom) / price);
+    }
+
     // Ensure diversification
     const activePairs = Object.keys(this.portfolio.positions).length;
-    if (activePairs >= this.minPairs && !this.portfolio.positions[pair]) {
+    if (activePairs >= this.limits.minPairs && !this.portfolio.positions[pair]) {
       // Don't open new positions if we have enough pairs, unless it's a very strong signal
       // For simplicity, we'll allow it but reduce size
       positionSize *= 0.5;
@@ -113,101 +486,213 @@ export class RiskManager {
     return positionSize;
   }
 
-  public executeTrade(pair: string, type: 'BUY' | 'SELL', price: number, amount: number): boolean {
-    const value = price * amount;
+  // Fills reduce the opposite position first; any remainder opens or extends one.
+  // Opening fees are folded into the entry price; closing fees come out of the realized PnL.
+  // exits replace the default stop-loss, take-profit and trailing stop of a position the trade opens.
+  public executeTrade(pair: string, type: 'BUY' | 'SELL', price: number, amount: number, fee: number = 0, exits?: PositionExitConfig): boolean {
+    if (type !== 'BUY' && type !== 'SELL') return false;
 
-    if (type === 'BUY') {
-      if (this.portfolio.balance < value) return false; // Insufficient funds
+    // An exit filled in parts can come out a rounding error past the position; it closes it exactly
+    const current = this.portfolio.positions[pair]?.amount ?? 0;
+    const held = type === 'SELL' ? current : -current;
+    if (held > 0 && amount > held && amount - held <= 1e-9) amount = held;
 
-      this.portfolio.balance -= value;
-      
-      if (!this.portfolio.positions[pair]) {
-        this.portfolio.positions[pair] = { amount: 0, avgEntryPrice: 0 };
-      }
-      
-      const pos = this.portfolio.positions[pair];
-      const totalValue = (pos.amount * pos.avgEntryPrice) + value;
-      pos.amount += amount;
-      pos.avgEntryPrice = totalValue / pos.amount;
-      
-      return true;
-    } else if (type === 'SELL') {
+    const value = price * amount;
+    const opening = this.openingAmount(pair, type, amount);
+    const closing = amount - opening;
+
+    if (!this.margin.enabled) {
+      if (type === 'BUY' && this.portfolio.balance < value + fee) return false; // Insufficient funds
+      if (type === 'SELL' && current < amount) return false; // Insufficient position, no shorting
+    } else if (opening > 0) {
       const pos = this.portfolio.positions[pair];
-      if (!pos || pos.amount < amount) return false; // Insufficient position
+      const releasedMargin = pos && closing > 0 ? pos.margin * (closing / Math.abs(pos.amount)) : 0;
+      const requiredMargin = (opening * price) / this.getLeverage(pair) + fee;
+      if (this.getFreeMargin() + releasedMargin < requiredMargin) return false; // Insufficient margin
+    }
+
+    this.portfolio.balance += type === 'BUY' ? -(value + fee) : value - fee;
+    this.portfolio.totalFees += fee;
 
-      this.portfolio.balance += value;
-      
-      // Calculate PnL before modifying position
-      const pnl = (price - pos.avgEntryPrice) * amount;
+    if (closing > 0) {
+      const pos = this.portfolio.positions[pair];
+      const pnl = this.calculateTradePnL(pair, type, price, amount, fee) as number;
       this.portfolio.pnl += pnl;
-      
       if (pnl > 0) {
         this.portfolio.winningTrades++;
       }
       this.portfolio.totalTrades++;
       this.portfolio.winRate = (this.portfolio.winningTrades / this.portfolio.totalTrades) * 100;
-      
-      // Simulate Sharpe Ratio update
-      this.portfolio.sharpeRatio = 1.5 + (this.portfolio.winRate - 50) * 0.05;
 
-      pos.amount -= amount;
-      
-      if (pos.amount <= 0.000001) {
+      pos.amount += type === 'BUY' ? closing : -closing;
+      if (Math.abs(pos.amount) <= 0.000001) {
         delete this.portfolio.positions[pair];
+      } else {
+        this.refreshMargin(pos);
       }
+    }
 
-      return true;
+    if (opening > 0) {
+      if (!this.portfolio.positions[pair]) {
+        const created = this.createPosition(price, this.getLeverage(pair));
+        if (exits?.stopLossPct !== undefined) created.stopLossPct = exits.stopLossPct;
+        if (exits?.takeProfitPct !== undefined) created.takeProfitPct = exits.takeProfitPct;
+        if (exits?.trailing !== undefined) created.trailing = exits.trailing && { ...exits.trailing, peak: price };
+        this.portfolio.positions[pair] = created;
+      }
+      const pos = this.portfolio.positions[pair];
+      const openingFee = fee * (opening / amount);
+      // Fees raise a long's effective entry and lower a short's
+      const cost = opening * price + (type === 'BUY' ? openingFee : -openingFee);
+      const size = Math.abs(pos.amount);
+      pos.avgEntryPrice = (size * pos.avgEntryPrice + cost) / (size + opening);
+      pos.amount += type === 'BUY' ? opening : -opening;
+      this.refreshExitLevels(pos, null);
+      this.refreshMargin(pos);
     }
 
-    return false;
+    return true;
+  }
+
+  private createPosition(entryPrice: number, leverage: number): Position {
+    return {
+      amount: 0,
+      avgEntryPrice: 0,
+      leverage,
+      margin: 0,
+      liquidationPrice: null,
+      stopLossPct: this.limits.stopLoss,
+      takeProfitPct: this.limits.takeProfit,
+      trailing: this.defaultTrailing ? { ...this.defaultTrailing, peak: entryPrice } : null,
+      stopLoss: null,
+      takeProfit: null,
+      trailingStop: null,
+    };
+  }
+
+  // Per-position liquidation: the price at which losses leave only maintenance margin
+  private refreshMargin(pos: Position) {
+    const size = Math.abs(pos.amount);
+    pos.margin = (size * pos.avgEntryPrice) / pos.leverage;
+
+    const mmr = this.margin.maintenanceMarginRate;
+    if (!this.margin.enabled) {
+      pos.liquidationPrice = null;
+    } else if (pos.amount > 0) {
+      const price = (pos.avgEntryPrice * (1 - 1 / pos.leverage)) / (1 - mmr);
+      pos.liquidationPrice = price > 0 ? price : null;
+    } else {
+      pos.liquidationPrice = (pos.avgEntryPrice * (1 + 1 / pos.leverage)) / (1 + mmr);
+    }
+  }
+
+  private refreshExitLevels(pos: Position, atr: number | null) {
+    // Shorts mirror longs: the stop sits above entry and the trail follows the lowest price
+    const dir = pos.amount < 0 ? -1 : 1;
+    pos.stopLoss = pos.stopLossPct !== null ? pos.avgEntryPrice * (1 - dir * pos.stopLossPct) : null;
+    pos.takeProfit = pos.takeProfitPct !== null ? pos.avgEntryPrice * (1 + dir * pos.takeProfitPct) : null;
+
+    if (!pos.trailing) {
+      pos.trailingStop = null;
+    } else if (pos.trailing.type === 'PERCENT') {
+      pos.trailingStop = pos.trailing.peak * (1 - dir * pos.trailing.distance);
+    } else if (atr !== null) {
+      pos.trailingStop = pos.trailing.peak - dir * pos.trailing.distance * atr;
+    }
+    // ATR trails keep their last level until the indicator has a value
   }
 
-  public calculateTradePnL(pair: string, sellPrice: number, amount: number): number {
+  public setPositionExits(pair: string, config: PositionExitConfig): Position {
     const pos = this.portfolio.positions[pair];
-    if (!pos) return 0;
-    return (sellPrice - pos.avgEntryPrice) * amount;
+    if (!pos) {
+      throw new Error(`No open position for ${pair}`);
+    }
+
+    for (const key of ['stopLossPct', 'takeProfitPct'] as const) {
+      const value = config[key];
+      if (value !== undefined && value !== null && !(value > 0 && value < 1)) {
+        throw new Error(`${key} must be between 0 and 1, or null to disable`);
+      }
+    }
+    if (config.trailing) {
+      if (config.trailing.type !== 'PERCENT' && config.trailing.type !== 'ATR') {
+        throw new Error('trailing.type must be PERCENT or ATR');
+      }
+      if (!(config.trailing.distance > 0) || (config.trailing.type === 'PERCENT' && config.trailing.distance >= 1)) {
+        throw new Error('trailing.distance must be positive (and below 1 for PERCENT)');
+      }
+    }
+
+    if (config.stopLossPct !== undefined) pos.stopLossPct = config.stopLossPct;
+    if (config.takeProfitPct !== undefined) pos.takeProfitPct = config.takeProfitPct;
+    if (config.trailing !== undefined) {
+      pos.trailing = config.trailing
+        ? { type: config.trailing.type, distance: config.trailing.distance, peak: pos.trailing?.peak ?? pos.avgEntryPrice }
+        : null;
+      if (!pos.trailing) pos.trailingStop = null;
+    }
+    this.refreshExitLevels(pos, null);
+    return pos;
   }
 
-  public checkRebalance(marketData: Record<string, any>): { pair: string, action: 'BUY' | 'SELL', amount: number, price: number }[] {
-    const rebalanceTrades: { pair: string, action: 'BUY' | 'SELL', amount: number, price: number }[] = [];
-    
-    let currentEquity = this.portfolio.balance;
-    for (const [pair, position] of Object.entries(this.portfolio.positions)) {
-      if (marketData[pair] && marketData[pair].last) {
-        currentEquity += position.amount * marketData[pair].last;
+  // Ratchets trailing peaks and returns the positions whose exit levels were hit
+  public checkExits(marketData: Record<string, any>, atr: Record<string, number | null> = {}): { pair: string, reason: ExitReason, price: number }[] {
+    const exits: { pair: string, reason: ExitReason, price: number }[] = [];
+
+    for (const [pair, pos] of Object.entries(this.portfolio.positions)) {
+      const last = marketData[pair]?.last;
+      if (!last) continue;
+      const isShort = pos.amount < 0;
+      // Longs exit at the bid, shorts buy back at the ask
+      const exitPrice = (isShort ? marketData[pair].ask : marketData[pair].bid) || last;
+
+      if (pos.trailing) {
+        pos.trailing.peak = isShort ? Math.min(pos.trailing.peak, last) : Math.max(pos.trailing.peak, last);
+      }
+      this.refreshExitLevels(pos, atr[pair] ?? null);
+
+      const adverse = (level: number) => isShort ? exitPrice >= level : exitPrice <= level;
+      const favorable = (level: number) => isShort ? exitPrice <= level : exitPrice >= level;
+      if (pos.stopLoss !== null && adverse(pos.stopLoss)) {
+        exits.push({ pair, reason: 'STOP_LOSS', price: exitPrice });
+      } else if (pos.trailingStop !== null && adverse(pos.trailingStop)) {
+        exits.push({ pair, reason: 'TRAILING_STOP', price: exitPrice });
+      } else if (pos.takeProfit !== null && favorable(pos.takeProfit)) {
+        exits.push({ pair, reason: 'TAKE_PROFIT', price: exitPrice });
       }
     }
 
-    for (const [pair, targetPct] of Object.entries(this.portfolio.targetAllocations)) {
-      const targetValue = currentEquity * targetPct;
-      const currentPrice = marketData[pair]?.last;
-      
-      if (!currentPrice) continue;
-
-      const currentPos = this.portfolio.positions[pair];
-      const currentValue = currentPos ? currentPos.amount * currentPrice : 0;
-      
-      const deviation = Math.abs(currentValue - targetValue) / currentEquity;
-
-      // Rebalance if deviation is > 5%
-      if (deviation > 0.05) {
-        if (currentValue > targetValue) {
-          // Sell excess
-          const excessValue = currentValue - targetValue;
-          const amountToSell = excessValue / currentPrice;
-          rebalanceTrades.push({ pair, action: 'SELL', amount: amountToSell, price: currentPrice });
-        } else {
-          // Buy deficit
-          const deficitValue = targetValue - currentValue;
-          const amountToBuy = deficitValue / currentPrice;
-          // Only buy if we have enough balance
-          if (this.portfolio.balance >= deficitValue) {
-            rebalanceTrades.push({ pair, action: 'BUY', amount: amountToBuy, price: currentPrice });
-          }
-        }
+    return exits;
+  }
+
+  // Positions past their liquidation price, or every position once equity falls below maintenance
+  public checkLiquidations(marketData: Record<string, any>): { pair: string, price: number }[] {
+    if (!this.margin.enabled) return [];
+
+    const accountBreached = Object.keys(this.portfolio.positions).length > 0
+      && this.getEquity(marketData) < this.getMaintenanceMargin(marketData);
+    const liquidations: { pair: string, price: number }[] = [];
+
+    for (const [pair, pos] of Object.entries(this.portfolio.positions)) {
+      const quote = marketData[pair];
+      if (!quote?.last) continue;
+      const price = (pos.amount < 0 ? quote.ask : quote.bid) || quote.last;
+      const crossed = pos.liquidationPrice !== null
+        && (pos.amount < 0 ? price >= pos.liquidationPrice : price <= pos.liquidationPrice);
+      if (crossed || accountBreached) {
+        liquidations.push({ pair, price });
       }
     }
+    return liquidations;
+  }
 
-    return rebalanceTrades;
+  // Realized PnL of the closing portion of a fill, net of its share of the fee; undefined if nothing closes
+  public calculateTradePnL(pair: string, side: 'BUY' | 'SELL', price: number, amount: number, fee: number = 0): number | undefined {
+    const pos = this.portfolio.positions[pair];
+    if (!pos) return undefined;
+    const closing = amount - this.openingAmount(pair, side, amount);
+    if (closing <= 0) return undefined;
+    const dir = pos.amount < 0 ? -1 : 1;
+    return dir * (price - pos.avgEntryPrice) * closing - fee * (closing / amount);
   }
 }
@@ -1,28 +1,259 @@
+import type { TradingDatabase } from './Database.js';
+import type { NewsItem, SentimentSource } from './SentimentSources.js';
+import { LexiconScorer, SentimentScorer } from './SentimentScorers.js';
+
+// A news item mapped to pairs and scored
+export interface ScoredItem {
+  id: string;
+  source: string;
+  title: string;
+  url: string | null;
+  pairs: string[];
+  score: number; // -1 to 1
+  scorer: string; // Which scorer produced the score
+  publishedAt: number;
+  scoredAt: number;
+}
+
+export interface PairSentiment {
+  pair: string;
+  score: number; // Decayed blend of recent item scores
+  items: number; // Items inside the retention window
+  headlines: ScoredItem[]; // Newest first
+}
+
+export interface SentimentStatus {
+  scorer: string;
+  lastScorerError: string | null;
+  lastRefreshAt: number | null;
+  sources: { name: string, lastFetchedAt: number | null, lastError: string | null, ingested: number }[];
+}
+
+export interface SentimentAnalyzerOptions {
+  sources?: SentimentSource[];
+  scorer?: SentimentScorer | null; // Preferred scorer; the lexicon steps in when unset or failing
+  database?: TradingDatabase | null;
+  clock?: () => number;
+  halfLifeMs?: number; // An item's weight halves over this long
+  retentionMs?: number; // Older items are dropped and not ingested
+  pollIntervalMs?: number;
+  aliases?: Record<string, string[]>; // Extra names per base asset, e.g. { "PEPE": ["pepe coin"] }
+}
+
+// Names a headline may use for each base asset besides its symbol
+const DEFAULT_ALIASES: Record<string, string[]> = {
+  BTC: ['bitcoin'],
+  ETH: ['ethereum', 'ether'],
+  SOL: ['solana'],
+  XRP: ['ripple'],
+  ADA: ['cardano'],
+  DOGE: ['dogecoin'],
+  BNB: ['binance coin'],
+  AVAX: ['avalanche'],
+  DOT: ['polkadot'],
+  LINK: ['chainlink'],
+  LTC: ['litecoin'],
+  MATIC: ['polygon'],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Ingests headlines and posts from the configured sources, maps them to pairs, scores them and
+// keeps a per-pair sentiment in [-1, 1] that decays as the news ages
 export class SentimentAnalyzer {
-  private pairs = ['BTC/USDT', 'ETH/USDT', 'SOL/USDT', 'ADA/USDT', 'XRP/USDT'];
-  private sentiments: Record<string, number> = {};
+  private sources: SentimentSource[];
+  private scorer: SentimentScorer | null;
+  private lexicon = new LexiconScorer();
+  private database: TradingDatabase | null;
+  private clock: () => number;
+  private halfLifeMs: number;
+  private retentionMs: number;
+  private pollIntervalMs: number;
+  private aliases: Record<string, string[]>;
+  private items: ScoredItem[] = []; // Oldest first
+  private ids: Set<string> = new Set();
+  private pairs: string[] = [];
+  private sourceStatus: Map<string, { lastFetchedAt: number | null, lastError: string | null, ingested: number }> = new Map();
+  private lastScorerError: string | null = null;
+  private lastRefreshAt: number | null = null;
+  private refreshing: Promise<number> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private subscribers: Map<string, () => string[]> = new Map(); // Accounts polling, with their pairs
 
-  constructor() {
-    this.pairs.forEach(pair => {
-      this.sentiments[pair] = 0; // Neutral initially
+  constructor(options: SentimentAnalyzerOptions = {}) {
+    this.sources = options.sources ?? [];
+    this.scorer = options.scorer ?? null;
+    this.database = options.database ?? null;
+    this.clock = options.clock ?? Date.now;
+    this.halfLifeMs = options.halfLifeMs ?? 6 * 60 * 60_000;
+    this.retentionMs = options.retentionMs ?? 3 * 24 * 60 * 60_000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5 * 60_000;
+    this.aliases = { ...DEFAULT_ALIASES, ...options.aliases };
+    for (const source of this.sources) {
+      this.sourceStatus.set(source.name, { lastFetchedAt: null, lastError: null, ingested: 0 });
+    }
+
+    // Resume with the items still inside the retention window
+    if (this.database) {
+      this.items = this.database.loadSentimentItems(this.clock() - this.retentionMs);
+      for (const item of this.items) this.ids.add(item.id);
+    }
+  }
+
+  // Polls the sources on an interval. Pairs come from the caller so the universe headlines are
+  // matched against is defined once, in the trading config. Accounts sharing the analyzer each
+  // start it with their pairs; polling covers all of them and stops when the last one stops.
+  public start(pairs: () => string[], subscriber: string = 'default') {
+    this.subscribers.set(subscriber, pairs);
+    if (this.timer || this.sources.length === 0) return;
+    const poll = () => {
+      this.pairs = this.watchedPairs();
+      this.refresh().catch(error => console.error('Sentiment refresh failed:', error));
+    };
+    poll();
+    this.timer = setInterval(poll, this.pollIntervalMs);
+  }
+
+  // Every subscriber's pairs, plus any the caller adds
+  private watchedPairs(extra: string[] = []): string[] {
+    return [...new Set([...extra, ...[...this.subscribers.values()].flatMap(pairs => pairs())])];
+  }
+
+  public stop(subscriber: string = 'default') {
+    this.subscribers.delete(subscriber);
+    if (this.timer && this.subscribers.size === 0) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Fetches every source once and scores what is new. Returns how many items were added.
+  // Concurrent calls share the refresh already running.
+  public refresh(pairs?: string[]): Promise<number> {
+    if (pairs) this.pairs = this.watchedPairs(pairs);
+    if (!this.refreshing) {
+      this.refreshing = this.ingest().finally(() => { this.refreshing = null; });
+    }
+    return this.refreshing;
+  }
+
+  private async ingest(): Promise<number> {
+    const now = this.clock();
+    const results = await Promise.allSettled(this.sources.map(source => source.fetch()));
+    const fresh: { item: NewsItem, pairs: string[] }[] = [];
+
+    results.forEach((result, i) => {
+      const status = this.sourceStatus.get(this.sources[i].name)!;
+      status.lastFetchedAt = now;
+      if (result.status === 'rejected') {
+        status.lastError = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        return;
+      }
+      status.lastError = null;
+      for (const item of result.value) {
+        if (this.ids.has(item.id) || item.publishedAt < now - this.retentionMs) continue;
+        const pairs = this.matchPairs(item);
+        if (pairs.length === 0) continue;
+        this.ids.add(item.id);
+        status.ingested++;
+        fresh.push({ item, pairs });
+      }
     });
+
+    if (fresh.length > 0) {
+      const texts = fresh.map(({ item }) => item.text ? `${item.title}. ${item.text}` : item.title);
+      const { scores, scorer } = await this.score(texts);
+      const scoredAt = this.clock();
+      const scored = fresh.map(({ item, pairs }, i): ScoredItem => ({
+        id: item.id,
+        source: item.source,
+        title: item.title,
+        url: item.url,
+        pairs,
+        score: scores[i],
+        scorer,
+        publishedAt: Math.min(item.publishedAt, scoredAt),
+        scoredAt,
+      }));
+      this.database?.insertSentimentItems(scored);
+      this.items.push(...scored);
+      this.items.sort((a, b) => a.publishedAt - b.publishedAt);
+    }
+
+    this.prune();
+    this.lastRefreshAt = now;
+    return fresh.length;
   }
 
-  public async fetchSentiment(): Promise<Record<string, number>> {
-    // Simulate scraping news and Twitter and running NLP
-    // Returns a score between -1 (very negative) and 1 (very positive)
-    for (const pair of this.pairs) {
-      // Random walk for sentiment to simulate changing news cycle
-      const change = (Math.random() - 0.5) * 0.2;
-      let newSentiment = this.sentiments[pair] + change;
-      // Clamp between -1 and 1
-      newSentiment = Math.max(-1, Math.min(1, newSentiment));
-      this.sentiments[pair] = newSentiment;
+  // Falls back to the lexicon when the preferred scorer is missing or fails (no key, no network)
+  private async score(texts: string[]): Promise<{ scores: number[], scorer: string }> {
+    if (this.scorer) {
+      try {
+        const scores = await this.scorer.score(texts);
+        this.lastScorerError = null;
+        return { scores, scorer: this.scorer.name };
+      } catch (error) {
+        this.lastScorerError = error instanceof Error ? error.message : String(error);
+        console.error(`Sentiment scorer ${this.scorer.name} failed, using the lexicon: ${this.lastScorerError}`);
+      }
     }
-    return this.sentiments;
+    return { scores: await this.lexicon.score(texts), scorer: this.lexicon.name };
   }
 
+  // Pairs the source tagged (as "BTC/USDT" or just "BTC"), else pairs whose base asset is named in the text
+  private matchPairs(item: NewsItem): string[] {
+    if (item.pairs) {
+      const tags = item.pairs.map(tag => tag.toUpperCase());
+      return this.pairs.filter(pair => tags.includes(pair) || tags.includes(pair.split('/')[0]));
+    }
+    const text = ` ${item.title} ${item.text} `.toLowerCase();
+    return this.pairs.filter(pair => {
+      const base = pair.split('/')[0];
+      const names = [base.toLowerCase(), ...(this.aliases[base] ?? [])];
+      return names.some(name => new RegExp(`(^|[^a-z0-9$])\\$?${escapeRegExp(name)}([^a-z0-9]|$)`).test(text));
+    });
+  }
+
+  private prune() {
+    const cutoff = this.clock() - this.retentionMs;
+    while (this.items.length > 0 && this.items[0].publishedAt < cutoff) {
+      this.ids.delete(this.items.shift()!.id);
+    }
+  }
+
+  // Weighted mean of item scores with weights halving every half-life. Until the weights add up
+  // to one full-strength item the mean is scaled down, so sentiment fades toward 0 as news ages.
   public getSentiment(pair: string): number {
-    return this.sentiments[pair] || 0;
+    const now = this.clock();
+    let weighted = 0;
+    let weights = 0;
+    for (const item of this.items) {
+      if (!item.pairs.includes(pair)) continue;
+      const weight = 0.5 ** (Math.max(0, now - item.publishedAt) / this.halfLifeMs);
+      weighted += item.score * weight;
+      weights += weight;
+    }
+    return Math.max(-1, Math.min(1, weighted / Math.max(1, weights)));
+  }
+
+  public getSummary(pairs: string[], headlines: number = 5): PairSentiment[] {
+    return pairs.map(pair => {
+      const items = this.items.filter(item => item.pairs.includes(pair));
+      return {
+        pair,
+        score: this.getSentiment(pair),
+        items: items.length,
+        headlines: items.slice(-headlines).reverse(),
+      };
+    });
+  }
+
+  public getStatus(): SentimentStatus {
+    return {
+      scorer: this.scorer?.name ?? this.lexicon.name,
+      lastScorerError: this.lastScorerError,
+      lastRefreshAt: this.lastRefreshAt,
+      sources: this.sources.map(source => ({ name: source.name, ...this.sourceStatus.get(source.name)! })),
+    };
   }
 }
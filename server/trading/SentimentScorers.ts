@@ -0,0 +1,117 @@
+import { GoogleGenAI, Type } from '@google/genai';
+
+// Scores texts from -1 (very negative for the asset) to 1 (very positive), one score per text
+export interface SentimentScorer {
+  name: string;
+  score(texts: string[]): Promise<number[]>;
+}
+
+const POSITIVE = [
+  'adoption', 'all-time-high', 'approval', 'approve', 'approved', 'beat', 'beats', 'boost', 'breakout', 'bull', 'bullish',
+  'buy', 'climb', 'climbs', 'gain', 'gains', 'growth', 'inflow', 'inflows', 'integration', 'jump', 'jumps',
+  'launch', 'launches', 'optimism', 'optimistic', 'partnership', 'rally', 'rallies', 'rebound', 'record', 'recover',
+  'recovery', 'rise', 'rises', 'soar', 'soars', 'strong', 'surge', 'surges', 'upgrade', 'upgraded', 'win', 'wins',
+];
+
+const NEGATIVE = [
+  'ban', 'banned', 'bear', 'bearish', 'breach', 'crackdown', 'crash', 'crashes', 'decline', 'declines', 'delay', 'delayed',
+  'downgrade', 'drop', 'drops', 'dump', 'exploit', 'exploited', 'fall', 'falls', 'fear', 'fined', 'fraud', 'hack',
+  'hacked', 'investigation', 'lawsuit', 'liquidation', 'liquidations', 'loss', 'losses', 'outage', 'outflow',
+  'outflows', 'plunge', 'plunges', 'reject', 'rejected', 'scam', 'sell-off', 'selloff', 'slump', 'slumps', 'sue', 'sued',
+  'tumble', 'tumbles', 'weak', 'warning',
+];
+
+const NEGATIONS = new Set(['no', 'not', 'never', 'without', "isn't", "wasn't", "won't", "doesn't", "didn't", "can't"]);
+
+// Counts positive and negative words, flipping a word preceded closely by a negation.
+// Works offline and is deterministic, which also makes it the scorer for replays.
+export class LexiconScorer implements SentimentScorer {
+  public name = 'lexicon';
+  private positive = new Set(POSITIVE);
+  private negative = new Set(NEGATIVE);
+
+  public async score(texts: string[]): Promise<number[]> {
+    return texts.map(text => this.scoreText(text));
+  }
+
+  public scoreText(text: string): number {
+    const lower = text.toLowerCase().replace(/all-time high/g, 'all-time-high');
+    const words = lower.match(/[a-z][a-z'-]*/g) ?? [];
+    let positive = 0;
+    let negative = 0;
+    words.forEach((word, i) => {
+      const polarity = this.positive.has(word) ? 1 : this.negative.has(word) ? -1 : 0;
+      if (polarity === 0) return;
+      const negated = words.slice(Math.max(0, i - 2), i).some(previous => NEGATIONS.has(previous));
+      if ((polarity > 0) !== negated) positive++;
+      else negative++;
+    });
+    // One hit scores ±0.5; more agreeing hits approach ±1
+    return (positive - negative) / (positive + negative + 1);
+  }
+}
+
+export interface GeminiScorerOptions {
+  model?: string;
+  batchSize?: number;
+  timeoutMs?: number;
+}
+
+// Asks Gemini for a score per text, in batches, with a JSON array response
+export class GeminiScorer implements SentimentScorer {
+  public name: string;
+  private client: GoogleGenAI;
+  private model: string;
+  private batchSize: number;
+  private timeoutMs: number;
+
+  constructor(apiKey: string, options: GeminiScorerOptions = {}) {
+    this.client = new GoogleGenAI({ apiKey });
+    this.model = options.model ?? 'gemini-2.5-flash';
+    this.name = `gemini:${this.model}`;
+    this.batchSize = options.batchSize ?? 20;
+    this.timeoutMs = options.timeoutMs ?? 20_000;
+  }
+
+  public async score(texts: string[]): Promise<number[]> {
+    const scores: number[] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      scores.push(...await this.scoreBatch(texts.slice(i, i + this.batchSize)));
+    }
+    return scores;
+  }
+
+  private async scoreBatch(texts: string[]): Promise<number[]> {
+    const prompt = [
+      'Rate how each crypto market headline below affects the price outlook of the assets it mentions.',
+      'Answer with a JSON array holding one number per headline, in order, from -1 (very negative) to 1 (very positive); 0 is neutral.',
+      '',
+      ...texts.map((text, i) => `${i + 1}. ${text.replace(/\s+/g, ' ').slice(0, 500)}`),
+    ].join('\n');
+
+    const response = await this.client.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: {
+        temperature: 0,
+        responseMimeType: 'application/json',
+        responseSchema: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+        httpOptions: { timeout: this.timeoutMs },
+      },
+    });
+
+    const scores = JSON.parse(response.text ?? '[]');
+    if (!Array.isArray(scores) || scores.length !== texts.length || !scores.every(s => typeof s === 'number' && Number.isFinite(s))) {
+      throw new Error(`Gemini returned ${Array.isArray(scores) ? scores.length : 'no'} scores for ${texts.length} headlines`);
+    }
+    return scores.map(s => Math.max(-1, Math.min(1, s)));
+  }
+}
+
+// Gemini when GEMINI_API_KEY is set (SENTIMENT_GEMINI_MODEL picks the model); null otherwise,
+// leaving the lexicon scorer to do the work
+export function createSentimentScorer(env: NodeJS.ProcessEnv = process.env): SentimentScorer | null {
+  const apiKey = env.GEMINI_API_KEY;
+  if (!apiKey || apiKey === 'MY_GEMINI_API_KEY') return null;
+  return new GeminiScorer(apiKey, { model: env.SENTIMENT_GEMINI_MODEL || undefined });
+}
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+// A headline or post before scoring
+export interface NewsItem {
+  id: string; // Stable across polls so an item is only scored once
+  source: string;
+  title: string;
+  text: string; // Summary or body; may be empty
+  url: string | null;
+  publishedAt: number;
+  pairs: string[] | null; // Tagged by the source; otherwise matched from the text
+}
+
+export interface SentimentSource {
+  name: string;
+  fetch(): Promise<NewsItem[]>;
+}
+
+export function newsItemId(source: string, title: string, url: string | null): string {
+  return createHash('sha1').update(`${source}\n${url ?? ''}\n${title}`).digest('hex').slice(0, 16);
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Feed text may be CDATA, entity-encoded HTML, or both
+function plainText(raw: string): string {
+  return raw
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&(amp|lt|gt|quot|apos|nbsp);/g, (_, name) => ENTITIES[name])
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tag(xml: string, names: string[]): string | null {
+  for (const name of names) {
+    const match = xml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'i'));
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function parseTime(value: unknown, fallback: number): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) return numeric;
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+// RSS 2.0 items and Atom entries. Only the fields scoring needs are read.
+export function parseFeed(xml: string, source: string, now: number): NewsItem[] {
+  const blocks = xml.match(/<item[\s>][\s\S]*?<\/item>|<entry[\s>][\s\S]*?<\/entry>/gi) ?? [];
+  const items: NewsItem[] = [];
+  for (const block of blocks) {
+    const title = plainText(tag(block, ['title']) ?? '');
+    if (!title) continue;
+    const link = tag(block, ['link']) ?? block.match(/<link[^>]*href="([^"]+)"/i)?.[1] ?? null;
+    const url = link ? plainText(link) : null;
+    items.push({
+      id: newsItemId(source, title, url),
+      source,
+      title,
+      text: plainText(tag(block, ['description', 'summary', 'content']) ?? ''),
+      url,
+      publishedAt: parseTime(plainText(tag(block, ['pubDate', 'published', 'updated', 'dc:date']) ?? ''), now),
+      pairs: null,
+    });
+  }
+  return items;
+}
+
+export class RssSource implements SentimentSource {
+  public name: string;
+  private url: string;
+  private timeoutMs: number;
+  private clock: () => number;
+
+  constructor(url: string, options: { timeoutMs?: number, clock?: () => number } = {}) {
+    this.url = url;
+    this.name = `rss:${new URL(url).host}`;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  public async fetch(): Promise<NewsItem[]> {
+    const response = await fetch(this.url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`${this.url} returned ${response.status}`);
+    }
+    return parseFeed(await response.text(), this.name, this.clock());
+  }
+}
+
+// Splits one CSV line, honouring double-quoted fields that contain commas
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+// Reads JSON and CSV files dropped into a directory. JSON files hold an array of
+// { title, text?, url?, source?, publishedAt?, pairs? }; CSV files use the same names as columns,
+// with pairs separated by spaces or semicolons. Files are re-read only when they change.
+export class FileDropSource implements SentimentSource {
+  public name = 'files';
+  private dir: string;
+  private clock: () => number;
+  private seen: Map<string, number> = new Map(); // File -> mtime when last read
+
+  constructor(dir: string, options: { clock?: () => number } = {}) {
+    this.dir = path.resolve(dir);
+    this.clock = options.clock ?? Date.now;
+  }
+
+  public async fetch(): Promise<NewsItem[]> {
+    if (!fs.existsSync(this.dir)) return [];
+    const items: NewsItem[] = [];
+    for (const file of fs.readdirSync(this.dir).sort()) {
+      const ext = path.extname(file).toLowerCase();
+      if (ext !== '.json' && ext !== '.csv') continue;
+      const filePath = path.join(this.dir, file);
+      const mtime = fs.statSync(filePath).mtimeMs;
+      if (this.seen.get(file) === mtime) continue;
+
+      const content = fs.readFileSync(filePath, 'utf8');
+      const rows = ext === '.json' ? this.parseJson(content, file) : this.parseCsv(content);
+      for (const row of rows) {
+        const item = this.toItem(row, file);
+        if (item) items.push(item);
+      }
+      this.seen.set(file, mtime);
+    }
+    return items;
+  }
+
+  private parseJson(content: string, file: string): Record<string, unknown>[] {
+    const data = JSON.parse(content);
+    if (!Array.isArray(data)) {
+      throw new Error(`${file} must hold an array of items`);
+    }
+    return data;
+  }
+
+  private parseCsv(content: string): Record<string, unknown>[] {
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length === 0) return [];
+    const columns = splitCsvLine(lines[0]).map(column => column.toLowerCase());
+    return lines.slice(1).map(line => {
+      const values = splitCsvLine(line);
+      const row: Record<string, unknown> = {};
+      columns.forEach((column, i) => { row[column] = values[i]; });
+      return row;
+    });
+  }
+
+  private toItem(row: Record<string, unknown>, file: string): NewsItem | null {
+    const title = typeof row.title === 'string' ? row.title.trim() : '';
+    if (!title) return null;
+    const source = typeof row.source === 'string' && row.source ? row.source : `file:${file}`;
+    const url = typeof row.url === 'string' && row.url ? row.url : null;
+    const pairs = Array.isArray(row.pairs)
+      ? row.pairs.map(String)
+      : typeof row.pairs === 'string' && row.pairs.trim() ? row.pairs.split(/[\s;]+/).filter(Boolean) : null;
+    return {
+      id: newsItemId(source, title, url),
+      source,
+      title,
+      text: typeof row.text === 'string' ? row.text : '',
+      url,
+      publishedAt: parseTime(row.publishedat ?? row.publishedAt ?? row.timestamp, this.clock()),
+      pairs,
+    };
+  }
+}
+
+// SENTIMENT_RSS_FEEDS is a comma-separated list of feed URLs; SENTIMENT_DROP_DIR (default
+// data/sentiment) is watched for JSON and CSV files
+export function createSentimentSources(env: NodeJS.ProcessEnv = process.env): SentimentSource[] {
+  const feeds = (env.SENTIMENT_RSS_FEEDS ?? '').split(',').map(url => url.trim()).filter(Boolean);
+  return [
+    ...feeds.map(url => new RssSource(url)),
+    new FileDropSource(env.SENTIMENT_DROP_DIR || 'data/sentiment'),
+  ];
+}
@@ -0,0 +1,52 @@
+import { ExecutionModel, LiquidityRole } from './ExecutionModel.js';
+
+export interface VenueQuote {
+  exchange?: string;
+  last: number;
+  bid: number;
+  ask: number;
+  volume?: number;
+  timestamp: number;
+}
+
+export interface RouteDecision {
+  venue?: string; // Unset for unnamed single-venue quotes
+  quote: VenueQuote;
+  effectivePrice: number; // Per-unit price after impact and fees
+}
+
+// Picks the venue with the best all-in price for a fill. Consolidated quotes carry their
+// per-venue books under `venues`; single-venue quotes (backtests) route to themselves.
+export class SmartOrderRouter {
+  private executionModel: ExecutionModel;
+
+  constructor(executionModel: ExecutionModel) {
+    this.executionModel = executionModel;
+  }
+
+  public candidates(quote: any): VenueQuote[] {
+    const venues = quote?.venues ? Object.values(quote.venues) as VenueQuote[] : [];
+    return venues.length > 0 ? venues.filter(v => v.bid > 0 && v.ask > 0) : [quote];
+  }
+
+  // limit restricts the choice to venues whose touch satisfies the limit price
+  public route(side: 'BUY' | 'SELL', amount: number, quote: any, role: LiquidityRole, limit?: number): RouteDecision | null {
+    let best: RouteDecision | null = null;
+
+    for (const venueQuote of this.candidates(quote)) {
+      const touch = side === 'BUY' ? venueQuote.ask : venueQuote.bid;
+      if (limit !== undefined && (side === 'BUY' ? touch > limit : touch < limit)) continue;
+
+      const execution = this.executionModel.quote(side, amount, venueQuote, role);
+      const effectivePrice = side === 'BUY'
+        ? execution.price * (1 + execution.feeRate)
+        : execution.price * (1 - execution.feeRate);
+
+      const better = !best || (side === 'BUY' ? effectivePrice < best.effectivePrice : effectivePrice > best.effectivePrice);
+      if (better) {
+        best = { venue: venueQuote.exchange, quote: venueQuote, effectivePrice };
+      }
+    }
+    return best;
+  }
+}
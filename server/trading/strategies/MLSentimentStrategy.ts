@@ -0,0 +1,35 @@
+import { MLPredictor, Signal, DEFAULT_SENTIMENT_WEIGHT, DEFAULT_SIGNAL_CUTOFFS } from '../MLPredictor.js';
+import { BaseStrategy, StrategyConfig, StrategyContext } from './Strategy.js';
+
+// The trained direction model blended with NLP sentiment
+export class MLSentimentStrategy extends BaseStrategy {
+  private predictor: MLPredictor;
+
+  constructor(config: StrategyConfig = {}, predictor: MLPredictor = new MLPredictor()) {
+    super('ml-sentiment', 'Trained price-direction model blended with news/social sentiment', {
+      minConfidence: 0.85,
+      sentimentWeight: DEFAULT_SENTIMENT_WEIGHT,
+      highVolatilitySentimentWeight: 0.15, // Sentiment lags turbulent price action, so it counts for less
+      buyThreshold: DEFAULT_SIGNAL_CUTOFFS.buy, // Combined score above which the model buys
+      sellThreshold: DEFAULT_SIGNAL_CUTOFFS.sell, // Combined score below which the model sells
+    }, config);
+    this.predictor = predictor;
+  }
+
+  public async ready() {
+    await this.predictor.ready();
+  }
+
+  protected async evaluate(marketData: Record<string, any>, context: StrategyContext): Promise<Signal[]> {
+    const sentimentWeights: Record<string, number> = {};
+    for (const pair of Object.keys(marketData)) {
+      sentimentWeights[pair] = context.regimes.getRegime(pair).volatility === 'HIGH'
+        ? this.params.highVolatilitySentimentWeight
+        : this.params.sentimentWeight;
+    }
+    return this.predictor.generateSignals(marketData, context.candles.getAllIndicators(this.predictor.getTimeframe()), sentimentWeights, {
+      buy: this.params.buyThreshold,
+      sell: this.params.sellThreshold,
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import type { Signal } from '../MLPredictor.js';
+import { BaseStrategy, PriceHistory, StrategyConfig } from './Strategy.js';
+
+// Fades moves that stretch too far from the rolling mean (z-score)
+export class MeanReversionStrategy extends BaseStrategy {
+  private history: PriceHistory;
+
+  constructor(config: StrategyConfig = {}) {
+    super('mean-reversion', 'Buys below and sells above the rolling mean when the z-score is stretched', {
+      minConfidence: 0.7,
+      lookback: 30, // Ticks
+      entryZ: 2, // Z-score needed to enter
+    }, { enabled: false, ...config });
+    this.history = new PriceHistory(this.params.lookback);
+  }
+
+  protected evaluate(marketData: Record<string, any>): Signal[] {
+    this.history.resize(this.params.lookback);
+    const signals: Signal[] = [];
+
+    for (const [pair, data] of Object.entries(marketData)) {
+      if (!data?.last) continue;
+      const prices = this.history.push(pair, data.last);
+      if (prices.length < this.params.lookback) continue;
+
+      const mean = prices.reduce((acc, p) => acc + p, 0) / prices.length;
+      const stdDev = Math.sqrt(prices.reduce((acc, p) => acc + (p - mean) ** 2, 0) / prices.length);
+      if (stdDev === 0) continue;
+
+      const zScore = (data.last - mean) / stdDev;
+      if (Math.abs(zScore) < this.params.entryZ) continue;
+
+      signals.push({
+        pair,
+        action: zScore < 0 ? 'BUY' : 'SELL',
+        price: data.last,
+        confidence: Math.min(1, Math.abs(zScore) / (this.params.entryZ * 1.5)),
+        sentimentScore: 0,
+      });
+    }
+
+    return signals;
+  }
+}
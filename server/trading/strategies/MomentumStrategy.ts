@@ -0,0 +1,41 @@
+import type { Signal } from '../MLPredictor.js';
+import { BaseStrategy, PriceHistory, StrategyConfig } from './Strategy.js';
+
+// Trades in the direction of the return over the lookback window
+export class MomentumStrategy extends BaseStrategy {
+  private history: PriceHistory;
+
+  constructor(config: StrategyConfig = {}) {
+    super('momentum', 'Follows the price trend over a rolling lookback window', {
+      minConfidence: 0.7,
+      lookback: 20, // Ticks
+      threshold: 0.005, // Minimum lookback return to act on
+    }, { enabled: false, ...config });
+    this.history = new PriceHistory(this.params.lookback);
+  }
+
+  protected evaluate(marketData: Record<string, any>): Signal[] {
+    this.history.resize(this.params.lookback);
+    const signals: Signal[] = [];
+
+    for (const [pair, data] of Object.entries(marketData)) {
+      if (!data?.last) continue;
+      const prices = this.history.push(pair, data.last);
+      if (prices.length < this.params.lookback) continue;
+
+      const momentum = (data.last - prices[0]) / prices[0];
+      const strength = Math.abs(momentum) / this.params.threshold;
+      if (strength < 1) continue;
+
+      signals.push({
+        pair,
+        action: momentum > 0 ? 'BUY' : 'SELL',
+        price: data.last,
+        confidence: Math.min(1, 0.6 + 0.1 * strength),
+        sentimentScore: 0,
+      });
+    }
+
+    return signals;
+  }
+}
@@ -0,0 +1,125 @@
+import type { Signal } from '../MLPredictor.js';
+import type { CandleAggregator } from '../CandleAggregator.js';
+import type { RegimeDetector } from '../RegimeDetector.js';
+import { DEFAULT_CONFIG } from '../ConfigManager.js';
+
+export const DEFAULT_PAIRS = DEFAULT_CONFIG.pairs;
+
+export interface StrategyConfig {
+  enabled?: boolean;
+  pairs?: string[];
+  params?: Record<string, number>;
+}
+
+export interface StrategyInfo {
+  name: string;
+  description: string;
+  enabled: boolean;
+  pairs: string[];
+  params: Record<string, number>;
+}
+
+// Shared market state handed to strategies alongside the latest tick
+export interface StrategyContext {
+  candles: CandleAggregator;
+  regimes: RegimeDetector;
+}
+
+export interface Strategy {
+  readonly name: string;
+  readonly description: string;
+  enabled: boolean;
+  pairs: string[];
+  params: Record<string, number>;
+
+  // Returns only actionable signals (no HOLDs, confidence gate already applied)
+  generateSignals(marketData: Record<string, any>, context: StrategyContext): Promise<Signal[]>;
+  configure(config: StrategyConfig): void;
+  getInfo(): StrategyInfo;
+  ready?(): Promise<void>;
+}
+
+export abstract class BaseStrategy implements Strategy {
+  public readonly name: string;
+  public readonly description: string;
+  public enabled: boolean;
+  public pairs: string[];
+  public params: Record<string, number>;
+
+  // Every strategy gets a minConfidence param that gates its signals
+  constructor(name: string, description: string, defaultParams: Record<string, number>, config: StrategyConfig = {}) {
+    this.name = name;
+    this.description = description;
+    this.enabled = config.enabled ?? true;
+    this.pairs = config.pairs ?? [...DEFAULT_PAIRS];
+    this.params = { minConfidence: 0.85, ...defaultParams };
+    if (config.params) {
+      this.configure({ params: config.params });
+    }
+  }
+
+  protected abstract evaluate(marketData: Record<string, any>, context: StrategyContext): Signal[] | Promise<Signal[]>;
+
+  public async generateSignals(marketData: Record<string, any>, context: StrategyContext): Promise<Signal[]> {
+    const scoped: Record<string, any> = {};
+    for (const pair of this.pairs) {
+      if (marketData[pair]) scoped[pair] = marketData[pair];
+    }
+
+    const signals = await this.evaluate(scoped, context);
+    return signals
+      .filter(signal => signal.action !== 'HOLD' && signal.confidence > this.params.minConfidence)
+      .map(signal => ({ ...signal, strategy: this.name, regime: context.regimes.getRegime(signal.pair) }));
+  }
+
+  public configure(config: StrategyConfig) {
+    if (config.params) {
+      for (const [key, value] of Object.entries(config.params)) {
+        if (!(key in this.params)) {
+          throw new Error(`Unknown parameter "${key}" for strategy ${this.name}`);
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new Error(`Parameter "${key}" for strategy ${this.name} must be a finite number`);
+        }
+      }
+    }
+    if (config.pairs !== undefined && (!Array.isArray(config.pairs) || config.pairs.some(p => typeof p !== 'string'))) {
+      throw new Error(`Pairs for strategy ${this.name} must be an array of strings`);
+    }
+
+    if (config.enabled !== undefined) this.enabled = Boolean(config.enabled);
+    if (config.pairs !== undefined) this.pairs = [...config.pairs];
+    if (config.params) this.params = { ...this.params, ...config.params };
+  }
+
+  public getInfo(): StrategyInfo {
+    return {
+      name: this.name,
+      description: this.description,
+      enabled: this.enabled,
+      pairs: this.pairs,
+      params: this.params,
+    };
+  }
+}
+
+// Fixed-length rolling window of recent prices per pair
+export class PriceHistory {
+  private prices: Record<string, number[]> = {};
+  private maxLength: number;
+
+  constructor(maxLength: number) {
+    this.maxLength = maxLength;
+  }
+
+  public push(pair: string, price: number): number[] {
+    const series = this.prices[pair] ?? (this.prices[pair] = []);
+    series.push(price);
+    while (series.length > this.maxLength) series.shift();
+    return series;
+  }
+
+  public resize(maxLength: number) {
+    this.maxLength = maxLength;
+  }
+}
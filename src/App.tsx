@@ -3,8 +3,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { useState } from 'react';
 import Dashboard from './components/Dashboard';
+import Login from './components/Login';
+import { loadSession, saveSession, Session } from './auth';
 
 export default function App() {
-  return <Dashboard />;
+  const [session, setSession] = useState<Session | null>(loadSession);
+
+  const updateSession = (next: Session | null) => {
+    saveSession(next);
+    setSession(next);
+  };
+
+  if (!session) return <Login onLogin={updateSession} />;
+  return <Dashboard session={session} onLogout={() => updateSession(null)} />;
 }
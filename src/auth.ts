@@ -0,0 +1,46 @@
+export type Role = 'viewer' | 'trader' | 'admin';
+
+const ROLES: Role[] = ['viewer', 'trader', 'admin'];
+
+export interface Session {
+  token: string;
+  username: string;
+  role: Role;
+  expiresAt: number;
+}
+
+const STORAGE_KEY = 'trading-session';
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function loadSession(): Session | null {
+  try {
+    const session = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Session | null;
+    return session && session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: Session | null) {
+  if (session) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export async function login(username: string, password: string): Promise<Session> {
+  const res = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error ?? 'Login failed');
+  }
+  return { token: data.token, username: data.user.username, role: data.user.role, expiresAt: data.expiresAt };
+}
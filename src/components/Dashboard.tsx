@@ -1,24 +1,40 @@
 import React, { useEffect, useState } from 'react';
-import { Activity, TrendingUp, TrendingDown, DollarSign, Percent, ShieldAlert, Play, Square, Bell, MessageSquare } from 'lucide-react';
+import { Activity, TrendingUp, TrendingDown, DollarSign, Percent, ShieldAlert, Play, Square, Bell, MessageSquare, ListOrdered, X, Globe, LogOut, User, Send, Newspaper, RefreshCw, Scale, Flame, Layers } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { format } from 'date-fns';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { hasRole, Session } from '../auth';
 
 function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+interface Position {
+  amount: number;
+  avgEntryPrice: number;
+  leverage: number;
+  liquidationPrice: number | null;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  trailingStop: number | null;
+  trailing: { type: 'PERCENT' | 'ATR'; distance: number; peak: number } | null;
+}
+
 interface Portfolio {
   balance: number;
   initialBalance: number;
-  positions: Record<string, { amount: number; avgEntryPrice: number }>;
+  positions: Record<string, Position>;
   pnl: number;
   drawdown: number;
   maxDrawdown: number;
   winRate: number;
   sharpeRatio: number;
   totalTrades: number;
+  totalFees: number;
+  totalFinancing: number;
+  grossExposure: number;
+  netExposure: number;
   targetAllocations: Record<string, number>;
 }
 
@@ -31,6 +47,278 @@ interface TradeLog {
   amount: number;
   status: string;
   pnl?: number;
+  fee?: number;
+  venue?: string;
+  strategy?: string;
+  placedBy?: string;
+  reason?: string;
+}
+
+interface KillSwitchEvent {
+  id: string;
+  action: 'TRIPPED' | 'REARMED';
+  reason: string;
+  actor: string;
+  drawdown: number;
+  baselineEquity: number | null;
+  createdAt: number;
+}
+
+interface KillSwitchState {
+  tripped: boolean;
+  trippedAt: number | null;
+  reason: string | null;
+  events: KillSwitchEvent[];
+}
+
+interface PausedPair {
+  pair: string;
+  pausedBy: string;
+  pausedAt: number;
+}
+
+type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TAKE_PROFIT';
+
+interface OrderTicket {
+  pair: string;
+  side: 'BUY' | 'SELL';
+  type: OrderType;
+  amount: string;
+  price: string;
+  stopPrice: string;
+  timeInForce: 'GTC' | 'IOC' | 'FOK';
+}
+
+interface VenueQuote {
+  exchange: string;
+  last: number;
+  bid: number;
+  ask: number;
+  volume?: number;
+}
+
+interface Order {
+  id: string;
+  pair: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  amount: number;
+  filledAmount: number;
+  price?: number;
+  stopPrice?: number;
+  timeInForce: string;
+  status: string;
+  strategy: string;
+  ocoGroupId?: string;
+  createdAt: number;
+}
+
+interface IndicatorValues {
+  timestamp: number;
+  close: number;
+  sma20: number | null;
+  ema12: number | null;
+  ema26: number | null;
+  rsi14: number | null;
+  macd: { macd: number; signal: number | null; histogram: number | null } | null;
+  atr14: number | null;
+  adx14: number | null;
+  bollinger: { middle: number; upper: number; lower: number; percentB: number } | null;
+  vwap: number | null;
+}
+
+interface MarketRegime {
+  trend: 'TRENDING' | 'RANGING' | 'UNKNOWN';
+  volatility: 'LOW' | 'HIGH' | 'UNKNOWN';
+  adx: number | null;
+  realizedVolatility: number | null;
+  volatilityRatio: number | null;
+  updatedAt: number | null;
+}
+
+type PerformanceWindow = '1h' | '1d' | '7d' | 'all';
+
+const PERFORMANCE_WINDOWS: PerformanceWindow[] = ['1h', '1d', '7d', 'all'];
+
+interface PerformanceMetrics {
+  totalReturn: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  maxDrawdown: number;
+  profitFactor: number | null;
+  expectancy: number;
+  exposureTime: number;
+}
+
+type TradingMode = 'paper' | 'dry-run' | 'live';
+
+const MODE_BADGES: Record<TradingMode, { label: string; className: string }> = {
+  paper: { label: 'PAPER TRADING', className: 'bg-blue-500/10 text-blue-400 border-blue-500/30' },
+  'dry-run': { label: 'DRY RUN', className: 'bg-amber-500/10 text-amber-400 border-amber-500/30' },
+  live: { label: 'LIVE TRADING • REAL FUNDS', className: 'bg-red-600 text-white border-red-500 animate-pulse' },
+};
+
+interface TradingConfig {
+  pairs: string[];
+  targetAllocations: Record<string, number>;
+  risk: {
+    maxDrawdown: number;
+    drawdownWarning: number;
+    maxPositionSize: number;
+    stopLoss: number;
+    takeProfit: number;
+    riskPerTrade: number;
+    minPairs: number;
+    rebalanceThreshold: number;
+  };
+  preTrade: {
+    maxOrderNotional: number;
+    priceCollar: number;
+    maxAssetExposure: number;
+    maxTotalExposure: number;
+    maxDailyLoss: number;
+    maxOrdersPerMinute: number;
+  };
+  tickIntervalMs: number;
+  signals: { buyThreshold: number; sellThreshold: number; minConfidence: Record<string, number> };
+  rebalance: {
+    trigger: 'threshold' | 'calendar' | 'calendar-threshold';
+    intervalMs: number;
+    relativeBand: number;
+    pairBands: Record<string, { absolute?: number; relative?: number }>;
+    minTradeNotional: number;
+    netPendingSignals: boolean;
+  };
+  optimizer: {
+    enabled: boolean;
+    method: AllocationMethod;
+    intervalMs: number;
+    lookbackBars: number;
+    maxWeight: number;
+    investedFraction: number;
+    riskAversion: number;
+    autoApply: boolean;
+  };
+  valueAtRisk: {
+    confidenceLevels: number[];
+    horizonsHours: number[];
+    lookbackBars: number;
+    simulations: number;
+    alertLimit: number;
+    checkIntervalMs: number;
+  };
+  initialBalance: number;
+}
+
+type AllocationMethod = 'equal-weight' | 'inverse-volatility' | 'risk-parity' | 'minimum-variance' | 'mean-variance';
+const ALLOCATION_METHODS: AllocationMethod[] = ['equal-weight', 'inverse-volatility', 'risk-parity', 'minimum-variance', 'mean-variance'];
+
+interface AllocationProposal {
+  id: number;
+  method: AllocationMethod;
+  weights: Record<string, number>;
+  current: Record<string, number>;
+  volatility: Record<string, number>;
+  riskContribution: Record<string, number>;
+  portfolioVolatility: number;
+  currentVolatility: number;
+  returns: number;
+  trigger: 'schedule' | 'manual';
+  requestedBy: string;
+  createdAt: number;
+  status: 'pending' | 'applied' | 'superseded';
+  appliedBy: string | null;
+  configVersion: number | null;
+}
+
+type VaRMethod = 'historical' | 'parametric' | 'monte-carlo';
+const VAR_METHODS: VaRMethod[] = ['historical', 'parametric', 'monte-carlo'];
+
+interface VaREstimate {
+  method: VaRMethod;
+  confidence: number;
+  horizonHours: number;
+  valueAtRisk: number;
+  expectedShortfall: number;
+}
+
+interface StressResult {
+  name: string;
+  description: string;
+  pnl: number;
+  pnlPct: number;
+  byPair: Record<string, number>;
+}
+
+interface RiskReport {
+  computedAt: number;
+  equity: number;
+  returns: number;
+  estimates: VaREstimate[];
+  stress: StressResult[];
+  alertLimit: number | null;
+  breach: VaREstimate | null;
+  error: string | null;
+}
+
+const MAIN_ACCOUNT = 'main';
+const ALL_ACCOUNTS = 'all';
+const BUILT_IN_STRATEGIES = ['ml-sentiment', 'momentum', 'mean-reversion'];
+
+interface AccountPosition {
+  amount: number;
+  value: number;
+}
+
+interface AccountSummary {
+  name: string;
+  description: string | null;
+  strategies: string[];
+  createdAt: number | null;
+  isRunning: boolean;
+  mode: TradingMode;
+  killSwitchTripped: boolean;
+  initialBalance: number;
+  balance: number;
+  equity: number;
+  pnl: number;
+  drawdown: number;
+  grossExposure: number;
+  openOrders: number;
+  positions: Record<string, AccountPosition>;
+}
+
+interface AccountsOverview {
+  accounts: AccountSummary[];
+  total: { running: number; initialBalance: number; balance: number; equity: number; pnl: number; positions: Record<string, AccountPosition> };
+}
+
+interface OptimizerState {
+  status: { enabled: boolean; method: AllocationMethod; autoApply: boolean; lastRunAt: number | null; nextRunAt: number | null; lastError: string | null };
+  proposals: AllocationProposal[];
+}
+
+interface SentimentHeadline {
+  id: string;
+  source: string;
+  title: string;
+  url: string | null;
+  score: number;
+  scorer: string;
+  publishedAt: number;
+}
+
+interface PairSentiment {
+  pair: string;
+  score: number;
+  items: number;
+  headlines: SentimentHeadline[];
+}
+
+interface EquityPoint {
+  timestamp: number;
+  equity: number;
 }
 
 interface Alert {
@@ -39,33 +327,178 @@ interface Alert {
   type: string;
   message: string;
   severity: 'INFO' | 'WARNING' | 'CRITICAL';
+  status: 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED';
+  count: number;
+  lastSeenAt: number;
+  acknowledgedBy: string | null;
 }
 
-export default function Dashboard() {
+export default function Dashboard({ session, onLogout }: { session: Session; onLogout: () => void }) {
+  const canTrade = hasRole(session.role, 'trader');
+  const isAdmin = hasRole(session.role, 'admin');
+
+  // Authenticated fetch; an expired or revoked session drops back to the login screen
+  const api = async (input: string, init: RequestInit = {}) => {
+    const res = await fetch(input, { ...init, headers: { ...init.headers, Authorization: `Bearer ${session.token}` } });
+    if (res.status === 401) onLogout();
+    return res;
+  };
+
+  // Engine routes for the selected account; the main account also answers directly under /api
+  const [account, setAccount] = useState(MAIN_ACCOUNT);
+  const scoped = (path: string) => account === MAIN_ACCOUNT ? path : path.replace(/^\/api/, `/api/accounts/${encodeURIComponent(account)}`);
+
   const [isRunning, setIsRunning] = useState(false);
+  const [mode, setMode] = useState<TradingMode>('paper');
   const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
   const [marketData, setMarketData] = useState<Record<string, any>>({});
+  const [indicators, setIndicators] = useState<Record<string, IndicatorValues | null>>({});
+  const [regimes, setRegimes] = useState<Record<string, MarketRegime>>({});
+  const [sentiment, setSentiment] = useState<PairSentiment[]>([]);
+  const [config, setConfig] = useState<{ version: number | null; config: TradingConfig } | null>(null);
   const [logs, setLogs] = useState<TradeLog[]>([]);
+  const [openOrders, setOpenOrders] = useState<Order[]>([]);
+  const [pausedPairs, setPausedPairs] = useState<PausedPair[]>([]);
+  const [killSwitch, setKillSwitch] = useState<KillSwitchState | null>(null);
+  const [rejections, setRejections] = useState<TradeLog[]>([]);
+  const [rearmReason, setRearmReason] = useState('');
+  const [engineError, setEngineError] = useState<string | null>(null);
+  const [ticket, setTicket] = useState<OrderTicket>({ pair: '', side: 'BUY', type: 'MARKET', amount: '', price: '', stopPrice: '', timeInForce: 'GTC' });
+  const [ticketStatus, setTicketStatus] = useState<{ ok: boolean; message: string } | null>(null);
   const [alerts, setAlerts] = useState<Alert[]>([]);
-  const [chartData, setChartData] = useState<{ time: string; equity: number }[]>([]);
+  const [chartData, setChartData] = useState<EquityPoint[]>([]);
+  const [perfWindow, setPerfWindow] = useState<PerformanceWindow>('1d');
+  const [metrics, setMetrics] = useState<PerformanceMetrics | null>(null);
+  const [optimizer, setOptimizer] = useState<OptimizerState | null>(null);
+  const [optimizerMethod, setOptimizerMethod] = useState<AllocationMethod | ''>('');
+  const [optimizerError, setOptimizerError] = useState<string | null>(null);
+  const [riskReport, setRiskReport] = useState<RiskReport | null>(null);
+  const [overview, setOverview] = useState<AccountsOverview | null>(null);
+  const [newAccount, setNewAccount] = useState({ name: '', initialBalance: '', strategies: BUILT_IN_STRATEGIES });
+  const [accountStatus, setAccountStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const loadAccounts = async () => {
+    try {
+      const res = await api('/api/accounts');
+      if (res.ok) setOverview(await res.json());
+    } catch (error) {
+      console.error('Failed to load accounts', error);
+    }
+  };
+
+  useEffect(() => {
+    loadAccounts();
+    const interval = setInterval(loadAccounts, 60_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Equity history comes from the server so the curve survives page reloads
+  useEffect(() => {
+    if (account === ALL_ACCOUNTS) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const res = await api(scoped(`/api/performance?window=${perfWindow}`));
+        if (!res.ok) return;
+        const data = await res.json();
+        if (cancelled) return;
+        setMetrics(data.metrics);
+        setChartData(data.equityCurve.map((s: { timestamp: number; equity: number }) => ({ timestamp: s.timestamp, equity: s.equity })));
+      } catch (error) {
+        console.error('Failed to load performance', error);
+      }
+    };
+    load();
+    const interval = setInterval(load, 60_000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [perfWindow, account]);
+
+  const loadOptimizer = async () => {
+    try {
+      const res = await api(scoped('/api/optimizer'));
+      if (res.ok) setOptimizer(await res.json());
+    } catch (error) {
+      console.error('Failed to load optimizer', error);
+    }
+  };
+
+  useEffect(() => {
+    if (account === ALL_ACCOUNTS) return;
+    loadOptimizer();
+    const interval = setInterval(loadOptimizer, 60_000);
+    return () => clearInterval(interval);
+  }, [account]);
+
+  // VaR runs thousands of simulations, so it is polled rather than pushed every tick
+  useEffect(() => {
+    if (account === ALL_ACCOUNTS) return;
+    const load = async () => {
+      try {
+        const res = await api(scoped('/api/risk'));
+        if (res.ok) setRiskReport(await res.json());
+      } catch (error) {
+        console.error('Failed to load risk report', error);
+      }
+    };
+    load();
+    const interval = setInterval(load, 60_000);
+    return () => clearInterval(interval);
+  }, [account]);
 
   useEffect(() => {
     // Determine WebSocket URL based on current origin
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${window.location.host}`;
-    
+    const wsUrl = `${protocol}//${window.location.host}?token=${encodeURIComponent(session.token)}&account=${encodeURIComponent(account)}`;
+
+    // Nothing from the previous account carries over; its book shows up with the first update
+    setPortfolio(null);
+    setLogs([]);
+    setAlerts([]);
+    setChartData([]);
+    setOpenOrders([]);
+    setKillSwitch(null);
+    setRejections([]);
+    setMetrics(null);
+    setOptimizer(null);
+    setRiskReport(null);
+    setEngineError(null);
+    setTicketStatus(null);
+
     const ws = new WebSocket(wsUrl);
+    // The upgrade is refused without a valid session; check it so a stale one logs out
+    ws.onerror = () => {
+      api('/api/auth/me').catch(() => {});
+    };
+    // The server closes the socket when the session ends (4001)
+    ws.onclose = (event) => {
+      if (event.code === 4001) api('/api/auth/me').catch(() => {});
+    };
 
     ws.onmessage = (event) => {
       const message = JSON.parse(event.data);
-      if (message.type === 'STATE_UPDATE') {
-        const { isRunning, portfolio, marketData, recentLogs, alerts } = message.data;
+      if (message.type === 'ACCOUNTS_UPDATE') {
+        setOverview(message.data);
+      } else if (message.type === 'STATE_UPDATE') {
+        const { isRunning, mode, portfolio, marketData, indicators, regimes, sentiment, config, openOrders, pausedPairs, killSwitch, rejections, recentLogs, alerts } = message.data;
         setIsRunning(isRunning);
+        if (mode) setMode(mode);
         setPortfolio(portfolio);
         setMarketData(marketData);
+        setIndicators(indicators ?? {});
+        setRegimes(regimes ?? {});
+        if (sentiment) setSentiment(sentiment);
+        if (config) setConfig(config);
+        setOpenOrders(openOrders ?? []);
+        setPausedPairs(pausedPairs ?? []);
+        if (killSwitch) setKillSwitch(killSwitch);
+        if (rejections) setRejections(rejections);
         if (alerts) {
           setAlerts(prev => {
-            const newAlerts = [...alerts, ...prev];
+            // Alerts are updated in place (repeats, acknowledgements), so the server's copy wins
+            const newAlerts = [...prev, ...alerts];
             const unique = Array.from(new Map(newAlerts.map(item => [item.id, item])).values());
             return unique.sort((a, b) => b.timestamp - a.timestamp).slice(0, 20);
           });
@@ -77,32 +510,342 @@ export default function Dashboard() {
           return unique.sort((a, b) => b.timestamp - a.timestamp).slice(0, 50);
         });
 
-        // Update chart data
+        // Extend the server history with live points between refreshes
         setChartData(prev => {
           const currentEquity = portfolio.balance + Object.entries(portfolio.positions).reduce((acc, [pair, pos]: [string, any]) => {
             const currentPrice = marketData[pair]?.last || pos.avgEntryPrice;
             return acc + (pos.amount * currentPrice);
           }, 0);
 
-          const newData = [...prev, { time: format(new Date(), 'HH:mm:ss'), equity: currentEquity }];
-          return newData.slice(-60); // Keep last 60 points
+          return [...prev, { timestamp: Date.now(), equity: currentEquity }].slice(-1000);
         });
       }
     };
 
     return () => ws.close();
-  }, []);
+  }, [session.token, account]);
 
   const toggleEngine = async () => {
     try {
-      const res = await fetch('/api/engine/toggle', { method: 'POST' });
+      const res = await api(scoped('/api/engine/toggle'), { method: 'POST' });
       const data = await res.json();
       setIsRunning(data.status);
+      setEngineError(res.ok ? null : data.error ?? `Request failed (${res.status})`);
     } catch (error) {
       console.error('Failed to toggle engine', error);
     }
   };
 
+  // Re-arming needs a reason; the engine is started separately afterwards
+  const rearmKillSwitch = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const res = await api(scoped('/api/risk/kill-switch/rearm'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ reason: rearmReason }) });
+      const data = await res.json();
+      setEngineError(res.ok ? null : data.error ?? `Request failed (${res.status})`);
+      if (res.ok) {
+        setKillSwitch(data);
+        setRearmReason('');
+      }
+    } catch (error) {
+      setEngineError('Request failed');
+    }
+  };
+
+  const cancelOrder = async (id: string) => {
+    try {
+      const res = await api(scoped(`/api/orders/${id}`), { method: 'DELETE' });
+      if (res.ok) {
+        setOpenOrders(prev => prev.filter(order => order.id !== id));
+      }
+    } catch (error) {
+      console.error('Failed to cancel order', error);
+    }
+  };
+
+  const refreshSentiment = async () => {
+    try {
+      const res = await api(scoped('/api/sentiment/refresh'), { method: 'POST' });
+      if (res.ok) setSentiment(await res.json());
+    } catch (error) {
+      console.error('Failed to refresh sentiment', error);
+    }
+  };
+
+  // Proposals are reviewed before they replace the target allocations; errors show in the panel
+  const optimizerAction = async (path: string, body: unknown) => {
+    try {
+      const res = await api(scoped(path), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      const data = await res.json();
+      setOptimizerError(res.ok ? null : data.error ?? `Request failed (${res.status})`);
+      if (res.ok) await loadOptimizer();
+    } catch (error) {
+      setOptimizerError('Request failed');
+    }
+  };
+
+  // Manual actions report the server's error (e.g. a risk refusal) in the order ticket
+  const postAction = async (path: string, body: unknown, success: string) => {
+    try {
+      const res = await api(scoped(path), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      const data = await res.json();
+      setTicketStatus(res.ok ? { ok: true, message: success } : { ok: false, message: data.error ?? `Request failed (${res.status})` });
+      return res.ok ? data : null;
+    } catch (error) {
+      setTicketStatus({ ok: false, message: 'Request failed' });
+      return null;
+    }
+  };
+
+  const submitTicket = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const pair = ticket.pair || config?.config.pairs[0];
+    const body: Record<string, unknown> = { pair, side: ticket.side, type: ticket.type, amount: Number(ticket.amount), timeInForce: ticket.timeInForce };
+    if (ticket.type === 'LIMIT' || ticket.type === 'STOP_LIMIT') body.price = Number(ticket.price);
+    if (ticket.type === 'STOP' || ticket.type === 'STOP_LIMIT' || ticket.type === 'TAKE_PROFIT') body.stopPrice = Number(ticket.stopPrice);
+    const order = await postAction('/api/orders', body, `${ticket.side} ${ticket.amount} ${pair} submitted`);
+    if (order) setTicket(prev => ({ ...prev, amount: '', price: '', stopPrice: '' }));
+  };
+
+  const closePosition = (pair: string) => postAction('/api/positions/close', { pair }, `Closing ${pair}`);
+
+  const flattenAll = () => {
+    if (window.confirm('Close every open position?')) postAction('/api/positions/flatten', {}, 'Flattening all positions');
+  };
+
+  const togglePause = async (pair: string, paused: boolean) => {
+    const result = await postAction(paused ? '/api/pairs/resume' : '/api/pairs/pause', { pair }, `${pair} ${paused ? 'resumed' : 'paused'}`);
+    if (result) setPausedPairs(result);
+  };
+
+  const acknowledgeAlert = async (id: string) => {
+    try {
+      const res = await api(scoped(`/api/alerts/${id}/acknowledge`), { method: 'POST' });
+      if (res.ok) {
+        const updated: Alert = await res.json();
+        setAlerts(prev => prev.map(alert => alert.id === id ? updated : alert));
+      }
+    } catch (error) {
+      console.error('Failed to acknowledge alert', error);
+    }
+  };
+
+  const logout = async () => {
+    try {
+      await api('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Failed to end session', error);
+    }
+    onLogout();
+  };
+
+  // Sub-accounts start trading as soon as they are created
+  const createAccount = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const body: Record<string, unknown> = { name: newAccount.name.trim(), strategies: newAccount.strategies };
+    if (newAccount.initialBalance) body.initialBalance = Number(newAccount.initialBalance);
+    try {
+      const res = await api('/api/accounts', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      const data = await res.json();
+      setAccountStatus(res.ok ? { ok: true, message: `Account ${data.name} created` } : { ok: false, message: data.error ?? `Request failed (${res.status})` });
+      if (res.ok) {
+        setNewAccount({ name: '', initialBalance: '', strategies: BUILT_IN_STRATEGIES });
+        await loadAccounts();
+      }
+    } catch (error) {
+      setAccountStatus({ ok: false, message: 'Request failed' });
+    }
+  };
+
+  const accountSwitcher = (
+    <select value={account} onChange={e => setAccount(e.target.value)} title="Account" className="bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm">
+      {(overview?.accounts.map(summary => summary.name) ?? [MAIN_ACCOUNT]).map(name => <option key={name} value={name}>{name}</option>)}
+      <option value={ALL_ACCOUNTS}>All accounts</option>
+    </select>
+  );
+
+  if (account === ALL_ACCOUNTS) {
+    const total = overview?.total;
+    const netPositions = Object.entries<AccountPosition>(total?.positions ?? {}).filter(([, position]) => position.amount !== 0);
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] text-gray-100 p-4 md:p-6 font-sans">
+        <div className="max-w-7xl mx-auto space-y-6">
+
+          {/* Header */}
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight text-white flex items-center gap-2">
+                <Activity className="w-6 h-6 text-emerald-500" />
+                Quant AI Trading Engine
+              </h1>
+              <p className="text-sm text-gray-400">
+                All accounts{total && ` • ${total.running} of ${overview.accounts.length} running`}
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              {accountSwitcher}
+              <div className="flex items-center gap-2 text-sm text-gray-400">
+                <User className="w-4 h-4" />
+                {session.username}
+                <span className="px-2 py-0.5 rounded bg-white/5 text-xs uppercase tracking-wide">{session.role}</span>
+                <button
+                  onClick={logout}
+                  className="p-1.5 rounded hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
+                  title="Sign out"
+                >
+                  <LogOut className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {total && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <StatCard
+                title="Combined Equity"
+                value={`$${total.equity.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+                icon={<DollarSign className="w-5 h-5 text-blue-500" />}
+                trend={total.initialBalance > 0 ? ((total.equity - total.initialBalance) / total.initialBalance) * 100 : undefined}
+                subtitle={`From $${total.initialBalance.toLocaleString()} across ${overview.accounts.length} accounts`}
+              />
+              <StatCard
+                title="Realized P&L"
+                value={`${total.pnl >= 0 ? '+' : ''}$${total.pnl.toFixed(2)}`}
+                icon={<TrendingUp className="w-5 h-5 text-emerald-500" />}
+                subtitle={`Cash $${total.balance.toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+              />
+              <StatCard
+                title="Net Positions"
+                value={`${netPositions.length}`}
+                icon={<Scale className="w-5 h-5 text-purple-500" />}
+                subtitle="Pairs held across accounts"
+              />
+            </div>
+          )}
+
+          {/* Accounts */}
+          <div className="bg-[#141414] border border-white/5 rounded-xl p-4">
+            <h2 className="text-lg font-medium mb-4 flex items-center gap-2">
+              <Layers className="w-5 h-5" />
+              Accounts
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-gray-500 uppercase bg-white/5">
+                  <tr>
+                    <th className="px-4 py-3 rounded-tl-lg">Account</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Strategies</th>
+                    <th className="px-4 py-3 text-right">Equity</th>
+                    <th className="px-4 py-3 text-right">P&L</th>
+                    <th className="px-4 py-3 text-right">Drawdown</th>
+                    <th className="px-4 py-3 text-right">Gross</th>
+                    <th className="px-4 py-3 text-right rounded-tr-lg">Orders</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(overview?.accounts ?? []).map(summary => (
+                    <tr
+                      key={summary.name}
+                      onClick={() => setAccount(summary.name)}
+                      className="border-b border-white/5 last:border-0 hover:bg-white/5 transition-colors cursor-pointer"
+                    >
+                      <td className="px-4 py-3">
+                        <div className="font-medium">{summary.name}</div>
+                        {summary.description && <div className="text-xs text-gray-500">{summary.description}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-xs">
+                        <span className={cn("px-2 py-0.5 rounded font-bold tracking-wide border", MODE_BADGES[summary.mode].className)}>
+                          {MODE_BADGES[summary.mode].label}
+                        </span>
+                        <span className={cn("ml-2", summary.killSwitchTripped ? "text-red-400" : summary.isRunning ? "text-emerald-400" : "text-gray-500")}>
+                          {summary.killSwitchTripped ? 'KILL SWITCH' : summary.isRunning ? 'ACTIVE' : 'HALTED'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-xs text-gray-400">{summary.strategies.join(', ')}</td>
+                      <td className="px-4 py-3 text-right font-mono">${summary.equity.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                      <td className={cn("px-4 py-3 text-right font-mono", summary.equity >= summary.initialBalance ? "text-emerald-400" : "text-red-400")}>
+                        {(((summary.equity - summary.initialBalance) / summary.initialBalance) * 100).toFixed(2)}%
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono">{(summary.drawdown * 100).toFixed(2)}%</td>
+                      <td className="px-4 py-3 text-right font-mono">{summary.grossExposure.toFixed(2)}x</td>
+                      <td className="px-4 py-3 text-right font-mono">{summary.openOrders}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Net Positions */}
+          <div className="bg-[#141414] border border-white/5 rounded-xl p-4">
+            <h2 className="text-lg font-medium mb-4">Net Positions</h2>
+            {netPositions.length === 0 ? (
+              <p className="text-sm text-gray-500">No open positions in any account</p>
+            ) : (
+              <div className="space-y-2">
+                {netPositions.map(([pair, position]) => (
+                  <div key={pair} className="flex items-center justify-between text-sm border-b border-white/5 last:border-0 pb-2">
+                    <span className="font-medium">{pair}</span>
+                    <span className="text-xs text-gray-500">
+                      {(overview?.accounts ?? []).filter(summary => summary.positions[pair]).map(summary => `${summary.name} ${summary.positions[pair].amount.toFixed(4)}`).join(' · ')}
+                    </span>
+                    <span className={cn("font-mono", position.amount >= 0 ? "text-emerald-400" : "text-red-400")}>
+                      {position.amount.toFixed(4)} · ${position.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* New Account */}
+          {isAdmin && (
+            <div className="bg-[#141414] border border-white/5 rounded-xl p-4">
+              <h2 className="text-lg font-medium mb-4">New Account</h2>
+              <form onSubmit={createAccount} className="flex flex-wrap items-end gap-3">
+                <TicketField label="Name">
+                  <input required value={newAccount.name} onChange={e => setNewAccount({ ...newAccount, name: e.target.value.toLowerCase() })} placeholder="aggressive" className="bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm w-40" />
+                </TicketField>
+                <TicketField label="Starting Balance">
+                  <input type="number" step="any" min="0" value={newAccount.initialBalance} onChange={e => setNewAccount({ ...newAccount, initialBalance: e.target.value })} placeholder="Default" className="bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm w-32" />
+                </TicketField>
+                <TicketField label="Strategies">
+                  <div className="flex gap-3 py-1.5 text-sm">
+                    {BUILT_IN_STRATEGIES.map(strategy => (
+                      <label key={strategy} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={newAccount.strategies.includes(strategy)}
+                          onChange={e => setNewAccount({
+                            ...newAccount,
+                            strategies: e.target.checked ? [...newAccount.strategies, strategy] : newAccount.strategies.filter(s => s !== strategy),
+                          })}
+                        />
+                        {strategy}
+                      </label>
+                    ))}
+                  </div>
+                </TicketField>
+                <button
+                  type="submit"
+                  disabled={newAccount.strategies.length === 0}
+                  className="px-4 py-1.5 rounded-md bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 text-sm font-medium transition-colors disabled:opacity-40"
+                >
+                  Create
+                </button>
+              </form>
+              <p className="mt-2 text-xs text-gray-500">Risk limits, pairs and allocations start from the defaults; edit them through the account's config.</p>
+              {accountStatus && (
+                <p className={cn("mt-3 text-xs", accountStatus.ok ? "text-emerald-400" : "text-red-400")}>{accountStatus.message}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (!portfolio) return <div className="flex items-center justify-center h-screen bg-[#0a0a0a] text-white">Connecting to Trading Engine...</div>;
 
   const currentEquity = portfolio.balance + Object.entries(portfolio.positions).reduce((acc, [pair, pos]: [string, any]) => {
@@ -111,6 +854,10 @@ export default function Dashboard() {
   }, 0);
 
   const pnlPercent = ((currentEquity - portfolio.initialBalance) / portfolio.initialBalance) * 100;
+  const latestProposal = optimizer?.proposals[0];
+  const maxDrawdownLimit = config?.config.risk.maxDrawdown ?? 0.10;
+  const drawdownWarning = maxDrawdownLimit * (config?.config.risk.drawdownWarning ?? 0.8);
+  const venueNames = Array.from(new Set(Object.values(marketData).flatMap((data: any) => Object.keys(data.venues ?? {})))).sort();
 
   return (
     <div className="min-h-screen bg-[#0a0a0a] text-gray-100 p-4 md:p-6 font-sans">
@@ -123,10 +870,21 @@ export default function Dashboard() {
               <Activity className="w-6 h-6 text-emerald-500" />
               Quant AI Trading Engine
             </h1>
-            <p className="text-sm text-gray-400">Live Paper Trading Mode • LSTM/GRU Predictor • NLP Sentiment</p>
+            <p className="text-sm text-gray-400 flex items-center gap-2">
+              <span className={cn("px-2 py-0.5 rounded text-xs font-bold tracking-wide border", MODE_BADGES[mode].className)}>
+                {MODE_BADGES[mode].label}
+              </span>
+              Trained Direction Model • NLP Sentiment
+              {config?.version != null && (
+                <span className="text-xs font-mono text-gray-500" title={`Ticks every ${config.config.tickIntervalMs}ms`}>
+                  • Config v{config.version}
+                </span>
+              )}
+            </p>
           </div>
           
           <div className="flex items-center gap-4">
+            {accountSwitcher}
             <div className={cn(
               "px-3 py-1 rounded-full text-xs font-medium flex items-center gap-2 border",
               isRunning ? "bg-emerald-500/10 text-emerald-500 border-emerald-500/20" : "bg-red-500/10 text-red-500 border-red-500/20"
@@ -135,21 +893,67 @@ export default function Dashboard() {
               {isRunning ? 'SYSTEM ACTIVE' : 'SYSTEM HALTED'}
             </div>
             
-            <button
-              onClick={toggleEngine}
-              className={cn(
-                "flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors",
-                isRunning 
-                  ? "bg-red-500/10 text-red-500 hover:bg-red-500/20 border border-red-500/20" 
-                  : "bg-emerald-500/10 text-emerald-500 hover:bg-emerald-500/20 border border-emerald-500/20"
-              )}
-            >
-              {isRunning ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-              {isRunning ? 'Stop Engine' : 'Start Engine'}
-            </button>
+            {canTrade && (
+              <button
+                onClick={toggleEngine}
+                className={cn(
+                  "flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors",
+                  isRunning 
+                    ? "bg-red-500/10 text-red-500 hover:bg-red-500/20 border border-red-500/20" 
+                    : "bg-emerald-500/10 text-emerald-500 hover:bg-emerald-500/20 border border-emerald-500/20"
+                )}
+              >
+                {isRunning ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                {isRunning ? 'Stop Engine' : 'Start Engine'}
+              </button>
+            )}
+
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              <User className="w-4 h-4" />
+              {session.username}
+              <span className="px-2 py-0.5 rounded bg-white/5 text-xs uppercase tracking-wide">{session.role}</span>
+              <button
+                onClick={logout}
+                className="p-1.5 rounded hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
+                title="Sign out"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
 
+        {/* Kill Switch */}
+        {killSwitch?.tripped && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div className="flex items-start gap-3">
+              <ShieldAlert className="w-5 h-5 text-red-500 mt-0.5" />
+              <div>
+                <div className="font-medium text-red-300">Kill switch tripped{killSwitch.trippedAt !== null && ` at ${format(killSwitch.trippedAt, 'MMM d HH:mm:ss')}`}</div>
+                <div className="text-sm text-red-200/80">{killSwitch.reason}. Trading stays halted until an admin re-arms it; only orders that reduce a position are accepted.</div>
+              </div>
+            </div>
+            {isAdmin && (
+              <form onSubmit={rearmKillSwitch} className="flex gap-2">
+                <input
+                  value={rearmReason}
+                  onChange={e => setRearmReason(e.target.value)}
+                  placeholder="Reason for re-arming"
+                  className="bg-black/30 border border-red-500/30 rounded-md px-3 py-1.5 text-sm w-64"
+                />
+                <button
+                  type="submit"
+                  disabled={!rearmReason.trim()}
+                  className="px-3 py-1.5 rounded-md bg-red-500/20 text-red-300 hover:bg-red-500/30 text-sm transition-colors disabled:opacity-50"
+                >
+                  Re-arm
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+        {engineError && <p className="text-sm text-red-400">{engineError}</p>}
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <StatCard 
@@ -157,12 +961,13 @@ export default function Dashboard() {
             value={`$${currentEquity.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
             icon={<DollarSign className="w-5 h-5 text-blue-500" />}
             trend={pnlPercent}
+            subtitle={`Gross ${(portfolio.grossExposure ?? 0).toFixed(2)}x · Net ${(portfolio.netExposure ?? 0).toFixed(2)}x`}
           />
           <StatCard 
             title="Win Rate" 
             value={`${portfolio.winRate.toFixed(1)}%`}
             icon={<Percent className="w-5 h-5 text-purple-500" />}
-            subtitle={`${portfolio.totalTrades} Total Trades`}
+            subtitle={`${portfolio.totalTrades} Total Trades · $${(portfolio.totalFees ?? 0).toFixed(2)} fees`}
           />
           <StatCard 
             title="Sharpe Ratio" 
@@ -174,21 +979,41 @@ export default function Dashboard() {
             title="Max Drawdown" 
             value={`${(portfolio.maxDrawdown * 100).toFixed(2)}%`}
             icon={<ShieldAlert className="w-5 h-5 text-orange-500" />}
-            subtitle="Fail-safe limit: 10%"
-            alert={portfolio.maxDrawdown > 0.08}
+            subtitle={`Fail-safe limit: ${(maxDrawdownLimit * 100).toFixed(1).replace(/\.0$/, '')}%`}
+            alert={portfolio.maxDrawdown > drawdownWarning}
           />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Chart */}
           <div className="lg:col-span-2 bg-[#141414] border border-white/5 rounded-xl p-4">
-            <h2 className="text-lg font-medium mb-4">Equity Curve</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-medium">Equity Curve</h2>
+              <div className="flex gap-1">
+                {PERFORMANCE_WINDOWS.map(w => (
+                  <button
+                    key={w}
+                    onClick={() => setPerfWindow(w)}
+                    className={cn(
+                      "px-2 py-1 rounded text-xs font-mono transition-colors",
+                      perfWindow === w ? "bg-emerald-500/20 text-emerald-400" : "text-gray-500 hover:text-gray-300"
+                    )}
+                  >
+                    {w}
+                  </button>
+                ))}
+              </div>
+            </div>
             <div className="h-[300px] w-full">
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={chartData}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
                   <XAxis 
-                    dataKey="time" 
+                    dataKey="timestamp" 
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(ts) => format(new Date(ts), perfWindow === '1h' || perfWindow === '1d' ? 'HH:mm' : 'MMM d')}
                     stroke="#666" 
                     tick={{ fill: '#666', fontSize: 12 }} 
                     tickMargin={10}
@@ -203,6 +1028,7 @@ export default function Dashboard() {
                   <Tooltip 
                     contentStyle={{ backgroundColor: '#1a1a1a', border: '1px solid #333', borderRadius: '8px' }}
                     itemStyle={{ color: '#fff' }}
+                    labelFormatter={(ts) => format(new Date(ts as number), 'MMM d HH:mm:ss')}
                   />
                   <Line 
                     type="monotone" 
@@ -215,6 +1041,16 @@ export default function Dashboard() {
                 </LineChart>
               </ResponsiveContainer>
             </div>
+            {metrics && (
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-3 mt-4 pt-4 border-t border-white/5 text-xs font-mono">
+                <Metric label="Return" value={`${(metrics.totalReturn * 100).toFixed(2)}%`} />
+                <Metric label="Sortino" value={metrics.sortinoRatio.toFixed(2)} />
+                <Metric label="Calmar" value={metrics.calmarRatio.toFixed(2)} />
+                <Metric label="Profit Factor" value={metrics.profitFactor === null ? '—' : metrics.profitFactor.toFixed(2)} />
+                <Metric label="Expectancy" value={`$${metrics.expectancy.toFixed(2)}`} />
+                <Metric label="Exposure" value={`${(metrics.exposureTime * 100).toFixed(0)}%`} />
+              </div>
+            )}
           </div>
 
           {/* Active Positions & Allocations */}
@@ -222,7 +1058,7 @@ export default function Dashboard() {
             <h2 className="text-lg font-medium mb-4 flex justify-between items-center">
               <span>Portfolio Allocation</span>
               <span className="text-xs text-gray-500 bg-white/5 px-2 py-1 rounded-md">
-                {Object.keys(portfolio.positions).length} / 5 Pairs
+                {Object.keys(portfolio.positions).length} / {config?.config.pairs.length ?? Object.keys(portfolio.targetAllocations).length} Pairs
               </span>
             </h2>
             <div className="flex-1 overflow-y-auto space-y-3">
@@ -233,13 +1069,34 @@ export default function Dashboard() {
                 const currentValue = pos ? pos.amount * currentPrice : 0;
                 const currentPct = currentEquity > 0 ? currentValue / currentEquity : 0;
                 const pnl = pos ? (currentPrice - pos.avgEntryPrice) * pos.amount : 0;
-                const pnlPct = pos ? ((currentPrice - pos.avgEntryPrice) / pos.avgEntryPrice) * 100 : 0;
+                const pnlPct = pos ? ((currentPrice - pos.avgEntryPrice) / pos.avgEntryPrice) * Math.sign(pos.amount) * 100 : 0;
+                const ind = indicators[pair];
+                const regime = regimes[pair];
+                const paused = pausedPairs.find(p => p.pair === pair);
                 
                 return (
                   <div key={pair} className="flex flex-col p-3 bg-white/5 rounded-lg border border-white/5">
                     <div className="flex justify-between items-center mb-2">
                       <div>
-                        <div className="font-medium text-sm">{pair}</div>
+                        <div className="font-medium text-sm flex items-center gap-2">
+                          {pair}
+                          {regime && regime.trend !== 'UNKNOWN' && (
+                            <span
+                              title={`ADX ${regime.adx?.toFixed(1) ?? '-'} • Vol ratio ${regime.volatilityRatio?.toFixed(2) ?? '-'}`}
+                              className={cn("text-[10px] font-mono px-1.5 py-0.5 rounded border",
+                                regime.trend === 'TRENDING' ? "text-sky-400 border-sky-500/30" : "text-gray-400 border-white/10",
+                                regime.volatility === 'HIGH' && "bg-orange-500/10 text-orange-400 border-orange-500/30"
+                              )}
+                            >
+                              {regime.trend}{regime.volatility !== 'UNKNOWN' ? ` • ${regime.volatility} VOL` : ''}
+                            </span>
+                          )}
+                          {paused && (
+                            <span title={`Paused by ${paused.pausedBy} at ${format(paused.pausedAt, 'HH:mm:ss')}`} className="text-[10px] font-mono px-1.5 py-0.5 rounded border text-yellow-400 border-yellow-500/30">
+                              PAUSED
+                            </span>
+                          )}
+                        </div>
                         <div className="text-xs text-gray-400">
                           Target: {(targetPct * 100).toFixed(0)}% | Actual: {(currentPct * 100).toFixed(1)}%
                         </div>
@@ -254,6 +1111,51 @@ export default function Dashboard() {
                         )}
                       </div>
                     </div>
+                    {pos && (pos.amount < 0 || pos.leverage > 1) && (
+                      <div className="flex gap-3 text-[10px] font-mono text-gray-500 mb-1">
+                        <span className={pos.amount < 0 ? "text-purple-400" : "text-blue-400"}>{pos.amount < 0 ? 'SHORT' : 'LONG'} {pos.leverage}x</span>
+                        <span className="text-red-500">Liq {pos.liquidationPrice !== null ? `$${pos.liquidationPrice.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : '-'}</span>
+                      </div>
+                    )}
+                    {pos && (
+                      <div className="flex gap-3 text-[10px] font-mono text-gray-500 mb-1">
+                        <span className="text-red-400/80">SL {pos.stopLoss !== null ? `$${pos.stopLoss.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : '-'}</span>
+                        <span className="text-emerald-400/80">TP {pos.takeProfit !== null ? `$${pos.takeProfit.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : '-'}</span>
+                        {pos.trailing && (
+                          <span className="text-orange-400/80">
+                            Trail {pos.trailingStop !== null ? `$${pos.trailingStop.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : '-'}
+                            {' '}({pos.trailing.type === 'ATR' ? `${pos.trailing.distance}x ATR` : `${(pos.trailing.distance * 100).toFixed(1)}%`})
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {canTrade && (
+                      <div className="flex gap-2 mb-1">
+                        {pos && (
+                          <button
+                            onClick={() => closePosition(pair)}
+                            className="text-[10px] px-2 py-0.5 rounded bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-colors"
+                          >
+                            Close
+                          </button>
+                        )}
+                        <button
+                          onClick={() => togglePause(pair, !!paused)}
+                          className="text-[10px] px-2 py-0.5 rounded bg-white/5 text-gray-400 hover:bg-white/10 transition-colors"
+                        >
+                          {paused ? 'Resume' : 'Pause'}
+                        </button>
+                      </div>
+                    )}
+                    {ind && (
+                      <div className="flex gap-3 text-[10px] font-mono text-gray-500 mb-1">
+                        <span>RSI {ind.rsi14 !== null ? ind.rsi14.toFixed(1) : '-'}</span>
+                        <span>MACD {ind.macd?.histogram != null ? ind.macd.histogram.toFixed(3) : '-'}</span>
+                        <span>%B {ind.bollinger ? ind.bollinger.percentB.toFixed(2) : '-'}</span>
+                        <span>ATR {ind.atr14 !== null ? ind.atr14.toFixed(2) : '-'}</span>
+                        <span>ADX {ind.adx14 !== null ? ind.adx14.toFixed(1) : '-'}</span>
+                      </div>
+                    )}
                     {/* Progress bar for allocation */}
                     <div className="w-full bg-gray-800 rounded-full h-1.5 mt-1 relative">
                       <div 
@@ -264,7 +1166,7 @@ export default function Dashboard() {
                         className={cn("h-1.5 rounded-full absolute top-0 left-0 opacity-80", 
                           Math.abs(currentPct - targetPct) > 0.05 ? "bg-orange-500" : "bg-emerald-500"
                         )} 
-                        style={{ width: `${currentPct * 100}%` }} 
+                        style={{ width: `${Math.max(0, currentPct) * 100}%` }}  
                       />
                     </div>
                   </div>
@@ -287,22 +1189,27 @@ export default function Dashboard() {
                   <tr>
                     <th className="px-4 py-3 rounded-tl-lg">Time</th>
                     <th className="px-4 py-3">Pair</th>
+                    <th className="px-4 py-3">Strategy</th>
                     <th className="px-4 py-3">Action</th>
                     <th className="px-4 py-3">Price</th>
                     <th className="px-4 py-3">Amount</th>
+                    <th className="px-4 py-3">Fee</th>
                     <th className="px-4 py-3 rounded-tr-lg">Status</th>
                   </tr>
                 </thead>
                 <tbody>
                   {logs.length === 0 ? (
                     <tr>
-                      <td colSpan={6} className="px-4 py-8 text-center text-gray-500">Waiting for signals...</td>
+                      <td colSpan={8} className="px-4 py-8 text-center text-gray-500">Waiting for signals...</td>
                     </tr>
                   ) : (
                     logs.map((log) => (
                       <tr key={log.id} className="border-b border-white/5 last:border-0 hover:bg-white/5 transition-colors">
                         <td className="px-4 py-3 text-gray-400 font-mono text-xs">{format(log.timestamp, 'HH:mm:ss')}</td>
                         <td className="px-4 py-3 font-medium">{log.pair}</td>
+                        <td className="px-4 py-3 text-xs text-gray-400" title={log.placedBy ? `Placed by ${log.placedBy}` : undefined}>
+                          {log.strategy ?? '-'}{log.placedBy && <span className="ml-1 text-gray-500">({log.placedBy})</span>}
+                        </td>
                         <td className="px-4 py-3">
                           <span className={cn(
                             "px-2 py-1 rounded text-xs font-bold",
@@ -311,13 +1218,19 @@ export default function Dashboard() {
                             {log.type}
                           </span>
                         </td>
-                        <td className="px-4 py-3 font-mono text-xs">${log.price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                        <td className="px-4 py-3 font-mono text-xs">
+                          ${log.price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                          {log.venue && <span className="ml-1 text-gray-500">@{log.venue}</span>}
+                        </td>
                         <td className="px-4 py-3 font-mono text-xs">{log.amount.toFixed(4)}</td>
+                        <td className="px-4 py-3 font-mono text-xs text-gray-400">{log.fee !== undefined ? `$${log.fee.toFixed(2)}` : '—'}</td>
                         <td className="px-4 py-3">
                           <span className={cn(
                             "px-2 py-1 rounded text-xs",
-                            log.status === 'EXECUTED' ? "bg-blue-500/10 text-blue-500" : "bg-gray-500/10 text-gray-500"
-                          )}>
+                            log.status === 'EXECUTED' ? "bg-blue-500/10 text-blue-500" :
+                            log.status === 'FAILED' ? "bg-red-500/10 text-red-500" :
+                            "bg-gray-500/10 text-gray-500"
+                          )} title={log.reason}>
                             {log.status}
                           </span>
                         </td>
@@ -334,6 +1247,11 @@ export default function Dashboard() {
             <h2 className="text-lg font-medium mb-4 flex items-center gap-2">
               <Bell className="w-5 h-5" />
               System Alerts
+              {alerts.some(alert => alert.status === 'OPEN') && (
+                <span className="text-xs text-orange-400 bg-orange-500/10 px-2 py-1 rounded-md">
+                  {alerts.filter(alert => alert.status === 'OPEN').length} open
+                </span>
+              )}
             </h2>
             <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2">
               {alerts.length === 0 ? (
@@ -344,6 +1262,7 @@ export default function Dashboard() {
                     key={alert.id} 
                     className={cn(
                       "p-3 rounded-lg border text-sm flex gap-3",
+                      alert.status === 'RESOLVED' && alert.severity !== 'INFO' && "opacity-60",
                       alert.severity === 'CRITICAL' ? "bg-red-500/10 border-red-500/20 text-red-200" :
                       alert.severity === 'WARNING' ? "bg-orange-500/10 border-orange-500/20 text-orange-200" :
                       "bg-blue-500/10 border-blue-500/20 text-blue-200"
@@ -354,7 +1273,7 @@ export default function Dashboard() {
                        alert.severity === 'WARNING' ? <Activity className="w-4 h-4 text-orange-500" /> :
                        <MessageSquare className="w-4 h-4 text-blue-500" />}
                     </div>
-                    <div>
+                    <div className="flex-1">
                       <div className="flex items-center gap-2 mb-1">
                         <span className={cn(
                           "text-xs font-bold px-1.5 py-0.5 rounded",
@@ -365,9 +1284,27 @@ export default function Dashboard() {
                           {alert.type}
                         </span>
                         <span className="text-xs opacity-50">{format(alert.timestamp, 'HH:mm:ss')}</span>
+                        {alert.count > 1 && (
+                          <span className="text-xs opacity-70" title={`Last seen ${format(alert.lastSeenAt, 'HH:mm:ss')}`}>×{alert.count}</span>
+                        )}
+                        {alert.status === 'ACKNOWLEDGED' && (
+                          <span className="text-[10px] opacity-60">ACK {alert.acknowledgedBy}</span>
+                        )}
+                        {alert.status === 'RESOLVED' && alert.severity !== 'INFO' && (
+                          <span className="text-[10px] opacity-60">RESOLVED</span>
+                        )}
                       </div>
                       <p>{alert.message}</p>
                     </div>
+                    {canTrade && alert.status === 'OPEN' && (
+                      <button
+                        onClick={() => acknowledgeAlert(alert.id)}
+                        className="self-start text-[10px] px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 transition-colors"
+                        title="Acknowledge"
+                      >
+                        Ack
+                      </button>
+                    )}
                   </div>
                 ))
               )}
@@ -375,6 +1312,501 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Order Ticket */}
+        {canTrade && config && (
+          <div className="bg-[#141414] border border-white/5 rounded-xl p-4">
+            <h2 className="text-lg font-medium mb-4 flex justify-between items-center">
+              <span className="flex items-center gap-2">
+                <Send className="w-5 h-5" />
+                Order Ticket
+              </span>
+              <button
+                onClick={flattenAll}
+                disabled={Object.keys(portfolio.positions).length === 0}
+                className="text-xs px-3 py-1.5 rounded-md bg-red-500/10 text-red-400 hover:bg-red-500/20 disabled:opacity-40 transition-colors"
+              >
+                Flatten All
+              </button>
+            </h2>
+            <form onSubmit={submitTicket} className="flex flex-wrap items-end gap-3">
+              <TicketField label="Pair">
+                <select value={ticket.pair || config.config.pairs[0]} onChange={e => setTicket({ ...ticket, pair: e.target.value })} className="bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm">
+                  {config.config.pairs.map(pair => <option key={pair} value={pair}>{pair}</option>)}
+                </select>
+              </TicketField>
+              <TicketField label="Side">
+                <select value={ticket.side} onChange={e => setTicket({ ...ticket, side: e.target.value as OrderTicket['side'] })} className="bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm">
+                  <option value="BUY">BUY</option>
+                  <option value="SELL">SELL</option>
+                </select>
+              </TicketField>
+              <TicketField label="Type">
+                <select value={ticket.type} onChange={e => setTicket({ ...ticket, type: e.target.value as OrderType })} className="bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm">
+                  {(['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT', 'TAKE_PROFIT'] as OrderType[]).map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              </TicketField>
+              <TicketField label="Amount">
+                <input type="number" step="any" min="0" required value={ticket.amount} onChange={e => setTicket({ ...ticket, amount: e.target.value })} className="bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm w-28" />
+              </TicketField>
+              {(ticket.type === 'LIMIT' || ticket.type === 'STOP_LIMIT') && (
+                <TicketField label="Limit Price">
+                  <input type="number" step="any" min="0" required value={ticket.price} onChange={e => setTicket({ ...ticket, price: e.target.value })} className="bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm w-28" />
+                </TicketField>
+              )}
+              {(ticket.type === 'STOP' || ticket.type === 'STOP_LIMIT' || ticket.type === 'TAKE_PROFIT') && (
+                <TicketField label="Trigger Price">
+                  <input type="number" step="any" min="0" required value={ticket.stopPrice} onChange={e => setTicket({ ...ticket, stopPrice: e.target.value })} className="bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm w-28" />
+                </TicketField>
+              )}
+              <TicketField label="TIF">
+                <select value={ticket.timeInForce} onChange={e => setTicket({ ...ticket, timeInForce: e.target.value as OrderTicket['timeInForce'] })} className="bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm">
+                  <option value="GTC">GTC</option>
+                  <option value="IOC">IOC</option>
+                  <option value="FOK">FOK</option>
+                </select>
+              </TicketField>
+              <button
+                type="submit"
+                className={cn("px-4 py-1.5 rounded-md text-sm font-medium transition-colors",
+                  ticket.side === 'BUY' ? "bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30" : "bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                )}
+              >
+                {ticket.side === 'BUY' ? 'Buy' : 'Sell'}
+              </button>
+            </form>
+            {ticketStatus && (
+              <p className={cn("mt-3 text-xs", ticketStatus.ok ? "text-emerald-400" : "text-red-400")}>{ticketStatus.message}</p>
+            )}
+          </div>
+        )}
+
+        {/* Open Orders */}
+        <div className="bg-[#141414] border border-white/5 rounded-xl p-4">
+          <h2 className="text-lg font-medium mb-4 flex items-center gap-2">
+            <ListOrdered className="w-5 h-5" />
+            Open Orders
+            <span className="text-xs text-gray-500 bg-white/5 px-2 py-1 rounded-md">{openOrders.length}</span>
+          </h2>
+          <div className="overflow-x-auto max-h-[300px] overflow-y-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-gray-500 uppercase bg-white/5 sticky top-0">
+                <tr>
+                  <th className="px-4 py-3 rounded-tl-lg">Created</th>
+                  <th className="px-4 py-3">Pair</th>
+                  <th className="px-4 py-3">Type</th>
+                  <th className="px-4 py-3">Side</th>
+                  <th className="px-4 py-3">Price / Stop</th>
+                  <th className="px-4 py-3">Filled</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3 rounded-tr-lg"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {openOrders.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-8 text-center text-gray-500">No open orders</td>
+                  </tr>
+                ) : (
+                  openOrders.map((order) => (
+                    <tr key={order.id} className="border-b border-white/5 last:border-0 hover:bg-white/5 transition-colors">
+                      <td className="px-4 py-3 text-gray-400 font-mono text-xs">{format(order.createdAt, 'HH:mm:ss')}</td>
+                      <td className="px-4 py-3 font-medium">{order.pair}</td>
+                      <td className="px-4 py-3 text-xs">
+                        {order.type}{order.ocoGroupId ? ' (OCO)' : ''} · {order.timeInForce}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={cn(
+                          "px-2 py-1 rounded text-xs font-bold",
+                          order.side === 'BUY' ? "bg-emerald-500/10 text-emerald-500" : "bg-red-500/10 text-red-500"
+                        )}>
+                          {order.side}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs">
+                        {order.price !== undefined ? `$${order.price.toLocaleString()}` : 'MKT'}
+                        {order.stopPrice !== undefined && ` / $${order.stopPrice.toLocaleString()}`}
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs">{order.filledAmount.toFixed(4)} / {order.amount.toFixed(4)}</td>
+                      <td className="px-4 py-3 text-xs text-gray-400">{order.status}</td>
+                      <td className="px-4 py-3 text-right">
+                        {canTrade && (
+                          <button
+                            onClick={() => cancelOrder(order.id)}
+                            className="p-1 rounded hover:bg-red-500/20 text-gray-400 hover:text-red-500 transition-colors"
+                            title="Cancel order"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* News Sentiment */}
+        <div className="bg-[#141414] border border-white/5 rounded-xl p-4">
+          <h2 className="text-lg font-medium mb-4 flex justify-between items-center">
+            <span className="flex items-center gap-2">
+              <Newspaper className="w-5 h-5" />
+              News Sentiment
+            </span>
+            {canTrade && (
+              <button
+                onClick={refreshSentiment}
+                className="p-1.5 rounded-md bg-white/5 hover:bg-white/10 text-gray-400 transition-colors"
+                title="Poll sources now"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </button>
+            )}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {sentiment.map(entry => (
+              <div key={entry.pair} className="bg-white/5 rounded-lg p-3">
+                <div className="flex justify-between items-baseline mb-2">
+                  <span className="font-medium">{entry.pair}</span>
+                  <span className={cn("font-mono text-sm", entry.score > 0.05 ? "text-emerald-400" : entry.score < -0.05 ? "text-red-400" : "text-gray-400")}>
+                    {entry.score >= 0 ? '+' : ''}{entry.score.toFixed(2)}
+                    <span className="text-xs text-gray-500 ml-2">{entry.items} items</span>
+                  </span>
+                </div>
+                {entry.headlines.length === 0 ? (
+                  <p className="text-xs text-gray-500">No recent headlines</p>
+                ) : (
+                  <ul className="space-y-1.5">
+                    {entry.headlines.map(headline => (
+                      <li key={headline.id} className="text-xs flex gap-2" title={`${headline.source} · scored by ${headline.scorer}`}>
+                        <span className={cn("font-mono shrink-0 w-10 text-right", headline.score > 0 ? "text-emerald-400" : headline.score < 0 ? "text-red-400" : "text-gray-500")}>
+                          {headline.score >= 0 ? '+' : ''}{headline.score.toFixed(2)}
+                        </span>
+                        <span className="text-gray-500 font-mono shrink-0">{format(headline.publishedAt, 'HH:mm')}</span>
+                        {headline.url ? (
+                          <a href={headline.url} target="_blank" rel="noreferrer" className="text-gray-300 hover:text-white truncate">{headline.title}</a>
+                        ) : (
+                          <span className="text-gray-300 truncate">{headline.title}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Risk Controls */}
+        <div className="bg-[#141414] border border-white/5 rounded-xl p-4">
+          <h2 className="text-lg font-medium mb-4 flex flex-wrap items-center gap-2">
+            <ShieldAlert className="w-5 h-5" />
+            Risk Controls
+            {config && (
+              <span className="text-xs text-gray-500 bg-white/5 px-2 py-1 rounded-md">
+                Max order ${config.config.preTrade.maxOrderNotional.toLocaleString()} • Collar {(config.config.preTrade.priceCollar * 100).toFixed(1)}% • Daily loss {(config.config.preTrade.maxDailyLoss * 100).toFixed(1)}% • {config.config.preTrade.maxOrdersPerMinute}/min
+              </span>
+            )}
+          </h2>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <h3 className="text-xs text-gray-500 uppercase mb-2">Rejected Orders</h3>
+              <div className="overflow-x-auto max-h-[300px] overflow-y-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-gray-500 uppercase bg-white/5 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-3 rounded-tl-lg">Time</th>
+                      <th className="px-4 py-3">Pair</th>
+                      <th className="px-4 py-3">Side</th>
+                      <th className="px-4 py-3">Strategy</th>
+                      <th className="px-4 py-3 rounded-tr-lg">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rejections.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="px-4 py-8 text-center text-gray-500">No rejected orders</td>
+                      </tr>
+                    ) : (
+                      rejections.map(log => (
+                        <tr key={log.id} className="border-b border-white/5 last:border-0">
+                          <td className="px-4 py-3 text-gray-400 font-mono text-xs">{format(log.timestamp, 'HH:mm:ss')}</td>
+                          <td className="px-4 py-3 font-medium">{log.pair}</td>
+                          <td className={cn("px-4 py-3 text-xs font-bold", log.type === 'BUY' ? "text-emerald-500" : "text-red-500")}>{log.type}</td>
+                          <td className="px-4 py-3 text-xs text-gray-400">
+                            {log.strategy ?? '-'}{log.placedBy && <span className="ml-1 text-gray-500">({log.placedBy})</span>}
+                          </td>
+                          <td className="px-4 py-3 text-xs text-red-300">{log.reason ?? 'unknown reason'}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            <div>
+              <h3 className="text-xs text-gray-500 uppercase mb-2 flex items-center gap-2">
+                Kill Switch
+                <span className={cn("px-1.5 py-0.5 rounded text-[10px] font-bold", killSwitch?.tripped ? "bg-red-500/20 text-red-400" : "bg-emerald-500/10 text-emerald-400")}>
+                  {killSwitch?.tripped ? 'TRIPPED' : 'ARMED'}
+                </span>
+              </h3>
+              <div className="space-y-2 max-h-[300px] overflow-y-auto">
+                {!killSwitch || killSwitch.events.length === 0 ? (
+                  <p className="text-sm text-gray-500">Never tripped</p>
+                ) : (
+                  killSwitch.events.map(event => (
+                    <div key={event.id} className="p-2 rounded-lg bg-white/5 border border-white/5 text-xs">
+                      <div className="flex justify-between mb-1">
+                        <span className={cn("font-bold", event.action === 'TRIPPED' ? "text-red-400" : "text-emerald-400")}>
+                          {event.action}{event.action === 'REARMED' && ` by ${event.actor}`}
+                        </span>
+                        <span className="text-gray-500">{format(event.createdAt, 'MMM d HH:mm')}</span>
+                      </div>
+                      <p className="text-gray-300">{event.reason}</p>
+                      <p className="text-gray-500 font-mono">
+                        Drawdown {(event.drawdown * 100).toFixed(2)}%
+                        {event.baselineEquity != null && ` · baseline $${event.baselineEquity.toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Tail Risk */}
+        <div className="bg-[#141414] border border-white/5 rounded-xl p-4">
+          <h2 className="text-lg font-medium mb-4 flex flex-wrap items-center gap-2">
+            <Flame className="w-5 h-5" />
+            Tail Risk
+            {riskReport && (
+              <span className="text-xs text-gray-500 bg-white/5 px-2 py-1 rounded-md">
+                {riskReport.returns} hourly returns • {format(riskReport.computedAt, 'HH:mm')}
+                {riskReport.alertLimit !== null && ` • alert above $${riskReport.alertLimit.toFixed(0)}`}
+              </span>
+            )}
+            {riskReport?.breach && (
+              <span className="text-xs font-bold text-red-400 bg-red-500/10 px-2 py-1 rounded-md">VAR LIMIT BREACHED</span>
+            )}
+          </h2>
+          {riskReport?.error && <p className="text-xs text-amber-400 mb-3">{riskReport.error}</p>}
+          {!riskReport ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-xs text-gray-500 uppercase mb-2">Value at Risk / Expected Shortfall</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-gray-500 uppercase bg-white/5">
+                      <tr>
+                        <th className="px-4 py-3 rounded-tl-lg">Level</th>
+                        {VAR_METHODS.map((method, i) => (
+                          <th key={method} className={cn("px-4 py-3 text-right", i === VAR_METHODS.length - 1 && "rounded-tr-lg")}>{method}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {riskReport.estimates.filter(estimate => estimate.method === 'historical').map(row => (
+                        <tr key={`${row.confidence}-${row.horizonHours}`} className="border-b border-white/5 last:border-0">
+                          <td className="px-4 py-3 font-medium">{(row.confidence * 100).toFixed(1).replace(/\.0$/, '')}% • {row.horizonHours}h</td>
+                          {VAR_METHODS.map(method => {
+                            const estimate = riskReport.estimates.find(e => e.method === method && e.confidence === row.confidence && e.horizonHours === row.horizonHours);
+                            const breached = riskReport.alertLimit !== null && estimate !== undefined && estimate.valueAtRisk > riskReport.alertLimit;
+                            return (
+                              <td key={method} className="px-4 py-3 text-right font-mono text-xs">
+                                {estimate ? (
+                                  <>
+                                    <div className={cn(breached ? "text-red-400 font-bold" : "text-gray-200")}>
+                                      ${estimate.valueAtRisk.toFixed(2)}
+                                      {riskReport.equity > 0 && <span className="text-gray-500 ml-1">{(estimate.valueAtRisk / riskReport.equity * 100).toFixed(2)}%</span>}
+                                    </div>
+                                    <div className="text-gray-500">ES ${estimate.expectedShortfall.toFixed(2)}</div>
+                                  </>
+                                ) : '-'}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+              <div>
+                <h3 className="text-xs text-gray-500 uppercase mb-2">Stress Scenarios</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-gray-500 uppercase bg-white/5">
+                      <tr>
+                        <th className="px-4 py-3 rounded-tl-lg">Scenario</th>
+                        <th className="px-4 py-3 text-right rounded-tr-lg">PnL</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {riskReport.stress.map(result => (
+                        <tr key={result.name} className="border-b border-white/5 last:border-0">
+                          <td className="px-4 py-3">
+                            <div className="font-medium">{result.name}</div>
+                            <div className="text-xs text-gray-500">{result.description}</div>
+                          </td>
+                          <td className={cn("px-4 py-3 text-right font-mono text-xs", result.pnl < 0 ? "text-red-400" : result.pnl > 0 ? "text-emerald-400" : "text-gray-400")}>
+                            ${result.pnl.toFixed(2)}
+                            <div className="text-gray-500">{(result.pnlPct * 100).toFixed(2)}%</div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Allocation Optimizer */}
+        <div className="bg-[#141414] border border-white/5 rounded-xl p-4">
+          <h2 className="text-lg font-medium mb-4 flex flex-wrap justify-between items-center gap-2">
+            <span className="flex items-center gap-2">
+              <Scale className="w-5 h-5" />
+              Allocation Optimizer
+              {optimizer && (
+                <span className="text-xs text-gray-500 bg-white/5 px-2 py-1 rounded-md">
+                  {optimizer.status.enabled
+                    ? `${optimizer.status.method} every ${(config?.config.optimizer.intervalMs ?? 0) / 3_600_000}h${optimizer.status.autoApply ? ', auto-apply' : ''}`
+                    : 'schedule off'}
+                </span>
+              )}
+            </span>
+            {canTrade && (
+              <span className="flex items-center gap-2">
+                <select value={optimizerMethod} onChange={e => setOptimizerMethod(e.target.value as AllocationMethod | '')} className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-sm">
+                  <option value="">Configured method</option>
+                  {ALLOCATION_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                </select>
+                <button
+                  onClick={() => optimizerAction('/api/optimizer/propose', optimizerMethod ? { method: optimizerMethod } : {})}
+                  className="px-3 py-1 rounded-md bg-white/5 hover:bg-white/10 text-sm text-gray-300 transition-colors"
+                >
+                  Propose
+                </button>
+              </span>
+            )}
+          </h2>
+          {(optimizerError ?? optimizer?.status.lastError) && (
+            <p className="text-xs text-red-400 mb-3">{optimizerError ?? optimizer?.status.lastError}</p>
+          )}
+          {!latestProposal ? (
+            <p className="text-sm text-gray-500">No proposal yet. Weights come from the covariance of hourly returns once enough bars are stored.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap justify-between items-center gap-2 mb-3 text-xs text-gray-500">
+                <span>
+                  #{latestProposal.id} {latestProposal.method} over {latestProposal.returns} hourly returns • {latestProposal.trigger === 'schedule' ? 'scheduled' : `by ${latestProposal.requestedBy}`} at {format(latestProposal.createdAt, 'MMM d HH:mm')}
+                </span>
+                <span className="flex items-center gap-3">
+                  <span className="font-mono">
+                    Volatility {(latestProposal.currentVolatility * 100).toFixed(1)}% → {(latestProposal.portfolioVolatility * 100).toFixed(1)}%
+                  </span>
+                  {latestProposal.status === 'pending' && isAdmin ? (
+                    <button
+                      onClick={() => optimizerAction(`/api/optimizer/proposals/${latestProposal.id}/apply`, {})}
+                      className="px-3 py-1 rounded-md bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 transition-colors"
+                    >
+                      Apply
+                    </button>
+                  ) : (
+                    <span className="uppercase">
+                      {latestProposal.status}{latestProposal.status === 'applied' && latestProposal.configVersion !== null ? ` as config v${latestProposal.configVersion}` : ''}
+                    </span>
+                  )}
+                </span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-gray-500 uppercase bg-white/5">
+                    <tr>
+                      <th className="px-4 py-3 rounded-tl-lg">Pair</th>
+                      <th className="px-4 py-3">Current</th>
+                      <th className="px-4 py-3">Proposed</th>
+                      <th className="px-4 py-3">Change</th>
+                      <th className="px-4 py-3">Volatility</th>
+                      <th className="px-4 py-3 rounded-tr-lg">Risk Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.keys(latestProposal.weights).map(pair => {
+                      const change = latestProposal.weights[pair] - (latestProposal.current[pair] ?? 0);
+                      return (
+                        <tr key={pair} className="border-b border-white/5">
+                          <td className="px-4 py-3 font-medium">{pair}</td>
+                          <td className="px-4 py-3 font-mono">{((latestProposal.current[pair] ?? 0) * 100).toFixed(1)}%</td>
+                          <td className="px-4 py-3 font-mono">{(latestProposal.weights[pair] * 100).toFixed(1)}%</td>
+                          <td className={cn("px-4 py-3 font-mono", change > 0.0005 ? "text-emerald-400" : change < -0.0005 ? "text-red-400" : "text-gray-500")}>
+                            {change >= 0 ? '+' : ''}{(change * 100).toFixed(1)}%
+                          </td>
+                          <td className="px-4 py-3 font-mono text-gray-400">{(latestProposal.volatility[pair] * 100).toFixed(1)}%</td>
+                          <td className="px-4 py-3 font-mono text-gray-400">{(latestProposal.riskContribution[pair] * 100).toFixed(1)}%</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Venue Quotes */}
+        <div className="bg-[#141414] border border-white/5 rounded-xl p-4">
+          <h2 className="text-lg font-medium mb-4 flex items-center gap-2">
+            <Globe className="w-5 h-5" />
+            Venue Quotes
+            <span className="text-xs text-gray-500 bg-white/5 px-2 py-1 rounded-md">best bid / offer highlighted</span>
+          </h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-gray-500 uppercase bg-white/5">
+                <tr>
+                  <th className="px-4 py-3 rounded-tl-lg">Pair</th>
+                  {venueNames.map(venue => (
+                    <th key={venue} className="px-4 py-3">{venue}</th>
+                  ))}
+                  <th className="px-4 py-3 rounded-tr-lg">Consolidated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(marketData).map(([pair, data]: [string, any]) => (
+                  <tr key={pair} className="border-b border-white/5 last:border-0">
+                    <td className="px-4 py-3 font-medium">{pair}</td>
+                    {venueNames.map(venue => {
+                      const quote: VenueQuote | undefined = data.venues?.[venue];
+                      return (
+                        <td key={venue} className="px-4 py-3 font-mono text-xs">
+                          {quote ? (
+                            <>
+                              <span className={cn(data.bidVenue === venue ? "text-emerald-400 font-bold" : "text-gray-400")}>{quote.bid.toFixed(2)}</span>
+                              <span className="text-gray-600"> / </span>
+                              <span className={cn(data.askVenue === venue ? "text-red-400 font-bold" : "text-gray-400")}>{quote.ask.toFixed(2)}</span>
+                            </>
+                          ) : <span className="text-gray-600">-</span>}
+                        </td>
+                      );
+                    })}
+                    <td className="px-4 py-3 font-mono text-xs">
+                      {data.bid?.toFixed(2)} / {data.ask?.toFixed(2)}
+                      {data.bid > data.ask && <span className="ml-2 text-orange-400">crossed</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
       </div>
     </div>
   );
@@ -405,3 +1837,21 @@ function StatCard({ title, value, icon, trend, subtitle, alert }: { title: strin
     </div>
   );
 }
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-gray-500 uppercase tracking-wider text-[10px]">{label}</div>
+      <div className="text-gray-200 mt-0.5">{value}</div>
+    </div>
+  );
+}
+
+function TicketField({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-gray-500 uppercase tracking-wider text-[10px]">{label}</span>
+      {children}
+    </label>
+  );
+}
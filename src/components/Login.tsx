@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Activity, LogIn } from 'lucide-react';
+import { login, Session } from '../auth';
+
+export default function Login({ onLogin }: { onLogin: (session: Session) => void }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      onLogin(await login(username, password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-gray-100 flex items-center justify-center p-4 font-sans">
+      <form onSubmit={submit} className="w-full max-w-sm bg-[#141414] border border-white/5 rounded-xl p-6 space-y-4">
+        <h1 className="text-xl font-bold tracking-tight text-white flex items-center gap-2">
+          <Activity className="w-5 h-5 text-emerald-500" />
+          Quant AI Trading Engine
+        </h1>
+        <label className="block text-sm text-gray-400">
+          Username
+          <input
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-emerald-500/50"
+          />
+        </label>
+        <label className="block text-sm text-gray-400">
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-emerald-500/50"
+          />
+        </label>
+        {error && <div className="text-sm text-red-400">{error}</div>}
+        <button
+          type="submit"
+          disabled={submitting || !username || !password}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium bg-emerald-500/10 text-emerald-500 hover:bg-emerald-500/20 border border-emerald-500/20 disabled:opacity-50 transition-colors"
+        >
+          <LogIn className="w-4 h-4" />
+          {submitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}